@@ -0,0 +1,64 @@
+#!/usr/bin/env bun
+/**
+ * Backfill open/close prices for volume rows stored before they were tracked.
+ *
+ * 1. 10-minute buckets are filled from the stored trades table (no Dune calls)
+ * 2. Hourly and daily rows are filled from the level below via the DB aggregation functions
+ *
+ * Buckets with no stored trades stay at 0 and candles fall back to their average price.
+ * To re-fetch those from Dune instead, run scripts/backfillExtendedFields.ts, which now
+ * treats missing open/close as missing fields.
+ *
+ * Usage:
+ *   bun run scripts/backfillOpenClose.ts
+ *
+ * Required environment variables:
+ *   - DATABASE_URL: PostgreSQL connection string
+ */
+
+import { DatabaseService } from '../src/services/databaseService.js';
+
+async function main() {
+  console.log('🚀 Starting open/close backfill...');
+
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL is required');
+    process.exit(1);
+  }
+
+  const databaseService = new DatabaseService();
+  await databaseService.initialize();
+
+  if (!databaseService.isAvailable() || !databaseService.pool) {
+    console.error('❌ Failed to connect to database');
+    process.exit(1);
+  }
+
+  console.log('✅ Database connected');
+
+  try {
+    const results = await databaseService.backfillOpenClose();
+    console.log(`   Updated 10-minute buckets: ${results.tenMinuteUpdated}`);
+    console.log(`   Updated hourly records: ${results.hourlyUpdated}`);
+    console.log(`   Updated daily records: ${results.dailyUpdated}`);
+
+    const remaining = await databaseService.pool.query(`
+      SELECT COUNT(*) AS missing
+      FROM ten_minute_volumes
+      WHERE open = 0 OR close = 0
+    `);
+    console.log(`   10-minute buckets still missing open/close: ${remaining.rows[0]?.missing ?? 0}`);
+
+    console.log('');
+    console.log('✅ Backfill complete!');
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  } finally {
+    await databaseService.close();
+  }
+
+  process.exit(0);
+}
+
+main();
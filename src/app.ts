@@ -18,6 +18,18 @@ import type { HourlyAggregationService } from './services/hourlyAggregationServi
 import type { TenMinuteVolumeFetcherService } from './services/tenMinuteVolumeFetcherService.js';
 import type { DailyAggregationService } from './services/dailyAggregationService.js';
 import type { MeteoraVolumeFetcherService } from './services/meteoraVolumeFetcherService.js';
+import type { TradeFetcherService } from './services/tradeFetcherService.js';
+import type { SwapIndexerService } from './services/swapIndexerService.js';
+import type { FeeVolumeService } from './services/feeVolumeService.js';
+import type { ReconciliationService } from './services/reconciliationService.js';
+import type { TenMinuteGapService } from './services/tenMinuteGapService.js';
+import type { PoolWatcherService } from './services/poolWatcherService.js';
+import { TickerService } from './services/tickerService.js';
+import { TickerSnapshotService } from './services/tickerSnapshotService.js';
+import { createVolumeSources } from './services/volumeSources.js';
+import { CandleService } from './services/candleService.js';
+import { DaoService } from './services/daoService.js';
+import type { DaoRegistryService } from './services/daoRegistryService.js';
 
 export interface Services {
   futarchyService: FutarchyService;
@@ -31,6 +43,17 @@ export interface Services {
   tenMinuteVolumeFetcherService?: TenMinuteVolumeFetcherService | null;
   dailyAggregationService?: DailyAggregationService | null;
   meteoraVolumeFetcherService?: MeteoraVolumeFetcherService | null;
+  tradeFetcherService?: TradeFetcherService | null;
+  swapIndexerService?: SwapIndexerService | null;
+  feeVolumeService?: FeeVolumeService | null;
+  reconciliationService?: ReconciliationService | null;
+  tenMinuteGapService?: TenMinuteGapService | null;
+  tickerService?: TickerService;
+  tickerSnapshotService?: TickerSnapshotService;
+  poolWatcherService?: PoolWatcherService | null;
+  candleService?: CandleService;
+  daoService?: DaoService;
+  daoRegistryService?: DaoRegistryService | null;
 }
 
 export interface AppOptions {
@@ -74,7 +97,8 @@ function createMetricsMiddleware() {
     const startTime = Date.now();
     metricsService.incrementHttpRequestsInFlight();
 
-    res.on('finish', () => {
+    // 'close' rather than 'finish', which never fires when a client drops an open stream
+    res.on('close', () => {
       metricsService.decrementHttpRequestsInFlight();
       const durationSeconds = (Date.now() - startTime) / 1000;
       metricsService.recordHttpRequest(req.method, req.path, res.statusCode, durationSeconds);
@@ -85,6 +109,31 @@ function createMetricsMiddleware() {
 }
 
 function createServiceGetters(services: Services): ServiceGetters {
+  let tickerService = services.tickerService ?? null;
+  let tickerSnapshotService = services.tickerSnapshotService ?? null;
+  let candleService = services.candleService ?? null;
+  let daoService = services.daoService ?? null;
+
+  const getTickerService = (): TickerService => {
+    // Built on first use when not provided, so tests only need to supply its dependencies
+    if (!tickerService) {
+      tickerService = new TickerService(
+        services.futarchyService,
+        services.priceService,
+        services.databaseService,
+        createVolumeSources(services)
+      );
+    }
+    return tickerService;
+  };
+
+  const getTickerSnapshotService = (): TickerSnapshotService => {
+    if (!tickerSnapshotService) {
+      tickerSnapshotService = new TickerSnapshotService(getTickerService(), services.databaseService);
+    }
+    return tickerSnapshotService;
+  };
+
   return {
     getFutarchyService: () => services.futarchyService,
     getPriceService: () => services.priceService,
@@ -103,6 +152,32 @@ function createServiceGetters(services: Services): ServiceGetters {
     getTenMinuteVolumeFetcherService: () => services.tenMinuteVolumeFetcherService ?? null,
     getDailyAggregationService: () => services.dailyAggregationService ?? null,
     getMeteoraVolumeFetcherService: () => services.meteoraVolumeFetcherService ?? null,
+    getTradeFetcherService: () => services.tradeFetcherService ?? null,
+    getSwapIndexerService: () => services.swapIndexerService ?? null,
+    getFeeVolumeService: () => services.feeVolumeService ?? null,
+    getReconciliationService: () => services.reconciliationService ?? null,
+    getTenMinuteGapService: () => services.tenMinuteGapService ?? null,
+    getPoolWatcherService: () => services.poolWatcherService ?? null,
+    getTickerService,
+    getTickerSnapshotService,
+    getCandleService: () => {
+      if (!candleService) {
+        candleService = new CandleService(services.databaseService);
+      }
+      return candleService;
+    },
+    getDaoService: () => {
+      if (!daoService) {
+        daoService = new DaoService(
+          services.futarchyService,
+          getTickerSnapshotService(),
+          services.launchpadService ?? null,
+          services.solanaService ?? null
+        );
+      }
+      return daoService;
+    },
+    getDaoRegistryService: () => services.daoRegistryService ?? null,
   };
 }
 
@@ -118,6 +193,7 @@ export function createApp(options: AppOptions): Application {
   app.use((req: Request, res: Response, next: NextFunction) => {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
+    res.header('Access-Control-Expose-Headers', 'X-Data-Age, X-Data-Stale, X-Snapshot-Time');
     next();
   });
 
@@ -1,5 +1,6 @@
 import { PublicKey } from '@solana/web3.js';
 import dotenv from 'dotenv';
+import type { VolumeSourceName } from './services/volumeSources.js';
 
 dotenv.config();
 
@@ -27,6 +28,16 @@ export const config = {
     // Higher = less RPC load but slightly stale prices
     tickersTTL: parseInt(process.env.CACHE_TICKERS_TTL || '10000'),
   },
+  tickers: {
+    // How often the ticker snapshot is rebuilt in the background (default: 10 seconds)
+    refreshIntervalMs: parseInt(process.env.TICKER_REFRESH_INTERVAL || process.env.CACHE_TICKERS_TTL || '10000'),
+    // Oldest snapshot served while refreshes fail; older requests wait for a rebuild (default: 5 minutes)
+    maxStalenessMs: parseInt(process.env.TICKER_MAX_STALENESS || '300000'),
+    // How often the /api/tickers payload is stored in ticker_snapshots (default: 5 minutes)
+    historyIntervalMs: parseInt(process.env.TICKER_HISTORY_INTERVAL || '300000'),
+    // How long stored ticker snapshots are kept (default: 90 days)
+    historyRetentionDays: parseInt(process.env.TICKER_HISTORY_RETENTION_DAYS || '90'),
+  },
   dex: {
     forkType: process.env.DEX_FORK_TYPE || 'Custom',
     factoryAddress: process.env.FACTORY_ADDRESS || '',
@@ -41,12 +52,93 @@ export const config = {
     // Protocol fee rate (e.g., 0.0025 = 0.25%)
     protocolFeeRate: parseFloat(process.env.PROTOCOL_FEE_RATE || '0.0025'),
   },
+  bidAsk: {
+    // Reference trade size in quote units (e.g., 100 = $100 for USDC pools)
+    // bid/ask are the execution prices of a sell/buy of this size against the pool
+    referenceTradeSize: parseFloat(process.env.BID_ASK_REFERENCE_SIZE || '100'),
+    // Per-DAO overrides, format: DAO_ADDRESS:SIZE,DAO_ADDRESS:SIZE
+    referenceTradeSizeOverrides: Object.fromEntries(
+      (process.env.BID_ASK_REFERENCE_SIZE_OVERRIDES || '')
+        .split(',')
+        .map(entry => entry.trim().split(':'))
+        .filter(([addr, size]) => addr && size && !isNaN(parseFloat(size)))
+        .map(([addr, size]) => [addr!, parseFloat(size!)])
+    ) as Record<string, number>,
+  },
+  quotePricing: {
+    // Quote mints priced at exactly $1 (default: USDC, USDT)
+    stablecoins: (process.env.QUOTE_STABLECOIN_MINTS ||
+      'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v,Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB')
+      .split(',')
+      .map(mint => mint.trim())
+      .filter(mint => mint.length > 0),
+    // Pyth price accounts for other quote mints, format: MINT:PRICE_ACCOUNT,MINT:PRICE_ACCOUNT (default: SOL/USD)
+    pythFeeds: Object.fromEntries(
+      (process.env.PYTH_PRICE_FEEDS ??
+        'So11111111111111111111111111111111111111112:H6ARHf6YXhGYeQfUzQNGk6rDNnLBQKrenN712K4AQJEG')
+        .split(',')
+        .map(entry => entry.trim().split(':'))
+        .filter(([mint, account]) => mint && account)
+        .map(([mint, account]) => [mint!, account!])
+    ) as Record<string, string>,
+    // Reject Pyth prices older than this (seconds)
+    maxPriceAgeSeconds: parseInt(process.env.PYTH_MAX_PRICE_AGE || '120'),
+    // How long a resolved quote price is reused (milliseconds)
+    cacheTtlMs: parseInt(process.env.QUOTE_PRICE_CACHE_TTL || '30000'),
+  },
+  volume: {
+    // Rolling 24h volume sources in priority order; each DAO falls back to the next source independently
+    sourcePriority: (process.env.VOLUME_SOURCE_PRIORITY || '10-minute,indexer,hourly,dune-cache,fee-delta')
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => ['10-minute', 'indexer', 'hourly', 'dune-cache', 'fee-delta'].includes(name)) as VolumeSourceName[],
+  },
+  tenMinuteGaps: {
+    // Find missing or stale 10-minute buckets and re-fetch them from Dune (requires the 10-minute fetcher and a database)
+    enabled: process.env.TEN_MINUTE_GAP_REPAIR_ENABLED !== 'false',
+    // How often recent buckets are scanned (default: 30 minutes)
+    intervalMs: parseInt(process.env.TEN_MINUTE_GAP_SCAN_INTERVAL || '1800000'),
+    // How far back buckets are scanned; 10-minute data is only kept for 25 hours (default: 24)
+    lookbackHours: Math.min(parseInt(process.env.TEN_MINUTE_GAP_LOOKBACK_HOURS || '24'), 24),
+  },
+  reconciliation: {
+    // Compare stored 10-minute volume with volume implied by on-chain protocol fee growth (requires a database)
+    enabled: process.env.RECONCILIATION_ENABLED !== 'false',
+    // How often fee counters are sampled and recent days reconciled (default: 1 hour)
+    intervalMs: parseInt(process.env.RECONCILIATION_INTERVAL || '3600000'),
+    // Relative difference above which a DAO-day is flagged (default: 0.05 = 5%)
+    threshold: parseFloat(process.env.RECONCILIATION_THRESHOLD || '0.05'),
+    // Completed days re-checked on every run, so late-arriving volume is picked up (default: 3)
+    lookbackDays: parseInt(process.env.RECONCILIATION_LOOKBACK_DAYS || '3'),
+  },
+  feeVolume: {
+    // Estimate volume from protocol fee growth when Dune isn't configured (no DUNE_API_KEY, or DEV_MODE)
+    enabled: process.env.FEE_VOLUME_ENABLED !== 'false',
+    // How often protocol fees are sampled (default: 5 minutes)
+    intervalMs: parseInt(process.env.FEE_VOLUME_INTERVAL || '300000'),
+  },
   dune: {
     apiKey: process.env.DUNE_API_KEY || '',
     // ACTIVE: 10-minute query - single source of truth, all other data aggregated from this
     tenMinuteVolumeQueryId: process.env.DUNE_TEN_MINUTE_VOLUME_QUERY_ID ? parseInt(process.env.DUNE_TEN_MINUTE_VOLUME_QUERY_ID) : undefined,
     // ACTIVE: Meteora daily volumes query - tracks Meteora pool fees per owner (service currently disabled)
     meteoraVolumeQueryId: process.env.DUNE_METEORA_VOLUME_QUERY_ID ? parseInt(process.env.DUNE_METEORA_VOLUME_QUERY_ID) : undefined,
+    // ACTIVE: Individual swaps query - feeds the trades table behind /api/historical_trades
+    tradesQueryId: process.env.DUNE_TRADES_QUERY_ID ? parseInt(process.env.DUNE_TRADES_QUERY_ID) : undefined,
+  },
+  swapIndexer: {
+    // Index spot swaps from RPC into trades and ten_minute_volumes, without Dune
+    enabled: process.env.SWAP_INDEXER_ENABLED === 'true',
+    // How often new swaps are indexed (default: 1 minute)
+    intervalMs: parseInt(process.env.SWAP_INDEXER_INTERVAL || '60000'),
+    // Swaps older than this are never indexed, bounding the first run and catch-up after downtime (default: 24 hours)
+    backfillHours: parseInt(process.env.SWAP_INDEXER_BACKFILL_HOURS || '24'),
+  },
+  poolWatcher: {
+    // Subscribe to DAO accounts over SOLANA_WS_URL and reprice tickers as soon as reserves change
+    enabled: process.env.POOL_WATCHER_ENABLED !== 'false',
+    // How often DAOs are rediscovered to subscribe to new ones (default: 10 minutes)
+    resyncIntervalMs: parseInt(process.env.POOL_WATCHER_RESYNC_INTERVAL || '600000'),
   },
   database: {
     // PostgreSQL connection - can use either connection string or individual params
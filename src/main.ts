@@ -10,13 +10,30 @@ import { HourlyAggregationService } from './services/hourlyAggregationService.js
 import { TenMinuteVolumeFetcherService } from './services/tenMinuteVolumeFetcherService.js';
 import { DailyAggregationService } from './services/dailyAggregationService.js';
 import { MeteoraVolumeFetcherService } from './services/meteoraVolumeFetcherService.js';
+import { TradeFetcherService } from './services/tradeFetcherService.js';
+import { SwapIndexerService } from './services/swapIndexerService.js';
+import { FeeVolumeService } from './services/feeVolumeService.js';
+import { ReconciliationService } from './services/reconciliationService.js';
+import { TenMinuteGapService } from './services/tenMinuteGapService.js';
+import { TickerService } from './services/tickerService.js';
+import { CandleService } from './services/candleService.js';
+import { TickerSnapshotService } from './services/tickerSnapshotService.js';
+import { PoolWatcherService } from './services/poolWatcherService.js';
+import { DaoService } from './services/daoService.js';
+import { DaoRegistryService } from './services/daoRegistryService.js';
+import { createVolumeSources } from './services/volumeSources.js';
+import { createQuotePriceService } from './services/quotePriceService.js';
 import { config } from './config.js';
 import { logger } from './utils/logger.js';
 import { scheduleWithoutPileup, scheduleDailyAtUTC, type ScheduledTask } from './utils/scheduling.js';
 import { saveHealthSnapshots } from './routes/health.js';
+import { saveTickerSnapshot } from './routes/coingecko.js';
 import type { ServiceGetters } from './routes/types.js';
 import type { Server } from 'http';
 
+// How long in-flight requests get to finish on shutdown before open connections are closed
+const SHUTDOWN_GRACE_MS = 10_000;
+
 function initializeServices(): Services {
   const futarchyService = new FutarchyService();
   const priceService = new PriceService();
@@ -34,6 +51,7 @@ function initializeServices(): Services {
   let tenMinuteVolumeFetcherService: TenMinuteVolumeFetcherService | null = null;
   let dailyAggregationService: DailyAggregationService | null = null;
   let meteoraVolumeFetcherService: MeteoraVolumeFetcherService | null = null;
+  let tradeFetcherService: TradeFetcherService | null = null;
 
   if (duneService) {
     duneCacheService = new DuneCacheService(duneService, databaseService, futarchyService);
@@ -41,8 +59,43 @@ function initializeServices(): Services {
     tenMinuteVolumeFetcherService = new TenMinuteVolumeFetcherService(duneService, databaseService, futarchyService);
     dailyAggregationService = new DailyAggregationService(duneService, databaseService, futarchyService);
     meteoraVolumeFetcherService = new MeteoraVolumeFetcherService(duneService, databaseService);
+    tradeFetcherService = new TradeFetcherService(duneService, databaseService, futarchyService);
   }
 
+  // On-chain swap indexing works with or without Dune
+  const swapIndexerService = config.swapIndexer.enabled
+    ? new SwapIndexerService(futarchyService, databaseService)
+    : null;
+
+  // Without Dune, estimate volume from protocol fee growth instead of reporting zero
+  const feeVolumeService = config.feeVolume.enabled && (!duneService || config.devMode)
+    ? new FeeVolumeService(futarchyService, priceService)
+    : null;
+
+  // Re-fetch 10-minute buckets the fetcher missed; needs the Dune query to re-fetch from
+  const tenMinuteGapService = tenMinuteVolumeFetcherService && config.tenMinuteGaps.enabled && config.dune.tenMinuteVolumeQueryId
+    ? new TenMinuteGapService(tenMinuteVolumeFetcherService, databaseService, futarchyService)
+    : null;
+
+  const reconciliationService = config.reconciliation.enabled
+    ? new ReconciliationService(futarchyService, databaseService)
+    : null;
+
+  const tickerService = new TickerService(
+    futarchyService,
+    priceService,
+    databaseService,
+    createVolumeSources({ tenMinuteVolumeFetcherService, swapIndexerService, hourlyAggregationService, duneCacheService, feeVolumeService }),
+    createQuotePriceService()
+  );
+  const tickerSnapshotService = new TickerSnapshotService(tickerService, databaseService);
+  const poolWatcherService = config.poolWatcher.enabled
+    ? new PoolWatcherService(futarchyService, tickerSnapshotService)
+    : null;
+  const candleService = new CandleService(databaseService);
+  const daoService = new DaoService(futarchyService, tickerSnapshotService, launchpadService, solanaService);
+  const daoRegistryService = new DaoRegistryService(futarchyService, databaseService, launchpadService);
+
   return {
     futarchyService,
     priceService,
@@ -55,6 +108,17 @@ function initializeServices(): Services {
     tenMinuteVolumeFetcherService,
     dailyAggregationService,
     meteoraVolumeFetcherService,
+    tradeFetcherService,
+    swapIndexerService,
+    feeVolumeService,
+    reconciliationService,
+    tenMinuteGapService,
+    tickerService,
+    tickerSnapshotService,
+    poolWatcherService,
+    candleService,
+    daoService,
+    daoRegistryService,
   };
 }
 
@@ -87,6 +151,37 @@ async function startServices(services: Services): Promise<void> {
     }
   }
 
+  // After the fetcher's startup backfill, so the first scan sees its coverage
+  if (services.tenMinuteGapService) {
+    logger.info('Starting 10-Minute Gap service');
+    services.tenMinuteGapService.start();
+  }
+
+  if (services.tradeFetcherService) {
+    logger.info('Starting Trade Fetcher service');
+    try {
+      await services.tradeFetcherService.start();
+      logger.info('Trade Fetcher service started');
+    } catch (error) {
+      logger.error('Failed to start Trade Fetcher service', error);
+    }
+  }
+
+  if (services.swapIndexerService) {
+    logger.info('Starting Swap Indexer service');
+    services.swapIndexerService.start();
+  }
+
+  if (services.feeVolumeService) {
+    logger.info('Starting Fee Volume service');
+    services.feeVolumeService.start();
+  }
+
+  if (services.reconciliationService) {
+    logger.info('Starting Reconciliation service');
+    services.reconciliationService.start();
+  }
+
   if (services.dailyAggregationService) {
     logger.info('Starting Daily Aggregation service');
     try {
@@ -118,6 +213,23 @@ async function startServices(services: Services): Promise<void> {
       logger.error('Failed to start Meteora Volume Fetcher service', error);
     }
   }
+
+  if (services.tickerSnapshotService) {
+    logger.info('Starting Ticker Snapshot refresher');
+    // Load the last good snapshot first, so tickers can be served even if RPC is down at boot
+    await services.tickerSnapshotService.loadLastKnownGood();
+    services.tickerSnapshotService.start();
+  }
+
+  if (services.poolWatcherService) {
+    logger.info('Starting Pool Watcher service');
+    services.poolWatcherService.start();
+  }
+
+  if (services.daoRegistryService) {
+    logger.info('Starting DAO Registry service');
+    services.daoRegistryService.start();
+  }
 }
 
 async function stopServices(services: Services, scheduledTasks: ScheduledTask[]): Promise<void> {
@@ -127,6 +239,14 @@ async function stopServices(services: Services, scheduledTasks: ScheduledTask[])
   services.tenMinuteVolumeFetcherService?.stop();
   services.dailyAggregationService?.stop();
   services.meteoraVolumeFetcherService?.stop();
+  services.tradeFetcherService?.stop();
+  services.swapIndexerService?.stop();
+  services.feeVolumeService?.stop();
+  services.reconciliationService?.stop();
+  services.tenMinuteGapService?.stop();
+  services.daoRegistryService?.stop();
+  services.poolWatcherService?.stop();
+  services.tickerSnapshotService?.stop();
   await services.databaseService.close();
 }
 
@@ -149,6 +269,29 @@ function createServiceGetters(services: Services): ServiceGetters {
     getTenMinuteVolumeFetcherService: () => services.tenMinuteVolumeFetcherService ?? null,
     getDailyAggregationService: () => services.dailyAggregationService ?? null,
     getMeteoraVolumeFetcherService: () => services.meteoraVolumeFetcherService ?? null,
+    getTradeFetcherService: () => services.tradeFetcherService ?? null,
+    getSwapIndexerService: () => services.swapIndexerService ?? null,
+    getFeeVolumeService: () => services.feeVolumeService ?? null,
+    getReconciliationService: () => services.reconciliationService ?? null,
+    getTenMinuteGapService: () => services.tenMinuteGapService ?? null,
+    getPoolWatcherService: () => services.poolWatcherService ?? null,
+    getTickerService: () => {
+      if (!services.tickerService) throw new Error('Ticker service not available');
+      return services.tickerService;
+    },
+    getTickerSnapshotService: () => {
+      if (!services.tickerSnapshotService) throw new Error('Ticker snapshot service not available');
+      return services.tickerSnapshotService;
+    },
+    getCandleService: () => {
+      if (!services.candleService) throw new Error('Candle service not available');
+      return services.candleService;
+    },
+    getDaoService: () => {
+      if (!services.daoService) throw new Error('DAO service not available');
+      return services.daoService;
+    },
+    getDaoRegistryService: () => services.daoRegistryService ?? null,
   };
 }
 
@@ -187,6 +330,36 @@ function startScheduledTasks(services: Services): ScheduledTask[] {
   tasks.push(metricsPruneTask);
   logger.info('Metrics pruning scheduled daily at 03:00 UTC');
 
+  // Ticker history for GET /api/tickers?at=
+  const tickerHistoryTask = scheduleWithoutPileup(
+    async () => {
+      await saveTickerSnapshot(serviceGetters);
+    },
+    {
+      name: 'TickerHistory',
+      intervalMs: config.tickers.historyIntervalMs,
+      onError: (error) => logger.error('Error saving ticker snapshot', error),
+    }
+  );
+  tasks.push(tickerHistoryTask);
+  logger.info(`Ticker snapshots scheduled every ${config.tickers.historyIntervalMs / 60000} minutes`);
+
+  // Prune ticker history daily at 03:00 UTC
+  const tickerHistoryPruneTask = scheduleDailyAtUTC(
+    async () => {
+      if (services.databaseService.isAvailable()) {
+        await services.databaseService.pruneOldTickerSnapshots(config.tickers.historyRetentionDays);
+        logger.info(`Old ticker snapshots pruned (keeping last ${config.tickers.historyRetentionDays} days)`);
+      }
+    },
+    {
+      name: 'TickerHistoryPrune',
+      hourUTC: 3,
+      onError: (error) => logger.error('Error pruning ticker snapshots', error),
+    }
+  );
+  tasks.push(tickerHistoryPruneTask);
+
   return tasks;
 }
 
@@ -228,6 +401,8 @@ async function main(): Promise<void> {
       logger.info('Server closed');
       process.exit(0);
     });
+    // Ticker streams never finish on their own; give other requests a moment, then drop them
+    setTimeout(() => server.closeAllConnections(), SHUTDOWN_GRACE_MS).unref();
   };
 
   process.on('SIGTERM', () => shutdown('SIGTERM'));
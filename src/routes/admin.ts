@@ -1,10 +1,18 @@
 import { Router, type Request, type Response } from 'express';
 import type { ServiceGetters } from './types.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { parseDateParam, parseEnumParam, parseSolanaAddress, getUTCDateString } from '../utils/validation.js';
+import { config } from '../config.js';
 import { logger } from '../utils/logger.js';
 
+// Default and maximum number of days /api/admin/reconciliation returns
+const RECONCILIATION_DEFAULT_DAYS = 7;
+const RECONCILIATION_MAX_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export function createAdminRouter(services: ServiceGetters): Router {
   const router = Router();
-  const { getDuneCacheService, getTenMinuteVolumeFetcherService } = services;
+  const { getDuneCacheService, getTenMinuteVolumeFetcherService, getTradeFetcherService, getDatabaseService, getReconciliationService, getTenMinuteGapService } = services;
 
   // Cache status
   router.get('/api/cache/status', (req: Request, res: Response) => {
@@ -80,5 +88,144 @@ export function createAdminRouter(services: ServiceGetters): Router {
     });
   });
 
+  // Missing and stale 10-minute buckets found by the last gap scan, and its repair
+  router.get('/api/ten-minute-volume/gaps', async (req: Request, res: Response) => {
+    const tenMinuteGapService = getTenMinuteGapService();
+
+    if (!tenMinuteGapService) {
+      return res.status(400).json({
+        error: '10-Minute Gap service not configured',
+        message: 'DUNE_API_KEY and DUNE_TEN_MINUTE_VOLUME_QUERY_ID are required',
+      });
+    }
+
+    const status = tenMinuteGapService.getStatus();
+    const report = tenMinuteGapService.getLastReport();
+    const countBuckets = (reason: string) => (report?.gaps ?? [])
+      .filter(gap => gap.reason === reason)
+      .reduce((sum, gap) => sum + gap.buckets, 0);
+
+    res.json({
+      isInitialized: status.initialized,
+      isRunning: status.isRunning,
+      databaseConnected: status.databaseConnected,
+      lastScanTime: status.lastScanTime,
+      windowStart: report?.windowStart.toISOString() ?? null,
+      windowEnd: report?.windowEnd.toISOString() ?? null,
+      coveredThrough: report?.coveredThrough?.toISOString() ?? null,
+      gapCount: status.gapCount,
+      missingBuckets: countBuckets('missing'),
+      staleBuckets: countBuckets('stale'),
+      gaps: (report?.gaps ?? []).map(gap => ({
+        token: gap.token,
+        reason: gap.reason,
+        start: gap.start.toISOString(),
+        end: gap.end.toISOString(),
+        buckets: gap.buckets,
+      })),
+      repair: report?.repair
+        ? {
+            start: report.repair.start.toISOString(),
+            end: report.repair.end.toISOString(),
+            bucketsWritten: report.repair.bucketsWritten,
+            hoursReaggregated: report.repair.hoursReaggregated,
+            daysReaggregated: report.repair.daysReaggregated,
+            error: report.repair.error,
+          }
+        : null,
+    });
+  });
+
+  // Trade fetcher status
+  router.get('/api/trades/status', async (req: Request, res: Response) => {
+    const tradeFetcherService = getTradeFetcherService();
+
+    if (!tradeFetcherService) {
+      return res.status(400).json({
+        error: 'Trade Fetcher service not configured',
+        message: 'DUNE_API_KEY and DUNE_TRADES_QUERY_ID are required',
+      });
+    }
+
+    const status = tradeFetcherService.getStatus();
+    res.json({
+      isInitialized: status.initialized,
+      isRunning: status.isRunning,
+      databaseConnected: status.databaseConnected,
+      lastRefreshTime: status.lastRefreshTime,
+      queryId: status.queryId,
+      refreshInProgress: status.refreshInProgress,
+      description: 'Individual swaps for /api/historical_trades',
+    });
+  });
+
+  // Stored 10-minute volume vs volume implied by on-chain protocol fees, per DAO and day
+  // Optional: dao, from/to (YYYY-MM-DD, default the last 7 days), flagged=true for flagged days only
+  router.get('/api/admin/reconciliation', asyncHandler(async (req: Request, res: Response) => {
+    const databaseService = getDatabaseService();
+    if (!databaseService.isAvailable()) {
+      throw AppError.serviceUnavailable('Volume reconciliation requires database connection', 'DATABASE_UNAVAILABLE');
+    }
+
+    const daoResult = req.query.dao ? parseSolanaAddress(req.query.dao as string, 'dao') : null;
+    if (daoResult && !daoResult.success) {
+      throw AppError.badRequest(daoResult.error.message, 'INVALID_DAO');
+    }
+
+    const toResult = parseDateParam(req.query.to as string, 'to', { required: false });
+    if (!toResult.success) {
+      throw AppError.badRequest(toResult.error.message, 'INVALID_TO');
+    }
+    const to = toResult.value ?? getUTCDateString();
+
+    const fromResult = parseDateParam(req.query.from as string, 'from', { required: false });
+    if (!fromResult.success) {
+      throw AppError.badRequest(fromResult.error.message, 'INVALID_FROM');
+    }
+    const from = fromResult.value
+      ?? getUTCDateString(new Date(new Date(to).getTime() - (RECONCILIATION_DEFAULT_DAYS - 1) * DAY_MS));
+
+    const days = (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS + 1;
+    if (days < 1 || days > RECONCILIATION_MAX_DAYS) {
+      throw AppError.badRequest(
+        `'from' must not be after 'to', and the range may cover at most ${RECONCILIATION_MAX_DAYS} days`,
+        'INVALID_DATE_RANGE'
+      );
+    }
+
+    const flaggedResult = parseEnumParam(req.query.flagged as string, 'flagged', ['true', 'false'] as const, { defaultValue: 'false' });
+    if (!flaggedResult.success) {
+      throw AppError.badRequest(flaggedResult.error.message, 'INVALID_FLAGGED');
+    }
+
+    const records = await databaseService.getVolumeReconciliation({
+      startDate: from,
+      endDate: to,
+      daoAddress: daoResult?.value,
+      flaggedOnly: flaggedResult.value === 'true',
+    });
+
+    res.json({
+      from,
+      to,
+      fee_rate: config.fees.protocolFeeRate,
+      threshold: config.reconciliation.threshold,
+      last_run_time: getReconciliationService()?.getStatus().lastRunTime ?? null,
+      count: records.length,
+      flagged_count: records.filter(record => record.flagged).length,
+      results: records.map(record => ({
+        dao_address: record.dao_address,
+        token: record.token,
+        date: record.date,
+        window_start: record.window_start.toISOString(),
+        window_end: record.window_end.toISOString(),
+        recorded: { buy_volume: record.recorded_buy_volume, sell_volume: record.recorded_sell_volume },
+        implied: { buy_volume: record.implied_buy_volume, sell_volume: record.implied_sell_volume },
+        discrepancy: record.discrepancy,
+        flagged: record.flagged,
+      })),
+    });
+  }));
+
   return router;
 }
@@ -0,0 +1,151 @@
+import { Router, type Request, type Response } from 'express';
+import type { CmcSummaryItem, CmcAsset, CmcTicker, CmcTrade, CmcOrderBook } from '../types/cmc.js';
+import type { ServiceGetters } from './types.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { parseTickerId, parseIntParam } from '../utils/validation.js';
+import { MAX_ORDERBOOK_LEVELS } from '../services/priceService.js';
+import { buildOrderBook, setSnapshotHeaders } from './coingecko.js';
+
+const SOLSCAN_TOKEN_URL = 'https://solscan.io/token/';
+
+export function createCmcRouter(services: ServiceGetters): Router {
+  const router = Router();
+  const { getDatabaseService } = services;
+
+  // CMC Endpoint: /summary
+  router.get('/api/cmc/summary', asyncHandler(async (req: Request, res: Response) => {
+    const snapshot = await services.getTickerSnapshotService().getSnapshot(req.requestId);
+    const { tickers } = snapshot;
+    setSnapshotHeaders(res, snapshot);
+
+    const summary: CmcSummaryItem[] = tickers.map(ticker => {
+      const item: CmcSummaryItem = {
+        trading_pairs: ticker.ticker_id,
+        base_currency: ticker.base_currency,
+        quote_currency: ticker.target_currency,
+        pool_id: ticker.pool_id,
+        last_price: ticker.last_price,
+        lowest_ask: ticker.ask,
+        highest_bid: ticker.bid,
+        base_volume: ticker.base_volume,
+        quote_volume: ticker.target_volume,
+        liquidity_in_usd: ticker.liquidity_in_usd,
+      };
+      if (ticker.high_24h) item.highest_price_24h = ticker.high_24h;
+      if (ticker.low_24h) item.lowest_price_24h = ticker.low_24h;
+      if (ticker.price_change_percentage_24h) item.price_change_percent_24h = ticker.price_change_percentage_24h;
+      return item;
+    });
+
+    res.json(summary);
+  }));
+
+  // CMC Endpoint: /assets
+  router.get('/api/cmc/assets', asyncHandler(async (req: Request, res: Response) => {
+    const snapshot = await services.getTickerSnapshotService().getSnapshot(req.requestId);
+    const { tickers } = snapshot;
+    setSnapshotHeaders(res, snapshot);
+
+    const assets: Record<string, CmcAsset> = {};
+    for (const ticker of tickers) {
+      assets[ticker.base_currency] = {
+        name: ticker.base_name,
+        symbol: ticker.base_symbol,
+        contractAddress: ticker.base_currency,
+        contractAddressUrl: `${SOLSCAN_TOKEN_URL}${ticker.base_currency}`,
+      };
+      assets[ticker.target_currency] = {
+        name: ticker.target_name,
+        symbol: ticker.target_symbol,
+        contractAddress: ticker.target_currency,
+        contractAddressUrl: `${SOLSCAN_TOKEN_URL}${ticker.target_currency}`,
+      };
+    }
+
+    res.json(assets);
+  }));
+
+  // CMC Endpoint: /ticker
+  router.get('/api/cmc/ticker', asyncHandler(async (req: Request, res: Response) => {
+    const snapshot = await services.getTickerSnapshotService().getSnapshot(req.requestId);
+    const { tickers } = snapshot;
+    setSnapshotHeaders(res, snapshot);
+
+    const result: Record<string, CmcTicker> = {};
+    for (const ticker of tickers) {
+      result[ticker.ticker_id] = {
+        base_id: ticker.base_currency,
+        base_name: ticker.base_name,
+        base_symbol: ticker.base_symbol,
+        quote_id: ticker.target_currency,
+        quote_name: ticker.target_name,
+        quote_symbol: ticker.target_symbol,
+        last_price: ticker.last_price,
+        base_volume: ticker.base_volume,
+        quote_volume: ticker.target_volume,
+        isFrozen: 0,
+      };
+    }
+
+    res.json(result);
+  }));
+
+  // CMC Endpoint: /trades/:market_pair
+  // CMC requires at least the last 24 hours of trades
+  router.get('/api/cmc/trades/:market_pair', asyncHandler(async (req: Request, res: Response) => {
+    const pairResult = parseTickerId(req.params.market_pair as string, 'market_pair');
+    if (!pairResult.success) {
+      throw AppError.badRequest(pairResult.error.message, 'INVALID_MARKET_PAIR');
+    }
+
+    const databaseService = getDatabaseService();
+    if (!databaseService.isAvailable()) {
+      throw AppError.serviceUnavailable('Trade history requires database connection', 'DATABASE_UNAVAILABLE');
+    }
+
+    const trades = await databaseService.getHistoricalTrades({
+      token: pairResult.value.base,
+      quoteMint: pairResult.value.target,
+      startTime: new Date(Date.now() - 24 * 60 * 60 * 1000),
+      limit: 0,
+    });
+
+    const result: CmcTrade[] = trades.map(trade => ({
+      trade_id: trade.trade_id,
+      price: trade.price,
+      base_volume: trade.base_volume,
+      quote_volume: trade.target_volume,
+      timestamp: new Date(trade.trade_timestamp).getTime(),
+      type: trade.type,
+    }));
+
+    res.json(result);
+  }));
+
+  // CMC Endpoint: /orderbook/:market_pair
+  router.get('/api/cmc/orderbook/:market_pair', asyncHandler(async (req: Request, res: Response) => {
+    const pairResult = parseTickerId(req.params.market_pair as string, 'market_pair');
+    if (!pairResult.success) {
+      throw AppError.badRequest(pairResult.error.message, 'INVALID_MARKET_PAIR');
+    }
+
+    // depth counts both sides (depth=100 -> 50 bids + 50 asks), 0 returns full depth
+    const depthResult = parseIntParam(req.query.depth as string, 'depth', { defaultValue: 0, min: 0, max: MAX_ORDERBOOK_LEVELS * 2 });
+    if (!depthResult.success) {
+      throw AppError.badRequest(depthResult.error.message, 'INVALID_DEPTH');
+    }
+
+    const levels = depthResult.value === 0 ? MAX_ORDERBOOK_LEVELS : Math.ceil(depthResult.value / 2);
+    const book = await buildOrderBook(services, pairResult.value.base, pairResult.value.target, levels);
+
+    const orderBook: CmcOrderBook = {
+      timestamp: Date.now(),
+      bids: book.bids,
+      asks: book.asks,
+    };
+
+    res.json(orderBook);
+  }));
+
+  return router;
+}
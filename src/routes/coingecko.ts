@@ -1,192 +1,382 @@
 import { Router, type Request, type Response } from 'express';
-import type { CoinGeckoTicker } from '../types/coingecko.js';
+import type { CoinGeckoTicker, CoinGeckoTickerStats, CoinGeckoPair, CoinGeckoOrderBook, CoinGeckoHistoricalTrade, CoinGeckoHistoricalTrades } from '../types/coingecko.js';
 import type { ServiceGetters } from './types.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { parseTickerId, parseEnumParam, parseIntParam, parseNumberParam, parseSolanaAddress, parseDateAsUTC } from '../utils/validation.js';
+import { MAX_ORDERBOOK_LEVELS, type OrderBookLevel } from '../services/priceService.js';
+import { filterTickerSnapshot, type TickerSnapshot, type TickerQuery } from '../services/tickerService.js';
+import { config } from '../config.js';
 import { logger } from '../utils/logger.js';
 
 export function createCoinGeckoRouter(services: ServiceGetters): Router {
   const router = Router();
-  const { getFutarchyService, getPriceService, getDuneCacheService, getTenMinuteVolumeFetcherService, getHourlyAggregationService, getDatabaseService } = services;
+  const { getFutarchyService, getDatabaseService, getDaoRegistryService } = services;
+
+  // CoinGecko Endpoint: /pairs
+  // Discovery only - no price or volume lookups so aggregators can poll it cheaply
+  // Falls back to the DAO registry when RPC discovery fails
+  router.get('/api/pairs', asyncHandler(async (req: Request, res: Response) => {
+    const futarchyService = getFutarchyService();
+
+    let pairs: CoinGeckoPair[];
+    try {
+      const allDaos = await futarchyService.getAllDaos();
+      pairs = allDaos.map(dao => ({
+        ticker_id: `${dao.baseMint.toString()}_${dao.quoteMint.toString()}`,
+        base: dao.baseMint.toString(),
+        target: dao.quoteMint.toString(),
+        pool_id: dao.daoAddress.toString(),
+      }));
+    } catch (error) {
+      const registered = await getDaoRegistryService()?.getActiveDaos() ?? [];
+      if (registered.length === 0) throw error;
+
+      logger.warn('DAO discovery failed, serving pairs from the DAO registry', { requestId: req.requestId, daoCount: registered.length });
+      pairs = registered.map(dao => ({
+        ticker_id: `${dao.base_mint}_${dao.quote_mint}`,
+        base: dao.base_mint,
+        target: dao.quote_mint,
+        pool_id: dao.dao_address,
+      }));
+    }
+
+    res.json(pairs);
+  }));
 
   // CoinGecko Endpoint: /tickers
+  // Optional filters: base, dao, symbol, min_liquidity_usd, min_volume
+  // ?at=<timestamp> returns the stored snapshot captured nearest to that time instead
   router.get('/api/tickers', asyncHandler(async (req: Request, res: Response) => {
-      const futarchyService = getFutarchyService();
-      const priceService = getPriceService();
-      const duneCacheService = getDuneCacheService();
-      const tenMinuteVolumeFetcherService = getTenMinuteVolumeFetcherService();
-      const hourlyAggregationService = getHourlyAggregationService();
+    const debug = parseDebugFlag(req.query.debug as string);
+
+    const query = parseTickerQuery(req);
+
+    if (req.query.at !== undefined) {
+      const at = parseAtParam(req.query.at as string);
+
       const databaseService = getDatabaseService();
-      
-      const allDaos = await futarchyService.getAllDaos();
-      
-      const firstTradeDates = databaseService?.isAvailable() 
-        ? await databaseService.getFirstTradeDates() 
-        : new Map<string, string>();
-      
-      const tokenToDaoMap = new Map<string, string>();
-      for (const dao of allDaos) {
-        tokenToDaoMap.set(dao.baseMint.toString().toLowerCase(), dao.daoAddress.toString().toLowerCase());
-      }
-      
-      let duneMetricsMap = new Map<string, { base_volume_24h: string; target_volume_24h: string; high_24h: string; low_24h: string }>();
-      let volumeSource = 'none';
-      
-      // Try TenMinuteVolumeFetcherService first
-      if (tenMinuteVolumeFetcherService?.isInitialized && tenMinuteVolumeFetcherService.isDatabaseConnected()) {
-        const baseMints = allDaos.map(dao => dao.baseMint.toString());
-        const tenMinMetrics = await tenMinuteVolumeFetcherService.getRolling24hMetrics(baseMints);
-        
-        if (tenMinMetrics.size > 0) {
-          for (const [tokenAddress, metrics] of tenMinMetrics.entries()) {
-            const daoAddress = tokenToDaoMap.get(tokenAddress.toLowerCase());
-            if (daoAddress) {
-              duneMetricsMap.set(daoAddress, {
-                base_volume_24h: String(metrics.base_volume_24h),
-                target_volume_24h: String(metrics.target_volume_24h),
-                high_24h: String(metrics.high_24h),
-                low_24h: String(metrics.low_24h),
-              });
-            }
-          }
-          volumeSource = '10-minute';
-          logger.debug('Using 10-minute rolling 24h metrics', { daoCount: duneMetricsMap.size, requestId: req.requestId });
-        }
-      }
-      
-      // Fall back to HourlyAggregationService
-      if (duneMetricsMap.size === 0 && hourlyAggregationService?.isInitialized && hourlyAggregationService.isDatabaseConnected()) {
-        const baseMints = allDaos.map(dao => dao.baseMint.toString());
-        const hourlyMetrics = await hourlyAggregationService.getRolling24hMetrics(baseMints);
-        
-        if (hourlyMetrics.size > 0) {
-          for (const [tokenAddress, metrics] of hourlyMetrics.entries()) {
-            const daoAddress = tokenToDaoMap.get(tokenAddress.toLowerCase());
-            if (daoAddress) {
-              duneMetricsMap.set(daoAddress, {
-                base_volume_24h: metrics.base_volume_24h,
-                target_volume_24h: metrics.target_volume_24h,
-                high_24h: metrics.high_24h,
-                low_24h: metrics.low_24h,
-              });
-            }
-          }
-          volumeSource = 'hourly';
-          logger.debug('Using hourly rolling 24h metrics', { daoCount: duneMetricsMap.size, requestId: req.requestId });
-        }
-      }
-      
-      // Fall back to DuneCacheService
-      if (duneMetricsMap.size === 0 && duneCacheService) {
-        const cachedMetrics = duneCacheService.getPoolMetrics();
-        if (cachedMetrics && cachedMetrics.size > 0) {
-          const cacheStatus = duneCacheService.getCacheStatus();
-          logger.debug('Using Dune cache metrics', { cacheAgeSeconds: Math.round(cacheStatus.cacheAgeMs / 1000), entryCount: cachedMetrics.size, requestId: req.requestId });
-          duneMetricsMap = cachedMetrics;
-          volumeSource = 'dune-cache';
-        } else {
-          logger.warn('No cached metrics available yet', { requestId: req.requestId });
-        }
-      }
-      
-      if (duneMetricsMap.size === 0) {
-        logger.warn('No volume metrics available', { requestId: req.requestId });
-      } else {
-        logger.debug('Volume source selected', { volumeSource, daoCount: duneMetricsMap.size, requestId: req.requestId });
+      if (!databaseService.isAvailable()) {
+        throw AppError.serviceUnavailable('Ticker history requires database connection', 'DATABASE_UNAVAILABLE');
       }
-      
-      const tickers: CoinGeckoTicker[] = [];
-      
-      for (const daoData of allDaos) {
-        try {
-          const { 
-            daoAddress, 
-            baseMint, 
-            quoteMint, 
-            baseDecimals, 
-            quoteDecimals, 
-            baseSymbol,
-            baseName,
-            quoteSymbol,
-            quoteName,
-            poolData 
-          } = daoData;
-          const tickerId = `${baseMint.toString()}_${quoteMint.toString()}`;
-          const poolId = daoAddress.toString();
-          
-          const lastPrice = priceService.calculatePrice(
-            poolData.baseReserves,
-            poolData.quoteReserves,
-            baseDecimals,
-            quoteDecimals
-          );
-          
-          if (!lastPrice) continue;
-          
-          const priceNum = parseFloat(lastPrice);
-          const spread = priceService.calculateSpread(priceNum);
-          
-          if (!spread) continue;
-          
-          const liquidityUsd = priceService.calculateLiquidityUSD(
-            poolData.quoteReserves,
-            quoteDecimals
-          );
-          
-          if (!liquidityUsd) continue;
-
-          const duneMetrics = duneMetricsMap.get(poolId.toLowerCase());
-          let baseVolume: string;
-          let targetVolume: string;
-          let high24h: string | undefined;
-          let low24h: string | undefined;
-
-          if (duneMetrics) {
-            baseVolume = duneMetrics.base_volume_24h;
-            targetVolume = duneMetrics.target_volume_24h;
-            high24h = duneMetrics.high_24h !== '0' ? duneMetrics.high_24h : undefined;
-            low24h = duneMetrics.low_24h !== '0' ? duneMetrics.low_24h : undefined;
-          } else {
-            baseVolume = '0';
-            targetVolume = '0';
-          }
-
-          if (isNaN(parseFloat(baseVolume)) || isNaN(parseFloat(targetVolume))) {
-            continue;
-          }
-
-          const ticker: CoinGeckoTicker = {
-            ticker_id: tickerId,
-            base_currency: baseMint.toString(),
-            target_currency: quoteMint.toString(),
-            base_symbol: baseSymbol,
-            base_name: baseName,
-            target_symbol: quoteSymbol,
-            target_name: quoteName,
-            pool_id: poolId,
-            last_price: lastPrice,
-            base_volume: baseVolume,
-            target_volume: targetVolume,
-            liquidity_in_usd: liquidityUsd,
-            bid: spread.bid,
-            ask: spread.ask,
-          };
-
-          if (high24h) ticker.high_24h = high24h;
-          if (low24h) ticker.low_24h = low24h;
-          if (daoData.treasuryUsdcAum) ticker.treasury_usdc_aum = daoData.treasuryUsdcAum;
-          if (daoData.treasuryVaultAddress) ticker.treasury_vault_address = daoData.treasuryVaultAddress;
-
-          const startDate = firstTradeDates.get(baseMint.toString().toLowerCase());
-          if (startDate) ticker.startDate = startDate;
-
-          tickers.push(ticker);
-        } catch (error) {
-          logger.error('Error generating ticker', error, { daoAddress: daoData.daoAddress.toString(), requestId: req.requestId });
-        }
+
+      const stored = await databaseService.getNearestTickerSnapshot(at);
+      if (!stored) {
+        throw AppError.notFound('No ticker snapshots have been stored', 'TICKER_SNAPSHOT_NOT_FOUND');
       }
 
-      res.json(tickers);
+      // Stored payloads are returned as reported; debug provenance isn't kept
+      const historical = filterTickerSnapshot({
+        tickers: stored.tickers,
+        provenance: {},
+        windows: {},
+        generatedAt: stored.generated_at,
+        stale: stored.stale || undefined,
+      }, query);
+      res.setHeader('X-Snapshot-Time', stored.snapshot_at.toISOString());
+      setSnapshotHeaders(res, historical, stored.snapshot_at);
+      res.json(historical.tickers);
+      return;
+    }
+
+    const snapshot = await services.getTickerSnapshotService().getSnapshot(req.requestId, query);
+
+    setSnapshotHeaders(res, snapshot);
+    res.json(debug ? withVolumeProvenance(snapshot) : snapshot.tickers);
+  }));
+
+  // Single ticker by id - only this DAO's volume and prices are looked up
+  router.get('/api/tickers/:tickerId', asyncHandler(async (req: Request, res: Response) => {
+    const debug = parseDebugFlag(req.query.debug as string);
+
+    const tickerResult = parseTickerId(req.params.tickerId as string, 'tickerId');
+    if (!tickerResult.success) {
+      throw AppError.badRequest(tickerResult.error.message, 'INVALID_TICKER_ID');
+    }
+
+    const { base, target } = tickerResult.value;
+    const snapshot = await services.getTickerSnapshotService().getSnapshot(req.requestId, {
+      tickerId: `${base}_${target}`,
+    });
+    setSnapshotHeaders(res, snapshot);
+
+    const [ticker] = debug ? withVolumeProvenance(snapshot) : snapshot.tickers;
+    if (!ticker) {
+      throw AppError.notFound(`No ticker found for ${base}_${target}`, 'TICKER_NOT_FOUND');
+    }
+
+    res.json(ticker);
+  }));
+
+  // Rolling 1h/24h/7d/30d volume and price change for one ticker
+  router.get('/api/tickers/:tickerId/stats', asyncHandler(async (req: Request, res: Response) => {
+    const tickerResult = parseTickerId(req.params.tickerId as string, 'tickerId');
+    if (!tickerResult.success) {
+      throw AppError.badRequest(tickerResult.error.message, 'INVALID_TICKER_ID');
+    }
+
+    const tickerId = `${tickerResult.value.base}_${tickerResult.value.target}`;
+    const snapshot = await services.getTickerSnapshotService().getSnapshot(req.requestId, { tickerId });
+    setSnapshotHeaders(res, snapshot);
+
+    const [ticker] = snapshot.tickers;
+    if (!ticker) {
+      throw AppError.notFound(`No ticker found for ${tickerId}`, 'TICKER_NOT_FOUND');
+    }
+
+    const provenance = snapshot.provenance[tickerId];
+    const stats: CoinGeckoTickerStats = {
+      ticker_id: tickerId,
+      pool_id: ticker.pool_id,
+      last_price: ticker.last_price,
+      volume_source: provenance?.source ?? 'none',
+      as_of: provenance?.asOf?.toISOString() ?? null,
+      windows: snapshot.windows[tickerId] ?? null,
+    };
+
+    res.json(stats);
+  }));
+
+  // CoinGecko Endpoint: /orderbook
+  // Levels are synthesized by simulating swaps against the constant-product reserves
+  router.get('/api/orderbook', asyncHandler(async (req: Request, res: Response) => {
+    const tickerResult = parseTickerId(req.query.ticker_id as string, 'ticker_id');
+    if (!tickerResult.success) {
+      throw AppError.badRequest(tickerResult.error.message, 'INVALID_TICKER_ID');
+    }
+
+    // depth counts both sides (depth=100 -> 50 bids + 50 asks), 0 returns full depth
+    const depthResult = parseIntParam(req.query.depth as string, 'depth', { defaultValue: 100, min: 0, max: MAX_ORDERBOOK_LEVELS * 2 });
+    if (!depthResult.success) {
+      throw AppError.badRequest(depthResult.error.message, 'INVALID_DEPTH');
+    }
+
+    const { base, target } = tickerResult.value;
+    const levels = depthResult.value === 0 ? MAX_ORDERBOOK_LEVELS : Math.ceil(depthResult.value / 2);
+    const book = await buildOrderBook(services, base, target, levels);
+
+    const orderBook: CoinGeckoOrderBook = {
+      ticker_id: `${base}_${target}`,
+      timestamp: String(Date.now()),
+      bids: book.bids,
+      asks: book.asks,
+    };
+
+    res.json(orderBook);
+  }));
+
+  // CoinGecko Endpoint: /historical_trades
+  router.get('/api/historical_trades', asyncHandler(async (req: Request, res: Response) => {
+    const tickerResult = parseTickerId(req.query.ticker_id as string, 'ticker_id');
+    if (!tickerResult.success) {
+      throw AppError.badRequest(tickerResult.error.message, 'INVALID_TICKER_ID');
+    }
+
+    const typeResult = parseEnumParam(req.query.type as string, 'type', ['buy', 'sell'] as const);
+    if (!typeResult.success) {
+      throw AppError.badRequest(typeResult.error.message, 'INVALID_TRADE_TYPE');
+    }
+
+    // 0 returns the full history for the requested window
+    const limitResult = parseIntParam(req.query.limit as string, 'limit', { defaultValue: 500, min: 0, max: 1000 });
+    if (!limitResult.success) {
+      throw AppError.badRequest(limitResult.error.message, 'INVALID_LIMIT');
+    }
+
+    const startTimeResult = parseIntParam(req.query.start_time as string, 'start_time', { defaultValue: 0, min: 0 });
+    if (!startTimeResult.success) {
+      throw AppError.badRequest(startTimeResult.error.message, 'INVALID_START_TIME');
+    }
+
+    const endTimeResult = parseIntParam(req.query.end_time as string, 'end_time', { defaultValue: 0, min: 0 });
+    if (!endTimeResult.success) {
+      throw AppError.badRequest(endTimeResult.error.message, 'INVALID_END_TIME');
+    }
+
+    if (endTimeResult.value > 0 && startTimeResult.value > endTimeResult.value) {
+      throw AppError.badRequest("The 'start_time' parameter must not be after 'end_time'", 'INVALID_TIME_RANGE');
+    }
+
+    const databaseService = getDatabaseService();
+    if (!databaseService.isAvailable()) {
+      throw AppError.serviceUnavailable('Trade history requires database connection', 'DATABASE_UNAVAILABLE');
+    }
+
+    const trades = await databaseService.getHistoricalTrades({
+      token: tickerResult.value.base,
+      quoteMint: tickerResult.value.target,
+      type: typeResult.value,
+      // start_time / end_time are unix seconds
+      startTime: startTimeResult.value > 0 ? new Date(startTimeResult.value * 1000) : undefined,
+      endTime: endTimeResult.value > 0 ? new Date(endTimeResult.value * 1000) : undefined,
+      limit: limitResult.value,
+    });
+
+    const response: CoinGeckoHistoricalTrades = { buy: [], sell: [] };
+    for (const trade of trades) {
+      const historicalTrade: CoinGeckoHistoricalTrade = {
+        trade_id: trade.trade_id,
+        price: trade.price,
+        base_volume: trade.base_volume,
+        target_volume: trade.target_volume,
+        trade_timestamp: String(new Date(trade.trade_timestamp).getTime()),
+        type: trade.type,
+      };
+      response[trade.type].push(historicalTrade);
+    }
+
+    res.json(response);
   }));
 
   return router;
 }
+
+/**
+ * Synthesize order book levels for a base/quote pair from its pool reserves.
+ * Throws 404 if no discovered DAO trades the pair.
+ */
+export async function buildOrderBook(
+  services: ServiceGetters,
+  base: string,
+  target: string,
+  levels: number
+): Promise<{ bids: OrderBookLevel[]; asks: OrderBookLevel[] }> {
+  const futarchyService = services.getFutarchyService();
+  const priceService = services.getPriceService();
+
+  const allDaos = await futarchyService.getAllDaos();
+  const daoData = allDaos.find(dao =>
+    dao.baseMint.toString() === base && dao.quoteMint.toString() === target
+  );
+
+  if (!daoData) {
+    throw AppError.notFound(`No pool found for ticker ${base}_${target}`, 'TICKER_NOT_FOUND');
+  }
+
+  const book = priceService.calculateOrderBook(
+    daoData.poolData.baseReserves,
+    daoData.poolData.quoteReserves,
+    daoData.baseDecimals,
+    daoData.quoteDecimals,
+    config.fees.protocolFeeRate,
+    levels
+  );
+
+  if (!book) {
+    throw AppError.serviceUnavailable('Pool reserves are not available', 'POOL_UNAVAILABLE');
+  }
+
+  return book;
+}
+
+/**
+ * X-Data-Age: seconds since the ticker snapshot behind the response was built
+ * (as of `asOf` for stored snapshots)
+ * X-Data-Stale: true when that snapshot is the last good one and rebuilding is failing
+ */
+export function setSnapshotHeaders(res: Response, snapshot: TickerSnapshot, asOf: Date = new Date()): void {
+  const ageSeconds = Math.max(0, Math.floor((asOf.getTime() - snapshot.generatedAt.getTime()) / 1000));
+  res.setHeader('X-Data-Age', String(ageSeconds));
+  if (snapshot.stale) {
+    res.setHeader('X-Data-Stale', 'true');
+  }
+}
+
+/**
+ * Store the current /api/tickers payload in ticker_snapshots for ?at= queries
+ */
+export async function saveTickerSnapshot(services: ServiceGetters): Promise<number> {
+  const databaseService = services.getDatabaseService();
+  if (!databaseService.isAvailable()) return 0;
+
+  const snapshot = await services.getTickerSnapshotService().getSnapshot();
+  return databaseService.insertTickerSnapshot({
+    snapshot_at: new Date(),
+    generated_at: snapshot.generatedAt,
+    stale: snapshot.stale ?? false,
+    tickers: snapshot.tickers,
+  });
+}
+
+/**
+ * Ticker filters shared by /api/tickers and /api/stream/tickers:
+ * base, dao, symbol, min_liquidity_usd, min_volume
+ */
+export function parseTickerQuery(req: Request): TickerQuery {
+  const baseResult = req.query.base ? parseSolanaAddress(req.query.base as string, 'base') : null;
+  if (baseResult && !baseResult.success) {
+    throw AppError.badRequest(baseResult.error.message, 'INVALID_BASE');
+  }
+
+  const daoResult = req.query.dao ? parseSolanaAddress(req.query.dao as string, 'dao') : null;
+  if (daoResult && !daoResult.success) {
+    throw AppError.badRequest(daoResult.error.message, 'INVALID_DAO');
+  }
+
+  const symbol = req.query.symbol as string | undefined;
+  if (symbol !== undefined && (symbol.trim() === '' || symbol.length > 32)) {
+    throw AppError.badRequest("The 'symbol' parameter must be 1-32 characters", 'INVALID_SYMBOL');
+  }
+
+  const minLiquidityResult = parseNumberParam(req.query.min_liquidity_usd as string, 'min_liquidity_usd', { min: 0 });
+  if (!minLiquidityResult.success) {
+    throw AppError.badRequest(minLiquidityResult.error.message, 'INVALID_MIN_LIQUIDITY_USD');
+  }
+
+  const minVolumeResult = parseNumberParam(req.query.min_volume as string, 'min_volume', { min: 0 });
+  if (!minVolumeResult.success) {
+    throw AppError.badRequest(minVolumeResult.error.message, 'INVALID_MIN_VOLUME');
+  }
+
+  return {
+    base: baseResult?.value,
+    dao: daoResult?.value,
+    symbol: symbol?.trim(),
+    minLiquidityUsd: minLiquidityResult.value,
+    minVolume: minVolumeResult.value,
+  };
+}
+
+/**
+ * ?at= accepts unix seconds, YYYY-MM-DD (UTC midnight) or ISO 8601.
+ * Unix seconds must fall within years 1970-9999.
+ */
+function parseAtParam(value: string): Date {
+  if (/^\d+$/.test(value.trim())) {
+    const at = new Date(Number(value.trim()) * 1000);
+    if (isNaN(at.getTime()) || at.getUTCFullYear() > 9999) {
+      throw AppError.badRequest(`The 'at' parameter is not a valid unix timestamp: ${value}`, 'INVALID_AT');
+    }
+    return at;
+  }
+
+  const atResult = parseDateAsUTC(value, 'at', { required: true });
+  if (!atResult.success) {
+    throw AppError.badRequest(atResult.error.message, 'INVALID_AT');
+  }
+  return atResult.value!;
+}
+
+function parseDebugFlag(value: string | undefined): boolean {
+  const debugResult = parseEnumParam(value, 'debug', ['true', 'false'] as const, { defaultValue: 'false' });
+  if (!debugResult.success) {
+    throw AppError.badRequest(debugResult.error.message, 'INVALID_DEBUG');
+  }
+  return debugResult.value === 'true';
+}
+
+/**
+ * Debug view: expose which volume source produced each ticker's numbers
+ */
+function withVolumeProvenance(snapshot: TickerSnapshot): CoinGeckoTicker[] {
+  return snapshot.tickers.map(ticker => {
+    const provenance = snapshot.provenance[ticker.ticker_id];
+    return {
+      ...ticker,
+      volume_provenance: {
+        source: provenance?.source ?? 'none',
+        as_of: provenance?.asOf?.toISOString() ?? null,
+        age_seconds: provenance?.ageMs != null ? Math.round(provenance.ageMs / 1000) : null,
+      },
+    };
+  });
+}
@@ -0,0 +1,36 @@
+import { Router, type Request, type Response } from 'express';
+import { parseSolanaAddress } from '../utils/validation.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import type { ServiceGetters } from './types.js';
+
+export function createDaosRouter(services: ServiceGetters): Router {
+  const router = Router();
+  const { getDaoService } = services;
+
+  // Every discovered DAO with its ticker, treasury, rolling stats and supply
+  router.get('/api/daos', asyncHandler(async (req: Request, res: Response) => {
+    const daos = await getDaoService().getDaoDetails(req.requestId);
+
+    res.json({
+      count: daos.length,
+      daos,
+    });
+  }));
+
+  // Everything known about a single DAO
+  router.get('/api/daos/:daoAddress', asyncHandler(async (req: Request, res: Response) => {
+    const daoAddressResult = parseSolanaAddress(req.params.daoAddress as string, 'daoAddress');
+    if (!daoAddressResult.success) {
+      throw AppError.badRequest(daoAddressResult.error.message, 'INVALID_DAO_ADDRESS');
+    }
+
+    const dao = await getDaoService().getDaoDetail(daoAddressResult.value, req.requestId);
+    if (!dao) {
+      throw AppError.notFound(`No DAO found at ${daoAddressResult.value}`, 'DAO_NOT_FOUND');
+    }
+
+    res.json(dao);
+  }));
+
+  return router;
+}
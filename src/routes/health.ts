@@ -3,7 +3,7 @@ import type { ServiceGetters } from './types.js';
 
 export function createHealthRouter(services: ServiceGetters): Router {
   const router = Router();
-  const { getDatabaseService, getDuneCacheService, getHourlyAggregationService, getTenMinuteVolumeFetcherService } = services;
+  const { getDatabaseService, getDuneCacheService, getHourlyAggregationService, getTenMinuteVolumeFetcherService, getTradeFetcherService, getSwapIndexerService, getFeeVolumeService, getPoolWatcherService, getReconciliationService, getTenMinuteGapService } = services;
 
   // Basic health check
   router.get('/health', (req: Request, res: Response) => {
@@ -30,6 +30,12 @@ export function createHealthRouter(services: ServiceGetters): Router {
     const duneCacheService = getDuneCacheService();
     const hourlyAggregationService = getHourlyAggregationService();
     const tenMinuteVolumeFetcherService = getTenMinuteVolumeFetcherService();
+    const tradeFetcherService = getTradeFetcherService();
+    const swapIndexerService = getSwapIndexerService();
+    const feeVolumeService = getFeeVolumeService();
+    const poolWatcherService = getPoolWatcherService();
+    const reconciliationService = getReconciliationService();
+    const tenMinuteGapService = getTenMinuteGapService();
 
     const health: Record<string, any> = {
       status: 'healthy',
@@ -66,6 +72,66 @@ export function createHealthRouter(services: ServiceGetters): Router {
       };
     }
 
+    if (tradeFetcherService) {
+      const status = tradeFetcherService.getStatus();
+      health.services.trades = {
+        initialized: status.initialized,
+        running: status.isRunning,
+        refreshing: status.refreshInProgress,
+        lastRefreshTime: status.lastRefreshTime,
+      };
+    }
+
+    if (swapIndexerService) {
+      const status = swapIndexerService.getStatus();
+      health.services.swap_indexer = {
+        initialized: status.initialized,
+        running: status.isRunning,
+        refreshing: status.runInProgress,
+        lastRefreshTime: status.lastRunTime,
+      };
+    }
+
+    if (feeVolumeService) {
+      const status = feeVolumeService.getStatus();
+      health.services.fee_volume = {
+        initialized: status.initialized,
+        running: status.isRunning,
+        trackedDaos: status.trackedDaos,
+        lastRefreshTime: status.lastSampleTime,
+      };
+    }
+
+    if (poolWatcherService) {
+      const status = poolWatcherService.getStatus();
+      health.services.pool_watcher = {
+        initialized: status.initialized,
+        running: status.isRunning,
+        subscriptions: status.subscriptions,
+        lastUpdateTime: status.lastUpdateAt,
+      };
+    }
+
+    if (tenMinuteGapService) {
+      const status = tenMinuteGapService.getStatus();
+      health.services.ten_minute_gaps = {
+        initialized: status.initialized,
+        running: status.isRunning,
+        lastRefreshTime: status.lastScanTime,
+        gapCount: status.gapCount,
+      };
+    }
+
+    if (reconciliationService) {
+      const status = reconciliationService.getStatus();
+      health.services.reconciliation = {
+        initialized: status.initialized,
+        running: status.isRunning,
+        lastRefreshTime: status.lastRunTime,
+        flaggedCount: status.lastRunFlaggedCount,
+      };
+    }
+
     const hasUnhealthyService = Object.values(health.services).some(
       (s: any) => s.initialized === false
     );
@@ -142,6 +208,8 @@ export async function saveHealthSnapshots(services: ServiceGetters): Promise<voi
   const duneCacheService = services.getDuneCacheService();
   const hourlyAggregationService = services.getHourlyAggregationService();
   const tenMinuteVolumeFetcherService = services.getTenMinuteVolumeFetcherService();
+  const tradeFetcherService = services.getTradeFetcherService();
+  const swapIndexerService = services.getSwapIndexerService();
 
   if (!databaseService.isAvailable()) return;
 
@@ -182,6 +250,31 @@ export async function saveHealthSnapshots(services: ServiceGetters): Promise<voi
     );
   }
 
+  if (tradeFetcherService) {
+    const status = tradeFetcherService.getStatus();
+    const recordCount = await databaseService.getTradeCount();
+    await databaseService.insertServiceHealthSnapshot(
+      'trades',
+      status.initialized,
+      status.lastRefreshTime ? new Date(status.lastRefreshTime) : undefined,
+      recordCount,
+      undefined,
+      { isRunning: status.isRunning, refreshInProgress: status.refreshInProgress }
+    );
+  }
+
+  if (swapIndexerService) {
+    const status = swapIndexerService.getStatus();
+    await databaseService.insertServiceHealthSnapshot(
+      'swap_indexer',
+      status.initialized,
+      status.lastRunTime ? new Date(status.lastRunTime) : undefined,
+      undefined,
+      undefined,
+      { isRunning: status.isRunning, runInProgress: status.runInProgress, lastRunTradeCount: status.lastRunTradeCount }
+    );
+  }
+
   const dailyCount = await databaseService.getDailyRecordCount();
   const hourlyCount = await databaseService.getHourlyRecordCount();
   const tenMinCount = await databaseService.getTenMinuteRecordCount();
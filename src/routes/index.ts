@@ -2,9 +2,12 @@ import { Router } from 'express';
 import { createHealthRouter, saveHealthSnapshots } from './health.js';
 import { createMetricsRouter } from './metrics.js';
 import { createCoinGeckoRouter } from './coingecko.js';
+import { createCmcRouter } from './cmc.js';
 import { createAdminRouter } from './admin.js';
 import { createSupplyRouter } from './supply.js';
 import { createMarketRouter } from './market.js';
+import { createDaosRouter } from './daos.js';
+import { createStreamRouter } from './stream.js';
 import { createRootRouter } from './root.js';
 import type { ServiceGetters } from './types.js';
 
@@ -17,9 +20,12 @@ export function createRoutes(services: ServiceGetters): Router {
   router.use(createHealthRouter(services));
   router.use(createMetricsRouter(services));
   router.use(createCoinGeckoRouter(services));
+  router.use(createCmcRouter(services));
   router.use(createAdminRouter(services));
   router.use(createSupplyRouter(services));
   router.use(createMarketRouter(services));
+  router.use(createDaosRouter(services));
+  router.use(createStreamRouter(services));
   router.use(createRootRouter(services));
 
   return router;
@@ -1,10 +1,15 @@
 import { Router, type Request, type Response } from 'express';
-import { parseDateParam, parseCommaSeparatedList } from '../utils/validation.js';
+import { parseDateParam, parseCommaSeparatedList, parseEnumParam, parseIntParam, parseSolanaAddress } from '../utils/validation.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { CANDLE_INTERVALS, CANDLE_INTERVAL_SECONDS, MAX_CANDLES } from '../services/candleService.js';
 import type { ServiceGetters } from './types.js';
 
+// Candles returned when no 'from' is given
+const DEFAULT_CANDLE_COUNT = 500;
+
 export function createMarketRouter(services: ServiceGetters): Router {
   const router = Router();
-  const { getDatabaseService } = services;
+  const { getDatabaseService, getCandleService } = services;
 
   // Get daily market data with date range and optional token filtering
   router.get('/api/market-data', async (req: Request, res: Response) => {
@@ -69,5 +74,62 @@ export function createMarketRouter(services: ServiceGetters): Router {
     }
   });
 
+  // OHLCV candles for a token, rolled up from the 10-minute, hourly or daily volume tables
+  router.get('/api/candles/:token', asyncHandler(async (req: Request, res: Response) => {
+    const tokenResult = parseSolanaAddress(req.params.token as string, 'token');
+    if (!tokenResult.success) {
+      throw AppError.badRequest(tokenResult.error.message, 'INVALID_TOKEN');
+    }
+
+    const intervalResult = parseEnumParam(req.query.interval as string, 'interval', CANDLE_INTERVALS, { defaultValue: '1h' });
+    if (!intervalResult.success) {
+      throw AppError.badRequest(intervalResult.error.message, 'INVALID_INTERVAL');
+    }
+
+    // from/to are unix seconds; 'to' is exclusive
+    const interval = intervalResult.value!;
+    const intervalSeconds = CANDLE_INTERVAL_SECONDS[interval];
+    const toResult = parseIntParam(req.query.to as string, 'to', { defaultValue: Math.floor(Date.now() / 1000), min: 0 });
+    if (!toResult.success) {
+      throw AppError.badRequest(toResult.error.message, 'INVALID_TO');
+    }
+
+    const to = toResult.value;
+    const fromResult = parseIntParam(req.query.from as string, 'from', {
+      defaultValue: Math.max(0, to - DEFAULT_CANDLE_COUNT * intervalSeconds),
+      min: 0,
+    });
+    if (!fromResult.success) {
+      throw AppError.badRequest(fromResult.error.message, 'INVALID_FROM');
+    }
+
+    const from = fromResult.value;
+    if (from >= to) {
+      throw AppError.badRequest("The 'from' parameter must be before 'to'", 'INVALID_TIME_RANGE');
+    }
+    if (Math.ceil((to - from) / intervalSeconds) > MAX_CANDLES) {
+      throw AppError.badRequest(
+        `Time range covers more than ${MAX_CANDLES} ${interval} candles; narrow 'from'/'to' or use a larger interval`,
+        'INVALID_TIME_RANGE'
+      );
+    }
+
+    if (!getDatabaseService().isAvailable()) {
+      throw AppError.serviceUnavailable('Candles require database connection', 'DATABASE_UNAVAILABLE');
+    }
+
+    const series = await getCandleService().getCandles(tokenResult.value, interval, from, to);
+
+    res.json({
+      token: tokenResult.value,
+      interval: series.interval,
+      source: series.source,
+      from,
+      to,
+      count: series.candles.length,
+      candles: series.candles,
+    });
+  }));
+
   return router;
 }
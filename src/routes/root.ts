@@ -16,7 +16,20 @@ export function createRootRouter(services: ServiceGetters): Router {
       version: '1.0.0',
       documentation: 'https://docs.coingecko.com/reference/exchanges-list',
       endpoints: {
-        tickers: '/api/tickers - Returns all DAO tickers with pricing and volume',
+        pairs: '/api/pairs - Returns all discovered trading pairs (no price/volume lookups)',
+        tickers: '/api/tickers?base=&dao=&symbol=&min_liquidity_usd=&min_volume= - Returns DAO tickers with pricing and volume (filters optional)',
+        ticker: '/api/tickers/:tickerId - Returns a single ticker (BASE_QUOTE)',
+        ticker_stats: '/api/tickers/:tickerId/stats - Returns rolling 1h/24h/7d/30d volume and price change for a ticker',
+        orderbook: '/api/orderbook?ticker_id=BASE_QUOTE&depth=100 - Returns order book levels synthesized from AMM reserves',
+        historical_trades: '/api/historical_trades?ticker_id=BASE_QUOTE&type=buy|sell&limit=500 - Returns recent swaps split into buy/sell',
+        cmc_summary: '/api/cmc/summary - CoinMarketCap DEX summary for all pairs',
+        cmc_assets: '/api/cmc/assets - CoinMarketCap DEX assets keyed by mint address',
+        cmc_ticker: '/api/cmc/ticker - CoinMarketCap DEX tickers keyed by market pair',
+        cmc_trades: '/api/cmc/trades/:market_pair - CoinMarketCap DEX trades for the last 24 hours',
+        cmc_orderbook: '/api/cmc/orderbook/:market_pair?depth=100 - CoinMarketCap DEX order book',
+        daos: '/api/daos - Returns every discovered DAO with ticker, treasury, rolling stats and supply',
+        dao: '/api/daos/:daoAddress - Returns everything known about a single DAO',
+        candles: '/api/candles/:token?interval=10m|1h|4h|1d|1w&from=&to= - Returns OHLCV candles (from/to in unix seconds)',
         supply: '/api/supply/:mintAddress - Returns complete supply breakdown with allocation details',
         supply_total: '/api/supply/:mintAddress/total - Returns total supply only',
         supply_circulating: '/api/supply/:mintAddress/circulating - Returns circulating supply (excludes team performance package)',
@@ -0,0 +1,66 @@
+import { Router, type Request, type Response } from 'express';
+import type { ServiceGetters } from './types.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { parseTickerQuery } from './coingecko.js';
+import { diffTickerSnapshots, filterTickerSnapshot } from '../services/tickerService.js';
+
+// Idle connections get a comment this often, so proxies don't close them
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export function createStreamRouter(services: ServiceGetters): Router {
+  const router = Router();
+  const { getTickerSnapshotService } = services;
+
+  // Server-Sent Events feed of /api/tickers
+  // Same filters as /api/tickers. Sends a `snapshot` event with every matching ticker,
+  // then a `delta` event ({ updated, removed }) whenever tickers change
+  router.get('/api/stream/tickers', asyncHandler(async (req: Request, res: Response) => {
+    const query = parseTickerQuery(req);
+    const tickerSnapshotService = getTickerSnapshotService();
+    // Load before opening the stream, so failures are still plain JSON errors
+    let sent = await tickerSnapshotService.getSnapshot(req.requestId, query);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Stop nginx from buffering events
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    writeEvent(res, 'snapshot', {
+      generated_at: sent.generatedAt.toISOString(),
+      stale: sent.stale ?? false,
+      tickers: sent.tickers,
+    });
+
+    // Deltas are diffed against what this client last received
+    const unsubscribe = tickerSnapshotService.subscribe((_previous, next) => {
+      const filtered = filterTickerSnapshot(next, query);
+      const delta = diffTickerSnapshots(sent, filtered);
+      sent = filtered;
+      if (delta.updated.length === 0 && delta.removed.length === 0) return;
+
+      writeEvent(res, 'delta', {
+        generated_at: filtered.generatedAt.toISOString(),
+        updated: delta.updated,
+        removed: delta.removed,
+      });
+    });
+
+    const heartbeat = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }));
+
+  return router;
+}
+
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
@@ -1,6 +1,7 @@
 import { Router, type Request, type Response } from 'express';
 import { PublicKey } from '@solana/web3.js';
 import { parseSolanaAddress } from '../utils/validation.js';
+import { toSupplyAllocationInput } from '../services/solanaService.js';
 import type { ServiceGetters } from './types.js';
 import { asyncHandler, AppError } from '../middleware/errorHandler.js';
 import { logger } from '../utils/logger.js';
@@ -24,34 +25,7 @@ export function createSupplyRouter(services: ServiceGetters): Router {
         new PublicKey(mintAddress)
       );
 
-      const supplyInfo = await solanaService.getSupplyInfo(mintAddress, {
-        teamPerformancePackage: {
-          amount: allocation.teamPerformancePackage.amount,
-          address: allocation.teamPerformancePackage.address?.toString(),
-        },
-        futarchyAmmLiquidity: {
-          amount: allocation.futarchyAmmLiquidity.amount,
-          vaultAddress: allocation.futarchyAmmLiquidity.vaultAddress?.toString(),
-        },
-        meteoraLpLiquidity: {
-          amount: allocation.meteoraLpLiquidity.amount,
-          poolAddress: allocation.meteoraLpLiquidity.poolAddress?.toString(),
-          vaultAddress: allocation.meteoraLpLiquidity.vaultAddress?.toString(),
-        },
-        additionalTokenAllocation: allocation.additionalTokenAllocation ? {
-          amount: allocation.additionalTokenAllocation.amount,
-          recipient: allocation.additionalTokenAllocation.recipient.toString(),
-          claimed: allocation.additionalTokenAllocation.claimed,
-          tokenAccountAddress: allocation.additionalTokenAllocation.tokenAccountAddress?.toString(),
-        } : undefined,
-        daoTreasuryTokens: {
-          amount: allocation.daoTreasuryTokens.amount,
-          vaultAddress: allocation.daoTreasuryTokens.vaultAddress?.toString(),
-        },
-        daoAddress: allocation.daoAddress?.toString(),
-        launchAddress: allocation.launchAddress?.toString(),
-        version: allocation.version,
-      });
+      const supplyInfo = await solanaService.getSupplyInfo(mintAddress, toSupplyAllocationInput(allocation));
 
       res.json({
         result: supplyInfo.totalSupply,
@@ -89,34 +63,7 @@ export function createSupplyRouter(services: ServiceGetters): Router {
       new PublicKey(mintAddress)
     );
 
-    const supplyInfo = await solanaService.getSupplyInfo(mintAddress, {
-      teamPerformancePackage: {
-        amount: allocation.teamPerformancePackage.amount,
-        address: allocation.teamPerformancePackage.address?.toString(),
-      },
-      futarchyAmmLiquidity: {
-        amount: allocation.futarchyAmmLiquidity.amount,
-        vaultAddress: allocation.futarchyAmmLiquidity.vaultAddress?.toString(),
-      },
-      meteoraLpLiquidity: {
-        amount: allocation.meteoraLpLiquidity.amount,
-        poolAddress: allocation.meteoraLpLiquidity.poolAddress?.toString(),
-        vaultAddress: allocation.meteoraLpLiquidity.vaultAddress?.toString(),
-      },
-      additionalTokenAllocation: allocation.additionalTokenAllocation ? {
-        amount: allocation.additionalTokenAllocation.amount,
-        recipient: allocation.additionalTokenAllocation.recipient.toString(),
-        claimed: allocation.additionalTokenAllocation.claimed,
-        tokenAccountAddress: allocation.additionalTokenAllocation.tokenAccountAddress?.toString(),
-      } : undefined,
-      daoTreasuryTokens: {
-        amount: allocation.daoTreasuryTokens.amount,
-        vaultAddress: allocation.daoTreasuryTokens.vaultAddress?.toString(),
-      },
-      daoAddress: allocation.daoAddress?.toString(),
-      launchAddress: allocation.launchAddress?.toString(),
-      version: allocation.version,
-    });
+    const supplyInfo = await solanaService.getSupplyInfo(mintAddress, toSupplyAllocationInput(allocation));
 
     const response: { 
       result: string; 
@@ -183,34 +130,7 @@ export function createSupplyRouter(services: ServiceGetters): Router {
       new PublicKey(mintAddress)
     );
 
-    const supplyInfo = await solanaService.getSupplyInfo(mintAddress, {
-      teamPerformancePackage: {
-        amount: allocation.teamPerformancePackage.amount,
-        address: allocation.teamPerformancePackage.address?.toString(),
-      },
-      futarchyAmmLiquidity: {
-        amount: allocation.futarchyAmmLiquidity.amount,
-        vaultAddress: allocation.futarchyAmmLiquidity.vaultAddress?.toString(),
-      },
-      meteoraLpLiquidity: {
-        amount: allocation.meteoraLpLiquidity.amount,
-        poolAddress: allocation.meteoraLpLiquidity.poolAddress?.toString(),
-        vaultAddress: allocation.meteoraLpLiquidity.vaultAddress?.toString(),
-      },
-      additionalTokenAllocation: allocation.additionalTokenAllocation ? {
-        amount: allocation.additionalTokenAllocation.amount,
-        recipient: allocation.additionalTokenAllocation.recipient.toString(),
-        claimed: allocation.additionalTokenAllocation.claimed,
-        tokenAccountAddress: allocation.additionalTokenAllocation.tokenAccountAddress?.toString(),
-      } : undefined,
-      daoTreasuryTokens: {
-        amount: allocation.daoTreasuryTokens.amount,
-        vaultAddress: allocation.daoTreasuryTokens.vaultAddress?.toString(),
-      },
-      daoAddress: allocation.daoAddress?.toString(),
-      launchAddress: allocation.launchAddress?.toString(),
-      version: allocation.version,
-    });
+    const supplyInfo = await solanaService.getSupplyInfo(mintAddress, toSupplyAllocationInput(allocation));
 
     res.json({ circulatingSupply: parseFloat(supplyInfo.circulatingSupply) });
   }));
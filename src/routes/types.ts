@@ -9,6 +9,17 @@ import type { HourlyAggregationService } from '../services/hourlyAggregationServ
 import type { TenMinuteVolumeFetcherService } from '../services/tenMinuteVolumeFetcherService.js';
 import type { DailyAggregationService } from '../services/dailyAggregationService.js';
 import type { MeteoraVolumeFetcherService } from '../services/meteoraVolumeFetcherService.js';
+import type { TradeFetcherService } from '../services/tradeFetcherService.js';
+import type { SwapIndexerService } from '../services/swapIndexerService.js';
+import type { FeeVolumeService } from '../services/feeVolumeService.js';
+import type { ReconciliationService } from '../services/reconciliationService.js';
+import type { TenMinuteGapService } from '../services/tenMinuteGapService.js';
+import type { PoolWatcherService } from '../services/poolWatcherService.js';
+import type { TickerService } from '../services/tickerService.js';
+import type { TickerSnapshotService } from '../services/tickerSnapshotService.js';
+import type { CandleService } from '../services/candleService.js';
+import type { DaoService } from '../services/daoService.js';
+import type { DaoRegistryService } from '../services/daoRegistryService.js';
 
 /**
  * Service getters passed to route handlers.
@@ -27,4 +38,15 @@ export interface ServiceGetters {
   getTenMinuteVolumeFetcherService: () => TenMinuteVolumeFetcherService | null;
   getDailyAggregationService: () => DailyAggregationService | null;
   getMeteoraVolumeFetcherService: () => MeteoraVolumeFetcherService | null;
+  getTradeFetcherService: () => TradeFetcherService | null;
+  getSwapIndexerService: () => SwapIndexerService | null;
+  getFeeVolumeService: () => FeeVolumeService | null;
+  getReconciliationService: () => ReconciliationService | null;
+  getTenMinuteGapService: () => TenMinuteGapService | null;
+  getPoolWatcherService: () => PoolWatcherService | null;
+  getTickerService: () => TickerService;
+  getTickerSnapshotService: () => TickerSnapshotService;
+  getCandleService: () => CandleService;
+  getDaoService: () => DaoService;
+  getDaoRegistryService: () => DaoRegistryService | null;
 }
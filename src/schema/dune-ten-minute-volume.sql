@@ -16,7 +16,7 @@
 -- Schedule: Every 10 minutes at :00, :10, :20, :30, :40, :50 (144 queries/day)
 --
 -- Returns: token, bucket, base_volume, target_volume, buy_volume, sell_volume, high, low, 
---          average_price, trade_count, usdc_fees, token_fees, token_fees_usdc, sell_volume_usdc
+--          open, close, average_price, trade_count, usdc_fees, token_fees, token_fees_usdc, sell_volume_usdc
 
 WITH filtered_and_extracted AS (
     SELECT
@@ -86,6 +86,9 @@ aggregated AS (
         SUM(CASE WHEN swap_type = 'sell' THEN input_amount ELSE 0 END) AS sell_volume,
         MAX(price) AS high,
         MIN(price) AS low,
+        -- First and last trade in the bucket
+        MIN_BY(price, block_time) AS open,
+        MAX_BY(price, block_time) AS close,
         AVG(price) AS average_price,
         COUNT(*) AS trade_count
     FROM token_filtered
@@ -105,6 +108,8 @@ SELECT
     -- Price metrics
     CAST(high AS VARCHAR) AS high,
     CAST(low AS VARCHAR) AS low,
+    CAST(open AS VARCHAR) AS open,
+    CAST(close AS VARCHAR) AS close,
     CAST(average_price AS VARCHAR) AS average_price,
     -- Trade count
     CAST(trade_count AS VARCHAR) AS trade_count,
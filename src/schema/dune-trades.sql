@@ -0,0 +1,75 @@
+-- Individual Swaps Query with start_time and end_time Parameters
+-- Returns one row per SpotSwap event for each token
+-- Used to populate the trades table behind /api/historical_trades
+-- Decoding mirrors dune-ten-minute-volume.sql so per-trade data reconciles with the 10-minute buckets
+--
+-- Parameters:
+--   {{start_time}}: Start timestamp for data fetch (format: YYYY-MM-DD HH:MM:SS)
+--   {{end_time}}: End timestamp for data fetch (format: YYYY-MM-DD HH:MM:SS)
+--   {{token_list}}: comma-separated token addresses in format 'token1', 'token2'
+--                   Use '__ALL__' to fetch all tokens
+--
+-- Schedule: Every 10 minutes at :00, :10, :20, :30, :40, :50 (144 queries/day)
+--
+-- Returns: tx_id, outer_instruction_index, inner_instruction_index, block_time, token, quote_mint,
+--          swap_type, price, base_volume, target_volume
+
+WITH filtered_and_extracted AS (
+    SELECT
+        block_time,
+        tx_id,
+        outer_instruction_index,
+        COALESCE(inner_instruction_index, 0) AS inner_instruction_index,
+        CASE
+            WHEN LENGTH(data) = 406 THEN to_base58(SUBSTR(data, 279, 32))
+            WHEN LENGTH(data) = 670 THEN to_base58(SUBSTR(data, 543, 32))
+        END AS token,
+        CASE
+            WHEN to_hex(SUBSTR(data, 105, 1)) = '00' THEN 'buy'
+            WHEN to_hex(SUBSTR(data, 105, 1)) = '01' THEN 'sell'
+        END AS swap_type,
+        from_big_endian_64(reverse(SUBSTR(data, 106, 8))) / 1e6 AS input_amount,
+        from_big_endian_64(reverse(SUBSTR(data, 114, 8))) / 1e6 AS output_amount,
+        CASE
+            WHEN LENGTH(data) = 406 THEN to_base58(SUBSTR(data, 311, 32))
+            WHEN LENGTH(data) = 670 THEN to_base58(SUBSTR(data, 575, 32))
+        END AS quote_mint
+    FROM solana.instruction_calls
+    WHERE 
+        block_time >= TIMESTAMP '{{start_time}}'
+        AND block_time < TIMESTAMP '{{end_time}}'
+        AND tx_success = true
+        AND executing_account = 'FUTARELBfJfQ8RDGhg1wdhddq1odMAJUePHFuBYfUxKq'
+        AND inner_executing_account = 'FUTARELBfJfQ8RDGhg1wdhddq1odMAJUePHFuBYfUxKq'
+        AND account_arguments[1] = 'DGEympSS4qLvdr9r3uGHTfACdN8snShk4iGdJtZPxuBC'
+        AND is_inner = true
+        AND cardinality(account_arguments) = 1
+        AND CAST(data AS VARCHAR) LIKE '0xe445a52e51cb9a1d%'
+        AND LENGTH(data) >= 300
+        AND array_join(log_messages, ' ') LIKE '%SpotSwap%'
+)
+SELECT
+    tx_id,
+    CAST(outer_instruction_index AS VARCHAR) AS outer_instruction_index,
+    CAST(inner_instruction_index AS VARCHAR) AS inner_instruction_index,
+    CAST(block_time AS VARCHAR) AS block_time,
+    token,
+    quote_mint,
+    swap_type,
+    -- Price in quote per base
+    CAST(CASE
+        WHEN swap_type = 'buy' THEN input_amount / NULLIF(output_amount, 0)
+        WHEN swap_type = 'sell' THEN output_amount / NULLIF(input_amount, 0)
+    END AS VARCHAR) AS price,
+    -- Base token amount traded
+    CAST(CASE WHEN swap_type = 'buy' THEN output_amount ELSE input_amount END AS VARCHAR) AS base_volume,
+    -- Quote token amount traded
+    CAST(CASE WHEN swap_type = 'buy' THEN input_amount ELSE output_amount END AS VARCHAR) AS target_volume
+FROM filtered_and_extracted
+WHERE 
+    ('__ALL__' IN ({{token_list}}) OR token IN ({{token_list}}))
+    AND swap_type IN ('buy', 'sell')
+    AND input_amount > 0
+    AND output_amount > 0
+    AND token IS NOT NULL
+ORDER BY block_time ASC, tx_id ASC, outer_instruction_index ASC, inner_instruction_index ASC;
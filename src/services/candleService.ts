@@ -0,0 +1,145 @@
+/**
+ * CandleService
+ *
+ * OHLCV candles built from the stored volume tables. Each interval reads the
+ * coarsest table whose buckets divide it evenly and rolls buckets up as needed:
+ *
+ * - 10m      -> ten_minute_volumes
+ * - 1h, 4h   -> hourly_volumes
+ * - 1d, 1w   -> daily_volumes
+ *
+ * Candles are aligned to UTC; weekly candles start on Monday.
+ * open/close of a rolled-up candle are the first bucket's open and the last bucket's close.
+ */
+
+import { DatabaseService, type CandleSourceRow, type CandleSourceTable } from './databaseService.js';
+import { DECIMAL_SCALE, divToFixed, parseDecimal, pow10 } from '../utils/decimal.js';
+
+export const CANDLE_INTERVALS = ['10m', '1h', '4h', '1d', '1w'] as const;
+export type CandleInterval = typeof CANDLE_INTERVALS[number];
+
+// Upper bound on candles per request
+export const MAX_CANDLES = 1000;
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+// 1970-01-01 was a Thursday; shift so weekly buckets start on Monday
+const WEEK_OFFSET = 4 * DAY;
+
+export const CANDLE_INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  '10m': 10 * MINUTE,
+  '1h': HOUR,
+  '4h': 4 * HOUR,
+  '1d': DAY,
+  '1w': 7 * DAY,
+};
+
+const CANDLE_SOURCES: Record<CandleInterval, CandleSourceTable> = {
+  '10m': 'ten_minute',
+  '1h': 'hourly',
+  '4h': 'hourly',
+  '1d': 'daily',
+  '1w': 'daily',
+};
+
+// Volume columns are NUMERIC(40, 12)
+const VOLUME_SCALE = 12;
+
+export interface Candle {
+  time: number; // bucket start, unix seconds
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  base_volume: string;
+  target_volume: string;
+  trade_count: number;
+}
+
+export interface CandleSeries {
+  interval: CandleInterval;
+  source: CandleSourceTable;
+  candles: Candle[];
+}
+
+/**
+ * Start of the candle containing `time` (unix seconds)
+ */
+export function alignToInterval(time: number, interval: CandleInterval): number {
+  const size = CANDLE_INTERVAL_SECONDS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET : 0;
+  return Math.floor((time - offset) / size) * size + offset;
+}
+
+function sumDecimals(values: string[]): string {
+  const total = values.reduce((sum, value) => sum + parseDecimal(value, VOLUME_SCALE), 0n);
+  return divToFixed(total, pow10(VOLUME_SCALE), VOLUME_SCALE);
+}
+
+/**
+ * Roll source buckets (oldest first) up into candles of the given interval
+ */
+export function rollUpCandles(rows: CandleSourceRow[], interval: CandleInterval): Candle[] {
+  const groups = new Map<number, CandleSourceRow[]>();
+  for (const row of rows) {
+    const time = alignToInterval(row.time, interval);
+    const group = groups.get(time);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(time, [row]);
+    }
+  }
+
+  const candles: Candle[] = [];
+  for (const [time, group] of groups) {
+    const first = group[0]!;
+    const last = group[group.length - 1]!;
+    let high = first.high;
+    let low = first.low;
+    for (const row of group) {
+      if (parseDecimal(row.high, DECIMAL_SCALE) > parseDecimal(high, DECIMAL_SCALE)) high = row.high;
+      if (parseDecimal(row.low, DECIMAL_SCALE) < parseDecimal(low, DECIMAL_SCALE)) low = row.low;
+    }
+
+    candles.push({
+      time,
+      open: first.open,
+      high,
+      low,
+      close: last.close,
+      base_volume: sumDecimals(group.map(row => row.base_volume)),
+      target_volume: sumDecimals(group.map(row => row.target_volume)),
+      trade_count: group.reduce((sum, row) => sum + Number(row.trade_count), 0),
+    });
+  }
+
+  return candles.sort((a, b) => a.time - b.time);
+}
+
+export class CandleService {
+  private databaseService: DatabaseService;
+
+  constructor(databaseService: DatabaseService) {
+    this.databaseService = databaseService;
+  }
+
+  /**
+   * Candles for a token between `from` (inclusive) and `to` (exclusive), unix seconds.
+   * `from` is aligned down to the start of its candle.
+   */
+  async getCandles(token: string, interval: CandleInterval, from: number, to: number): Promise<CandleSeries> {
+    const source = CANDLE_SOURCES[interval];
+    const alignedFrom = alignToInterval(from, interval);
+
+    const rows = await this.databaseService.getCandleSourceRows(
+      source,
+      token,
+      new Date(alignedFrom * 1000),
+      new Date(to * 1000)
+    );
+
+    return { interval, source, candles: rollUpCandles(rows, interval) };
+  }
+}
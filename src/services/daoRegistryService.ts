@@ -0,0 +1,170 @@
+/**
+ * DaoRegistryService
+ *
+ * Records every DAO discovery returns in the daos table, so we keep a durable
+ * history of when each DAO first appeared and was last seen, and can still list
+ * DAOs when RPC discovery is failing.
+ *
+ * Schedule:
+ * - On startup and every 10 minutes: run discovery and upsert the results
+ *
+ * A DAO whose last_seen_at is older than the latest sync has vanished from
+ * discovery (closed, excluded or no longer has a valid pool).
+ *
+ * Launch address and version are only looked up for DAOs that don't have one
+ * recorded yet - a DAO's launch never changes after it exists.
+ */
+
+import type { FutarchyService, DaoTickerData } from './futarchyService.js';
+import type { DatabaseService, DaoRegistryRecord, RegisteredDao } from './databaseService.js';
+import type { LaunchpadService } from './launchpadService.js';
+import { scheduleWithoutPileup, type ScheduledTask } from '../utils/scheduling.js';
+import { logger } from '../utils/logger.js';
+
+export class DaoRegistryService {
+  private futarchyService: FutarchyService;
+  private databaseService: DatabaseService;
+  private launchpadService: LaunchpadService | null;
+  private syncTask: ScheduledTask | null = null;
+  private lastSyncTime: Date | null = null;
+  private syncInProgress: boolean = false;
+
+  private readonly SYNC_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+  constructor(
+    futarchyService: FutarchyService,
+    databaseService: DatabaseService,
+    launchpadService: LaunchpadService | null = null
+  ) {
+    this.futarchyService = futarchyService;
+    this.databaseService = databaseService;
+    this.launchpadService = launchpadService;
+  }
+
+  getLastSyncTime(): Date | null {
+    return this.lastSyncTime;
+  }
+
+  /**
+   * Start the background sync loop (runs immediately, then every 10 minutes)
+   */
+  start(): void {
+    if (this.syncTask) {
+      logger.info('[DaoRegistry] Service already running');
+      return;
+    }
+
+    if (!this.databaseService.isAvailable()) {
+      logger.info('[DaoRegistry] Database not connected - service disabled');
+      return;
+    }
+
+    this.syncTask = scheduleWithoutPileup(
+      async () => {
+        await this.sync();
+      },
+      {
+        name: 'DaoRegistry',
+        intervalMs: this.SYNC_INTERVAL_MS,
+        immediate: true,
+        onError: (error) => logger.error('[DaoRegistry] Sync error', error),
+      }
+    );
+
+    logger.info('[DaoRegistry] Started with sync every 10 minutes');
+  }
+
+  /**
+   * Stop the background sync loop
+   */
+  stop(): void {
+    if (this.syncTask) {
+      this.syncTask.stop();
+      this.syncTask = null;
+    }
+  }
+
+  /**
+   * Run discovery and record every DAO it returns
+   */
+  async sync(): Promise<number> {
+    if (this.syncInProgress) {
+      logger.info('[DaoRegistry] Sync already in progress, skipping');
+      return 0;
+    }
+
+    this.syncInProgress = true;
+
+    try {
+      const seenAt = new Date();
+      const [daos, registered] = await Promise.all([
+        this.futarchyService.getAllDaos(),
+        this.databaseService.getRegisteredDaos(),
+      ]);
+
+      const known = new Set(registered.map(dao => dao.dao_address));
+      const withLaunch = new Set(registered.filter(dao => dao.launch_address).map(dao => dao.dao_address));
+      const records: DaoRegistryRecord[] = [];
+      for (const dao of daos) {
+        records.push(await this.toRecord(dao, withLaunch.has(dao.daoAddress.toString())));
+      }
+
+      const upserted = await this.databaseService.upsertDaos(records, seenAt);
+      const newCount = records.filter(record => !known.has(record.dao_address)).length;
+      this.lastSyncTime = seenAt;
+      logger.info(`[DaoRegistry] Recorded ${records.length} DAOs (${newCount} new)`);
+      return upserted;
+    } finally {
+      this.syncInProgress = false;
+    }
+  }
+
+  /**
+   * Every DAO ever recorded, including ones discovery no longer returns
+   */
+  async getRegisteredDaos(): Promise<RegisteredDao[]> {
+    return this.databaseService.getRegisteredDaos();
+  }
+
+  /**
+   * DAOs returned by the most recent sync - the registry's view of what discovery currently returns
+   */
+  async getActiveDaos(): Promise<RegisteredDao[]> {
+    const daos = await this.databaseService.getRegisteredDaos();
+    if (daos.length === 0) return [];
+
+    const latestSeen = Math.max(...daos.map(dao => dao.last_seen_at.getTime()));
+    return daos.filter(dao => dao.last_seen_at.getTime() === latestSeen);
+  }
+
+  private async toRecord(dao: DaoTickerData, hasLaunch: boolean): Promise<DaoRegistryRecord> {
+    const record: DaoRegistryRecord = {
+      dao_address: dao.daoAddress.toString(),
+      base_mint: dao.baseMint.toString(),
+      quote_mint: dao.quoteMint.toString(),
+      base_decimals: dao.baseDecimals,
+      quote_decimals: dao.quoteDecimals,
+      base_symbol: dao.baseSymbol ?? null,
+      base_name: dao.baseName ?? null,
+      quote_symbol: dao.quoteSymbol ?? null,
+      quote_name: dao.quoteName ?? null,
+      treasury_vault_address: dao.treasuryVaultAddress ?? null,
+      launch_address: null,
+      version: null,
+    };
+
+    if (hasLaunch || !this.launchpadService) return record;
+
+    try {
+      const launch = await this.launchpadService.getLaunchByBaseMint(dao.baseMint);
+      if (launch) {
+        record.launch_address = launch.launchAddress.toString();
+        record.version = launch.version;
+      }
+    } catch (error: any) {
+      logger.warn(`[DaoRegistry] Could not look up launch for ${record.base_mint}`, { error: error.message });
+    }
+
+    return record;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * DaoService
+ *
+ * One view of everything we know about a DAO: on-chain pool and token data from
+ * discovery, treasury AUM, the ticker with its rolling window stats and first
+ * trade date, and the supply with its launchpad allocation breakdown.
+ *
+ * Tickers are read from TickerSnapshotService, the same snapshot the ticker
+ * endpoints serve, so DAO requests don't rebuild them.
+ *
+ * Supply is looked up per DAO through the launchpad and Solana services (both
+ * cache their results), so a DAO whose supply lookup fails is still returned
+ * with `supply: null` rather than failing the whole response. Likewise, when
+ * tickers can't be built because a quote mint has no USD price, DAOs are
+ * returned with `ticker: null`.
+ */
+
+import type { PublicKey } from '@solana/web3.js';
+import type { CoinGeckoTicker } from '../types/coingecko.js';
+import type { FutarchyService, DaoTickerData, TokenProgramInfo } from './futarchyService.js';
+import { UnpricedQuoteMintError, type TickerSnapshot, type TickerQuery } from './tickerService.js';
+import type { TickerSnapshotService } from './tickerSnapshotService.js';
+import type { LaunchpadService } from './launchpadService.js';
+import { toSupplyAllocationInput, type SolanaService, type TokenSupplyInfo } from './solanaService.js';
+import type { RollingWindow, RollingWindowMetrics } from './databaseService.js';
+import type { VolumeSourceName } from './volumeSources.js';
+import { formatUnits } from '../utils/decimal.js';
+import { logger } from '../utils/logger.js';
+
+export interface DaoDetail {
+  dao_address: string;
+  ticker_id: string;
+  base_mint: string;
+  quote_mint: string;
+  base_symbol: string | null;
+  base_name: string | null;
+  quote_symbol: string | null;
+  quote_name: string | null;
+  base_decimals: number;
+  quote_decimals: number;
+  // SPL Token or Token-2022, with mint extensions and transfer fee; null if the mint couldn't be read
+  base_token_program: TokenProgramInfo | null;
+  quote_token_program: TokenProgramInfo | null;
+  // Spot pool reserves in token units
+  reserves: {
+    base: string;
+    quote: string;
+  };
+  treasury: {
+    vault_address: string | null;
+    usdc_aum: string | null;
+  };
+  // Null when the DAO has no priced ticker (e.g. a quote mint can't be priced in USD)
+  ticker: CoinGeckoTicker | null;
+  volume_source: VolumeSourceName | 'none';
+  // Rolling 1h/24h/7d/30d stats, null without 10-minute volume data
+  windows: Record<RollingWindow, RollingWindowMetrics> | null;
+  first_trade_date: string | null;
+  // Total/circulating supply with the launchpad allocation breakdown
+  supply: TokenSupplyInfo | null;
+}
+
+export class DaoService {
+  private futarchyService: FutarchyService;
+  private tickerSnapshotService: TickerSnapshotService;
+  private launchpadService: LaunchpadService | null;
+  private solanaService: SolanaService | null;
+
+  constructor(
+    futarchyService: FutarchyService,
+    tickerSnapshotService: TickerSnapshotService,
+    launchpadService: LaunchpadService | null,
+    solanaService: SolanaService | null
+  ) {
+    this.futarchyService = futarchyService;
+    this.tickerSnapshotService = tickerSnapshotService;
+    this.launchpadService = launchpadService;
+    this.solanaService = solanaService;
+  }
+
+  /**
+   * Details for every discovered DAO
+   */
+  async getDaoDetails(requestId?: string): Promise<DaoDetail[]> {
+    const [daos, snapshot] = await Promise.all([
+      this.futarchyService.getAllDaos(),
+      this.getTickerSnapshot(requestId),
+    ]);
+
+    // Sequential so a cold cache doesn't fire every DAO's supply lookups at the RPC at once
+    const details: DaoDetail[] = [];
+    for (const dao of daos) {
+      details.push(await this.buildDetail(dao, snapshot, requestId));
+    }
+    return details;
+  }
+
+  /**
+   * Details for one DAO, or null if it isn't among the discovered DAOs
+   */
+  async getDaoDetail(daoAddress: string, requestId?: string): Promise<DaoDetail | null> {
+    const dao = (await this.futarchyService.getAllDaos())
+      .find(candidate => candidate.daoAddress.toString() === daoAddress);
+    if (!dao) return null;
+
+    const snapshot = await this.getTickerSnapshot(requestId, { dao: daoAddress });
+    return this.buildDetail(dao, snapshot, requestId);
+  }
+
+  /**
+   * Tickers for the query, or none when a quote mint can't be priced
+   */
+  private async getTickerSnapshot(requestId?: string, query: TickerQuery = {}): Promise<TickerSnapshot> {
+    try {
+      return await this.tickerSnapshotService.getSnapshot(requestId, query);
+    } catch (error) {
+      if (!(error instanceof UnpricedQuoteMintError)) throw error;
+      logger.warn('Serving DAOs without tickers', { mints: error.mints, requestId });
+      return { tickers: [], provenance: {}, windows: {}, generatedAt: new Date() };
+    }
+  }
+
+  private async buildDetail(dao: DaoTickerData, snapshot: TickerSnapshot, requestId?: string): Promise<DaoDetail> {
+    const tickerId = `${dao.baseMint.toString()}_${dao.quoteMint.toString()}`;
+    const ticker = snapshot.tickers.find(candidate => candidate.ticker_id === tickerId) ?? null;
+
+    return {
+      dao_address: dao.daoAddress.toString(),
+      ticker_id: tickerId,
+      base_mint: dao.baseMint.toString(),
+      quote_mint: dao.quoteMint.toString(),
+      base_symbol: dao.baseSymbol ?? null,
+      base_name: dao.baseName ?? null,
+      quote_symbol: dao.quoteSymbol ?? null,
+      quote_name: dao.quoteName ?? null,
+      base_decimals: dao.baseDecimals,
+      quote_decimals: dao.quoteDecimals,
+      base_token_program: dao.baseTokenProgram ?? null,
+      quote_token_program: dao.quoteTokenProgram ?? null,
+      reserves: {
+        base: formatUnits(dao.poolData.baseReserves, dao.baseDecimals),
+        quote: formatUnits(dao.poolData.quoteReserves, dao.quoteDecimals),
+      },
+      treasury: {
+        vault_address: dao.treasuryVaultAddress ?? null,
+        usdc_aum: dao.treasuryUsdcAum ?? null,
+      },
+      ticker,
+      volume_source: ticker ? snapshot.provenance[tickerId]?.source ?? 'none' : 'none',
+      windows: snapshot.windows[tickerId] ?? null,
+      first_trade_date: ticker?.startDate ?? null,
+      supply: await this.getSupply(dao.baseMint, requestId),
+    };
+  }
+
+  private async getSupply(baseMint: PublicKey, requestId?: string): Promise<TokenSupplyInfo | null> {
+    if (!this.launchpadService || !this.solanaService) return null;
+
+    try {
+      const allocation = await this.launchpadService.getTokenAllocationBreakdown(baseMint);
+      return await this.solanaService.getSupplyInfo(baseMint.toString(), toSupplyAllocationInput(allocation));
+    } catch (error) {
+      logger.warn('Could not fetch DAO supply', { baseMint: baseMint.toString(), error: (error as Error).message, requestId });
+      return null;
+    }
+  }
+}
@@ -1,6 +1,9 @@
 import pg from 'pg';
 import { config } from '../config.js';
 import { logger } from '../utils/logger.js';
+import { divToFixed, parseDecimal, percentChange, pow10 } from '../utils/decimal.js';
+import type { TickerSnapshot } from './tickerService.js';
+import type { CoinGeckoTicker } from '../types/coingecko.js';
 
 const { Pool } = pg;
 
@@ -13,6 +16,8 @@ export interface DailyVolumeRecord {
   sell_volume?: string;
   high: string;
   low: string;
+  open?: string; // first trade price in the bucket
+  close?: string; // last trade price in the bucket
   average_price?: string;
   trade_count?: number;
   usdc_fees?: string;
@@ -34,6 +39,8 @@ export interface HourlyVolumeRecord {
   sell_volume?: string;
   high: string;
   low: string;
+  open?: string; // first trade price in the bucket
+  close?: string; // last trade price in the bucket
   average_price?: string;
   trade_count: number;
   usdc_fees?: string;
@@ -51,6 +58,8 @@ export interface TenMinuteVolumeRecord {
   sell_volume?: string;
   high: string;
   low: string;
+  open?: string; // first trade price in the bucket
+  close?: string; // last trade price in the bucket
   average_price?: string;
   trade_count: number;
   usdc_fees?: string;
@@ -59,6 +68,50 @@ export interface TenMinuteVolumeRecord {
   sell_volume_usdc?: string;
 }
 
+/**
+ * A stored 10-minute bucket, without its values (for gap scanning)
+ */
+export interface TenMinuteBucketState {
+  token: string;
+  bucket: Date;
+  is_complete: boolean;
+}
+
+export interface TradeRecord {
+  tx_id: string;
+  outer_instruction_index: number;
+  inner_instruction_index: number;
+  token: string;
+  quote_mint: string;
+  trade_timestamp: string; // ISO timestamp
+  type: 'buy' | 'sell';
+  price: string;
+  base_volume: string;
+  target_volume: string;
+}
+
+export interface StoredTrade {
+  trade_id: number;
+  price: string;
+  base_volume: string;
+  target_volume: string;
+  trade_timestamp: Date;
+  type: 'buy' | 'sell';
+}
+
+export type CandleSourceTable = 'ten_minute' | 'hourly' | 'daily';
+
+export interface CandleSourceRow {
+  time: number; // bucket start, unix seconds
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  base_volume: string;
+  target_volume: string;
+  trade_count: number;
+}
+
 export interface DailyBuySellVolumeRecord {
   token: string;
   date: string; // YYYY-MM-DD
@@ -140,6 +193,181 @@ export interface Rolling24hMetrics {
   trade_count_24h: number;
 }
 
+export const ROLLING_WINDOWS = ['1h', '24h', '7d', '30d'] as const;
+export type RollingWindow = typeof ROLLING_WINDOWS[number];
+
+export interface RollingWindowMetrics {
+  base_volume: string;
+  target_volume: string;
+  high: string;
+  low: string;
+  open: string; // first traded price in the window (latest price if nothing traded)
+  close: string; // latest traded price
+  // (close - open) / open * 100, null when there is no price
+  price_change_percentage: string | null;
+  trade_count: number;
+}
+
+export interface RollingWindowStats {
+  token: string;
+  windows: Record<RollingWindow, RollingWindowMetrics>;
+}
+
+/**
+ * A stored 10-minute bucket, hour or day counted toward the rolling windows
+ */
+export interface RollingWindowRow {
+  token: string;
+  period_start: Date;
+  base_volume: string;
+  target_volume: string;
+  high: string;
+  low: string;
+  open: string;
+  close: string;
+  trade_count: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const ROLLING_WINDOW_MS: Record<RollingWindow, number> = {
+  '1h': HOUR_MS,
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+};
+// Same precision as the NUMERIC(40, 12) volume columns
+const VOLUME_SCALE = 12;
+
+/**
+ * Where each table starts feeding the rolling windows. ten_minute_volumes only
+ * holds about a day, so the 7d window reads the closed hours before it from
+ * hourly_volumes, and the 30d window the closed days before those from
+ * daily_volumes. The ranges don't overlap, so no trade is counted twice.
+ */
+export function rollingWindowSources(now: Date): { tenMinuteFrom: Date; hourlyFrom: Date; dailyFrom: Date } {
+  const floorTo = (timeMs: number, stepMs: number) => new Date(Math.floor(timeMs / stepMs) * stepMs);
+  return {
+    tenMinuteFrom: floorTo(now.getTime() - ROLLING_WINDOW_MS['24h'], HOUR_MS),
+    hourlyFrom: floorTo(now.getTime() - ROLLING_WINDOW_MS['7d'], DAY_MS),
+    dailyFrom: floorTo(now.getTime() - ROLLING_WINDOW_MS['30d'], DAY_MS),
+  };
+}
+
+/**
+ * Rolling window stats per token from non-overlapping stored periods, oldest
+ * first. A period counts toward a window when it starts inside it.
+ */
+export function buildRollingWindowStats(rows: RollingWindowRow[], now: Date): Map<string, RollingWindowStats> {
+  const byToken = new Map<string, RollingWindowRow[]>();
+  for (const row of rows) {
+    const tokenRows = byToken.get(row.token) ?? [];
+    tokenRows.push(row);
+    byToken.set(row.token, tokenRows);
+  }
+
+  const one = pow10(VOLUME_SCALE);
+  const sum = (values: string[]): string =>
+    divToFixed(values.reduce((total, value) => total + parseDecimal(value, VOLUME_SCALE), 0n), one, VOLUME_SCALE);
+
+  const statsMap = new Map<string, RollingWindowStats>();
+  for (const [token, tokenRows] of byToken) {
+    const close = tokenRows.findLast(row => parseFloat(row.close) > 0)?.close ?? '0';
+    const windows = {} as Record<RollingWindow, RollingWindowMetrics>;
+
+    for (const window of ROLLING_WINDOWS) {
+      const windowStart = now.getTime() - ROLLING_WINDOW_MS[window];
+      const inWindow = tokenRows.filter(row => row.period_start.getTime() >= windowStart);
+      const highs = inWindow.map(row => row.high).filter(high => parseFloat(high) > 0);
+      const lows = inWindow.map(row => row.low).filter(low => parseFloat(low) > 0);
+      const tradeCount = inWindow.reduce((total, row) => total + row.trade_count, 0);
+      // Nothing traded in the window: the price is unchanged since the last trade
+      const firstOpen = inWindow.find(row => parseFloat(row.open) > 0)?.open;
+      const open = tradeCount > 0 && firstOpen ? firstOpen : close;
+
+      windows[window] = {
+        base_volume: sum(inWindow.map(row => row.base_volume)),
+        target_volume: sum(inWindow.map(row => row.target_volume)),
+        high: highs.reduce((max, high) => (parseFloat(high) > parseFloat(max) ? high : max), '0'),
+        low: lows.length > 0 ? lows.reduce((min, low) => (parseFloat(low) < parseFloat(min) ? low : min)) : '0',
+        open,
+        close,
+        price_change_percentage: percentChange(open, close),
+        trade_count: tradeCount,
+      };
+    }
+
+    statsMap.set(token.toLowerCase(), { token, windows });
+  }
+  return statsMap;
+}
+
+export interface TickerSnapshotRecord {
+  // When the snapshot was captured
+  snapshot_at: Date;
+  // When the tickers in it were built
+  generated_at: Date;
+  // Captured while ticker rebuilds were failing
+  stale: boolean;
+  // The /api/tickers payload, in response order
+  tickers: CoinGeckoTicker[];
+}
+
+/**
+ * A DAO's cumulative protocol fee counters at one point in time, in token units
+ */
+export interface ProtocolFeeSnapshotRecord {
+  dao_address: string;
+  // Base mint, the key of the volume tables
+  token: string;
+  snapshot_at: Date;
+  base_protocol_fees: string;
+  quote_protocol_fees: string;
+}
+
+/**
+ * Stored 10-minute volume of one DAO and day next to the volume its protocol
+ * fee growth implies. Buys are in quote units, sells in base units.
+ */
+export interface VolumeReconciliationRecord {
+  dao_address: string;
+  token: string;
+  date: string; // YYYY-MM-DD
+  // The fee snapshots the comparison spans
+  window_start: Date;
+  window_end: Date;
+  recorded_buy_volume: string;
+  implied_buy_volume: string;
+  recorded_sell_volume: string;
+  implied_sell_volume: string;
+  // Largest relative difference of the two sides, 0 to 1
+  discrepancy: string;
+  flagged: boolean;
+}
+
+/**
+ * A discovered DAO as recorded in the daos registry
+ */
+export interface DaoRegistryRecord {
+  dao_address: string;
+  base_mint: string;
+  quote_mint: string;
+  base_decimals: number;
+  quote_decimals: number;
+  base_symbol: string | null;
+  base_name: string | null;
+  quote_symbol: string | null;
+  quote_name: string | null;
+  treasury_vault_address: string | null;
+  launch_address: string | null;
+  version: string | null;
+}
+
+export interface RegisteredDao extends DaoRegistryRecord {
+  first_seen_at: Date;
+  last_seen_at: Date;
+}
+
 export interface TokenVolumeAggregate {
   token: string;
   first_trade_date: string;
@@ -222,6 +450,8 @@ export class DatabaseService {
         sell_volume NUMERIC(40, 12) NOT NULL DEFAULT 0,
         high NUMERIC(40, 12) NOT NULL,
         low NUMERIC(40, 12) NOT NULL,
+        open NUMERIC(40, 12) NOT NULL DEFAULT 0,
+        close NUMERIC(40, 12) NOT NULL DEFAULT 0,
         average_price NUMERIC(40, 12) NOT NULL DEFAULT 0,
         trade_count INT NOT NULL DEFAULT 0,
         usdc_fees NUMERIC(40, 12) NOT NULL DEFAULT 0,
@@ -253,6 +483,8 @@ export class DatabaseService {
         sell_volume NUMERIC(40, 12) NOT NULL DEFAULT 0,
         high NUMERIC(40, 12) NOT NULL,
         low NUMERIC(40, 12) NOT NULL,
+        open NUMERIC(40, 12) NOT NULL DEFAULT 0,
+        close NUMERIC(40, 12) NOT NULL DEFAULT 0,
         average_price NUMERIC(40, 12) NOT NULL DEFAULT 0,
         trade_count INT NOT NULL DEFAULT 0,
         usdc_fees NUMERIC(40, 12) NOT NULL DEFAULT 0,
@@ -282,6 +514,8 @@ export class DatabaseService {
         sell_volume NUMERIC(40, 12) NOT NULL DEFAULT 0,
         high NUMERIC(40, 12) NOT NULL,
         low NUMERIC(40, 12) NOT NULL,
+        open NUMERIC(40, 12) NOT NULL DEFAULT 0,
+        close NUMERIC(40, 12) NOT NULL DEFAULT 0,
         average_price NUMERIC(40, 12) NOT NULL DEFAULT 0,
         trade_count INT NOT NULL DEFAULT 0,
         usdc_fees NUMERIC(40, 12) NOT NULL DEFAULT 0,
@@ -299,6 +533,27 @@ export class DatabaseService {
       CREATE INDEX IF NOT EXISTS idx_ten_minute_volumes_token_bucket ON ten_minute_volumes(token, bucket);
       CREATE INDEX IF NOT EXISTS idx_ten_minute_volumes_recent ON ten_minute_volumes(bucket DESC);
 
+      -- Individual swaps for CoinGecko /api/historical_trades
+      -- Unique per instruction so overlapping fetch windows are idempotent
+      CREATE TABLE IF NOT EXISTS trades (
+        id BIGSERIAL PRIMARY KEY,
+        tx_id VARCHAR(128) NOT NULL,
+        outer_instruction_index INT NOT NULL DEFAULT 0,
+        inner_instruction_index INT NOT NULL DEFAULT 0,
+        token VARCHAR(64) NOT NULL,
+        quote_mint VARCHAR(64) NOT NULL,
+        trade_timestamp TIMESTAMPTZ NOT NULL,
+        type VARCHAR(4) NOT NULL,
+        price NUMERIC(40, 12) NOT NULL,
+        base_volume NUMERIC(40, 12) NOT NULL,
+        target_volume NUMERIC(40, 12) NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(tx_id, outer_instruction_index, inner_instruction_index)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_trades_token_quote_timestamp ON trades(token, quote_mint, trade_timestamp DESC);
+      CREATE INDEX IF NOT EXISTS idx_trades_timestamp ON trades(trade_timestamp DESC);
+
       -- Metadata table to track sync status
       CREATE TABLE IF NOT EXISTS sync_metadata (
         key VARCHAR(64) PRIMARY KEY,
@@ -385,6 +640,85 @@ export class DatabaseService {
       CREATE INDEX IF NOT EXISTS idx_daily_meteora_volumes_date ON daily_meteora_volumes(date);
       CREATE INDEX IF NOT EXISTS idx_daily_meteora_volumes_token_date ON daily_meteora_volumes(token, date);
 
+      -- Registry of every DAO discovery has seen, kept across restarts
+      CREATE TABLE IF NOT EXISTS daos (
+        dao_address VARCHAR(64) PRIMARY KEY,
+        base_mint VARCHAR(64) NOT NULL,
+        quote_mint VARCHAR(64) NOT NULL,
+        base_decimals INT NOT NULL,
+        quote_decimals INT NOT NULL,
+        base_symbol VARCHAR(64),
+        base_name VARCHAR(128),
+        quote_symbol VARCHAR(64),
+        quote_name VARCHAR(128),
+        treasury_vault_address VARCHAR(64),
+        launch_address VARCHAR(64),
+        version VARCHAR(16),
+        first_seen_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_daos_base_mint ON daos(base_mint);
+      CREATE INDEX IF NOT EXISTS idx_daos_last_seen ON daos(last_seen_at DESC);
+
+      -- Last ticker snapshot that built successfully (single row), served when RPC is failing
+      CREATE TABLE IF NOT EXISTS last_known_tickers (
+        id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+        generated_at TIMESTAMPTZ NOT NULL,
+        tickers JSONB NOT NULL,
+        provenance JSONB NOT NULL DEFAULT '{}',
+        windows JSONB NOT NULL DEFAULT '{}',
+        updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Periodic copies of the /api/tickers payload, one row per ticker, for point-in-time queries
+      CREATE TABLE IF NOT EXISTS ticker_snapshots (
+        id BIGSERIAL PRIMARY KEY,
+        snapshot_at TIMESTAMPTZ NOT NULL,
+        ticker_id VARCHAR(140) NOT NULL,
+        position INT NOT NULL,
+        generated_at TIMESTAMPTZ NOT NULL,
+        stale BOOLEAN NOT NULL DEFAULT FALSE,
+        payload JSONB NOT NULL,
+        UNIQUE(snapshot_at, ticker_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_ticker_snapshots_snapshot_at ON ticker_snapshots(snapshot_at DESC);
+
+      -- Cumulative protocol fee counters per DAO, sampled by the reconciliation job (token units)
+      CREATE TABLE IF NOT EXISTS protocol_fee_snapshots (
+        id BIGSERIAL PRIMARY KEY,
+        dao_address VARCHAR(64) NOT NULL,
+        token VARCHAR(64) NOT NULL,
+        snapshot_at TIMESTAMPTZ NOT NULL,
+        base_protocol_fees NUMERIC(40, 12) NOT NULL,
+        quote_protocol_fees NUMERIC(40, 12) NOT NULL,
+        UNIQUE(dao_address, snapshot_at)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_protocol_fee_snapshots_snapshot_at ON protocol_fee_snapshots(snapshot_at DESC);
+
+      -- Stored 10-minute volume vs volume implied by protocol fee growth, per DAO and day
+      CREATE TABLE IF NOT EXISTS volume_reconciliation (
+        id SERIAL PRIMARY KEY,
+        dao_address VARCHAR(64) NOT NULL,
+        token VARCHAR(64) NOT NULL,
+        date DATE NOT NULL,
+        window_start TIMESTAMPTZ NOT NULL,
+        window_end TIMESTAMPTZ NOT NULL,
+        recorded_buy_volume NUMERIC(40, 12) NOT NULL,
+        implied_buy_volume NUMERIC(40, 12) NOT NULL,
+        recorded_sell_volume NUMERIC(40, 12) NOT NULL,
+        implied_sell_volume NUMERIC(40, 12) NOT NULL,
+        discrepancy NUMERIC(10, 6) NOT NULL,
+        flagged BOOLEAN NOT NULL DEFAULT FALSE,
+        checked_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(dao_address, date)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_volume_reconciliation_date ON volume_reconciliation(date DESC);
+
       -- Metrics history table for storing periodic snapshots of system metrics
       CREATE TABLE IF NOT EXISTS metrics_history (
         id SERIAL PRIMARY KEY,
@@ -488,6 +822,42 @@ export class DatabaseService {
             RAISE NOTICE 'Added extended columns to daily_volumes';
           END IF;
         END $$;
+
+        -- Add open/close prices to ten_minute_volumes
+        DO $$ 
+        BEGIN
+          IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                         WHERE table_name = 'ten_minute_volumes' AND column_name = 'open') THEN
+            ALTER TABLE ten_minute_volumes 
+            ADD COLUMN open NUMERIC(40, 12) NOT NULL DEFAULT 0,
+            ADD COLUMN close NUMERIC(40, 12) NOT NULL DEFAULT 0;
+            RAISE NOTICE 'Added open/close columns to ten_minute_volumes';
+          END IF;
+        END $$;
+
+        -- Add open/close prices to hourly_volumes
+        DO $$ 
+        BEGIN
+          IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                         WHERE table_name = 'hourly_volumes' AND column_name = 'open') THEN
+            ALTER TABLE hourly_volumes 
+            ADD COLUMN open NUMERIC(40, 12) NOT NULL DEFAULT 0,
+            ADD COLUMN close NUMERIC(40, 12) NOT NULL DEFAULT 0;
+            RAISE NOTICE 'Added open/close columns to hourly_volumes';
+          END IF;
+        END $$;
+
+        -- Add open/close prices to daily_volumes
+        DO $$ 
+        BEGIN
+          IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                         WHERE table_name = 'daily_volumes' AND column_name = 'open') THEN
+            ALTER TABLE daily_volumes 
+            ADD COLUMN open NUMERIC(40, 12) NOT NULL DEFAULT 0,
+            ADD COLUMN close NUMERIC(40, 12) NOT NULL DEFAULT 0;
+            RAISE NOTICE 'Added open/close columns to daily_volumes';
+          END IF;
+        END $$;
       `;
 
       await this.pool.query(migrationSQL);
@@ -506,6 +876,10 @@ export class DatabaseService {
 
     try {
       const functionsSQL = `
+        -- CREATE OR REPLACE can't change a function's result columns (open/close were added later)
+        DROP FUNCTION IF EXISTS aggregate_10min_to_hourly(VARCHAR, TIMESTAMPTZ);
+        DROP FUNCTION IF EXISTS aggregate_hourly_to_daily(VARCHAR, DATE);
+
         -- Function to aggregate 10-minute buckets into hourly records
         CREATE OR REPLACE FUNCTION aggregate_10min_to_hourly(
           p_token VARCHAR DEFAULT NULL,
@@ -520,6 +894,8 @@ export class DatabaseService {
           sell_volume NUMERIC,
           high NUMERIC,
           low NUMERIC,
+          open NUMERIC,
+          close NUMERIC,
           average_price NUMERIC,
           trade_count INT,
           usdc_fees NUMERIC,
@@ -538,6 +914,9 @@ export class DatabaseService {
             SUM(tmv.sell_volume)::NUMERIC AS sell_volume,
             MAX(tmv.high)::NUMERIC AS high,
             MIN(CASE WHEN tmv.low > 0 THEN tmv.low END)::NUMERIC AS low,
+            -- Open of the first bucket and close of the last bucket that recorded them
+            COALESCE((ARRAY_AGG(tmv.open ORDER BY tmv.bucket ASC) FILTER (WHERE tmv.open > 0))[1], 0)::NUMERIC AS open,
+            COALESCE((ARRAY_AGG(tmv.close ORDER BY tmv.bucket DESC) FILTER (WHERE tmv.close > 0))[1], 0)::NUMERIC AS close,
             -- Weighted average price by volume
             CASE 
               WHEN SUM(tmv.base_volume) > 0 
@@ -572,6 +951,8 @@ export class DatabaseService {
           sell_volume NUMERIC,
           high NUMERIC,
           low NUMERIC,
+          open NUMERIC,
+          close NUMERIC,
           average_price NUMERIC,
           trade_count INT,
           usdc_fees NUMERIC,
@@ -595,6 +976,9 @@ export class DatabaseService {
               SUM(hv.sell_volume)::NUMERIC AS sell_volume,
               MAX(hv.high)::NUMERIC AS high,
               MIN(CASE WHEN hv.low > 0 THEN hv.low END)::NUMERIC AS low,
+              -- Open of the first hour and close of the last hour that recorded them
+              COALESCE((ARRAY_AGG(hv.open ORDER BY hv.hour ASC) FILTER (WHERE hv.open > 0))[1], 0)::NUMERIC AS open,
+              COALESCE((ARRAY_AGG(hv.close ORDER BY hv.hour DESC) FILTER (WHERE hv.close > 0))[1], 0)::NUMERIC AS close,
               -- Weighted average price by volume
               CASE 
                 WHEN SUM(hv.base_volume) > 0 
@@ -621,6 +1005,8 @@ export class DatabaseService {
             da.sell_volume,
             da.high,
             da.low,
+            da.open,
+            da.close,
             da.average_price,
             da.trade_count,
             da.usdc_fees,
@@ -1131,9 +1517,9 @@ export class DatabaseService {
           const valuePlaceholders: string[] = [];
           
           batch.forEach((record, idx) => {
-            const offset = idx * 14; // 14 parameters per record (extended fields)
+            const offset = idx * 16; // 16 parameters per record (extended fields)
             valuePlaceholders.push(
-              `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10}, $${offset + 11}, $${offset + 12}, $${offset + 13}, $${offset + 14}, ${markComplete}, CURRENT_TIMESTAMP)`
+              `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10}, $${offset + 11}, $${offset + 12}, $${offset + 13}, $${offset + 14}, $${offset + 15}, $${offset + 16}, ${markComplete}, CURRENT_TIMESTAMP)`
             );
             values.push(
               record.token,
@@ -1144,6 +1530,8 @@ export class DatabaseService {
               record.sell_volume || '0',
               record.high,
               record.low,
+              record.open || '0',
+              record.close || '0',
               record.average_price || '0',
               record.trade_count || 0,
               record.usdc_fees || '0',
@@ -1154,7 +1542,7 @@ export class DatabaseService {
           });
 
           const batchSQL = `
-            INSERT INTO hourly_volumes (token, hour, base_volume, target_volume, buy_volume, sell_volume, high, low, average_price, trade_count, usdc_fees, token_fees, token_fees_usdc, sell_volume_usdc, is_complete, updated_at)
+            INSERT INTO hourly_volumes (token, hour, base_volume, target_volume, buy_volume, sell_volume, high, low, open, close, average_price, trade_count, usdc_fees, token_fees, token_fees_usdc, sell_volume_usdc, is_complete, updated_at)
             VALUES ${valuePlaceholders.join(', ')}
             ON CONFLICT (token, hour) 
             DO UPDATE SET 
@@ -1170,6 +1558,9 @@ export class DatabaseService {
               -- Only update extended fields if they're missing (NULL or 0)
               buy_volume = COALESCE(NULLIF(hourly_volumes.buy_volume, 0), EXCLUDED.buy_volume),
               sell_volume = COALESCE(NULLIF(hourly_volumes.sell_volume, 0), EXCLUDED.sell_volume),
+              -- Open never changes once recorded; a re-fetch sees the bucket's later trades, so its close wins
+              open = COALESCE(NULLIF(hourly_volumes.open, 0), EXCLUDED.open),
+              close = COALESCE(NULLIF(EXCLUDED.close, 0), hourly_volumes.close),
               average_price = COALESCE(NULLIF(hourly_volumes.average_price, 0), EXCLUDED.average_price),
               usdc_fees = COALESCE(NULLIF(hourly_volumes.usdc_fees, 0), EXCLUDED.usdc_fees),
               token_fees = COALESCE(NULLIF(hourly_volumes.token_fees, 0), EXCLUDED.token_fees),
@@ -1377,14 +1768,42 @@ export class DatabaseService {
   // ============================================
 
   /**
-   * Upsert 10-minute volume records using batched inserts
+   * Upsert 10-minute volume records using batched inserts.
+   * By default existing values are kept where the new record is missing them;
+   * with `replace` the records overwrite stored buckets (for buckets rebuilt
+   * from every trade they contain). Throws if the batch could not be written,
+   * so callers don't record the range as stored.
    */
-  async upsertTenMinuteVolumes(records: TenMinuteVolumeRecord[], markComplete: boolean = false): Promise<number> {
+  async upsertTenMinuteVolumes(
+    records: TenMinuteVolumeRecord[],
+    markComplete: boolean = false,
+    replace: boolean = false
+  ): Promise<number> {
     if (!this.pool || !this.isConnected || records.length === 0) return 0;
 
     const BATCH_SIZE = 500;
     let totalUpserted = 0;
 
+    // Rebuilt buckets overwrite whatever is stored
+    const replaceSet = `
+          base_volume = EXCLUDED.base_volume,
+          target_volume = EXCLUDED.target_volume,
+          buy_volume = EXCLUDED.buy_volume,
+          sell_volume = EXCLUDED.sell_volume,
+          high = EXCLUDED.high,
+          low = EXCLUDED.low,
+          open = EXCLUDED.open,
+          close = EXCLUDED.close,
+          average_price = EXCLUDED.average_price,
+          trade_count = EXCLUDED.trade_count,
+          usdc_fees = EXCLUDED.usdc_fees,
+          token_fees = EXCLUDED.token_fees,
+          token_fees_usdc = EXCLUDED.token_fees_usdc,
+          sell_volume_usdc = EXCLUDED.sell_volume_usdc,
+          is_complete = CASE WHEN EXCLUDED.is_complete THEN true ELSE ten_minute_volumes.is_complete END,
+          updated_at = CURRENT_TIMESTAMP
+    `;
+
     try {
       const client = await this.pool.connect();
 
@@ -1398,9 +1817,9 @@ export class DatabaseService {
           const valuePlaceholders: string[] = [];
           
           batch.forEach((record, idx) => {
-            const offset = idx * 14; // 14 parameters per record (extended fields)
+            const offset = idx * 16; // 16 parameters per record (extended fields)
             valuePlaceholders.push(
-              `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10}, $${offset + 11}, $${offset + 12}, $${offset + 13}, $${offset + 14}, ${markComplete}, CURRENT_TIMESTAMP)`
+              `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10}, $${offset + 11}, $${offset + 12}, $${offset + 13}, $${offset + 14}, $${offset + 15}, $${offset + 16}, ${markComplete}, CURRENT_TIMESTAMP)`
             );
             values.push(
               record.token,
@@ -1411,6 +1830,8 @@ export class DatabaseService {
               record.sell_volume || '0',
               record.high,
               record.low,
+              record.open || '0',
+              record.close || '0',
               record.average_price || '0',
               record.trade_count || 0,
               record.usdc_fees || '0',
@@ -1420,8 +1841,13 @@ export class DatabaseService {
             );
           });
 
-          const batchSQL = `
-            INSERT INTO ten_minute_volumes (token, bucket, base_volume, target_volume, buy_volume, sell_volume, high, low, average_price, trade_count, usdc_fees, token_fees, token_fees_usdc, sell_volume_usdc, is_complete, updated_at)
+          const batchSQL = replace ? `
+            INSERT INTO ten_minute_volumes (token, bucket, base_volume, target_volume, buy_volume, sell_volume, high, low, open, close, average_price, trade_count, usdc_fees, token_fees, token_fees_usdc, sell_volume_usdc, is_complete, updated_at)
+            VALUES ${valuePlaceholders.join(', ')}
+            ON CONFLICT (token, bucket)
+            DO UPDATE SET ${replaceSet}
+          ` : `
+            INSERT INTO ten_minute_volumes (token, bucket, base_volume, target_volume, buy_volume, sell_volume, high, low, open, close, average_price, trade_count, usdc_fees, token_fees, token_fees_usdc, sell_volume_usdc, is_complete, updated_at)
             VALUES ${valuePlaceholders.join(', ')}
             ON CONFLICT (token, bucket) 
             DO UPDATE SET 
@@ -1436,6 +1862,9 @@ export class DatabaseService {
               -- Only update extended fields if they're missing (NULL or 0)
               buy_volume = COALESCE(NULLIF(ten_minute_volumes.buy_volume, 0), EXCLUDED.buy_volume),
               sell_volume = COALESCE(NULLIF(ten_minute_volumes.sell_volume, 0), EXCLUDED.sell_volume),
+              -- Open never changes once recorded; a re-fetch sees the bucket's later trades, so its close wins
+              open = COALESCE(NULLIF(ten_minute_volumes.open, 0), EXCLUDED.open),
+              close = COALESCE(NULLIF(EXCLUDED.close, 0), ten_minute_volumes.close),
               average_price = COALESCE(NULLIF(ten_minute_volumes.average_price, 0), EXCLUDED.average_price),
               trade_count = GREATEST(COALESCE(ten_minute_volumes.trade_count, 0), COALESCE(EXCLUDED.trade_count, 0)),
               usdc_fees = COALESCE(NULLIF(ten_minute_volumes.usdc_fees, 0), EXCLUDED.usdc_fees),
@@ -1455,7 +1884,7 @@ export class DatabaseService {
         }
 
         await client.query('COMMIT');
-        logger.info(`[Database] Upserted ${totalUpserted} 10-minute volume records (complete: ${markComplete})`);
+        logger.info(`[Database] Upserted ${totalUpserted} 10-minute volume records (complete: ${markComplete}, replace: ${replace})`);
         return totalUpserted;
       } catch (error) {
         await client.query('ROLLBACK');
@@ -1465,7 +1894,7 @@ export class DatabaseService {
       }
     } catch (error: any) {
       logger.error('[Database] Error upserting 10-minute volumes:', error);
-      return 0;
+      throw error;
     }
   }
 
@@ -1486,6 +1915,31 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Every stored 10-minute bucket in [start, end), ordered by token and bucket
+   */
+  async getTenMinuteBucketStates(start: Date, end: Date): Promise<TenMinuteBucketState[]> {
+    if (!this.pool || !this.isConnected) return [];
+
+    try {
+      const result = await this.pool.query(
+        `SELECT token, bucket, is_complete
+         FROM ten_minute_volumes
+         WHERE bucket >= $1 AND bucket < $2
+         ORDER BY token, bucket`,
+        [start.toISOString(), end.toISOString()]
+      );
+      return result.rows.map(row => ({
+        token: row.token,
+        bucket: new Date(row.bucket),
+        is_complete: row.is_complete,
+      }));
+    } catch (error: any) {
+      logger.error('[Database] Error getting 10-min bucket states:', error);
+      return [];
+    }
+  }
+
   /**
    * Backfill missing extended fields in existing records
    * This is safe to run on existing data - only fills in NULL or 0 values
@@ -1811,6 +2265,76 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Backfill open/close prices for rows stored before they were tracked.
+   * 10-minute buckets take the first/last stored trade in the bucket; hourly and daily
+   * rows are then filled from the level below via the aggregation functions.
+   * Only rows missing open or close are touched, so this is safe to re-run.
+   */
+  async backfillOpenClose(): Promise<{
+    tenMinuteUpdated: number;
+    hourlyUpdated: number;
+    dailyUpdated: number;
+  }> {
+    const results = { tenMinuteUpdated: 0, hourlyUpdated: 0, dailyUpdated: 0 };
+    if (!this.pool || !this.isConnected) return results;
+
+    try {
+      const tenMinute = await this.pool.query(`
+        UPDATE ten_minute_volumes tmv
+        SET
+          open = COALESCE(NULLIF(tmv.open, 0), t.open),
+          close = COALESCE(NULLIF(tmv.close, 0), t.close),
+          updated_at = CURRENT_TIMESTAMP
+        FROM (
+          SELECT
+            token,
+            date_trunc('hour', trade_timestamp) +
+              (floor(extract(minute FROM trade_timestamp) / 10) * INTERVAL '10 minutes') AS bucket,
+            (ARRAY_AGG(price ORDER BY trade_timestamp ASC, id ASC))[1] AS open,
+            (ARRAY_AGG(price ORDER BY trade_timestamp DESC, id DESC))[1] AS close
+          FROM trades
+          GROUP BY 1, 2
+        ) t
+        WHERE tmv.token = t.token AND tmv.bucket = t.bucket
+          AND (tmv.open = 0 OR tmv.close = 0)
+      `);
+      results.tenMinuteUpdated = tenMinute.rowCount ?? 0;
+
+      const hourly = await this.pool.query(`
+        UPDATE hourly_volumes hv
+        SET
+          open = COALESCE(NULLIF(hv.open, 0), agg.open),
+          close = COALESCE(NULLIF(hv.close, 0), agg.close),
+          updated_at = CURRENT_TIMESTAMP
+        FROM aggregate_10min_to_hourly(NULL, NULL) agg
+        WHERE hv.token = agg.token AND hv.hour = agg.hour
+          AND (hv.open = 0 OR hv.close = 0)
+          AND (agg.open > 0 OR agg.close > 0)
+      `);
+      results.hourlyUpdated = hourly.rowCount ?? 0;
+
+      const daily = await this.pool.query(`
+        UPDATE daily_volumes dv
+        SET
+          open = COALESCE(NULLIF(dv.open, 0), agg.open),
+          close = COALESCE(NULLIF(dv.close, 0), agg.close),
+          updated_at = CURRENT_TIMESTAMP
+        FROM aggregate_hourly_to_daily(NULL, NULL) agg
+        WHERE dv.token = agg.token AND dv.date = agg.date
+          AND (dv.open = 0 OR dv.close = 0)
+          AND (agg.open > 0 OR agg.close > 0)
+      `);
+      results.dailyUpdated = daily.rowCount ?? 0;
+
+      logger.info('[Database] Open/close backfill completed:', { results });
+      return results;
+    } catch (error: any) {
+      logger.error('[Database] Error backfilling open/close prices:', error);
+      return results;
+    }
+  }
+
   /**
    * Get rolling 24h metrics from 10-minute data (most accurate)
    * This uses the calculate_rolling_24h function
@@ -1866,14 +2390,129 @@ export class DatabaseService {
   }
 
   /**
-   * Aggregate 10-minute buckets into hourly records and upsert to hourly_volumes
+   * Rolling 1h/24h/7d/30d metrics. Every window ends now; tokens without trades
+   * in the last 30 days are omitted. See rollingWindowSources for which table
+   * each part of a window is read from.
+   */
+  async getRollingWindowMetrics(tokens?: string[]): Promise<Map<string, RollingWindowStats>> {
+    if (!this.pool || !this.isConnected) return new Map();
+
+    const now = new Date();
+    const { tenMinuteFrom, hourlyFrom, dailyFrom } = rollingWindowSources(now);
+    const params: any[] = [
+      tenMinuteFrom.toISOString(),
+      hourlyFrom.toISOString(),
+      dailyFrom.toISOString().slice(0, 10),
+      hourlyFrom.toISOString().slice(0, 10),
+    ];
+    let tokenFilter = '';
+    if (tokens && tokens.length > 0) {
+      params.push(tokens);
+      tokenFilter = 'AND token = ANY($5::text[])';
+    }
+
+    // Periods stored before open/close were tracked fall back to their average price
+    const columns = (periodStart: string) => `
+          token,
+          ${periodStart} AS period_start,
+          base_volume::text AS base_volume,
+          target_volume::text AS target_volume,
+          high::text AS high,
+          low::text AS low,
+          COALESCE(NULLIF(open, 0), average_price)::text AS open,
+          COALESCE(NULLIF(close, 0), average_price)::text AS close,
+          trade_count`;
+
+    try {
+      const result = await this.pool.query(
+        `SELECT ${columns('bucket')}
+         FROM ten_minute_volumes
+         WHERE bucket >= $1 ${tokenFilter}
+         UNION ALL
+         SELECT ${columns('hour')}
+         FROM hourly_volumes
+         WHERE hour >= $2 AND hour < $1 ${tokenFilter}
+         UNION ALL
+         SELECT ${columns(`(date::timestamp AT TIME ZONE 'UTC')`)}
+         FROM daily_volumes
+         WHERE date >= $3::date AND date < $4::date ${tokenFilter}
+         ORDER BY token, period_start`,
+        params
+      );
+
+      const rows: RollingWindowRow[] = result.rows.map(row => ({
+        token: row.token,
+        period_start: new Date(row.period_start),
+        base_volume: row.base_volume,
+        target_volume: row.target_volume,
+        high: row.high,
+        low: row.low,
+        open: row.open,
+        close: row.close,
+        trade_count: Number(row.trade_count) || 0,
+      }));
+      return buildRollingWindowStats(rows, now);
+    } catch (error: any) {
+      logger.error('[Database] Error getting rolling window metrics:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Aggregate 10-minute buckets into hourly records and upsert to hourly_volumes.
+   * By default existing values are kept where present; with `replace` the
+   * aggregated values overwrite them (after 10-minute buckets were repaired).
    * @param token Optional token to aggregate (if null, aggregates all tokens)
    * @param hour Optional hour to aggregate (if null, aggregates all incomplete hours)
    * @returns Number of hourly records created/updated
    */
-  async aggregate10MinToHourly(token?: string, hour?: string): Promise<number> {
+  async aggregate10MinToHourly(token?: string, hour?: string, replace: boolean = false): Promise<number> {
     if (!this.pool || !this.isConnected) return 0;
 
+    // Re-aggregated hours overwrite whatever is stored
+    const replaceSet = `
+          base_volume = EXCLUDED.base_volume,
+          target_volume = EXCLUDED.target_volume,
+          buy_volume = EXCLUDED.buy_volume,
+          sell_volume = EXCLUDED.sell_volume,
+          high = EXCLUDED.high,
+          low = EXCLUDED.low,
+          open = EXCLUDED.open,
+          close = EXCLUDED.close,
+          average_price = EXCLUDED.average_price,
+          trade_count = EXCLUDED.trade_count,
+          usdc_fees = EXCLUDED.usdc_fees,
+          token_fees = EXCLUDED.token_fees,
+          token_fees_usdc = EXCLUDED.token_fees_usdc,
+          sell_volume_usdc = EXCLUDED.sell_volume_usdc,
+          is_complete = true,
+          updated_at = CURRENT_TIMESTAMP
+    `;
+    const mergeSet = `
+          -- Only update core fields if missing or if new data is better
+          base_volume = COALESCE(NULLIF(hourly_volumes.base_volume, 0), EXCLUDED.base_volume),
+          target_volume = COALESCE(NULLIF(hourly_volumes.target_volume, 0), EXCLUDED.target_volume),
+          high = GREATEST(COALESCE(hourly_volumes.high, 0), COALESCE(EXCLUDED.high, 0)),
+          low = LEAST(
+            CASE WHEN hourly_volumes.low > 0 THEN hourly_volumes.low ELSE EXCLUDED.low END,
+            CASE WHEN EXCLUDED.low > 0 THEN EXCLUDED.low ELSE hourly_volumes.low END
+          ),
+          trade_count = GREATEST(COALESCE(hourly_volumes.trade_count, 0), COALESCE(EXCLUDED.trade_count, 0)),
+          -- Only update extended fields if missing
+          buy_volume = COALESCE(NULLIF(hourly_volumes.buy_volume, 0), EXCLUDED.buy_volume),
+          sell_volume = COALESCE(NULLIF(hourly_volumes.sell_volume, 0), EXCLUDED.sell_volume),
+          -- Open never changes once recorded; re-aggregating includes later buckets, so its close wins
+          open = COALESCE(NULLIF(hourly_volumes.open, 0), EXCLUDED.open),
+          close = COALESCE(NULLIF(EXCLUDED.close, 0), hourly_volumes.close),
+          average_price = COALESCE(NULLIF(hourly_volumes.average_price, 0), EXCLUDED.average_price),
+          usdc_fees = COALESCE(NULLIF(hourly_volumes.usdc_fees, 0), EXCLUDED.usdc_fees),
+          token_fees = COALESCE(NULLIF(hourly_volumes.token_fees, 0), EXCLUDED.token_fees),
+          token_fees_usdc = COALESCE(NULLIF(hourly_volumes.token_fees_usdc, 0), EXCLUDED.token_fees_usdc),
+          sell_volume_usdc = COALESCE(NULLIF(hourly_volumes.sell_volume_usdc, 0), EXCLUDED.sell_volume_usdc),
+          is_complete = true,
+          updated_at = CURRENT_TIMESTAMP
+    `;
+
     try {
       const result = await this.pool.query(
         `SELECT * FROM aggregate_10min_to_hourly(CAST($1 AS VARCHAR), CAST($2 AS TIMESTAMPTZ))`,
@@ -1893,29 +2532,11 @@ export class DatabaseService {
           await client.query(
             `INSERT INTO hourly_volumes (
               token, hour, base_volume, target_volume, buy_volume, sell_volume,
-              high, low, average_price, trade_count, usdc_fees, token_fees,
+              high, low, open, close, average_price, trade_count, usdc_fees, token_fees,
               token_fees_usdc, sell_volume_usdc, is_complete, updated_at
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, true, CURRENT_TIMESTAMP)
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, true, CURRENT_TIMESTAMP)
             ON CONFLICT (token, hour) DO UPDATE SET
-              -- Only update core fields if missing or if new data is better
-              base_volume = COALESCE(NULLIF(hourly_volumes.base_volume, 0), EXCLUDED.base_volume),
-              target_volume = COALESCE(NULLIF(hourly_volumes.target_volume, 0), EXCLUDED.target_volume),
-              high = GREATEST(COALESCE(hourly_volumes.high, 0), COALESCE(EXCLUDED.high, 0)),
-              low = LEAST(
-                CASE WHEN hourly_volumes.low > 0 THEN hourly_volumes.low ELSE EXCLUDED.low END,
-                CASE WHEN EXCLUDED.low > 0 THEN EXCLUDED.low ELSE hourly_volumes.low END
-              ),
-              trade_count = GREATEST(COALESCE(hourly_volumes.trade_count, 0), COALESCE(EXCLUDED.trade_count, 0)),
-              -- Only update extended fields if missing
-              buy_volume = COALESCE(NULLIF(hourly_volumes.buy_volume, 0), EXCLUDED.buy_volume),
-              sell_volume = COALESCE(NULLIF(hourly_volumes.sell_volume, 0), EXCLUDED.sell_volume),
-              average_price = COALESCE(NULLIF(hourly_volumes.average_price, 0), EXCLUDED.average_price),
-              usdc_fees = COALESCE(NULLIF(hourly_volumes.usdc_fees, 0), EXCLUDED.usdc_fees),
-              token_fees = COALESCE(NULLIF(hourly_volumes.token_fees, 0), EXCLUDED.token_fees),
-              token_fees_usdc = COALESCE(NULLIF(hourly_volumes.token_fees_usdc, 0), EXCLUDED.token_fees_usdc),
-              sell_volume_usdc = COALESCE(NULLIF(hourly_volumes.sell_volume_usdc, 0), EXCLUDED.sell_volume_usdc),
-              is_complete = true,
-              updated_at = CURRENT_TIMESTAMP`,
+              ${replace ? replaceSet : mergeSet}`,
             [
               row.token,
               row.hour,
@@ -1925,6 +2546,8 @@ export class DatabaseService {
               row.sell_volume,
               row.high,
               row.low,
+              row.open,
+              row.close,
               row.average_price,
               row.trade_count,
               row.usdc_fees,
@@ -1951,14 +2574,69 @@ export class DatabaseService {
   }
 
   /**
-   * Aggregate hourly records into daily records with cumulative values and upsert to daily_volumes
+   * Aggregate hourly records into daily records with cumulative values and upsert to daily_volumes.
+   * With `replace` the per-day values overwrite stored ones; cumulative values
+   * are still only filled in where missing, as a single date can't recompute them.
    * @param token Optional token to aggregate (if null, aggregates all tokens)
    * @param date Optional date to aggregate (if null, aggregates all incomplete days)
    * @returns Number of daily records created/updated
    */
-  async aggregateHourlyToDaily(token?: string, date?: string): Promise<number> {
+  async aggregateHourlyToDaily(token?: string, date?: string, replace: boolean = false): Promise<number> {
     if (!this.pool || !this.isConnected) return 0;
 
+    // Re-aggregated days overwrite the stored per-day values
+    const replaceSet = `
+          base_volume = EXCLUDED.base_volume,
+          target_volume = EXCLUDED.target_volume,
+          buy_volume = EXCLUDED.buy_volume,
+          sell_volume = EXCLUDED.sell_volume,
+          high = EXCLUDED.high,
+          low = EXCLUDED.low,
+          open = EXCLUDED.open,
+          close = EXCLUDED.close,
+          average_price = EXCLUDED.average_price,
+          trade_count = EXCLUDED.trade_count,
+          usdc_fees = EXCLUDED.usdc_fees,
+          token_fees = EXCLUDED.token_fees,
+          token_fees_usdc = EXCLUDED.token_fees_usdc,
+          sell_volume_usdc = EXCLUDED.sell_volume_usdc,
+          cumulative_usdc_fees = COALESCE(NULLIF(daily_volumes.cumulative_usdc_fees, 0), EXCLUDED.cumulative_usdc_fees),
+          cumulative_token_in_usdc_fees = COALESCE(NULLIF(daily_volumes.cumulative_token_in_usdc_fees, 0), EXCLUDED.cumulative_token_in_usdc_fees),
+          cumulative_target_volume = COALESCE(NULLIF(daily_volumes.cumulative_target_volume, 0), EXCLUDED.cumulative_target_volume),
+          cumulative_token_volume = COALESCE(NULLIF(daily_volumes.cumulative_token_volume, 0), EXCLUDED.cumulative_token_volume),
+          is_complete = true,
+          updated_at = CURRENT_TIMESTAMP
+    `;
+    const mergeSet = `
+          -- Only update core fields if missing or if new data is better
+          base_volume = COALESCE(NULLIF(daily_volumes.base_volume, 0), EXCLUDED.base_volume),
+          target_volume = COALESCE(NULLIF(daily_volumes.target_volume, 0), EXCLUDED.target_volume),
+          high = GREATEST(COALESCE(daily_volumes.high, 0), COALESCE(EXCLUDED.high, 0)),
+          low = LEAST(
+            CASE WHEN daily_volumes.low > 0 THEN daily_volumes.low ELSE EXCLUDED.low END,
+            CASE WHEN EXCLUDED.low > 0 THEN EXCLUDED.low ELSE daily_volumes.low END
+          ),
+          trade_count = GREATEST(COALESCE(daily_volumes.trade_count, 0), COALESCE(EXCLUDED.trade_count, 0)),
+          -- Only update extended fields if missing
+          buy_volume = COALESCE(NULLIF(daily_volumes.buy_volume, 0), EXCLUDED.buy_volume),
+          sell_volume = COALESCE(NULLIF(daily_volumes.sell_volume, 0), EXCLUDED.sell_volume),
+          -- Open never changes once recorded; re-aggregating includes later buckets, so its close wins
+          open = COALESCE(NULLIF(daily_volumes.open, 0), EXCLUDED.open),
+          close = COALESCE(NULLIF(EXCLUDED.close, 0), daily_volumes.close),
+          average_price = COALESCE(NULLIF(daily_volumes.average_price, 0), EXCLUDED.average_price),
+          usdc_fees = COALESCE(NULLIF(daily_volumes.usdc_fees, 0), EXCLUDED.usdc_fees),
+          token_fees = COALESCE(NULLIF(daily_volumes.token_fees, 0), EXCLUDED.token_fees),
+          token_fees_usdc = COALESCE(NULLIF(daily_volumes.token_fees_usdc, 0), EXCLUDED.token_fees_usdc),
+          sell_volume_usdc = COALESCE(NULLIF(daily_volumes.sell_volume_usdc, 0), EXCLUDED.sell_volume_usdc),
+          -- Cumulative values should be recalculated, but preserve if already set
+          cumulative_usdc_fees = COALESCE(NULLIF(daily_volumes.cumulative_usdc_fees, 0), EXCLUDED.cumulative_usdc_fees),
+          cumulative_token_in_usdc_fees = COALESCE(NULLIF(daily_volumes.cumulative_token_in_usdc_fees, 0), EXCLUDED.cumulative_token_in_usdc_fees),
+          cumulative_target_volume = COALESCE(NULLIF(daily_volumes.cumulative_target_volume, 0), EXCLUDED.cumulative_target_volume),
+          cumulative_token_volume = COALESCE(NULLIF(daily_volumes.cumulative_token_volume, 0), EXCLUDED.cumulative_token_volume),
+          is_complete = true,
+          updated_at = CURRENT_TIMESTAMP
+    `;
+
     try {
       const result = await this.pool.query(
         `SELECT * FROM aggregate_hourly_to_daily(CAST($1 AS VARCHAR), CAST($2 AS DATE))`,
@@ -1978,36 +2656,13 @@ export class DatabaseService {
           await client.query(
             `INSERT INTO daily_volumes (
               token, date, base_volume, target_volume, buy_volume, sell_volume,
-              high, low, average_price, trade_count, usdc_fees, token_fees,
+              high, low, open, close, average_price, trade_count, usdc_fees, token_fees,
               token_fees_usdc, sell_volume_usdc, cumulative_usdc_fees,
               cumulative_token_in_usdc_fees, cumulative_target_volume,
               cumulative_token_volume, is_complete, updated_at
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, true, CURRENT_TIMESTAMP)
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, true, CURRENT_TIMESTAMP)
             ON CONFLICT (token, date) DO UPDATE SET
-              -- Only update core fields if missing or if new data is better
-              base_volume = COALESCE(NULLIF(daily_volumes.base_volume, 0), EXCLUDED.base_volume),
-              target_volume = COALESCE(NULLIF(daily_volumes.target_volume, 0), EXCLUDED.target_volume),
-              high = GREATEST(COALESCE(daily_volumes.high, 0), COALESCE(EXCLUDED.high, 0)),
-              low = LEAST(
-                CASE WHEN daily_volumes.low > 0 THEN daily_volumes.low ELSE EXCLUDED.low END,
-                CASE WHEN EXCLUDED.low > 0 THEN EXCLUDED.low ELSE daily_volumes.low END
-              ),
-              trade_count = GREATEST(COALESCE(daily_volumes.trade_count, 0), COALESCE(EXCLUDED.trade_count, 0)),
-              -- Only update extended fields if missing
-              buy_volume = COALESCE(NULLIF(daily_volumes.buy_volume, 0), EXCLUDED.buy_volume),
-              sell_volume = COALESCE(NULLIF(daily_volumes.sell_volume, 0), EXCLUDED.sell_volume),
-              average_price = COALESCE(NULLIF(daily_volumes.average_price, 0), EXCLUDED.average_price),
-              usdc_fees = COALESCE(NULLIF(daily_volumes.usdc_fees, 0), EXCLUDED.usdc_fees),
-              token_fees = COALESCE(NULLIF(daily_volumes.token_fees, 0), EXCLUDED.token_fees),
-              token_fees_usdc = COALESCE(NULLIF(daily_volumes.token_fees_usdc, 0), EXCLUDED.token_fees_usdc),
-              sell_volume_usdc = COALESCE(NULLIF(daily_volumes.sell_volume_usdc, 0), EXCLUDED.sell_volume_usdc),
-              -- Cumulative values should be recalculated, but preserve if already set
-              cumulative_usdc_fees = COALESCE(NULLIF(daily_volumes.cumulative_usdc_fees, 0), EXCLUDED.cumulative_usdc_fees),
-              cumulative_token_in_usdc_fees = COALESCE(NULLIF(daily_volumes.cumulative_token_in_usdc_fees, 0), EXCLUDED.cumulative_token_in_usdc_fees),
-              cumulative_target_volume = COALESCE(NULLIF(daily_volumes.cumulative_target_volume, 0), EXCLUDED.cumulative_target_volume),
-              cumulative_token_volume = COALESCE(NULLIF(daily_volumes.cumulative_token_volume, 0), EXCLUDED.cumulative_token_volume),
-              is_complete = true,
-              updated_at = CURRENT_TIMESTAMP`,
+              ${replace ? replaceSet : mergeSet}`,
             [
               row.token,
               row.date,
@@ -2017,6 +2672,8 @@ export class DatabaseService {
               row.sell_volume,
               row.high,
               row.low,
+              row.open,
+              row.close,
               row.average_price,
               row.trade_count,
               row.usdc_fees,
@@ -2102,38 +2759,19 @@ export class DatabaseService {
   }
 
   // ============================================
-  // DAILY BUY/SELL VOLUME METHODS
+  // TRADE METHODS
   // ============================================
 
   /**
-   * Get the latest date we have buy/sell data for
-   */
-  async getLatestBuySellDate(): Promise<string | null> {
-    if (!this.pool || !this.isConnected) return null;
-
-    try {
-      const result = await this.pool.query(
-        'SELECT MAX(date) as latest_date FROM daily_buy_sell_volumes WHERE is_complete = true'
-      );
-      return result.rows[0]?.latest_date?.toISOString().split('T')[0] || null;
-    } catch (error: any) {
-      logger.error('[Database] Error getting latest buy/sell date:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Upsert daily buy/sell volume records using batched inserts
-   * @param records Array of daily buy/sell volume records
-   * @param markComplete If true, marks these days as complete (for historical data)
+   * Insert individual trades using batched inserts.
+   * Trades already stored (same tx and instruction) are skipped.
+   * Throws if the batch could not be written.
    */
-  async upsertDailyBuySellVolumes(records: DailyBuySellVolumeRecord[], markComplete: boolean = false): Promise<number> {
-    if (!this.pool || !this.isConnected || records.length === 0) {
-      return 0;
-    }
+  async upsertTrades(records: TradeRecord[]): Promise<number> {
+    if (!this.pool || !this.isConnected || records.length === 0) return 0;
 
     const BATCH_SIZE = 500;
-    let totalUpserted = 0;
+    let totalInserted = 0;
 
     try {
       const client = await this.pool.connect();
@@ -2143,43 +2781,309 @@ export class DatabaseService {
 
         for (let i = 0; i < records.length; i += BATCH_SIZE) {
           const batch = records.slice(i, i + BATCH_SIZE);
-          
+
           const values: any[] = [];
           const valuePlaceholders: string[] = [];
-          
+
           batch.forEach((record, idx) => {
-            const offset = idx * 9; // 9 parameters per record
+            const offset = idx * 10; // 10 parameters per record
             valuePlaceholders.push(
-              `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, ${markComplete}, CURRENT_TIMESTAMP)`
+              `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10})`
             );
             values.push(
+              record.tx_id,
+              record.outer_instruction_index,
+              record.inner_instruction_index,
               record.token,
-              record.date,
+              record.quote_mint,
+              record.trade_timestamp,
+              record.type,
+              record.price,
               record.base_volume,
-              record.target_volume,
-              record.buy_usdc_volume,
-              record.sell_token_volume,
-              record.high,
-              record.low,
-              record.trade_count || 0
+              record.target_volume
             );
           });
 
-          const batchSQL = `
-            INSERT INTO daily_buy_sell_volumes (token, date, base_volume, target_volume, buy_usdc_volume, sell_token_volume, high, low, trade_count, is_complete, updated_at)
+          const result = await client.query(`
+            INSERT INTO trades (tx_id, outer_instruction_index, inner_instruction_index, token, quote_mint, trade_timestamp, type, price, base_volume, target_volume)
             VALUES ${valuePlaceholders.join(', ')}
-            ON CONFLICT (token, date) 
-            DO UPDATE SET 
-              base_volume = EXCLUDED.base_volume,
-              target_volume = EXCLUDED.target_volume,
-              buy_usdc_volume = EXCLUDED.buy_usdc_volume,
-              sell_token_volume = EXCLUDED.sell_token_volume,
-              high = EXCLUDED.high,
-              low = EXCLUDED.low,
-              trade_count = EXCLUDED.trade_count,
-              is_complete = CASE WHEN EXCLUDED.is_complete THEN true ELSE daily_buy_sell_volumes.is_complete END,
-              updated_at = CURRENT_TIMESTAMP
-          `;
+            ON CONFLICT (tx_id, outer_instruction_index, inner_instruction_index) DO NOTHING
+          `, values);
+          totalInserted += result.rowCount || 0;
+        }
+
+        await client.query('COMMIT');
+        logger.info(`[Database] Inserted ${totalInserted} new trades (${records.length} received)`);
+        return totalInserted;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    } catch (error: any) {
+      logger.error('[Database] Error upserting trades:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get trades for a base/quote pair, newest first.
+   * A limit of 0 returns every trade in the requested window.
+   */
+  async getHistoricalTrades(options: {
+    token: string;
+    quoteMint: string;
+    type?: 'buy' | 'sell';
+    startTime?: Date;
+    endTime?: Date;
+    limit: number;
+  }): Promise<StoredTrade[]> {
+    if (!this.pool || !this.isConnected) return [];
+
+    try {
+      const conditions: string[] = ['token = $1', 'quote_mint = $2'];
+      const params: any[] = [options.token, options.quoteMint];
+
+      if (options.type) {
+        params.push(options.type);
+        conditions.push(`type = $${params.length}`);
+      }
+      if (options.startTime) {
+        params.push(options.startTime.toISOString());
+        conditions.push(`trade_timestamp >= $${params.length}`);
+      }
+      if (options.endTime) {
+        params.push(options.endTime.toISOString());
+        conditions.push(`trade_timestamp <= $${params.length}`);
+      }
+
+      let limitClause = '';
+      if (options.limit > 0) {
+        params.push(options.limit);
+        limitClause = `LIMIT $${params.length}`;
+      }
+
+      const result = await this.pool.query(
+        `SELECT id, price::text AS price, base_volume::text AS base_volume,
+                target_volume::text AS target_volume, trade_timestamp, type
+         FROM trades
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY trade_timestamp DESC, id DESC
+         ${limitClause}`,
+        params
+      );
+
+      return result.rows.map(row => ({
+        trade_id: parseInt(row.id),
+        price: row.price,
+        base_volume: row.base_volume,
+        target_volume: row.target_volume,
+        trade_timestamp: row.trade_timestamp,
+        type: row.type,
+      }));
+    } catch (error: any) {
+      logger.error('[Database] Error getting historical trades:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get every trade of the given base tokens since a time, oldest first
+   * (in the order the trades query returns them, so bucket open/close match Dune's)
+   */
+  async getTradesSince(since: Date, tokens: string[]): Promise<TradeRecord[]> {
+    if (!this.pool || !this.isConnected || tokens.length === 0) return [];
+
+    try {
+      const result = await this.pool.query(
+        `SELECT tx_id, outer_instruction_index, inner_instruction_index, token, quote_mint,
+                trade_timestamp, type, price::text AS price,
+                base_volume::text AS base_volume, target_volume::text AS target_volume
+         FROM trades
+         WHERE token = ANY($1) AND trade_timestamp >= $2
+         ORDER BY trade_timestamp ASC, tx_id ASC, outer_instruction_index ASC, inner_instruction_index ASC`,
+        [tokens, since.toISOString()]
+      );
+
+      return result.rows.map(row => ({
+        tx_id: row.tx_id,
+        outer_instruction_index: row.outer_instruction_index,
+        inner_instruction_index: row.inner_instruction_index,
+        token: row.token,
+        quote_mint: row.quote_mint,
+        trade_timestamp: row.trade_timestamp.toISOString(),
+        type: row.type,
+        price: row.price,
+        base_volume: row.base_volume,
+        target_volume: row.target_volume,
+      }));
+    } catch (error: any) {
+      logger.error('[Database] Error getting trades since time:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the timestamp of the most recent stored trade
+   */
+  async getLatestTradeTimestamp(): Promise<string | null> {
+    if (!this.pool || !this.isConnected) return null;
+
+    try {
+      const result = await this.pool.query(
+        'SELECT MAX(trade_timestamp) as latest_trade FROM trades'
+      );
+      return result.rows[0]?.latest_trade?.toISOString() || null;
+    } catch (error: any) {
+      logger.error('[Database] Error getting latest trade timestamp:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get trade record count
+   */
+  async getTradeCount(): Promise<number> {
+    if (!this.pool || !this.isConnected) return 0;
+
+    try {
+      const result = await this.pool.query('SELECT COUNT(*) as count FROM trades');
+      return parseInt(result.rows[0]?.count || '0');
+    } catch (error: any) {
+      logger.error('[Database] Error getting trade count:', error);
+      return 0;
+    }
+  }
+
+  // ============================================
+  // CANDLE METHODS
+  // ============================================
+
+  /**
+   * Read one token's buckets from a volume table as candle rows, oldest first.
+   * Buckets stored before open/close were tracked use the bucket's average price
+   * (or the high/low midpoint when no average was recorded).
+   */
+  async getCandleSourceRows(
+    table: CandleSourceTable,
+    token: string,
+    from: Date,
+    to: Date
+  ): Promise<CandleSourceRow[]> {
+    if (!this.pool || !this.isConnected) return [];
+
+    const sources: Record<CandleSourceTable, { table: string; time: string }> = {
+      ten_minute: { table: 'ten_minute_volumes', time: 'bucket' },
+      hourly: { table: 'hourly_volumes', time: 'hour' },
+      daily: { table: 'daily_volumes', time: "(date::timestamp AT TIME ZONE 'UTC')" },
+    };
+    const source = sources[table];
+    const fallback = 'NULLIF(average_price, 0), (high + low) / 2';
+
+    try {
+      const result = await this.pool.query(
+        `SELECT
+          EXTRACT(EPOCH FROM ${source.time})::bigint AS time,
+          COALESCE(NULLIF(open, 0), ${fallback})::text AS open,
+          high::text,
+          low::text,
+          COALESCE(NULLIF(close, 0), ${fallback})::text AS close,
+          base_volume::text,
+          target_volume::text,
+          trade_count
+         FROM ${source.table}
+         WHERE token = $1 AND ${source.time} >= $2 AND ${source.time} < $3
+         ORDER BY ${source.time} ASC`,
+        [token, from.toISOString(), to.toISOString()]
+      );
+
+      return result.rows.map(row => ({ ...row, time: Number(row.time) }));
+    } catch (error: any) {
+      logger.error(`[Database] Error getting ${table} candle rows:`, error);
+      return [];
+    }
+  }
+
+  // ============================================
+  // DAILY BUY/SELL VOLUME METHODS
+  // ============================================
+
+  /**
+   * Get the latest date we have buy/sell data for
+   */
+  async getLatestBuySellDate(): Promise<string | null> {
+    if (!this.pool || !this.isConnected) return null;
+
+    try {
+      const result = await this.pool.query(
+        'SELECT MAX(date) as latest_date FROM daily_buy_sell_volumes WHERE is_complete = true'
+      );
+      return result.rows[0]?.latest_date?.toISOString().split('T')[0] || null;
+    } catch (error: any) {
+      logger.error('[Database] Error getting latest buy/sell date:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Upsert daily buy/sell volume records using batched inserts
+   * @param records Array of daily buy/sell volume records
+   * @param markComplete If true, marks these days as complete (for historical data)
+   */
+  async upsertDailyBuySellVolumes(records: DailyBuySellVolumeRecord[], markComplete: boolean = false): Promise<number> {
+    if (!this.pool || !this.isConnected || records.length === 0) {
+      return 0;
+    }
+
+    const BATCH_SIZE = 500;
+    let totalUpserted = 0;
+
+    try {
+      const client = await this.pool.connect();
+
+      try {
+        await client.query('BEGIN');
+
+        for (let i = 0; i < records.length; i += BATCH_SIZE) {
+          const batch = records.slice(i, i + BATCH_SIZE);
+          
+          const values: any[] = [];
+          const valuePlaceholders: string[] = [];
+          
+          batch.forEach((record, idx) => {
+            const offset = idx * 9; // 9 parameters per record
+            valuePlaceholders.push(
+              `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, ${markComplete}, CURRENT_TIMESTAMP)`
+            );
+            values.push(
+              record.token,
+              record.date,
+              record.base_volume,
+              record.target_volume,
+              record.buy_usdc_volume,
+              record.sell_token_volume,
+              record.high,
+              record.low,
+              record.trade_count || 0
+            );
+          });
+
+          const batchSQL = `
+            INSERT INTO daily_buy_sell_volumes (token, date, base_volume, target_volume, buy_usdc_volume, sell_token_volume, high, low, trade_count, is_complete, updated_at)
+            VALUES ${valuePlaceholders.join(', ')}
+            ON CONFLICT (token, date) 
+            DO UPDATE SET 
+              base_volume = EXCLUDED.base_volume,
+              target_volume = EXCLUDED.target_volume,
+              buy_usdc_volume = EXCLUDED.buy_usdc_volume,
+              sell_token_volume = EXCLUDED.sell_token_volume,
+              high = EXCLUDED.high,
+              low = EXCLUDED.low,
+              trade_count = EXCLUDED.trade_count,
+              is_complete = CASE WHEN EXCLUDED.is_complete THEN true ELSE daily_buy_sell_volumes.is_complete END,
+              updated_at = CURRENT_TIMESTAMP
+          `;
 
           await client.query(batchSQL, values);
           totalUpserted += batch.length;
@@ -2930,6 +3834,513 @@ export class DatabaseService {
     }
   }
 
+  // ============================================
+  // DAO REGISTRY METHODS
+  // ============================================
+
+  /**
+   * Record DAOs seen by a discovery run.
+   * New DAOs get first_seen_at = seenAt; every DAO in the batch gets last_seen_at = seenAt.
+   * Fields discovery couldn't resolve this time (null) keep their stored values.
+   */
+  async upsertDaos(records: DaoRegistryRecord[], seenAt: Date = new Date()): Promise<number> {
+    if (!this.pool || !this.isConnected || records.length === 0) return 0;
+
+    try {
+      const values: any[] = [];
+      const valuePlaceholders: string[] = [];
+
+      records.forEach((record, idx) => {
+        const offset = idx * 13; // 13 parameters per record
+        valuePlaceholders.push(
+          `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10}, $${offset + 11}, $${offset + 12}, $${offset + 13}, $${offset + 13})`
+        );
+        values.push(
+          record.dao_address,
+          record.base_mint,
+          record.quote_mint,
+          record.base_decimals,
+          record.quote_decimals,
+          record.base_symbol,
+          record.base_name,
+          record.quote_symbol,
+          record.quote_name,
+          record.treasury_vault_address,
+          record.launch_address,
+          record.version,
+          seenAt
+        );
+      });
+
+      const result = await this.pool.query(`
+        INSERT INTO daos (
+          dao_address, base_mint, quote_mint, base_decimals, quote_decimals,
+          base_symbol, base_name, quote_symbol, quote_name,
+          treasury_vault_address, launch_address, version,
+          first_seen_at, last_seen_at
+        )
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (dao_address) DO UPDATE SET
+          base_mint = EXCLUDED.base_mint,
+          quote_mint = EXCLUDED.quote_mint,
+          base_decimals = EXCLUDED.base_decimals,
+          quote_decimals = EXCLUDED.quote_decimals,
+          base_symbol = COALESCE(EXCLUDED.base_symbol, daos.base_symbol),
+          base_name = COALESCE(EXCLUDED.base_name, daos.base_name),
+          quote_symbol = COALESCE(EXCLUDED.quote_symbol, daos.quote_symbol),
+          quote_name = COALESCE(EXCLUDED.quote_name, daos.quote_name),
+          treasury_vault_address = COALESCE(EXCLUDED.treasury_vault_address, daos.treasury_vault_address),
+          launch_address = COALESCE(EXCLUDED.launch_address, daos.launch_address),
+          version = COALESCE(EXCLUDED.version, daos.version),
+          last_seen_at = GREATEST(daos.last_seen_at, EXCLUDED.last_seen_at),
+          updated_at = CURRENT_TIMESTAMP
+      `, values);
+
+      logger.info(`[Database] Upserted ${result.rowCount || 0} DAOs into registry`);
+      return result.rowCount || 0;
+    } catch (error: any) {
+      logger.error('[Database] Error upserting DAOs:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get every DAO in the registry, oldest first
+   */
+  async getRegisteredDaos(): Promise<RegisteredDao[]> {
+    if (!this.pool || !this.isConnected) return [];
+
+    try {
+      const result = await this.pool.query(`
+        SELECT dao_address, base_mint, quote_mint, base_decimals, quote_decimals,
+               base_symbol, base_name, quote_symbol, quote_name,
+               treasury_vault_address, launch_address, version,
+               first_seen_at, last_seen_at
+        FROM daos
+        ORDER BY first_seen_at ASC, dao_address ASC
+      `);
+
+      return result.rows.map(row => ({
+        dao_address: row.dao_address,
+        base_mint: row.base_mint,
+        quote_mint: row.quote_mint,
+        base_decimals: row.base_decimals,
+        quote_decimals: row.quote_decimals,
+        base_symbol: row.base_symbol,
+        base_name: row.base_name,
+        quote_symbol: row.quote_symbol,
+        quote_name: row.quote_name,
+        treasury_vault_address: row.treasury_vault_address,
+        launch_address: row.launch_address,
+        version: row.version,
+        first_seen_at: new Date(row.first_seen_at),
+        last_seen_at: new Date(row.last_seen_at),
+      }));
+    } catch (error: any) {
+      logger.error('[Database] Error getting registered DAOs:', error);
+      return [];
+    }
+  }
+
+  // ============================================
+  // LAST KNOWN TICKERS METHODS
+  // ============================================
+
+  /**
+   * Persist a successfully built ticker snapshot.
+   * An older snapshot never replaces a newer one (e.g. with several instances writing).
+   */
+  async saveLastKnownTickers(snapshot: TickerSnapshot): Promise<void> {
+    if (!this.pool || !this.isConnected) return;
+
+    try {
+      await this.pool.query(`
+        INSERT INTO last_known_tickers (id, generated_at, tickers, provenance, windows)
+        VALUES (1, $1, $2, $3, $4)
+        ON CONFLICT (id) DO UPDATE SET
+          generated_at = EXCLUDED.generated_at,
+          tickers = EXCLUDED.tickers,
+          provenance = EXCLUDED.provenance,
+          windows = EXCLUDED.windows,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE last_known_tickers.generated_at < EXCLUDED.generated_at
+      `, [
+        snapshot.generatedAt,
+        JSON.stringify(snapshot.tickers),
+        JSON.stringify(snapshot.provenance),
+        JSON.stringify(snapshot.windows),
+      ]);
+    } catch (error: any) {
+      logger.error('[Database] Error saving last known tickers:', error);
+    }
+  }
+
+  /**
+   * Get the last persisted ticker snapshot, or null if none was saved
+   */
+  async getLastKnownTickers(): Promise<TickerSnapshot | null> {
+    if (!this.pool || !this.isConnected) return null;
+
+    try {
+      const result = await this.pool.query(`
+        SELECT generated_at, tickers, provenance, windows
+        FROM last_known_tickers
+        WHERE id = 1
+      `);
+
+      const row = result.rows[0];
+      if (!row) return null;
+
+      // JSONB round-trips dates as strings
+      const provenance: TickerSnapshot['provenance'] = {};
+      for (const [tickerId, entry] of Object.entries<any>(row.provenance ?? {})) {
+        provenance[tickerId] = { ...entry, asOf: entry.asOf ? new Date(entry.asOf) : null };
+      }
+
+      return {
+        tickers: row.tickers,
+        provenance,
+        windows: row.windows ?? {},
+        generatedAt: new Date(row.generated_at),
+      };
+    } catch (error: any) {
+      logger.error('[Database] Error getting last known tickers:', error);
+      return null;
+    }
+  }
+
+  // ============================================
+  // TICKER SNAPSHOT HISTORY METHODS
+  // ============================================
+
+  /**
+   * Store one captured /api/tickers payload, a row per ticker
+   */
+  async insertTickerSnapshot(record: TickerSnapshotRecord): Promise<number> {
+    if (!this.pool || !this.isConnected || record.tickers.length === 0) return 0;
+
+    try {
+      const values: any[] = [];
+      const valuePlaceholders: string[] = [];
+
+      record.tickers.forEach((ticker, idx) => {
+        const offset = idx * 6; // 6 parameters per ticker
+        valuePlaceholders.push(
+          `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6})`
+        );
+        values.push(
+          record.snapshot_at,
+          ticker.ticker_id,
+          idx,
+          record.generated_at,
+          record.stale,
+          JSON.stringify(ticker)
+        );
+      });
+
+      const result = await this.pool.query(`
+        INSERT INTO ticker_snapshots (snapshot_at, ticker_id, position, generated_at, stale, payload)
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (snapshot_at, ticker_id) DO NOTHING
+      `, values);
+
+      return result.rowCount || 0;
+    } catch (error: any) {
+      logger.error('[Database] Error inserting ticker snapshot:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the stored snapshot captured closest to a point in time (before or after it).
+   * Null when none are stored; throws if the query fails.
+   */
+  async getNearestTickerSnapshot(at: Date): Promise<TickerSnapshotRecord | null> {
+    if (!this.pool || !this.isConnected) return null;
+
+    try {
+      const nearest = await this.pool.query(`
+        SELECT snapshot_at FROM (
+          (SELECT snapshot_at FROM ticker_snapshots WHERE snapshot_at <= $1 ORDER BY snapshot_at DESC LIMIT 1)
+          UNION ALL
+          (SELECT snapshot_at FROM ticker_snapshots WHERE snapshot_at > $1 ORDER BY snapshot_at ASC LIMIT 1)
+        ) candidates
+        ORDER BY ABS(EXTRACT(EPOCH FROM (snapshot_at - $1::timestamptz))) ASC
+        LIMIT 1
+      `, [at]);
+
+      if (nearest.rows.length === 0) return null;
+      const snapshotAt = nearest.rows[0].snapshot_at;
+
+      const result = await this.pool.query(`
+        SELECT generated_at, stale, payload
+        FROM ticker_snapshots
+        WHERE snapshot_at = $1
+        ORDER BY position ASC
+      `, [snapshotAt]);
+
+      const first = result.rows[0];
+      return {
+        snapshot_at: new Date(snapshotAt),
+        generated_at: new Date(first.generated_at),
+        stale: first.stale,
+        tickers: result.rows.map(row => row.payload),
+      };
+    } catch (error: any) {
+      logger.error('[Database] Error getting nearest ticker snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete ticker snapshots older than the retention period
+   */
+  async pruneOldTickerSnapshots(keepDays: number = 90): Promise<number> {
+    if (!this.pool || !this.isConnected) return 0;
+
+    try {
+      const cutoff = new Date(Date.now() - keepDays * 24 * 60 * 60 * 1000);
+      const result = await this.pool.query(
+        `DELETE FROM ticker_snapshots WHERE snapshot_at < $1`,
+        [cutoff]
+      );
+
+      const deleted = result.rowCount || 0;
+      if (deleted > 0) {
+        logger.info(`[Database] Pruned ${deleted} old ticker snapshot rows`);
+      }
+      return deleted;
+    } catch (error: any) {
+      logger.error('[Database] Error pruning ticker snapshots:', error);
+      return 0;
+    }
+  }
+
+  // ============================================
+  // VOLUME RECONCILIATION METHODS
+  // ============================================
+
+  /**
+   * Store protocol fee counters sampled at one time
+   */
+  async insertProtocolFeeSnapshots(records: ProtocolFeeSnapshotRecord[]): Promise<number> {
+    if (!this.pool || !this.isConnected || records.length === 0) return 0;
+
+    try {
+      const values: any[] = [];
+      const valuePlaceholders: string[] = [];
+
+      records.forEach((record, idx) => {
+        const offset = idx * 5; // 5 parameters per record
+        valuePlaceholders.push(
+          `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5})`
+        );
+        values.push(
+          record.dao_address,
+          record.token,
+          record.snapshot_at,
+          record.base_protocol_fees,
+          record.quote_protocol_fees
+        );
+      });
+
+      const result = await this.pool.query(`
+        INSERT INTO protocol_fee_snapshots (dao_address, token, snapshot_at, base_protocol_fees, quote_protocol_fees)
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (dao_address, snapshot_at) DO NOTHING
+      `, values);
+
+      return result.rowCount || 0;
+    } catch (error: any) {
+      logger.error('[Database] Error inserting protocol fee snapshots:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get every protocol fee snapshot since a time, per DAO oldest first
+   */
+  async getProtocolFeeSnapshots(since: Date): Promise<ProtocolFeeSnapshotRecord[]> {
+    if (!this.pool || !this.isConnected) return [];
+
+    try {
+      const result = await this.pool.query(
+        `SELECT dao_address, token, snapshot_at,
+                base_protocol_fees::text AS base_protocol_fees,
+                quote_protocol_fees::text AS quote_protocol_fees
+         FROM protocol_fee_snapshots
+         WHERE snapshot_at >= $1
+         ORDER BY dao_address ASC, snapshot_at ASC`,
+        [since]
+      );
+
+      return result.rows.map(row => ({
+        dao_address: row.dao_address,
+        token: row.token,
+        snapshot_at: new Date(row.snapshot_at),
+        base_protocol_fees: row.base_protocol_fees,
+        quote_protocol_fees: row.quote_protocol_fees,
+      }));
+    } catch (error: any) {
+      logger.error('[Database] Error getting protocol fee snapshots:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete protocol fee snapshots older than the retention period
+   */
+  async pruneOldProtocolFeeSnapshots(keepDays: number): Promise<number> {
+    if (!this.pool || !this.isConnected) return 0;
+
+    try {
+      const cutoff = new Date(Date.now() - keepDays * 24 * 60 * 60 * 1000);
+      const result = await this.pool.query(
+        `DELETE FROM protocol_fee_snapshots WHERE snapshot_at < $1`,
+        [cutoff]
+      );
+      return result.rowCount || 0;
+    } catch (error: any) {
+      logger.error('[Database] Error pruning protocol fee snapshots:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Sum of buy volume (quote units) and sell volume (base units) in a token's
+   * 10-minute buckets starting in [start, end). Throws if the query fails, so
+   * a failed read isn't taken for zero volume.
+   */
+  async getTenMinuteBuySellTotals(token: string, start: Date, end: Date): Promise<{ buy_volume: string; sell_volume: string }> {
+    if (!this.pool || !this.isConnected) return { buy_volume: '0', sell_volume: '0' };
+
+    try {
+      const result = await this.pool.query(
+        `SELECT COALESCE(SUM(buy_volume), 0)::text AS buy_volume,
+                COALESCE(SUM(sell_volume), 0)::text AS sell_volume
+         FROM ten_minute_volumes
+         WHERE token = $1 AND bucket >= $2 AND bucket < $3`,
+        [token, start, end]
+      );
+      return { buy_volume: result.rows[0].buy_volume, sell_volume: result.rows[0].sell_volume };
+    } catch (error: any) {
+      logger.error('[Database] Error getting 10-minute buy/sell totals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store reconciliation results, replacing earlier results for the same DAO and day
+   */
+  async upsertVolumeReconciliation(records: VolumeReconciliationRecord[]): Promise<number> {
+    if (!this.pool || !this.isConnected || records.length === 0) return 0;
+
+    try {
+      const values: any[] = [];
+      const valuePlaceholders: string[] = [];
+
+      records.forEach((record, idx) => {
+        const offset = idx * 11; // 11 parameters per record
+        valuePlaceholders.push(
+          `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9}, $${offset + 10}, $${offset + 11})`
+        );
+        values.push(
+          record.dao_address,
+          record.token,
+          record.date,
+          record.window_start,
+          record.window_end,
+          record.recorded_buy_volume,
+          record.implied_buy_volume,
+          record.recorded_sell_volume,
+          record.implied_sell_volume,
+          record.discrepancy,
+          record.flagged
+        );
+      });
+
+      const result = await this.pool.query(`
+        INSERT INTO volume_reconciliation (
+          dao_address, token, date, window_start, window_end,
+          recorded_buy_volume, implied_buy_volume, recorded_sell_volume, implied_sell_volume,
+          discrepancy, flagged
+        )
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (dao_address, date) DO UPDATE SET
+          token = EXCLUDED.token,
+          window_start = EXCLUDED.window_start,
+          window_end = EXCLUDED.window_end,
+          recorded_buy_volume = EXCLUDED.recorded_buy_volume,
+          implied_buy_volume = EXCLUDED.implied_buy_volume,
+          recorded_sell_volume = EXCLUDED.recorded_sell_volume,
+          implied_sell_volume = EXCLUDED.implied_sell_volume,
+          discrepancy = EXCLUDED.discrepancy,
+          flagged = EXCLUDED.flagged,
+          checked_at = CURRENT_TIMESTAMP
+      `, values);
+
+      return result.rowCount || 0;
+    } catch (error: any) {
+      logger.error('[Database] Error upserting volume reconciliation:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get reconciliation results between two dates (inclusive), newest first
+   */
+  async getVolumeReconciliation(options: {
+    startDate: string;
+    endDate: string;
+    daoAddress?: string;
+    flaggedOnly?: boolean;
+  }): Promise<VolumeReconciliationRecord[]> {
+    if (!this.pool || !this.isConnected) return [];
+
+    try {
+      const conditions = ['date >= $1', 'date <= $2'];
+      const params: any[] = [options.startDate, options.endDate];
+
+      if (options.daoAddress) {
+        params.push(options.daoAddress);
+        conditions.push(`dao_address = $${params.length}`);
+      }
+      if (options.flaggedOnly) {
+        conditions.push('flagged');
+      }
+
+      const result = await this.pool.query(
+        `SELECT dao_address, token, date::text AS date, window_start, window_end,
+                recorded_buy_volume::text AS recorded_buy_volume,
+                implied_buy_volume::text AS implied_buy_volume,
+                recorded_sell_volume::text AS recorded_sell_volume,
+                implied_sell_volume::text AS implied_sell_volume,
+                discrepancy::text AS discrepancy, flagged
+         FROM volume_reconciliation
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY date DESC, discrepancy DESC, dao_address ASC`,
+        params
+      );
+
+      return result.rows.map(row => ({
+        dao_address: row.dao_address,
+        token: row.token,
+        date: row.date,
+        window_start: new Date(row.window_start),
+        window_end: new Date(row.window_end),
+        recorded_buy_volume: row.recorded_buy_volume,
+        implied_buy_volume: row.implied_buy_volume,
+        recorded_sell_volume: row.recorded_sell_volume,
+        implied_sell_volume: row.implied_sell_volume,
+        discrepancy: row.discrepancy,
+        flagged: row.flagged,
+      }));
+    } catch (error: any) {
+      logger.error('[Database] Error getting volume reconciliation:', error);
+      return [];
+    }
+  }
+
   // ============================================
   // METRICS HISTORY METHODS
   // ============================================
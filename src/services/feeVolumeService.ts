@@ -0,0 +1,223 @@
+/**
+ * FeeVolumeService
+ *
+ * RPC-only volume estimate for deployments without Dune (no DUNE_API_KEY, or
+ * DEV_MODE). Every swap pays PROTOCOL_FEE_RATE of its input into the pool's
+ * protocol fee counters, so fee growth divided by the fee rate is volume.
+ *
+ * Schedule:
+ * - On startup and every FEE_VOLUME_INTERVAL: sample each DAO's
+ *   baseProtocolFees, quoteProtocolFees and spot price
+ *
+ * Rolling 24h volume is the fee growth across the samples of the last 24 hours:
+ * - quote fee growth is buy volume (quote in), base fee growth is sell volume
+ *   (base in); each side is converted to the other at the latest sampled price
+ * - a counter that drops was collected, so the new value is all fees accrued
+ *   since the collection (a lower bound)
+ * - high/low are the highest and lowest sampled spot prices
+ *
+ * Samples are kept in memory only, so after a restart volume covers the time
+ * since startup until 24 hours of samples exist.
+ */
+
+import BN from 'bn.js';
+import type { FutarchyService } from './futarchyService.js';
+import type { PriceService } from './priceService.js';
+import type { VolumeMetrics } from './volumeSources.js';
+import { divToFixed, parseDecimal, pow10, toBigInt } from '../utils/decimal.js';
+import { scheduleWithoutPileup, type ScheduledTask } from '../utils/scheduling.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export interface FeeVolumeOptions {
+  intervalMs: number;
+  feeRate: number;
+}
+
+export interface FeeSample {
+  at: Date;
+  baseProtocolFees: bigint;
+  quoteProtocolFees: bigint;
+  // Spot price from reserves, null if the pool can't be priced
+  price: string | null;
+}
+
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+// Precision of intermediate volumes and of the returned prices
+const SCALE = 12;
+// Fraction digits of returned volumes, as PriceService.calculateVolumeFromFees
+const VOLUME_DIGITS = 8;
+
+interface DaoSamples {
+  baseDecimals: number;
+  quoteDecimals: number;
+  samples: FeeSample[];
+}
+
+/**
+ * Fees accrued between consecutive samples, treating a drop as a collection
+ */
+export function accruedFees(samples: FeeSample[]): { base: bigint; quote: bigint } {
+  let base = 0n;
+  let quote = 0n;
+
+  for (let i = 1; i < samples.length; i++) {
+    const previous = samples[i - 1]!;
+    const current = samples[i]!;
+    base += current.baseProtocolFees >= previous.baseProtocolFees
+      ? current.baseProtocolFees - previous.baseProtocolFees
+      : current.baseProtocolFees;
+    quote += current.quoteProtocolFees >= previous.quoteProtocolFees
+      ? current.quoteProtocolFees - previous.quoteProtocolFees
+      : current.quoteProtocolFees;
+  }
+
+  return { base, quote };
+}
+
+export class FeeVolumeService {
+  private futarchyService: FutarchyService;
+  private priceService: PriceService;
+  private options: FeeVolumeOptions;
+  private sampleTask: ScheduledTask | null = null;
+  // Keyed by lowercase DAO address, oldest sample first
+  private history = new Map<string, DaoSamples>();
+  private sampleRuns: number = 0;
+  private lastSampleTime: Date | null = null;
+
+  constructor(
+    futarchyService: FutarchyService,
+    priceService: PriceService,
+    options: FeeVolumeOptions = {
+      intervalMs: config.feeVolume.intervalMs,
+      feeRate: config.fees.protocolFeeRate,
+    }
+  ) {
+    this.futarchyService = futarchyService;
+    this.priceService = priceService;
+    this.options = options;
+  }
+
+  /**
+   * Volume needs two samples, so the service is initialized after the second run
+   */
+  get isInitialized(): boolean {
+    return this.sampleRuns >= 2;
+  }
+
+  start(): void {
+    if (this.sampleTask) {
+      logger.info('[FeeVolume] Service already running');
+      return;
+    }
+
+    this.sampleTask = scheduleWithoutPileup(
+      async () => {
+        await this.sample();
+      },
+      {
+        name: 'FeeVolume',
+        intervalMs: this.options.intervalMs,
+        immediate: true,
+        onError: (error) => logger.error('[FeeVolume] Sample error', error),
+      }
+    );
+
+    logger.info(`[FeeVolume] Started with fee sampling every ${this.options.intervalMs / 1000}s`);
+  }
+
+  stop(): void {
+    if (this.sampleTask) {
+      this.sampleTask.stop();
+      this.sampleTask = null;
+      logger.info('[FeeVolume] Stopped');
+    }
+  }
+
+  /**
+   * Record every DAO's fee counters and price, and drop samples older than 24 hours
+   */
+  async sample(at: Date = new Date()): Promise<void> {
+    const daos = await this.futarchyService.getAllDaos();
+    const cutoff = at.getTime() - WINDOW_MS;
+
+    for (const dao of daos) {
+      const { poolData, baseDecimals, quoteDecimals } = dao;
+      const daoAddress = dao.daoAddress.toString().toLowerCase();
+
+      const entry = this.history.get(daoAddress) ?? { baseDecimals, quoteDecimals, samples: [] };
+      entry.baseDecimals = baseDecimals;
+      entry.quoteDecimals = quoteDecimals;
+      entry.samples.push({
+        at,
+        baseProtocolFees: poolData.baseProtocolFees ? toBigInt(poolData.baseProtocolFees) : 0n,
+        quoteProtocolFees: poolData.quoteProtocolFees ? toBigInt(poolData.quoteProtocolFees) : 0n,
+        price: this.priceService.calculatePrice(poolData.baseReserves, poolData.quoteReserves, baseDecimals, quoteDecimals),
+      });
+      entry.samples = entry.samples.filter(sample => sample.at.getTime() >= cutoff);
+      this.history.set(daoAddress, entry);
+    }
+
+    this.sampleRuns++;
+    this.lastSampleTime = at;
+    logger.debug('[FeeVolume] Sampled protocol fees', { daoCount: daos.length });
+  }
+
+  /**
+   * Estimated rolling 24h metrics keyed by lowercase DAO address. DAOs with
+   * fewer than two samples or no sampled price are left out.
+   */
+  getRolling24hMetrics(daoAddresses: string[]): Map<string, VolumeMetrics> {
+    const result = new Map<string, VolumeMetrics>();
+
+    for (const address of daoAddresses) {
+      const daoAddress = address.toLowerCase();
+      const entry = this.history.get(daoAddress);
+      if (!entry || entry.samples.length < 2) continue;
+
+      const prices = entry.samples
+        .map(sample => sample.price)
+        .filter((price): price is string => price !== null)
+        .map(price => parseDecimal(price, SCALE))
+        .filter(price => price > 0n);
+      const latestPrice = prices[prices.length - 1];
+      if (latestPrice === undefined) continue;
+
+      const accrued = accruedFees(entry.samples);
+      const volume = this.priceService.calculateVolumeFromFees(
+        new BN(accrued.base.toString()),
+        new BN(accrued.quote.toString()),
+        entry.baseDecimals,
+        entry.quoteDecimals,
+        this.options.feeRate
+      );
+      // Sells, in base units, and buys, in quote units
+      const sellBase = volume ? parseDecimal(volume.baseVolume, SCALE) : 0n;
+      const buyQuote = volume ? parseDecimal(volume.targetVolume, SCALE) : 0n;
+      const one = pow10(SCALE);
+
+      result.set(daoAddress, {
+        base_volume_24h: divToFixed(sellBase * latestPrice + buyQuote * one, latestPrice * one, VOLUME_DIGITS),
+        target_volume_24h: divToFixed(buyQuote * one + sellBase * latestPrice, one * one, VOLUME_DIGITS),
+        high_24h: divToFixed(prices.reduce((max, price) => (price > max ? price : max)), one, SCALE),
+        low_24h: divToFixed(prices.reduce((min, price) => (price < min ? price : min)), one, SCALE),
+      });
+    }
+
+    return result;
+  }
+
+  getStatus(): {
+    initialized: boolean;
+    isRunning: boolean;
+    trackedDaos: number;
+    lastSampleTime: string | null;
+  } {
+    return {
+      initialized: this.isInitialized,
+      isRunning: this.sampleTask !== null,
+      trackedDaos: this.history.size,
+      lastSampleTime: this.lastSampleTime?.toISOString() ?? null,
+    };
+  }
+}
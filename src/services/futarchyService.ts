@@ -1,11 +1,30 @@
-import { Connection, PublicKey, Keypair } from '@solana/web3.js';
+import { Connection, PublicKey, Keypair, type AccountInfo } from '@solana/web3.js';
 import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
 import { FutarchyClient } from "@metadaoproject/futarchy/v0.6";
-import { getMint, getAssociatedTokenAddress, getAccount } from '@solana/spl-token';
+import { getAssociatedTokenAddress, getAssociatedTokenAddressSync, getAccount } from '@solana/spl-token';
 import { config } from '../config.js';
 import BN from 'bn.js';
+import { formatUnits } from '../utils/decimal.js';
 import { retry, isTransientError, createRetryLogger } from '../utils/resilience.js';
 import { logger } from '../utils/logger.js';
+import {
+  chunkKeys,
+  decodeMint,
+  decodeMintMetadata,
+  decodeTokenAmount,
+  decodeTokenMetadata,
+  describeTokenProgram,
+  findMetadataAddress,
+  type TokenMetadata,
+  type TokenProgramInfo,
+} from '../utils/tokenAccounts.js';
+import type { DecodedEvent } from '../utils/swapEvents.js';
+
+export type { TokenMetadata, TokenProgramInfo } from '../utils/tokenAccounts.js';
+
+// USDC mint on Solana mainnet (6 decimals)
+const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const USDC_DECIMALS = 6;
 
 export interface PoolData {
   baseReserves: BN;
@@ -14,11 +33,6 @@ export interface PoolData {
   quoteProtocolFees: BN;
 }
 
-export interface TokenMetadata {
-  symbol: string;
-  name: string;
-}
-
 export interface DaoTickerData {
   daoAddress: PublicKey;
   baseMint: PublicKey;
@@ -29,6 +43,9 @@ export interface DaoTickerData {
   baseName?: string;
   quoteSymbol?: string;
   quoteName?: string;
+  // Owning token program and Token-2022 extensions, when the mint could be read
+  baseTokenProgram?: TokenProgramInfo;
+  quoteTokenProgram?: TokenProgramInfo;
   poolData: PoolData;
   treasuryUsdcAum?: string;
   treasuryVaultAddress?: string;
@@ -140,7 +157,58 @@ export class FutarchyService {
       }
       throw error;
     }
-    
+
+    const poolData = this.extractPoolData(dao);
+    if (poolData) {
+      this.setCache(cacheKey, poolData);
+    }
+    return poolData;
+  }
+
+  /**
+   * Spot pool state from raw DAO account data (e.g. an account subscription
+   * notification), or null if it doesn't decode or the pool has no reserves
+   */
+  decodePoolData(data: Buffer): PoolData | null {
+    try {
+      const poolData = this.extractPoolData(this.client.futarchy.coder.accounts.decode('dao', data));
+      if (!poolData || poolData.baseReserves.lten(0) || poolData.quoteReserves.lten(0)) return null;
+      return poolData;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * An event emitted through the program's event self-CPI (the data after the
+   * CPI tag), decoded with the futarchy IDL, or null if it doesn't decode
+   */
+  decodeEvent(data: Buffer): DecodedEvent | null {
+    try {
+      return this.client.futarchy.coder.events.decode(data.toString('base64'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Swap newer reserves into the cached pool state and discovered DAOs, so
+   * tickers built before the caches expire use them. Cache lifetimes are unchanged.
+   */
+  updatePoolData(daoAddress: PublicKey, poolData: PoolData): void {
+    const cachedPool = this.cache.get(`pool_data_${daoAddress.toString()}`);
+    if (cachedPool) cachedPool.data = poolData;
+
+    const cachedDaos = this.cache.get('all_daos')?.data as DaoTickerData[] | undefined;
+    const dao = cachedDaos?.find(candidate => candidate.daoAddress.equals(daoAddress));
+    if (dao) dao.poolData = poolData;
+  }
+
+  /**
+   * Pick the spot pool with the most liquidity from a decoded DAO account.
+   * Conditional (pass/fail) pools are ignored.
+   */
+  private extractPoolData(dao: any): PoolData | null {
     // Try to find a pool with non-zero reserves
     // Check all possible pools: spot, and if futarchy, check all available pools
     const poolsToCheck: PoolState[] = [];
@@ -223,15 +291,12 @@ export class FutarchyService {
       return null;
     }
 
-    const poolData: PoolData = {
+    return {
       baseReserves: new BN(bestPool.baseReserves),
       quoteReserves: new BN(bestPool.quoteReserves),
       baseProtocolFees: new BN(bestPool.baseProtocolFeeBalance || 0),
       quoteProtocolFees: new BN(bestPool.quoteProtocolFeeBalance || 0),
     };
-
-    this.setCache(cacheKey, poolData);
-    return poolData;
   }
 
   async getTokenDecimals(mintAddress: PublicKey): Promise<number> {
@@ -240,31 +305,29 @@ export class FutarchyService {
     if (cached !== null) return cached;
 
     try {
-      const mintInfo = await this.retryWithBackoff(() => getMint(this.connection, mintAddress));
-      const decimals = mintInfo.decimals;
-      this.setCache(cacheKey, decimals);
-      return decimals;
+      const accountInfo = await this.retryWithBackoff(() => this.connection.getAccountInfo(mintAddress));
+      const mint = decodeMint(mintAddress, accountInfo);
+      if (!mint || !accountInfo) return 9;
+
+      this.setCache(cacheKey, mint.decimals);
+      this.setCache(`token_program_${mintAddress.toString()}`, describeTokenProgram(mint, accountInfo));
+      return mint.decimals;
     } catch (error: any) {
       // Default to 9 decimals if we can't fetch (common for Solana tokens)
       return 9;
     }
   }
 
-  private async findMetadataPDA(mintAddress: PublicKey): Promise<PublicKey> {
-    // Metaplex Token Metadata Program ID
-    const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
-    
-    // Derive the metadata PDA
-    const [metadataPDA] = PublicKey.findProgramAddressSync(
-      [
-        Buffer.from('metadata'),
-        TOKEN_METADATA_PROGRAM_ID.toBuffer(),
-        mintAddress.toBuffer(),
-      ],
-      TOKEN_METADATA_PROGRAM_ID
-    );
-    
-    return metadataPDA;
+  /**
+   * Owning token program and Token-2022 extensions of a mint, or null if it can't be read
+   */
+  async getTokenProgramInfo(mintAddress: PublicKey): Promise<TokenProgramInfo | null> {
+    const cacheKey = `token_program_${mintAddress.toString()}`;
+    const cached = this.getCached<TokenProgramInfo>(cacheKey, config.cache.tickersTTL * 10);
+    if (cached) return cached;
+
+    await this.getTokenDecimals(mintAddress);
+    return this.getCached<TokenProgramInfo>(cacheKey, config.cache.tickersTTL * 10);
   }
 
   async getTokenMetadata(mintAddress: PublicKey): Promise<TokenMetadata | null> {
@@ -273,44 +336,17 @@ export class FutarchyService {
     if (cached) return cached;
 
     try {
-      const metadataPDA = await this.findMetadataPDA(mintAddress);
-      const accountInfo = await this.retryWithBackoff(() => 
-        this.connection.getAccountInfo(metadataPDA)
+      const metadataAddress = findMetadataAddress(mintAddress);
+      const accounts = await this.retryWithBackoff(() =>
+        this.connection.getMultipleAccountsInfo([mintAddress, metadataAddress])
       );
 
-      if (!accountInfo || !accountInfo.data) {
-        return null;
+      // Token-2022 metadata stored on the mint itself, then the Metaplex account
+      const metadata = decodeMintMetadata(mintAddress, accounts[0] ?? null)
+        ?? decodeTokenMetadata(mintAddress, accounts[1]?.data);
+      if (metadata) {
+        this.setCache(cacheKey, metadata);
       }
-
-      // Parse Metaplex Token Metadata structure
-      // Offset 1: key (1 byte) - skip
-      // Offset 1-33: update authority (32 bytes) - skip
-      // Offset 33-65: mint (32 bytes) - skip
-      // Offset 65-97: data struct starts
-      //   - name string (4 bytes length + string)
-      //   - symbol string (4 bytes length + string)
-      //   - uri string (4 bytes length + string)
-
-      const data = accountInfo.data;
-      let offset = 1 + 32 + 32; // Skip key, update authority, mint
-
-      // Read name
-      const nameLength = data.readUInt32LE(offset);
-      offset += 4;
-      const name = data.slice(offset, offset + nameLength).toString('utf8').replace(/\0/g, '');
-      offset += nameLength;
-
-      // Read symbol
-      const symbolLength = data.readUInt32LE(offset);
-      offset += 4;
-      const symbol = data.slice(offset, offset + symbolLength).toString('utf8').replace(/\0/g, '');
-
-      const metadata: TokenMetadata = {
-        symbol: symbol || mintAddress.toString().slice(0, 8),
-        name: name || mintAddress.toString().slice(0, 8),
-      };
-
-      this.setCache(cacheKey, metadata);
       return metadata;
     } catch (error: any) {
       // Return null if we can't fetch metadata - we'll use the mint address as fallback
@@ -320,7 +356,6 @@ export class FutarchyService {
 
   /**
    * Get USDC balance for a given vault address (owner)
-   * USDC mint on Solana mainnet: EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v
    */
   async getUsdcBalanceForVault(vaultAddress: PublicKey): Promise<string | null> {
     const cacheKey = `usdc_balance_${vaultAddress.toString()}`;
@@ -328,9 +363,6 @@ export class FutarchyService {
     if (cached !== null) return cached;
 
     try {
-      // USDC mint address on Solana mainnet
-      const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
-      
       // Get the associated token account address for the vault
       const tokenAccountAddress = await getAssociatedTokenAddress(
         USDC_MINT,
@@ -343,9 +375,7 @@ export class FutarchyService {
         getAccount(this.connection, tokenAccountAddress)
       );
 
-      // USDC has 6 decimals
-      const balance = tokenAccount.amount.toString();
-      const balanceFormatted = (Number(balance) / 1e6).toFixed(6);
+      const balanceFormatted = formatUnits(tokenAccount.amount, USDC_DECIMALS, USDC_DECIMALS);
 
       this.setCache(cacheKey, balanceFormatted);
       return balanceFormatted;
@@ -356,6 +386,13 @@ export class FutarchyService {
     }
   }
 
+  /**
+   * Discover every DAO with a funded spot pool.
+   *
+   * Pool state comes with the DAO accounts themselves, and mints, metadata and
+   * treasury USDC accounts are read in getMultipleAccountsInfo batches, so a cold
+   * discovery costs one program-accounts call plus one batched round trip.
+   */
   async getAllDaos(): Promise<DaoTickerData[]> {
     const cacheKey = 'all_daos';
     const cached = this.getCached<DaoTickerData[]>(cacheKey, config.cache.tickersTTL);
@@ -375,103 +412,76 @@ export class FutarchyService {
         }
         throw error;
       }
-      
-      // Process DAOs sequentially with delays to avoid rate limiting
-      const validDaoData: DaoTickerData[] = [];
-      
-      for (let i = 0; i < daoAccounts.length; i++) {
-        const daoAccount = daoAccounts[i];
+
+      const pooledDaos: Array<{ daoAddress: PublicKey; dao: any; poolData: PoolData }> = [];
+
+      for (const daoAccount of daoAccounts) {
         if (!daoAccount) continue;
-        
-        const daoAddress = daoAccount.publicKey;
-        
+
+        const daoAddress: PublicKey = daoAccount.publicKey;
+
         // Check if this DAO is in the excluded list
         if (config.excludedDaos.some(excluded => excluded.equals(daoAddress))) {
           continue;
         }
-        
+
+        let poolData: PoolData | null;
         try {
-          // Add a small delay between requests to avoid rate limiting
-          if (i > 0 && i % 10 === 0) {
-            await new Promise(resolve => setTimeout(resolve, 100)); // 100ms delay every 10 DAOs
-          }
-          
-          const dao = daoAccount.account;
-          
-          // Extract base and quote mints from DAO account
-          const baseMint = dao.baseMint;
-          const quoteMint = dao.quoteMint;
-
-          // Get token decimals and metadata
-          const [baseDecimals, quoteDecimals, baseMetadata, quoteMetadata] = await Promise.all([
-            this.getTokenDecimals(baseMint),
-            this.getTokenDecimals(quoteMint),
-            this.getTokenMetadata(baseMint),
-            this.getTokenMetadata(quoteMint),
-          ]);
-          
-          // Get pool data for this DAO
-          const poolData = await this.getPoolData(daoAddress);
-          
-          // Skip if no valid pool found
-          if (!poolData) {
-            continue;
-          }
-          
-          // Validate pool data - filter out pools with zero or invalid reserves
-          const baseReservesNum = poolData.baseReserves.toNumber();
-          const quoteReservesNum = poolData.quoteReserves.toNumber();
-          
-          if (baseReservesNum === 0 || quoteReservesNum === 0 ||
-              !isFinite(baseReservesNum) || !isFinite(quoteReservesNum) ||
-              isNaN(baseReservesNum) || isNaN(quoteReservesNum)) {
-            continue;
-          }
-          
-          // Get treasury USDC balance if squads_multisig_vault exists
-          let treasuryUsdcAum: string | undefined;
-          let treasuryVaultAddress: string | undefined;
-          
-          if (dao.squadsMultisigVault) {
-            try {
-              const vaultAddress = new PublicKey(dao.squadsMultisigVault);
-              treasuryVaultAddress = vaultAddress.toString();
-              const usdcBalance = await this.getUsdcBalanceForVault(vaultAddress);
-              treasuryUsdcAum = usdcBalance || undefined;
-            } catch (error: any) {
-              // If vault address is invalid or balance can't be fetched, continue without it
-              logger.warn(`Could not fetch USDC balance for vault ${dao.squads_multisig_vault} for DAO ${daoAddress.toString()}:`, { error: error.message });
-            }
-          }
-          
-          validDaoData.push({
-            daoAddress,
-            baseMint,
-            quoteMint,
-            baseDecimals,
-            quoteDecimals,
-            baseSymbol: baseMetadata?.symbol,
-            baseName: baseMetadata?.name,
-            quoteSymbol: quoteMetadata?.symbol,
-            quoteName: quoteMetadata?.name,
-            poolData,
-            treasuryUsdcAum,
-            treasuryVaultAddress,
-          });
+          poolData = this.extractPoolData(daoAccount.account);
         } catch (error: any) {
-          const isRateLimited = this.isRateLimitError(error);
-          if (isRateLimited) {
-            // Wait longer if rate limited
-            await new Promise(resolve => setTimeout(resolve, 2000));
-          }
-          // Continue processing other DAOs
+          logger.warn(`Could not read pool state for DAO ${daoAddress.toString()}:`, { error: error.message });
+          continue;
+        }
+
+        // Validate pool data - filter out pools with zero or invalid reserves
+        // (compared as BN: reserves of large-supply tokens exceed 2^53 and toNumber() would throw)
+        if (!poolData || !poolData.baseReserves || !poolData.quoteReserves ||
+            poolData.baseReserves.lten(0) || poolData.quoteReserves.lten(0)) {
+          continue;
         }
+
+        this.setCache(`pool_data_${daoAddress.toString()}`, poolData);
+        pooledDaos.push({ daoAddress, dao: daoAccount.account, poolData });
       }
-      
+
+      const mints = pooledDaos.flatMap(({ dao }) => [dao.baseMint as PublicKey, dao.quoteMint as PublicKey]);
+      const vaults = pooledDaos
+        .map(({ dao }) => this.parseVaultAddress(dao.squadsMultisigVault))
+        .filter((vault): vault is PublicKey => vault !== null);
+      await this.prefetchAccounts(mints, vaults);
+
+      const validDaoData: DaoTickerData[] = pooledDaos.map(({ daoAddress, dao, poolData }) => {
+        const baseMint: PublicKey = dao.baseMint;
+        const quoteMint: PublicKey = dao.quoteMint;
+        const baseMetadata = this.getCached<TokenMetadata>(`token_metadata_${baseMint.toString()}`, config.cache.tickersTTL * 100);
+        const quoteMetadata = this.getCached<TokenMetadata>(`token_metadata_${quoteMint.toString()}`, config.cache.tickersTTL * 100);
+        const vaultAddress = this.parseVaultAddress(dao.squadsMultisigVault);
+
+        return {
+          daoAddress,
+          baseMint,
+          quoteMint,
+          // Default to 9 decimals if the mint couldn't be read (common for Solana tokens)
+          baseDecimals: this.getCached<number>(`token_decimals_${baseMint.toString()}`, config.cache.tickersTTL * 10) ?? 9,
+          quoteDecimals: this.getCached<number>(`token_decimals_${quoteMint.toString()}`, config.cache.tickersTTL * 10) ?? 9,
+          baseSymbol: baseMetadata?.symbol,
+          baseName: baseMetadata?.name,
+          quoteSymbol: quoteMetadata?.symbol,
+          quoteName: quoteMetadata?.name,
+          baseTokenProgram: this.getCached<TokenProgramInfo>(`token_program_${baseMint.toString()}`, config.cache.tickersTTL * 10) ?? undefined,
+          quoteTokenProgram: this.getCached<TokenProgramInfo>(`token_program_${quoteMint.toString()}`, config.cache.tickersTTL * 10) ?? undefined,
+          poolData,
+          treasuryUsdcAum: vaultAddress
+            ? this.getCached<string>(`usdc_balance_${vaultAddress.toString()}`, config.cache.tickersTTL) ?? undefined
+            : undefined,
+          treasuryVaultAddress: vaultAddress?.toString(),
+        };
+      });
+
       if (this.rateLimitErrors > 0) {
         logger.warn(`⚠️  Encountered ${this.rateLimitErrors} rate limit errors during processing`);
       }
-      
+
       this.setCache(cacheKey, validDaoData);
       return validDaoData;
     } catch (error) {
@@ -480,6 +490,94 @@ export class FutarchyService {
     }
   }
 
+  private parseVaultAddress(vault: unknown): PublicKey | null {
+    if (!vault) return null;
+    try {
+      return new PublicKey(vault as PublicKey);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Load decimals, token program and metadata for the given mints and USDC balances for the given
+   * treasury vaults into the cache, reading only what isn't cached already.
+   * Accounts that don't exist or fail to decode are left uncached, matching the
+   * single-account getters.
+   */
+  private async prefetchAccounts(mints: PublicKey[], vaults: PublicKey[]): Promise<void> {
+    const uniqueMints = [...new Map(mints.map(mint => [mint.toString(), mint])).values()];
+    const uniqueVaults = [...new Map(vaults.map(vault => [vault.toString(), vault])).values()];
+
+    const metadataToLoad = uniqueMints
+      .filter(mint => !this.getCached<TokenMetadata>(`token_metadata_${mint.toString()}`, config.cache.tickersTTL * 100))
+      .map(mint => ({ mint, address: findMetadataAddress(mint) }));
+    // Mint accounts are also needed for metadata, which Token-2022 mints can hold themselves
+    const mintsToLoad = uniqueMints.filter(mint =>
+      this.getCached<number>(`token_decimals_${mint.toString()}`, config.cache.tickersTTL * 10) === null ||
+      metadataToLoad.some(({ mint: metadataMint }) => metadataMint.equals(mint))
+    );
+    const vaultsToLoad = uniqueVaults
+      .filter(vault => this.getCached<string>(`usdc_balance_${vault.toString()}`, config.cache.tickersTTL) === null)
+      .map(vault => ({ vault, address: getAssociatedTokenAddressSync(USDC_MINT, vault, true) }));
+
+    const accounts = await this.getMultipleAccounts([
+      ...mintsToLoad,
+      ...metadataToLoad.map(({ address }) => address),
+      ...vaultsToLoad.map(({ address }) => address),
+    ]);
+
+    for (const mint of mintsToLoad) {
+      const accountInfo = accounts.get(mint.toString()) ?? null;
+      const decoded = decodeMint(mint, accountInfo);
+      if (decoded && accountInfo) {
+        this.setCache(`token_decimals_${mint.toString()}`, decoded.decimals);
+        this.setCache(`token_program_${mint.toString()}`, describeTokenProgram(decoded, accountInfo));
+      }
+    }
+
+    for (const { mint, address } of metadataToLoad) {
+      const metadata = decodeMintMetadata(mint, accounts.get(mint.toString()) ?? null)
+        ?? decodeTokenMetadata(mint, accounts.get(address.toString())?.data);
+      if (metadata) this.setCache(`token_metadata_${mint.toString()}`, metadata);
+    }
+
+    for (const { vault, address } of vaultsToLoad) {
+      const amount = decodeTokenAmount(address, accounts.get(address.toString()) ?? null);
+      if (amount !== null) {
+        this.setCache(`usdc_balance_${vault.toString()}`, formatUnits(amount, USDC_DECIMALS, USDC_DECIMALS));
+      }
+    }
+  }
+
+  /**
+   * Fetch accounts in getMultipleAccountsInfo batches (sent in parallel), keyed by address
+   */
+  private async getMultipleAccounts(keys: PublicKey[]): Promise<Map<string, AccountInfo<Buffer> | null>> {
+    const accounts = new Map<string, AccountInfo<Buffer> | null>();
+    if (keys.length === 0) return accounts;
+
+    const batches = await Promise.all(
+      chunkKeys(keys).map(async chunk => {
+        try {
+          const infos = await this.retryWithBackoff(() => this.connection.getMultipleAccountsInfo(chunk));
+          return chunk.map((key, i) => [key.toString(), infos[i] ?? null] as const);
+        } catch (error: any) {
+          // Missing accounts fall back to defaults rather than failing discovery
+          logger.warn(`Could not fetch ${chunk.length} accounts:`, { error: error.message });
+          return [];
+        }
+      })
+    );
+
+    for (const batch of batches) {
+      for (const [key, info] of batch) {
+        accounts.set(key, info);
+      }
+    }
+    return accounts;
+  }
+
   async getTotalLiquidity(daoAddress?: PublicKey): Promise<BN> {
     const daoPubkey = daoAddress;
     if (!daoPubkey) {
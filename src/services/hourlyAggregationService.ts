@@ -53,6 +53,13 @@ export class HourlyAggregationService {
     return this.databaseService.isAvailable();
   }
 
+  /**
+   * When hourly data was last refreshed (cheap alternative to getStatus)
+   */
+  getLastRefreshTime(): Date | null {
+    return this.lastRefreshTime;
+  }
+
   /**
    * Initialize the service
    */
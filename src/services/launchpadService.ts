@@ -13,10 +13,11 @@ import {
   LaunchpadClient as LaunchpadClientV07,
   MAINNET_METEORA_CONFIG as MAINNET_METEORA_CONFIG_V07,
 } from "@metadaoproject/futarchy/v0.7";
-import { getAccount, getAssociatedTokenAddress } from '@solana/spl-token';
+import { getAccount, getAssociatedTokenAddress, TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import { config } from '../config.js';
 import BN from 'bn.js';
 import { logger } from '../utils/logger.js';
+import { getTokenProgramId } from '../utils/tokenAccounts.js';
 
 // Launchpad version detection
 export type LaunchpadVersion = 'v0.6' | 'v0.7';
@@ -491,7 +492,7 @@ export class LaunchpadService {
    * Get the FutarchyAMM liquidity for a DAO.
    * This is the base token balance in the DAO's embedded AMM base vault.
    */
-  async getFutarchyAmmLiquidity(daoAddress: PublicKey): Promise<{
+  async getFutarchyAmmLiquidity(daoAddress: PublicKey, tokenProgramId: PublicKey = TOKEN_PROGRAM_ID): Promise<{
     amount: BN;
     vaultAddress?: PublicKey;
   }> {
@@ -502,7 +503,7 @@ export class LaunchpadService {
       }
 
       const vaultAddress = dao.amm.ammBaseVault;
-      const tokenAccount = await getAccount(this.connection, vaultAddress);
+      const tokenAccount = await getAccount(this.connection, vaultAddress, undefined, tokenProgramId);
       const amount = new BN(tokenAccount.amount.toString());
 
       return { amount, vaultAddress };
@@ -522,11 +523,13 @@ export class LaunchpadService {
    * @param baseMint - The base token mint
    * @param quoteMint - The quote token mint
    * @param version - The launchpad version (determines which Meteora config to use)
+   * @param tokenProgramId - Token program of the base mint (SPL Token or Token-2022)
    */
   async getMeteoraLpLiquidity(
     baseMint: PublicKey, 
     quoteMint: PublicKey,
-    version: LaunchpadVersion = 'v0.6'
+    version: LaunchpadVersion = 'v0.6',
+    tokenProgramId: PublicKey = TOKEN_PROGRAM_ID
   ): Promise<{
     amount: BN;
     poolAddress?: PublicKey;
@@ -539,7 +542,7 @@ export class LaunchpadService {
       
       logger.info(`[Meteora] Checking ${version} pool ${poolAddress.toString()} (config: ${meteoraConfig.toString().slice(0, 8)}...) vault ${vaultAddress.toString()} for ${baseMint.toString()}`);
       
-      const tokenAccount = await getAccount(this.connection, vaultAddress);
+      const tokenAccount = await getAccount(this.connection, vaultAddress, undefined, tokenProgramId);
       const amount = new BN(tokenAccount.amount.toString());
 
       logger.info(`[Meteora] Found ${amount.toString()} tokens in Meteora ${version} pool`);
@@ -596,6 +599,9 @@ export class LaunchpadService {
       const dao = await this.futarchyClient.fetchDao(launch.dao);
       const quoteMint = dao?.quoteMint;
 
+      // Token-2022 base mints have Token-2022 token accounts (and ATAs derived with that program)
+      const tokenProgramId = getTokenProgramId(await this.connection.getAccountInfo(baseMint)) ?? TOKEN_PROGRAM_ID;
+
       // Derive the performance package address and fetch its actual on-chain token balance
       // We use the live balance rather than launch.performancePackageTokenAmount because
       // tokens may have been unlocked/claimed (e.g. ZKFG, Loyal), making the configured
@@ -610,9 +616,10 @@ export class LaunchpadService {
         const ppAta = await getAssociatedTokenAddress(
           baseMint,
           performancePackageAddress,
-          true
+          true,
+          tokenProgramId
         );
-        const ppTokenAccount = await getAccount(this.connection, ppAta);
+        const ppTokenAccount = await getAccount(this.connection, ppAta, undefined, tokenProgramId);
         performancePackageLockedAmount = new BN(ppTokenAccount.amount.toString());
         logger.info(`[Launchpad] Performance package at ${performancePackageAddress.toString()} holds ${performancePackageLockedAmount.toString()} tokens (configured: ${launch.performancePackageTokenAmount.toString()})`);
       } catch (error: any) {
@@ -621,13 +628,13 @@ export class LaunchpadService {
       }
 
       // Get FutarchyAMM liquidity
-      const futarchyAmm = await this.getFutarchyAmmLiquidity(launch.dao);
+      const futarchyAmm = await this.getFutarchyAmmLiquidity(launch.dao, tokenProgramId);
 
       // Get Meteora LP liquidity (if quote mint is available)
       // Use the correct Meteora config based on launch version
       let meteoraLp: { amount: BN; poolAddress?: PublicKey; vaultAddress?: PublicKey } = { amount: new BN(0) };
       if (quoteMint) {
-        meteoraLp = await this.getMeteoraLpLiquidity(baseMint, quoteMint, launch.version);
+        meteoraLp = await this.getMeteoraLpLiquidity(baseMint, quoteMint, launch.version, tokenProgramId);
       }
 
       // Handle additional token allocation (v0.7+ only)
@@ -638,7 +645,9 @@ export class LaunchpadService {
         try {
           tokenAccountAddress = await getAssociatedTokenAddress(
             baseMint,
-            launch.additionalTokensRecipient
+            launch.additionalTokensRecipient,
+            false,
+            tokenProgramId
           );
         } catch (error) {
           logger.warn(`[Launchpad] Could not derive additional tokens account for ${launch.additionalTokensRecipient.toString()}`);
@@ -657,8 +666,8 @@ export class LaunchpadService {
       if (dao && (dao as any).squadsMultisigVault) {
         try {
           const vaultAddress = new PublicKey((dao as any).squadsMultisigVault);
-          const vaultAta = await getAssociatedTokenAddress(baseMint, vaultAddress, true);
-          const tokenAccount = await getAccount(this.connection, vaultAta);
+          const vaultAta = await getAssociatedTokenAddress(baseMint, vaultAddress, true, tokenProgramId);
+          const tokenAccount = await getAccount(this.connection, vaultAta, undefined, tokenProgramId);
           daoTreasuryTokens = {
             amount: new BN(tokenAccount.amount.toString()),
             vaultAddress,
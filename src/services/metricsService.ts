@@ -198,6 +198,20 @@ export const totalVolumeUsd = new client.Gauge({
   registers: [register],
 });
 
+// Latest reconciled day per DAO: relative difference between stored and fee-implied volume
+export const volumeDiscrepancyRatio = new client.Gauge({
+  name: 'futarchy_volume_discrepancy_ratio',
+  help: 'Relative difference between stored 10-minute volume and volume implied by protocol fees (0-1), latest reconciled day',
+  labelNames: ['dao'],
+  registers: [register],
+});
+
+export const volumeReconciliationFlagged = new client.Gauge({
+  name: 'futarchy_volume_reconciliation_flagged',
+  help: 'Number of DAO-days whose volume discrepancy exceeds RECONCILIATION_THRESHOLD in the reconciliation lookback',
+  registers: [register],
+});
+
 // ============================================
 // METRICS SERVICE CLASS
 // ============================================
@@ -347,6 +361,17 @@ export class MetricsService {
     totalVolumeUsd.set(volume);
   }
 
+  /**
+   * Update volume reconciliation metrics, dropping DAOs missing from `discrepancies`
+   */
+  setVolumeReconciliation(discrepancies: Map<string, number>, flaggedCount: number): void {
+    volumeDiscrepancyRatio.reset();
+    for (const [dao, ratio] of discrepancies) {
+      volumeDiscrepancyRatio.labels(dao).set(ratio);
+    }
+    volumeReconciliationFlagged.set(flaggedCount);
+  }
+
   /**
    * Normalize API path for metrics (remove dynamic segments)
    */
@@ -0,0 +1,186 @@
+/**
+ * PoolWatcherService
+ *
+ * Watches every DAO account over the Solana WebSocket (accountSubscribe), so
+ * ticker prices move as soon as AMM reserves change instead of on the next
+ * snapshot rebuild.
+ *
+ * Schedule:
+ * - On startup and every POOL_WATCHER_RESYNC_INTERVAL: rediscover DAOs,
+ *   subscribe to new ones and unsubscribe from ones that are gone
+ *
+ * On each account notification the DAO's spot pool is decoded, its reserves
+ * replace the cached pool data in FutarchyService and the DAO's ticker is
+ * repriced in the ticker snapshot, which pushes a delta to stream clients.
+ * Notifications older than the last one applied for a DAO are ignored.
+ *
+ * web3.js reconnects the WebSocket and resubscribes on its own.
+ */
+
+import { Connection, type AccountInfo, type Context } from '@solana/web3.js';
+import type { FutarchyService, DaoTickerData } from './futarchyService.js';
+import type { TickerSnapshotService } from './tickerSnapshotService.js';
+import { scheduleWithoutPileup, type ScheduledTask } from '../utils/scheduling.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export type PoolWatcherConnection = Pick<Connection, 'onAccountChange' | 'removeAccountChangeListener'>;
+
+export interface PoolWatcherOptions {
+  resyncIntervalMs: number;
+}
+
+interface WatchedDao {
+  subscriptionId: number;
+  dao: DaoTickerData;
+  // Slot of the last notification applied
+  slot: number;
+}
+
+export class PoolWatcherService {
+  private futarchyService: FutarchyService;
+  private tickerSnapshotService: TickerSnapshotService;
+  private connection: PoolWatcherConnection;
+  private options: PoolWatcherOptions;
+  private syncTask: ScheduledTask | null = null;
+  private watched = new Map<string, WatchedDao>();
+  private initialized: boolean = false;
+  private updatesReceived: number = 0;
+  private lastUpdateAt: Date | null = null;
+
+  constructor(
+    futarchyService: FutarchyService,
+    tickerSnapshotService: TickerSnapshotService,
+    connection: PoolWatcherConnection = new Connection(config.solana.rpcUrl, {
+      commitment: 'confirmed',
+      wsEndpoint: config.solana.wsUrl,
+    }),
+    options: PoolWatcherOptions = {
+      resyncIntervalMs: config.poolWatcher.resyncIntervalMs,
+    }
+  ) {
+    this.futarchyService = futarchyService;
+    this.tickerSnapshotService = tickerSnapshotService;
+    this.connection = connection;
+    this.options = options;
+  }
+
+  get isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  start(): void {
+    if (this.syncTask) {
+      logger.info('[PoolWatcher] Service already running');
+      return;
+    }
+
+    this.syncTask = scheduleWithoutPileup(
+      async () => {
+        await this.sync();
+      },
+      {
+        name: 'PoolWatcher',
+        intervalMs: this.options.resyncIntervalMs,
+        immediate: true,
+        onError: (error) => logger.error('[PoolWatcher] Sync error', error),
+      }
+    );
+
+    logger.info(`[PoolWatcher] Started with DAO resync every ${this.options.resyncIntervalMs / 1000}s`);
+  }
+
+  stop(): void {
+    if (this.syncTask) {
+      this.syncTask.stop();
+      this.syncTask = null;
+    }
+
+    for (const [daoAddress, watched] of this.watched) {
+      this.unsubscribe(daoAddress, watched.subscriptionId);
+    }
+    this.watched.clear();
+    logger.info('[PoolWatcher] Stopped');
+  }
+
+  /**
+   * Subscribe to DAOs that aren't watched yet and drop ones that are gone
+   */
+  async sync(): Promise<void> {
+    const daos = await this.futarchyService.getAllDaos();
+    const current = new Set<string>();
+
+    for (const dao of daos) {
+      const daoAddress = dao.daoAddress.toString();
+      current.add(daoAddress);
+
+      const watched = this.watched.get(daoAddress);
+      if (watched) {
+        // Keep metadata (symbols, decimals) fresh without touching the subscription
+        watched.dao = { ...dao, poolData: watched.dao.poolData };
+        continue;
+      }
+
+      const subscriptionId = this.connection.onAccountChange(
+        dao.daoAddress,
+        (accountInfo, context) => {
+          void this.handleAccountChange(daoAddress, accountInfo, context);
+        },
+        { commitment: 'confirmed' }
+      );
+      this.watched.set(daoAddress, { subscriptionId, dao, slot: 0 });
+    }
+
+    for (const [daoAddress, watched] of this.watched) {
+      if (!current.has(daoAddress)) {
+        this.unsubscribe(daoAddress, watched.subscriptionId);
+        this.watched.delete(daoAddress);
+      }
+    }
+
+    this.initialized = true;
+    logger.info(`[PoolWatcher] Watching ${this.watched.size} DAO accounts`);
+  }
+
+  getStatus(): {
+    initialized: boolean;
+    isRunning: boolean;
+    subscriptions: number;
+    updatesReceived: number;
+    lastUpdateAt: string | null;
+  } {
+    return {
+      initialized: this.initialized,
+      isRunning: this.syncTask !== null,
+      subscriptions: this.watched.size,
+      updatesReceived: this.updatesReceived,
+      lastUpdateAt: this.lastUpdateAt?.toISOString() ?? null,
+    };
+  }
+
+  private async handleAccountChange(daoAddress: string, accountInfo: AccountInfo<Buffer>, context: Context): Promise<void> {
+    const watched = this.watched.get(daoAddress);
+    if (!watched || context.slot < watched.slot) return;
+
+    const poolData = this.futarchyService.decodePoolData(accountInfo.data);
+    if (!poolData) return;
+
+    watched.slot = context.slot;
+    watched.dao = { ...watched.dao, poolData };
+    this.updatesReceived++;
+    this.lastUpdateAt = new Date();
+
+    this.futarchyService.updatePoolData(watched.dao.daoAddress, poolData);
+    try {
+      await this.tickerSnapshotService.applyPoolUpdate(watched.dao);
+    } catch (error) {
+      logger.error('[PoolWatcher] Failed to reprice ticker', error, { daoAddress });
+    }
+  }
+
+  private unsubscribe(daoAddress: string, subscriptionId: number): void {
+    this.connection.removeAccountChangeListener(subscriptionId).catch((error) => {
+      logger.warn('[PoolWatcher] Failed to unsubscribe', { daoAddress, error: String(error) });
+    });
+  }
+}
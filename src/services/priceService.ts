@@ -1,4 +1,13 @@
 import BN from 'bn.js';
+import { config } from '../config.js';
+import { DECIMAL_SCALE, divToFixed, parseDecimal, pow10, toBigInt, toScaled, toUnitsNumber } from '../utils/decimal.js';
+
+// Each synthesized order book level is a swap of this fraction of base reserves
+export const ORDERBOOK_LEVEL_SIZE = 0.005;
+// 100 levels x 0.5% = up to half the pool's base reserves per side
+export const MAX_ORDERBOOK_LEVELS = 100;
+
+export type OrderBookLevel = [price: string, amount: string];
 
 export class PriceService {
   calculatePrice(
@@ -12,30 +21,78 @@ export class PriceService {
       return null;
     }
 
-    const baseReservesNum = baseReserves.toNumber();
-    const quoteReservesNum = quoteReserves.toNumber();
+    const base = toBigInt(baseReserves);
+    const quote = toBigInt(quoteReserves);
 
     // Check for zero or invalid reserves
-    if (baseReservesNum === 0 || quoteReservesNum === 0 || 
-        !isFinite(baseReservesNum) || !isFinite(quoteReservesNum) ||
-        isNaN(baseReservesNum) || isNaN(quoteReservesNum)) {
+    if (base <= 0n || quote <= 0n) {
       return null;
     }
 
-    // Price = quoteReserves / baseReserves, adjusted for decimals
-    const decimalAdjustment = Math.pow(
-      10,
-      baseDecimals - quoteDecimals
-    );
-    
-    const price = (quoteReservesNum / baseReservesNum) * decimalAdjustment;
-    
-    // Validate calculated price
-    if (!isFinite(price) || isNaN(price) || price <= 0) {
+    // Price = quoteReserves / baseReserves, adjusted for decimals (exact, rounded half up)
+    return divToFixed(quote * pow10(baseDecimals), base * pow10(quoteDecimals), 12);
+  }
+
+  /**
+   * Calculate bid/ask from the constant-product curve.
+   *
+   * bid = average price received for selling base worth `referenceTradeSize` quote
+   * ask = average price paid for buying base with `referenceTradeSize` quote
+   * Both include the fee taken from the swap input, so deeper pools quote tighter.
+   *
+   * With x, y the reserves in token units and f = 1 - feeRate:
+   *   bid = y^2 * f / (x * (y + f * ref))
+   *   ask = (y + f * ref) / (x * f)
+   * evaluated in fixed-point bigint so large reserves keep full precision.
+   */
+  calculateBidAsk(
+    baseReserves: BN,
+    quoteReserves: BN,
+    baseDecimals: number,
+    quoteDecimals: number,
+    feeRate: number,
+    referenceTradeSize: number
+  ): { bid: string; ask: string } | null {
+    if (!baseReserves || !quoteReserves || baseReserves.isZero() || quoteReserves.isZero()) {
       return null;
     }
-    
-    return price.toFixed(12);
+
+    if (feeRate < 0 || feeRate >= 1 || !isFinite(referenceTradeSize) || referenceTradeSize <= 0) {
+      return null;
+    }
+
+    const base = toBigInt(baseReserves);
+    const quote = toBigInt(quoteReserves);
+
+    if (base <= 0n || quote <= 0n) {
+      return null;
+    }
+
+    // Reserves are B / baseScale and Q / quoteScale; fee and size are F / S and R / S
+    const baseScale = pow10(baseDecimals);
+    const quoteScale = pow10(quoteDecimals);
+    const S = pow10(DECIMAL_SCALE);
+    const F = S - toScaled(feeRate);
+    const R = toScaled(referenceTradeSize);
+
+    if (F <= 0n || R <= 0n) {
+      return null;
+    }
+
+    // (y + f * ref) = M / (quoteScale * S^2)
+    const M = quote * S * S + F * R * quoteScale;
+
+    return {
+      bid: divToFixed(quote * quote * F * baseScale * S, quoteScale * base * M, 12),
+      ask: divToFixed(M * baseScale, quoteScale * S * base * F, 12),
+    };
+  }
+
+  /**
+   * Reference trade size (in quote units) for a DAO's bid/ask
+   */
+  getReferenceTradeSize(daoAddress: string): number {
+    return config.bidAsk.referenceTradeSizeOverrides[daoAddress] ?? config.bidAsk.referenceTradeSize;
   }
 
   calculateSpread(price: number, spreadBps: number = 50): { bid: string; ask: string } | null {
@@ -60,27 +117,105 @@ export class PriceService {
     };
   }
 
-  calculateLiquidityUSD(quoteReserves: BN, quoteDecimals: number): string | null {
+  /**
+   * Synthesize order book levels from constant-product (x * y = k) reserves.
+   *
+   * Each level is the next equal-sized slice of a growing swap against the pool:
+   * bids simulate selling base into the pool, asks simulate buying base out of it.
+   * The level price is the average execution price of that slice with the fee
+   * taken from the swap input, and the amount is the slice size in base units.
+   */
+  calculateOrderBook(
+    baseReserves: BN,
+    quoteReserves: BN,
+    baseDecimals: number,
+    quoteDecimals: number,
+    feeRate: number,
+    levels: number = MAX_ORDERBOOK_LEVELS
+  ): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } | null {
+    if (!baseReserves || !quoteReserves || baseReserves.isZero() || quoteReserves.isZero()) {
+      return null;
+    }
+
+    if (feeRate < 0 || feeRate >= 1) {
+      return null;
+    }
+
+    // Float is fine for the curve simulation; exact conversion keeps large reserves from throwing
+    const x = toUnitsNumber(baseReserves, baseDecimals);
+    const y = toUnitsNumber(quoteReserves, quoteDecimals);
+
+    if (!isFinite(x) || !isFinite(y) || x <= 0 || y <= 0) {
+      return null;
+    }
+
+    const levelCount = Math.max(0, Math.min(levels, MAX_ORDERBOOK_LEVELS));
+    const chunk = x * ORDERBOOK_LEVEL_SIZE;
+    const inputAfterFee = 1 - feeRate;
+
+    // Quote received for selling `size` base (fee taken from base input)
+    const quoteOut = (size: number): number => (y * inputAfterFee * size) / (x + inputAfterFee * size);
+    // Quote paid for buying `size` base (fee taken from quote input)
+    const quoteIn = (size: number): number => (y * size) / ((x - size) * inputAfterFee);
+
+    const bids: OrderBookLevel[] = [];
+    const asks: OrderBookLevel[] = [];
+
+    for (let i = 1; i <= levelCount; i++) {
+      const previousSize = (i - 1) * chunk;
+      const size = i * chunk;
+
+      const bidPrice = (quoteOut(size) - quoteOut(previousSize)) / chunk;
+      const askPrice = (quoteIn(size) - quoteIn(previousSize)) / chunk;
+
+      if (!isFinite(bidPrice) || !isFinite(askPrice) || bidPrice <= 0 || askPrice <= 0) {
+        break;
+      }
+
+      const amount = chunk.toFixed(baseDecimals);
+      bids.push([bidPrice.toFixed(12), amount]);
+      asks.push([askPrice.toFixed(12), amount]);
+    }
+
+    return { bids, asks };
+  }
+
+  /**
+   * Pool liquidity in USD: both sides are worth the same at the pool price,
+   * so liquidity = 2 * quoteReserves * quoteUsdPrice.
+   * quoteUsdPrice defaults to 1 for dollar stablecoin pairs.
+   */
+  calculateLiquidityUSD(quoteReserves: BN, quoteDecimals: number, quoteUsdPrice: string = '1'): string | null {
     if (!quoteReserves) {
       return null;
     }
 
-    const quoteReservesNum = quoteReserves.toNumber();
-    
+    const quote = toBigInt(quoteReserves);
+
     // Validate reserves
-    if (!isFinite(quoteReservesNum) || isNaN(quoteReservesNum) || quoteReservesNum < 0) {
+    if (quote < 0n) {
       return null;
     }
 
-    // For stablecoin pairs, liquidity = 2 * quoteReserves
-    const liquidity = (quoteReservesNum * 2) / Math.pow(10, quoteDecimals);
-    
-    // Validate result
-    if (!isFinite(liquidity) || isNaN(liquidity) || liquidity < 0) {
+    const usdPrice = parseDecimal(quoteUsdPrice, DECIMAL_SCALE);
+    if (usdPrice < 0n) {
+      return null;
+    }
+
+    return divToFixed(quote * 2n * usdPrice, pow10(quoteDecimals) * pow10(DECIMAL_SCALE), 2);
+  }
+
+  /**
+   * Convert a quote-denominated amount (decimal string) to USD
+   */
+  convertQuoteToUSD(quoteAmount: string, quoteUsdPrice: string): string | null {
+    try {
+      const amount = parseDecimal(quoteAmount, DECIMAL_SCALE);
+      const usdPrice = parseDecimal(quoteUsdPrice, DECIMAL_SCALE);
+      return divToFixed(amount * usdPrice, pow10(DECIMAL_SCALE) * pow10(DECIMAL_SCALE), 2);
+    } catch {
       return null;
     }
-    
-    return liquidity.toFixed(2);
   }
 
   calculateVolumeFromFees(
@@ -94,48 +229,26 @@ export class PriceService {
       return null;
     }
 
-    // Convert BN to numbers, handling null/undefined
-    // Check if BN exists and is not zero before converting
-    const baseFeesNum = (baseProtocolFees && !baseProtocolFees.isZero()) 
-      ? baseProtocolFees.toNumber() 
-      : 0;
-    const quoteFeesNum = (quoteProtocolFees && !quoteProtocolFees.isZero())
-      ? quoteProtocolFees.toNumber()
-      : 0;
-
-    // Validate fees - at least one must have a value
-    if ((!isFinite(baseFeesNum) || isNaN(baseFeesNum) || baseFeesNum < 0) &&
-        (!isFinite(quoteFeesNum) || isNaN(quoteFeesNum) || quoteFeesNum < 0)) {
-      return null;
-    }
+    // Handle null/undefined fees; negative fees are treated as missing
+    const baseFees = baseProtocolFees ? toBigInt(baseProtocolFees) : 0n;
+    const quoteFees = quoteProtocolFees ? toBigInt(quoteProtocolFees) : 0n;
 
-    // If both fees are zero, return null
-    if (baseFeesNum === 0 && quoteFeesNum === 0) {
+    // At least one fee must have a value
+    if (baseFees <= 0n && quoteFees <= 0n) {
       return null;
     }
 
-    // Volume = Fees / Fee Rate
-    // Adjust for decimals
-    // Calculate volume for whichever fees exist (can be zero if that fee doesn't exist)
-    const baseVolume = baseFeesNum > 0 
-      ? (baseFeesNum / feeRate) / Math.pow(10, baseDecimals)
-      : 0;
-    
-    const targetVolume = quoteFeesNum > 0
-      ? (quoteFeesNum / feeRate) / Math.pow(10, quoteDecimals)
-      : 0;
-
-    // Validate results - check if calculated values are valid
-    const baseVolumeValid = baseVolume === 0 || (isFinite(baseVolume) && !isNaN(baseVolume) && baseVolume >= 0);
-    const targetVolumeValid = targetVolume === 0 || (isFinite(targetVolume) && !isNaN(targetVolume) && targetVolume >= 0);
-
-    if (!baseVolumeValid || !targetVolumeValid) {
+    // Volume = Fees / Fee Rate, adjusted for decimals
+    // Calculate volume for whichever fees exist (zero if that fee doesn't exist)
+    const S = pow10(DECIMAL_SCALE);
+    const scaledFeeRate = toScaled(feeRate);
+    if (scaledFeeRate <= 0n) {
       return null;
     }
 
     return {
-      baseVolume: baseVolume.toFixed(8),
-      targetVolume: targetVolume.toFixed(8),
+      baseVolume: divToFixed(baseFees > 0n ? baseFees * S : 0n, scaledFeeRate * pow10(baseDecimals), 8),
+      targetVolume: divToFixed(quoteFees > 0n ? quoteFees * S : 0n, scaledFeeRate * pow10(quoteDecimals), 8),
     };
   }
 
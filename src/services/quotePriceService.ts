@@ -0,0 +1,217 @@
+/**
+ * QuotePriceService
+ *
+ * Resolves the USD price of a DAO's quote mint so liquidity and volume can be
+ * reported in USD for pools not quoted in a dollar stablecoin.
+ *
+ * Resolution order:
+ * 1. Stablecoin allowlist (QUOTE_STABLECOIN_MINTS) - priced at exactly $1
+ * 2. Price providers in order (e.g. Pyth price accounts from PYTH_PRICE_FEEDS)
+ *
+ * Provider results are cached for QUOTE_PRICE_CACHE_TTL so a ticker request
+ * doesn't read the same price account once per DAO.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export interface QuotePrice {
+  // USD per whole quote token, as a decimal string
+  usdPrice: string;
+  source: string;
+  publishedAt: Date | null;
+}
+
+export interface QuotePriceProvider {
+  readonly name: string;
+  getUsdPrice(mint: string): Promise<QuotePrice | null>;
+}
+
+// ============================================
+// PYTH PRICE ACCOUNTS
+// ============================================
+
+const PYTH_MAGIC = 0xa1b2c3d4;
+const PYTH_PRICE_ACCOUNT_TYPE = 3;
+const PYTH_STATUS_TRADING = 1;
+// Offsets into a Pyth v2 price account
+const PYTH_OFFSET_EXPONENT = 20;
+const PYTH_OFFSET_TIMESTAMP = 96;
+const PYTH_OFFSET_AGG_PRICE = 208;
+const PYTH_OFFSET_AGG_CONF = 216;
+const PYTH_OFFSET_AGG_STATUS = 224;
+const PYTH_MIN_ACCOUNT_SIZE = 240;
+
+export interface PythPrice {
+  price: bigint;
+  conf: bigint;
+  exponent: number;
+  status: number;
+  publishTime: Date;
+}
+
+/**
+ * Decode the aggregate price from a Pyth v2 price account
+ */
+export function decodePythPrice(data: Buffer): PythPrice | null {
+  if (data.length < PYTH_MIN_ACCOUNT_SIZE) return null;
+  if (data.readUInt32LE(0) !== PYTH_MAGIC) return null;
+  if (data.readUInt32LE(8) !== PYTH_PRICE_ACCOUNT_TYPE) return null;
+
+  return {
+    price: data.readBigInt64LE(PYTH_OFFSET_AGG_PRICE),
+    conf: data.readBigUInt64LE(PYTH_OFFSET_AGG_CONF),
+    exponent: data.readInt32LE(PYTH_OFFSET_EXPONENT),
+    status: data.readUInt32LE(PYTH_OFFSET_AGG_STATUS),
+    publishTime: new Date(Number(data.readBigInt64LE(PYTH_OFFSET_TIMESTAMP)) * 1000),
+  };
+}
+
+/**
+ * Format a Pyth fixed-point price (price * 10^exponent) as a decimal string
+ */
+export function formatPythPrice(price: bigint, exponent: number): string {
+  if (exponent >= 0) {
+    return (price * 10n ** BigInt(exponent)).toString();
+  }
+
+  const digits = -exponent;
+  const negative = price < 0n;
+  const padded = (negative ? -price : price).toString().padStart(digits + 1, '0');
+  const whole = padded.slice(0, padded.length - digits);
+  const fraction = padded.slice(padded.length - digits).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Reads USD prices from Pyth price accounts on Solana
+ */
+export class PythPriceProvider implements QuotePriceProvider {
+  readonly name = 'pyth';
+  private connection: Pick<Connection, 'getAccountInfo'>;
+  // Quote mint -> Pyth price account
+  private feeds: Record<string, string>;
+  private maxAgeSeconds: number;
+
+  constructor(
+    connection: Pick<Connection, 'getAccountInfo'>,
+    feeds: Record<string, string> = config.quotePricing.pythFeeds,
+    maxAgeSeconds: number = config.quotePricing.maxPriceAgeSeconds
+  ) {
+    this.connection = connection;
+    this.feeds = feeds;
+    this.maxAgeSeconds = maxAgeSeconds;
+  }
+
+  async getUsdPrice(mint: string): Promise<QuotePrice | null> {
+    const priceAccount = this.feeds[mint];
+    if (!priceAccount) return null;
+
+    const accountInfo = await this.connection.getAccountInfo(new PublicKey(priceAccount));
+    if (!accountInfo) {
+      logger.warn(`[QuotePrice] Pyth price account ${priceAccount} not found for ${mint}`);
+      return null;
+    }
+
+    const decoded = decodePythPrice(accountInfo.data);
+    if (!decoded) {
+      logger.warn(`[QuotePrice] Could not decode Pyth price account ${priceAccount}`);
+      return null;
+    }
+
+    if (decoded.status !== PYTH_STATUS_TRADING || decoded.price <= 0n) {
+      logger.warn(`[QuotePrice] Pyth price for ${mint} is not trading (status ${decoded.status})`);
+      return null;
+    }
+
+    const ageSeconds = (Date.now() - decoded.publishTime.getTime()) / 1000;
+    if (ageSeconds > this.maxAgeSeconds) {
+      logger.warn(`[QuotePrice] Pyth price for ${mint} is stale (${Math.round(ageSeconds)}s old)`);
+      return null;
+    }
+
+    return {
+      usdPrice: formatPythPrice(decoded.price, decoded.exponent),
+      source: this.name,
+      publishedAt: decoded.publishTime,
+    };
+  }
+}
+
+// ============================================
+// QUOTE PRICE SERVICE
+// ============================================
+
+export class QuotePriceService {
+  private stablecoins: Set<string>;
+  private providers: QuotePriceProvider[];
+  private cacheTtlMs: number;
+  private cache: Map<string, { price: QuotePrice | null; timestamp: number }>;
+
+  constructor(
+    stablecoins: string[] = config.quotePricing.stablecoins,
+    providers: QuotePriceProvider[] = [],
+    cacheTtlMs: number = config.quotePricing.cacheTtlMs
+  ) {
+    this.stablecoins = new Set(stablecoins);
+    this.providers = providers;
+    this.cacheTtlMs = cacheTtlMs;
+    this.cache = new Map();
+  }
+
+  isStablecoin(mint: string): boolean {
+    return this.stablecoins.has(mint);
+  }
+
+  /**
+   * USD price of one whole quote token, or null if no provider can price it
+   */
+  async getUsdPrice(mint: string): Promise<QuotePrice | null> {
+    if (this.isStablecoin(mint)) {
+      return { usdPrice: '1', source: 'stablecoin', publishedAt: null };
+    }
+
+    const cached = this.cache.get(mint);
+    if (cached && Date.now() - cached.timestamp < this.cacheTtlMs) {
+      return cached.price;
+    }
+
+    let price: QuotePrice | null = null;
+    for (const provider of this.providers) {
+      try {
+        price = await provider.getUsdPrice(mint);
+        if (price) break;
+      } catch (error) {
+        logger.error(`[QuotePrice] Provider ${provider.name} failed for ${mint}`, error);
+      }
+    }
+
+    if (!price) {
+      logger.warn(`[QuotePrice] No USD price available for quote mint ${mint}`);
+    }
+
+    this.cache.set(mint, { price, timestamp: Date.now() });
+    return price;
+  }
+
+  /**
+   * USD prices for several quote mints, keyed by mint
+   */
+  async getUsdPrices(mints: string[]): Promise<Map<string, QuotePrice | null>> {
+    const unique = [...new Set(mints)];
+    const prices = await Promise.all(unique.map(mint => this.getUsdPrice(mint)));
+    return new Map(unique.map((mint, i) => [mint, prices[i] ?? null]));
+  }
+}
+
+/**
+ * Build the default quote price service: configured stablecoins plus Pyth feeds
+ */
+export function createQuotePriceService(connection?: Pick<Connection, 'getAccountInfo'>): QuotePriceService {
+  const providers: QuotePriceProvider[] = [];
+  if (Object.keys(config.quotePricing.pythFeeds).length > 0) {
+    providers.push(new PythPriceProvider(connection ?? new Connection(config.solana.rpcUrl, 'confirmed')));
+  }
+  return new QuotePriceService(config.quotePricing.stablecoins, providers);
+}
@@ -0,0 +1,267 @@
+/**
+ * ReconciliationService
+ *
+ * Checks stored volume (ten_minute_volumes, from Dune or the swap indexer)
+ * against what the chain implies. Every swap pays PROTOCOL_FEE_RATE of its
+ * input into the pool's protocol fee counters, so fee growth divided by the
+ * fee rate is volume: quote fee growth is buy volume, base fee growth is sell
+ * volume.
+ *
+ * Schedule:
+ * - On startup and every RECONCILIATION_INTERVAL: store each DAO's protocol
+ *   fee counters in protocol_fee_snapshots, then reconcile the last
+ *   RECONCILIATION_LOOKBACK_DAYS completed UTC days
+ *
+ * A day is compared over the window from its first fee snapshot to the first
+ * snapshot of the next day, against the 10-minute buckets starting in that
+ * window, so the comparison is approximate at the window edges. A counter that
+ * drops was collected, and its new value counts as fees accrued since.
+ *
+ * Results go to volume_reconciliation (served by /api/admin/reconciliation);
+ * DAO-days whose discrepancy exceeds RECONCILIATION_THRESHOLD are flagged
+ * there and counted in the futarchy_volume_reconciliation_flagged gauge.
+ */
+
+import type { FutarchyService } from './futarchyService.js';
+import type { DatabaseService, ProtocolFeeSnapshotRecord, VolumeReconciliationRecord } from './databaseService.js';
+import { accruedFees, type FeeSample } from './feeVolumeService.js';
+import { metricsService } from './metricsService.js';
+import { divToFixed, formatUnits, parseDecimal, pow10, toScaled, DECIMAL_SCALE } from '../utils/decimal.js';
+import { getUTCDateString, toUTCMidnight } from '../utils/validation.js';
+import { scheduleWithoutPileup, type ScheduledTask } from '../utils/scheduling.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export interface ReconciliationOptions {
+  intervalMs: number;
+  threshold: number;
+  lookbackDays: number;
+  feeRate: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUCKET_MS = 10 * 60 * 1000;
+// Same precision as the NUMERIC(40, 12) volume columns
+const SCALE = 12;
+// Precision of the discrepancy column (NUMERIC(10, 6))
+const DISCREPANCY_DIGITS = 6;
+
+/**
+ * Relative difference of two volumes, |a - b| / max(a, b), or 0 when both are zero
+ */
+export function volumeDiscrepancy(recorded: string, implied: string): string {
+  const a = parseDecimal(recorded, SCALE);
+  const b = parseDecimal(implied, SCALE);
+  const larger = a > b ? a : b;
+  if (larger <= 0n) return divToFixed(0n, 1n, DISCREPANCY_DIGITS);
+  return divToFixed(a > b ? a - b : b - a, larger, DISCREPANCY_DIGITS);
+}
+
+/**
+ * Snapshots spanning a UTC day: the first one taken that day through the first
+ * one of the next day. Null if the day has no snapshot or the next day has none yet.
+ */
+export function dayWindow(snapshots: ProtocolFeeSnapshotRecord[], dayStart: Date): ProtocolFeeSnapshotRecord[] | null {
+  const dayEnd = dayStart.getTime() + DAY_MS;
+  const first = snapshots.findIndex(snapshot => snapshot.snapshot_at.getTime() >= dayStart.getTime());
+  const last = snapshots.findIndex(snapshot => snapshot.snapshot_at.getTime() >= dayEnd);
+  if (first === -1 || last === -1 || first === last) return null;
+  return snapshots.slice(first, last + 1);
+}
+
+function floorToBucket(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / BUCKET_MS) * BUCKET_MS);
+}
+
+export class ReconciliationService {
+  private futarchyService: FutarchyService;
+  private databaseService: DatabaseService;
+  private options: ReconciliationOptions;
+  private reconcileTask: ScheduledTask | null = null;
+  private initialized: boolean = false;
+  private lastRunTime: Date | null = null;
+  private lastRunFlaggedCount: number = 0;
+
+  constructor(
+    futarchyService: FutarchyService,
+    databaseService: DatabaseService,
+    options: ReconciliationOptions = {
+      intervalMs: config.reconciliation.intervalMs,
+      threshold: config.reconciliation.threshold,
+      lookbackDays: config.reconciliation.lookbackDays,
+      feeRate: config.fees.protocolFeeRate,
+    }
+  ) {
+    this.futarchyService = futarchyService;
+    this.databaseService = databaseService;
+    this.options = options;
+  }
+
+  get isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  isDatabaseConnected(): boolean {
+    return this.databaseService.isAvailable();
+  }
+
+  start(): void {
+    if (this.reconcileTask) {
+      logger.info('[Reconciliation] Service already running');
+      return;
+    }
+
+    if (!this.databaseService.isAvailable()) {
+      logger.info('[Reconciliation] Database not connected - service disabled');
+      return;
+    }
+
+    this.reconcileTask = scheduleWithoutPileup(
+      async () => {
+        await this.run();
+      },
+      {
+        name: 'Reconciliation',
+        intervalMs: this.options.intervalMs,
+        immediate: true,
+        onError: (error) => logger.error('[Reconciliation] Run error', error),
+      }
+    );
+
+    logger.info(`[Reconciliation] Started with runs every ${this.options.intervalMs / 1000}s`);
+  }
+
+  stop(): void {
+    if (this.reconcileTask) {
+      this.reconcileTask.stop();
+      this.reconcileTask = null;
+      logger.info('[Reconciliation] Stopped');
+    }
+  }
+
+  /**
+   * Snapshot fee counters, then reconcile the lookback days. Returns the results.
+   */
+  async run(now: Date = new Date()): Promise<VolumeReconciliationRecord[]> {
+    await this.snapshotFees(now);
+    const results = await this.reconcile(now);
+
+    await this.databaseService.upsertVolumeReconciliation(results);
+    // With a margin, so the oldest lookback day keeps its opening snapshot
+    await this.databaseService.pruneOldProtocolFeeSnapshots(this.options.lookbackDays + 2);
+
+    // Results are per DAO oldest day first, so the last one per DAO is its latest day
+    const latest = new Map<string, number>();
+    for (const result of results) {
+      latest.set(result.dao_address, parseFloat(result.discrepancy));
+    }
+    const flagged = results.filter(result => result.flagged);
+    metricsService.setVolumeReconciliation(latest, flagged.length);
+
+    this.initialized = true;
+    this.lastRunTime = now;
+    this.lastRunFlaggedCount = flagged.length;
+
+    if (flagged.length > 0) {
+      logger.warn(`[Reconciliation] ${flagged.length} DAO-days exceed the discrepancy threshold`, {
+        flagged: flagged.map(result => `${result.dao_address}@${result.date}`),
+      });
+    } else {
+      logger.info(`[Reconciliation] Reconciled ${results.length} DAO-days, none flagged`);
+    }
+
+    return results;
+  }
+
+  getStatus(): {
+    initialized: boolean;
+    isRunning: boolean;
+    databaseConnected: boolean;
+    lastRunTime: string | null;
+    lastRunFlaggedCount: number;
+  } {
+    return {
+      initialized: this.initialized,
+      isRunning: this.reconcileTask !== null,
+      databaseConnected: this.databaseService.isAvailable(),
+      lastRunTime: this.lastRunTime?.toISOString() ?? null,
+      lastRunFlaggedCount: this.lastRunFlaggedCount,
+    };
+  }
+
+  private async snapshotFees(now: Date): Promise<void> {
+    const daos = await this.futarchyService.getAllDaos();
+
+    await this.databaseService.insertProtocolFeeSnapshots(daos.map(dao => ({
+      dao_address: dao.daoAddress.toString(),
+      token: dao.baseMint.toString(),
+      snapshot_at: now,
+      base_protocol_fees: formatUnits(dao.poolData.baseProtocolFees ?? 0, dao.baseDecimals),
+      quote_protocol_fees: formatUnits(dao.poolData.quoteProtocolFees ?? 0, dao.quoteDecimals),
+    })));
+  }
+
+  private async reconcile(now: Date): Promise<VolumeReconciliationRecord[]> {
+    const today = toUTCMidnight(now);
+    const firstDay = new Date(today.getTime() - this.options.lookbackDays * DAY_MS);
+    const snapshots = await this.databaseService.getProtocolFeeSnapshots(firstDay);
+
+    const byDao = new Map<string, ProtocolFeeSnapshotRecord[]>();
+    for (const snapshot of snapshots) {
+      const daoSnapshots = byDao.get(snapshot.dao_address) ?? [];
+      daoSnapshots.push(snapshot);
+      byDao.set(snapshot.dao_address, daoSnapshots);
+    }
+
+    // Fees are in token units scaled by 10^SCALE; volume = fees / feeRate
+    const denominator = toScaled(this.options.feeRate) * pow10(SCALE);
+    const toVolume = (fees: bigint) => divToFixed(fees * pow10(DECIMAL_SCALE), denominator, SCALE);
+
+    const results: VolumeReconciliationRecord[] = [];
+    for (const [daoAddress, daoSnapshots] of byDao) {
+      for (let day = firstDay.getTime(); day < today.getTime(); day += DAY_MS) {
+        const window = dayWindow(daoSnapshots, new Date(day));
+        if (!window) continue;
+
+        const first = window[0]!;
+        const last = window[window.length - 1]!;
+        const recorded = await this.databaseService.getTenMinuteBuySellTotals(
+          last.token,
+          floorToBucket(first.snapshot_at),
+          floorToBucket(last.snapshot_at)
+        );
+
+        const accrued = accruedFees(window.map((snapshot): FeeSample => ({
+          at: snapshot.snapshot_at,
+          baseProtocolFees: parseDecimal(snapshot.base_protocol_fees, SCALE),
+          quoteProtocolFees: parseDecimal(snapshot.quote_protocol_fees, SCALE),
+          price: null,
+        })));
+        const impliedBuy = toVolume(accrued.quote);
+        const impliedSell = toVolume(accrued.base);
+
+        const buyDiscrepancy = volumeDiscrepancy(recorded.buy_volume, impliedBuy);
+        const sellDiscrepancy = volumeDiscrepancy(recorded.sell_volume, impliedSell);
+        const discrepancy = parseDecimal(buyDiscrepancy, DISCREPANCY_DIGITS) >= parseDecimal(sellDiscrepancy, DISCREPANCY_DIGITS)
+          ? buyDiscrepancy
+          : sellDiscrepancy;
+
+        results.push({
+          dao_address: daoAddress,
+          token: last.token,
+          date: getUTCDateString(new Date(day)),
+          window_start: first.snapshot_at,
+          window_end: last.snapshot_at,
+          recorded_buy_volume: recorded.buy_volume,
+          implied_buy_volume: impliedBuy,
+          recorded_sell_volume: recorded.sell_volume,
+          implied_sell_volume: impliedSell,
+          discrepancy,
+          flagged: parseFloat(discrepancy) > this.options.threshold,
+        });
+      }
+    }
+
+    return results;
+  }
+}
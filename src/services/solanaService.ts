@@ -1,9 +1,12 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { getMint } from '@solana/spl-token';
+import type { Mint } from '@solana/spl-token';
 import { config } from '../config.js';
 import BN from 'bn.js';
 import { retry, isTransientError, createRetryLogger } from '../utils/resilience.js';
 import { logger } from '../utils/logger.js';
+import { formatUnits } from '../utils/decimal.js';
+import { decodeMint, describeTokenProgram, type TokenProgramInfo } from '../utils/tokenAccounts.js';
+import type { TokenAllocationBreakdown } from './launchpadService.js';
 
 export interface TokenSupplyInfo {
   mint: string;
@@ -11,6 +14,8 @@ export interface TokenSupplyInfo {
   circulatingSupply: string;
   decimals: number;
   rawTotalSupply: string;
+  // Owning token program with any Token-2022 extensions (e.g. transfer fee)
+  tokenProgram?: TokenProgramInfo;
   // Detailed breakdown of non-circulating tokens
   allocation?: {
     // Team performance package (locked tokens)
@@ -86,6 +91,40 @@ export interface TokenAllocationInput {
   version?: string;
 }
 
+/**
+ * Convert an allocation breakdown into the input SolanaService.getSupplyInfo expects
+ */
+export function toSupplyAllocationInput(allocation: TokenAllocationBreakdown): TokenAllocationInput {
+  return {
+    teamPerformancePackage: {
+      amount: allocation.teamPerformancePackage.amount,
+      address: allocation.teamPerformancePackage.address?.toString(),
+    },
+    futarchyAmmLiquidity: {
+      amount: allocation.futarchyAmmLiquidity.amount,
+      vaultAddress: allocation.futarchyAmmLiquidity.vaultAddress?.toString(),
+    },
+    meteoraLpLiquidity: {
+      amount: allocation.meteoraLpLiquidity.amount,
+      poolAddress: allocation.meteoraLpLiquidity.poolAddress?.toString(),
+      vaultAddress: allocation.meteoraLpLiquidity.vaultAddress?.toString(),
+    },
+    additionalTokenAllocation: allocation.additionalTokenAllocation ? {
+      amount: allocation.additionalTokenAllocation.amount,
+      recipient: allocation.additionalTokenAllocation.recipient.toString(),
+      claimed: allocation.additionalTokenAllocation.claimed,
+      tokenAccountAddress: allocation.additionalTokenAllocation.tokenAccountAddress?.toString(),
+    } : undefined,
+    daoTreasuryTokens: {
+      amount: allocation.daoTreasuryTokens.amount,
+      vaultAddress: allocation.daoTreasuryTokens.vaultAddress?.toString(),
+    },
+    daoAddress: allocation.daoAddress?.toString(),
+    launchAddress: allocation.launchAddress?.toString(),
+    version: allocation.version,
+  };
+}
+
 export class SolanaService {
   private connection: Connection;
   private cache: Map<string, { data: any; timestamp: number }>;
@@ -120,6 +159,18 @@ export class SolanaService {
     });
   }
 
+  /**
+   * Read a mint with whichever token program (SPL Token or Token-2022) owns it
+   */
+  private async getMintAccount(mintPubkey: PublicKey): Promise<{ mint: Mint; tokenProgram: TokenProgramInfo }> {
+    const accountInfo = await this.withRetry(() => this.connection.getAccountInfo(mintPubkey));
+    const mint = decodeMint(mintPubkey, accountInfo);
+    if (!mint || !accountInfo) {
+      throw new Error(`Account ${mintPubkey.toString()} is not a token mint`);
+    }
+    return { mint, tokenProgram: describeTokenProgram(mint, accountInfo) };
+  }
+
   /**
    * Validate if a string is a valid Solana public key
    */
@@ -144,12 +195,8 @@ export class SolanaService {
 
     try {
       const mintPubkey = new PublicKey(mintAddress);
-      const mintInfo = await this.withRetry(() => getMint(this.connection, mintPubkey));
-      const supply = Number(mintInfo.supply);
-      const decimals = mintInfo.decimals;
-
-      const totalSupply = supply / Math.pow(10, decimals);
-      const result = totalSupply.toString();
+      const { mint: mintInfo } = await this.getMintAccount(mintPubkey);
+      const result = formatUnits(mintInfo.supply, mintInfo.decimals);
 
       this.setCache(cacheKey, result);
       return result;
@@ -175,7 +222,7 @@ export class SolanaService {
 
     try {
       const mintPubkey = new PublicKey(mintAddress);
-      const mintInfo = await this.withRetry(() => getMint(this.connection, mintPubkey));
+      const { mint: mintInfo } = await this.getMintAccount(mintPubkey);
       let supply = new BN(mintInfo.supply.toString());
       const decimals = mintInfo.decimals;
 
@@ -188,8 +235,7 @@ export class SolanaService {
         }
       }
 
-      const circulatingSupply = Number(supply.toString()) / Math.pow(10, decimals);
-      const result = circulatingSupply.toString();
+      const result = formatUnits(supply, decimals);
 
       this.setCache(cacheKey, result);
       return result;
@@ -216,13 +262,12 @@ export class SolanaService {
 
     try {
       const mintPubkey = new PublicKey(mintAddress);
-      const mintInfo = await this.withRetry(() => getMint(this.connection, mintPubkey));
+      const { mint: mintInfo, tokenProgram } = await this.getMintAccount(mintPubkey);
       const rawSupply = mintInfo.supply.toString();
       const totalSupplyBN = new BN(mintInfo.supply.toString());
       const decimals = mintInfo.decimals;
-      const divisor = Math.pow(10, decimals);
 
-      const totalSupplyWithDecimals = Number(totalSupplyBN.toString()) / divisor;
+      const totalSupplyWithDecimals = formatUnits(totalSupplyBN, decimals);
 
       // Calculate circulating supply by subtracting all non-circulating allocations
       let circulatingSupplyBN = totalSupplyBN;
@@ -260,7 +305,7 @@ export class SolanaService {
         if (mintAddress === RNGR_MINT) {
           circulatingSupplyBN = circulatingSupplyBN.add(RNGR_INITIAL_ALLOCATION);
           initialTokenAllocationDetails = {
-            amount: (Number(RNGR_INITIAL_ALLOCATION.toString()) / divisor).toString(),
+            amount: formatUnits(RNGR_INITIAL_ALLOCATION, decimals),
             claimed: true,
           };
         }
@@ -273,21 +318,21 @@ export class SolanaService {
         // Build allocation details for response (include all for transparency)
         allocationDetails = {
           teamPerformancePackage: teamAmount.gt(new BN(0)) ? {
-            amount: (Number(teamAmount.toString()) / divisor).toString(),
+            amount: formatUnits(teamAmount, decimals),
             address: allocation.teamPerformancePackage.address,
           } : undefined,
           futarchyAmmLiquidity: futarchyAmount.gt(new BN(0)) ? {
-            amount: (Number(futarchyAmount.toString()) / divisor).toString(),
+            amount: formatUnits(futarchyAmount, decimals),
             vaultAddress: allocation.futarchyAmmLiquidity.vaultAddress,
           } : undefined,
           meteoraLpLiquidity: meteoraAmount.gt(new BN(0)) ? {
-            amount: (Number(meteoraAmount.toString()) / divisor).toString(),
+            amount: formatUnits(meteoraAmount, decimals),
             poolAddress: allocation.meteoraLpLiquidity.poolAddress,
             vaultAddress: allocation.meteoraLpLiquidity.vaultAddress,
           } : undefined,
           // Include additional token allocation if present (v0.7+ only)
           additionalTokenAllocation: allocation.additionalTokenAllocation ? {
-            amount: (Number(allocation.additionalTokenAllocation.amount.toString()) / divisor).toString(),
+            amount: formatUnits(allocation.additionalTokenAllocation.amount, decimals),
             recipient: allocation.additionalTokenAllocation.recipient,
             claimed: allocation.additionalTokenAllocation.claimed,
             tokenAccountAddress: allocation.additionalTokenAllocation.tokenAccountAddress,
@@ -296,7 +341,7 @@ export class SolanaService {
           initialTokenAllocation: initialTokenAllocationDetails,
           // Include DAO treasury tokens if present
           daoTreasuryTokens: allocation.daoTreasuryTokens && allocation.daoTreasuryTokens.amount.gt(new BN(0)) ? {
-            amount: (Number(allocation.daoTreasuryTokens.amount.toString()) / divisor).toString(),
+            amount: formatUnits(allocation.daoTreasuryTokens.amount, decimals),
             vaultAddress: allocation.daoTreasuryTokens.vaultAddress,
           } : undefined,
           daoAddress: allocation.daoAddress,
@@ -305,14 +350,15 @@ export class SolanaService {
         };
       }
       
-      const circulatingSupplyWithDecimals = Number(circulatingSupplyBN.toString()) / divisor;
+      const circulatingSupplyWithDecimals = formatUnits(circulatingSupplyBN, decimals);
 
       const result: TokenSupplyInfo = {
         mint: mintAddress,
-        totalSupply: totalSupplyWithDecimals.toString(),
-        circulatingSupply: circulatingSupplyWithDecimals.toString(),
+        totalSupply: totalSupplyWithDecimals,
+        circulatingSupply: circulatingSupplyWithDecimals,
         decimals,
         rawTotalSupply: rawSupply,
+        tokenProgram,
         allocation: allocationDetails,
       };
 
@@ -0,0 +1,357 @@
+/**
+ * SwapIndexerService
+ *
+ * Indexes futarchy spot swaps straight from Solana RPC into the trades and
+ * ten_minute_volumes tables, so volume doesn't depend on Dune (a paid API with
+ * minutes of lag).
+ *
+ * Schedule:
+ * - On startup and every SWAP_INDEXER_INTERVAL: page getSignaturesForAddress
+ *   over each DAO (spot swaps always write to the DAO account, which holds the
+ *   AMM) back to the last indexed signature, fetch the new transactions and
+ *   decode their SpotSwap events
+ *
+ * The newest signature seen per DAO is kept in sync_metadata and only advanced
+ * after its trades are stored. Nothing older than SWAP_INDEXER_BACKFILL_HOURS
+ * is indexed, which bounds the first run and catch-up after downtime.
+ *
+ * 10-minute buckets touched by new trades are rebuilt from every stored trade
+ * in them, so a bucket filled across several runs (or with trades that also
+ * came from Dune) is never double counted.
+ */
+
+import { Connection, type PublicKey } from '@solana/web3.js';
+import type { FutarchyService } from './futarchyService.js';
+import type { DatabaseService, RollingWindowStats, TenMinuteVolumeRecord, TradeRecord } from './databaseService.js';
+import { extractSwapTrades, type SwapMarkets, type SwapTransaction } from '../utils/swapEvents.js';
+import { divToFixed, parseDecimal, pow10, toScaled, DECIMAL_SCALE } from '../utils/decimal.js';
+import { scheduleWithoutPileup, type ScheduledTask } from '../utils/scheduling.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export type SwapIndexerConnection = Pick<Connection, 'getSignaturesForAddress' | 'getTransactions'>;
+
+export interface SwapIndexerOptions {
+  intervalMs: number;
+  backfillHours: number;
+  // Protocol fee charged on each swap's input, for the buckets' fee columns
+  feeRate: number;
+}
+
+const BUCKET_MS = 10 * 60 * 1000;
+// Same precision as the NUMERIC(40, 12) volume columns
+const SCALE = 12;
+
+export class SwapIndexerService {
+  private futarchyService: FutarchyService;
+  private databaseService: DatabaseService;
+  private connection: SwapIndexerConnection;
+  private options: SwapIndexerOptions;
+  private indexTask: ScheduledTask | null = null;
+  private initialized: boolean = false;
+  private lastRunTime: Date | null = null;
+  private lastRunTradeCount: number = 0;
+  private runInProgress: boolean = false;
+
+  // getSignaturesForAddress returns at most 1000 signatures per page
+  private readonly SIGNATURE_PAGE_SIZE = 1000;
+  // Transactions fetched per batched getTransactions request
+  private readonly TRANSACTION_BATCH_SIZE = 25;
+
+  constructor(
+    futarchyService: FutarchyService,
+    databaseService: DatabaseService,
+    connection: SwapIndexerConnection = new Connection(config.solana.rpcUrl, 'confirmed'),
+    options: SwapIndexerOptions = {
+      intervalMs: config.swapIndexer.intervalMs,
+      backfillHours: config.swapIndexer.backfillHours,
+      feeRate: config.fees.protocolFeeRate,
+    }
+  ) {
+    this.futarchyService = futarchyService;
+    this.databaseService = databaseService;
+    this.connection = connection;
+    this.options = options;
+  }
+
+  get isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  isDatabaseConnected(): boolean {
+    return this.databaseService.isAvailable();
+  }
+
+  /**
+   * Start the background indexing loop (runs immediately)
+   */
+  start(): void {
+    if (this.indexTask) {
+      logger.info('[SwapIndexer] Service already running');
+      return;
+    }
+
+    if (!this.databaseService.isAvailable()) {
+      logger.info('[SwapIndexer] Database not connected - service disabled');
+      return;
+    }
+
+    this.indexTask = scheduleWithoutPileup(
+      async () => {
+        await this.run();
+      },
+      {
+        name: 'SwapIndexer',
+        intervalMs: this.options.intervalMs,
+        immediate: true,
+        onError: (error) => logger.error('[SwapIndexer] Run error', error),
+      }
+    );
+
+    logger.info(`[SwapIndexer] Started with indexing every ${this.options.intervalMs / 1000}s`);
+  }
+
+  /**
+   * Stop the background indexing loop
+   */
+  stop(): void {
+    if (this.indexTask) {
+      this.indexTask.stop();
+      this.indexTask = null;
+    }
+  }
+
+  /**
+   * Index new swaps for every DAO and rebuild the buckets they fall in.
+   * Returns the number of swaps found.
+   */
+  async run(): Promise<number> {
+    if (this.runInProgress) {
+      logger.info('[SwapIndexer] Run already in progress, skipping');
+      return 0;
+    }
+
+    this.runInProgress = true;
+
+    try {
+      const daos = await this.futarchyService.getAllDaos();
+      const markets: SwapMarkets = new Map(daos.map(dao => [
+        dao.daoAddress.toString(),
+        {
+          baseMint: dao.baseMint.toString(),
+          quoteMint: dao.quoteMint.toString(),
+          baseDecimals: dao.baseDecimals,
+          quoteDecimals: dao.quoteDecimals,
+        },
+      ]));
+      const cutoffMs = Date.now() - this.options.backfillHours * 60 * 60 * 1000;
+
+      const trades: TradeRecord[] = [];
+      const cursors = new Map<string, string>();
+      // A transaction touching several DAOs is only fetched once
+      const fetched = new Set<string>();
+
+      // Sequential so a backfill doesn't fire every DAO's signature pages at the RPC at once
+      for (const dao of daos) {
+        const result = await this.indexDao(dao.daoAddress, markets, cutoffMs, fetched);
+        trades.push(...result.trades);
+        if (result.newestSignature) cursors.set(dao.daoAddress.toString(), result.newestSignature);
+      }
+
+      // A failed write throws before the cursors move, so the next run fetches these swaps again
+      if (trades.length > 0) {
+        await this.databaseService.upsertTrades(trades);
+        await this.rebuildBuckets(trades);
+      }
+
+      for (const [daoAddress, signature] of cursors) {
+        await this.databaseService.setSyncMetadata(cursorKey(daoAddress), signature);
+      }
+
+      this.initialized = true;
+      this.lastRunTime = new Date();
+      this.lastRunTradeCount = trades.length;
+      logger.info(`[SwapIndexer] Indexed ${trades.length} swaps across ${daos.length} DAOs`);
+      return trades.length;
+    } finally {
+      this.runInProgress = false;
+    }
+  }
+
+  /**
+   * Rolling window stats from the 10-minute buckets the indexer writes
+   */
+  async getRollingWindowMetrics(baseMints: string[]): Promise<Map<string, RollingWindowStats>> {
+    return this.databaseService.getRollingWindowMetrics(baseMints);
+  }
+
+  getStatus(): {
+    initialized: boolean;
+    isRunning: boolean;
+    databaseConnected: boolean;
+    lastRunTime: string | null;
+    lastRunTradeCount: number;
+    runInProgress: boolean;
+  } {
+    return {
+      initialized: this.initialized,
+      isRunning: this.indexTask !== null,
+      databaseConnected: this.databaseService.isAvailable(),
+      lastRunTime: this.lastRunTime?.toISOString() ?? null,
+      lastRunTradeCount: this.lastRunTradeCount,
+      runInProgress: this.runInProgress,
+    };
+  }
+
+  /**
+   * Swaps in one DAO's transactions since its cursor, and the signature to resume from next time
+   */
+  private async indexDao(
+    daoAddress: PublicKey,
+    markets: SwapMarkets,
+    cutoffMs: number,
+    fetched: Set<string>
+  ): Promise<{ trades: TradeRecord[]; newestSignature: string | null }> {
+    const until = await this.databaseService.getSyncMetadata(cursorKey(daoAddress.toString())) ?? undefined;
+    const signatures: string[] = [];
+    let newestSignature: string | null = null;
+    let before: string | undefined;
+
+    // Pages run newest to oldest, down to the cursor or the backfill cutoff
+    for (;;) {
+      const page = await this.connection.getSignaturesForAddress(
+        daoAddress,
+        { before, until, limit: this.SIGNATURE_PAGE_SIZE },
+        'confirmed'
+      );
+      if (page.length === 0) break;
+      newestSignature ??= page[0]!.signature;
+
+      const inWindow = page.filter(info => !info.blockTime || info.blockTime * 1000 >= cutoffMs);
+      for (const info of inWindow) {
+        if (!info.err && !fetched.has(info.signature)) {
+          signatures.push(info.signature);
+          fetched.add(info.signature);
+        }
+      }
+
+      if (inWindow.length < page.length || page.length < this.SIGNATURE_PAGE_SIZE) break;
+      before = page[page.length - 1]!.signature;
+    }
+
+    // Oldest first, so trades are stored in the order they happened
+    signatures.reverse();
+    const trades: TradeRecord[] = [];
+    for (let i = 0; i < signatures.length; i += this.TRANSACTION_BATCH_SIZE) {
+      const transactions = await this.connection.getTransactions(
+        signatures.slice(i, i + this.TRANSACTION_BATCH_SIZE),
+        { maxSupportedTransactionVersion: 0, commitment: 'confirmed' }
+      );
+      for (const tx of transactions) {
+        if (tx) trades.push(...extractSwapTrades(tx, markets, data => this.futarchyService.decodeEvent(data)));
+      }
+    }
+
+    if (signatures.length > 0) {
+      logger.debug(`[SwapIndexer] ${daoAddress.toString()}: ${signatures.length} transactions, ${trades.length} swaps`);
+    }
+    return { trades, newestSignature };
+  }
+
+  /**
+   * Recompute every bucket the new trades fall in from all stored trades.
+   * Only the closed buckets rebuilt here are marked complete.
+   */
+  private async rebuildBuckets(trades: TradeRecord[]): Promise<void> {
+    const tokens = [...new Set(trades.map(trade => trade.token))];
+    const earliest = Math.min(...trades.map(trade => new Date(trade.trade_timestamp).getTime()));
+
+    const stored = await this.databaseService.getTradesSince(new Date(bucketStart(earliest)), tokens);
+    const records = aggregateTenMinuteBuckets(stored, this.options.feeRate);
+    const currentBucket = bucketStart(Date.now());
+    const closed = records.filter(record => new Date(record.bucket).getTime() < currentBucket);
+    const open = records.filter(record => new Date(record.bucket).getTime() >= currentBucket);
+
+    if (closed.length > 0) await this.databaseService.upsertTenMinuteVolumes(closed, true, true);
+    if (open.length > 0) await this.databaseService.upsertTenMinuteVolumes(open, false, true);
+  }
+}
+
+/**
+ * Aggregate trades into 10-minute bucket records, computed the way
+ * dune-ten-minute-volume.sql computes them, with fees at `feeRate` of each
+ * swap's input. Trades must be oldest first.
+ */
+export function aggregateTenMinuteBuckets(trades: TradeRecord[], feeRate: number): TenMinuteVolumeRecord[] {
+  const buckets = new Map<string, TradeRecord[]>();
+  for (const trade of trades) {
+    if (parseDecimal(trade.price, SCALE) <= 0n) continue;
+    const key = `${trade.token}|${new Date(bucketStart(new Date(trade.trade_timestamp).getTime())).toISOString()}`;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(trade);
+    else buckets.set(key, [trade]);
+  }
+
+  const one = pow10(SCALE);
+  const toFixed = (scaled: bigint, divisor: bigint = 1n): string => divToFixed(scaled, one * divisor, SCALE);
+  const fee = toScaled(feeRate);
+  const feeDivisor = pow10(DECIMAL_SCALE);
+
+  const records: TenMinuteVolumeRecord[] = [];
+  for (const [key, bucketTrades] of buckets) {
+    const [token, bucket] = key.split('|') as [string, string];
+
+    let baseVolume = 0n;
+    let targetVolume = 0n;
+    let buyVolume = 0n;
+    let sellVolume = 0n;
+    let priceSum = 0n;
+    const prices: bigint[] = [];
+
+    for (const trade of bucketTrades) {
+      const base = parseDecimal(trade.base_volume, SCALE);
+      const target = parseDecimal(trade.target_volume, SCALE);
+      const price = parseDecimal(trade.price, SCALE);
+
+      baseVolume += base;
+      targetVolume += target;
+      // Volume is counted in the swap's input token: quote for buys, base for sells
+      if (trade.type === 'buy') buyVolume += target;
+      else sellVolume += base;
+      priceSum += price;
+      prices.push(price);
+    }
+
+    const count = BigInt(prices.length);
+    const averagePrice = (priceSum + count / 2n) / count;
+
+    records.push({
+      token,
+      bucket,
+      base_volume: toFixed(baseVolume),
+      target_volume: toFixed(targetVolume),
+      buy_volume: toFixed(buyVolume),
+      sell_volume: toFixed(sellVolume),
+      high: toFixed(prices.reduce((max, price) => (price > max ? price : max))),
+      low: toFixed(prices.reduce((min, price) => (price < min ? price : min))),
+      open: toFixed(prices[0]!),
+      close: toFixed(prices[prices.length - 1]!),
+      average_price: toFixed(averagePrice),
+      trade_count: prices.length,
+      usdc_fees: toFixed(buyVolume * fee, feeDivisor),
+      token_fees: toFixed(sellVolume * fee, feeDivisor),
+      token_fees_usdc: toFixed(sellVolume * averagePrice * fee, one * feeDivisor),
+      sell_volume_usdc: toFixed(sellVolume * averagePrice, one),
+    });
+  }
+
+  return records;
+}
+
+function bucketStart(timeMs: number): number {
+  return Math.floor(timeMs / BUCKET_MS) * BUCKET_MS;
+}
+
+function cursorKey(daoAddress: string): string {
+  return `swap_indexer_cursor_${daoAddress}`;
+}
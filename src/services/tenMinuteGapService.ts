@@ -0,0 +1,296 @@
+/**
+ * TenMinuteGapService
+ *
+ * Finds holes in ten_minute_volumes left by missed fetcher runs (Dune
+ * timeouts, restarts) and re-fetches them, so hourly and daily rollups don't
+ * under-report.
+ *
+ * Schedule:
+ * - On startup and every TEN_MINUTE_GAP_SCAN_INTERVAL: scan the closed buckets
+ *   of the last TEN_MINUTE_GAP_LOOKBACK_HOURS per token, then repair any gaps
+ *
+ * Buckets are only stored when they had trades, so an absent bucket is only a
+ * gap when it was never fetched after it closed, i.e. it ends after the
+ * fetcher's coverage watermark in sync_metadata:
+ * - missing: absent and not covered by a successful fetch
+ * - stale: stored but never marked complete (its refresh didn't finish)
+ *
+ * Repair re-fetches the range spanning all gaps through
+ * TenMinuteVolumeFetcherService.refetchRange (bounded by the scan window),
+ * overwrites the stored buckets, then re-aggregates the affected hours and days
+ * with replace semantics. The current hour and day are left to their regular
+ * refresh.
+ */
+
+import { COVERAGE_KEY, type TenMinuteVolumeFetcherService } from './tenMinuteVolumeFetcherService.js';
+import type { DatabaseService, TenMinuteBucketState } from './databaseService.js';
+import type { FutarchyService } from './futarchyService.js';
+import { getUTCDateString, toUTCMidnight } from '../utils/validation.js';
+import { scheduleWithoutPileup, type ScheduledTask } from '../utils/scheduling.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export interface TenMinuteGapOptions {
+  intervalMs: number;
+  lookbackHours: number;
+}
+
+export type TenMinuteGapReason = 'missing' | 'stale';
+
+export interface TenMinuteGap {
+  token: string;
+  reason: TenMinuteGapReason;
+  // Start of the first bucket and end of the last bucket
+  start: Date;
+  end: Date;
+  buckets: number;
+}
+
+export interface TenMinuteGapRepair {
+  start: Date;
+  end: Date;
+  bucketsWritten: number;
+  hoursReaggregated: number;
+  daysReaggregated: number;
+  error: string | null;
+}
+
+export interface TenMinuteGapReport {
+  scannedAt: Date;
+  windowStart: Date;
+  windowEnd: Date;
+  coveredThrough: Date | null;
+  gaps: TenMinuteGap[];
+  repair: TenMinuteGapRepair | null;
+}
+
+const BUCKET_MS = 10 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+// The latest closed buckets belong to the fetcher's regular refresh, which may still be running
+const GRACE_MS = 2 * BUCKET_MS;
+
+function floorTo(date: Date, stepMs: number): Date {
+  return new Date(Math.floor(date.getTime() / stepMs) * stepMs);
+}
+
+/**
+ * Missing and stale bucket runs per token in [windowStart, windowEnd). Buckets
+ * ending after `coveredThrough` (or all of them, without a watermark) are
+ * missing when absent.
+ */
+export function findGaps(
+  tokens: string[],
+  states: TenMinuteBucketState[],
+  windowStart: Date,
+  windowEnd: Date,
+  coveredThrough: Date | null
+): TenMinuteGap[] {
+  const stored = new Map<string, Map<number, boolean>>();
+  for (const state of states) {
+    const buckets = stored.get(state.token) ?? new Map<number, boolean>();
+    buckets.set(state.bucket.getTime(), state.is_complete);
+    stored.set(state.token, buckets);
+  }
+  const coveredUntil = (coveredThrough ?? windowStart).getTime();
+
+  const gaps: TenMinuteGap[] = [];
+  for (const token of new Set([...tokens, ...stored.keys()])) {
+    const buckets = stored.get(token);
+    let current: TenMinuteGap | null = null;
+
+    for (let bucket = windowStart.getTime(); bucket < windowEnd.getTime(); bucket += BUCKET_MS) {
+      const complete = buckets?.get(bucket);
+      let reason: TenMinuteGapReason | null = null;
+      if (complete === false) {
+        reason = 'stale';
+      } else if (complete === undefined && bucket + BUCKET_MS > coveredUntil) {
+        reason = 'missing';
+      }
+
+      if (current && current.reason === reason) {
+        current.end = new Date(bucket + BUCKET_MS);
+        current.buckets++;
+        continue;
+      }
+
+      current = reason
+        ? { token, reason, start: new Date(bucket), end: new Date(bucket + BUCKET_MS), buckets: 1 }
+        : null;
+      if (current) gaps.push(current);
+    }
+  }
+
+  return gaps;
+}
+
+export class TenMinuteGapService {
+  private tenMinuteVolumeFetcherService: TenMinuteVolumeFetcherService;
+  private databaseService: DatabaseService;
+  private futarchyService: FutarchyService;
+  private options: TenMinuteGapOptions;
+  private scanTask: ScheduledTask | null = null;
+  private lastReport: TenMinuteGapReport | null = null;
+
+  constructor(
+    tenMinuteVolumeFetcherService: TenMinuteVolumeFetcherService,
+    databaseService: DatabaseService,
+    futarchyService: FutarchyService,
+    options: TenMinuteGapOptions = {
+      intervalMs: config.tenMinuteGaps.intervalMs,
+      lookbackHours: config.tenMinuteGaps.lookbackHours,
+    }
+  ) {
+    this.tenMinuteVolumeFetcherService = tenMinuteVolumeFetcherService;
+    this.databaseService = databaseService;
+    this.futarchyService = futarchyService;
+    this.options = options;
+  }
+
+  get isInitialized(): boolean {
+    return this.lastReport !== null;
+  }
+
+  isDatabaseConnected(): boolean {
+    return this.databaseService.isAvailable();
+  }
+
+  start(): void {
+    if (this.scanTask) {
+      logger.info('[TenMinGaps] Service already running');
+      return;
+    }
+
+    if (!this.databaseService.isAvailable()) {
+      logger.info('[TenMinGaps] Database not connected - service disabled');
+      return;
+    }
+
+    this.scanTask = scheduleWithoutPileup(
+      async () => {
+        await this.run();
+      },
+      {
+        name: 'TenMinGaps',
+        intervalMs: this.options.intervalMs,
+        immediate: true,
+        onError: (error) => logger.error('[TenMinGaps] Scan error', error),
+      }
+    );
+
+    logger.info(`[TenMinGaps] Started with scans every ${this.options.intervalMs / 1000}s`);
+  }
+
+  stop(): void {
+    if (this.scanTask) {
+      this.scanTask.stop();
+      this.scanTask = null;
+      logger.info('[TenMinGaps] Stopped');
+    }
+  }
+
+  /**
+   * Find gaps in the scan window without repairing them
+   */
+  async scan(now: Date = new Date()): Promise<TenMinuteGapReport> {
+    const windowStart = floorTo(new Date(now.getTime() - this.options.lookbackHours * HOUR_MS), BUCKET_MS);
+    const windowEnd = floorTo(new Date(now.getTime() - GRACE_MS), BUCKET_MS);
+
+    const [daos, states, covered] = await Promise.all([
+      this.futarchyService.getAllDaos(),
+      this.databaseService.getTenMinuteBucketStates(windowStart, windowEnd),
+      this.databaseService.getSyncMetadata(COVERAGE_KEY),
+    ]);
+    const coveredThrough = covered ? new Date(covered) : null;
+
+    return {
+      scannedAt: now,
+      windowStart,
+      windowEnd,
+      coveredThrough,
+      gaps: findGaps(daos.map(dao => dao.baseMint.toString()), states, windowStart, windowEnd, coveredThrough),
+      repair: null,
+    };
+  }
+
+  /**
+   * Scan, then repair any gaps found. Returns the report, which is also kept for the admin endpoint.
+   */
+  async run(now: Date = new Date()): Promise<TenMinuteGapReport> {
+    const report = await this.scan(now);
+
+    if (report.gaps.length === 0) {
+      logger.info('[TenMinGaps] No gaps in 10-minute buckets');
+    } else {
+      const missing = report.gaps.filter(gap => gap.reason === 'missing').reduce((sum, gap) => sum + gap.buckets, 0);
+      const stale = report.gaps.filter(gap => gap.reason === 'stale').reduce((sum, gap) => sum + gap.buckets, 0);
+      logger.warn(`[TenMinGaps] Found ${report.gaps.length} gaps (${missing} missing, ${stale} stale buckets), repairing`, {
+        coveredThrough: report.coveredThrough?.toISOString() ?? null,
+      });
+      report.repair = await this.repair(report.gaps, now);
+    }
+
+    this.lastReport = report;
+    return report;
+  }
+
+  getLastReport(): TenMinuteGapReport | null {
+    return this.lastReport;
+  }
+
+  getStatus(): {
+    initialized: boolean;
+    isRunning: boolean;
+    databaseConnected: boolean;
+    lastScanTime: string | null;
+    gapCount: number;
+  } {
+    return {
+      initialized: this.isInitialized,
+      isRunning: this.scanTask !== null,
+      databaseConnected: this.databaseService.isAvailable(),
+      lastScanTime: this.lastReport?.scannedAt.toISOString() ?? null,
+      gapCount: this.lastReport?.gaps.length ?? 0,
+    };
+  }
+
+  private async repair(gaps: TenMinuteGap[], now: Date): Promise<TenMinuteGapRepair> {
+    const start = new Date(Math.min(...gaps.map(gap => gap.start.getTime())));
+    const end = new Date(Math.max(...gaps.map(gap => gap.end.getTime())));
+
+    try {
+      const bucketsWritten = await this.tenMinuteVolumeFetcherService.refetchRange(start, end);
+
+      // Closed hours and days the gaps fall in, per token
+      const currentHour = floorTo(now, HOUR_MS).getTime();
+      const today = toUTCMidnight(now).getTime();
+      const hours = new Map<string, Set<number>>();
+      for (const gap of gaps) {
+        const tokenHours = hours.get(gap.token) ?? new Set<number>();
+        for (let bucket = gap.start.getTime(); bucket < gap.end.getTime(); bucket += BUCKET_MS) {
+          const hour = Math.floor(bucket / HOUR_MS) * HOUR_MS;
+          if (hour < currentHour) tokenHours.add(hour);
+        }
+        hours.set(gap.token, tokenHours);
+      }
+
+      let hoursReaggregated = 0;
+      let daysReaggregated = 0;
+      for (const [token, tokenHours] of hours) {
+        const days = new Set<string>();
+        for (const hour of [...tokenHours].sort((a, b) => a - b)) {
+          hoursReaggregated += await this.databaseService.aggregate10MinToHourly(token, new Date(hour).toISOString(), true);
+          if (hour < today) days.add(getUTCDateString(new Date(hour)));
+        }
+        for (const day of days) {
+          daysReaggregated += await this.databaseService.aggregateHourlyToDaily(token, day, true);
+        }
+      }
+
+      logger.info(`[TenMinGaps] Repaired ${start.toISOString()} to ${end.toISOString()}: ${bucketsWritten} buckets, ${hoursReaggregated} hours, ${daysReaggregated} days re-aggregated`);
+      return { start, end, bucketsWritten, hoursReaggregated, daysReaggregated, error: null };
+    } catch (error: any) {
+      logger.error('[TenMinGaps] Repair failed', error);
+      return { start, end, bucketsWritten: 0, hoursReaggregated: 0, daysReaggregated: 0, error: error.message };
+    }
+  }
+}
@@ -10,15 +10,37 @@
  * - Prunes data older than 25 hours
  * 
  * 10-minute buckets: :00, :10, :20, :30, :40, :50
+ *
+ * Coverage: sync_metadata[COVERAGE_KEY] is the time up to which every trade has
+ * been fetched. A fetch that starts at or before it moves it forward; one that
+ * starts after it (runs were missed) leaves it, and the hole in between, for
+ * TenMinuteGapService to find and re-fetch.
  */
 
 import { config } from '../config';
 import { DuneService } from './duneService';
-import { DatabaseService, TenMinuteVolumeRecord, Rolling24hMetrics } from './databaseService';
+import { DatabaseService, TenMinuteVolumeRecord, Rolling24hMetrics, type RollingWindow, type RollingWindowMetrics } from './databaseService';
 import { FutarchyService } from './futarchyService';
 import { scheduleAtBoundary, type ScheduledTask } from '../utils/scheduling';
 import { logger } from '../utils/logger.js';
 
+export const COVERAGE_KEY = 'ten_minute_volumes:covered_through';
+
+/**
+ * Dune TIMESTAMP parameter format (YYYY-MM-DD HH:MM:SS, UTC)
+ */
+function toDuneTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').replace('Z', '').slice(0, 19);
+}
+
+export interface TenMinuteRollingMetrics {
+  base_volume_24h: number;
+  target_volume_24h: number;
+  high_24h: number;
+  low_24h: number;
+  windows: Record<RollingWindow, RollingWindowMetrics>;
+}
+
 export class TenMinuteVolumeFetcherService {
   private duneService: DuneService;
   private databaseService: DatabaseService;
@@ -92,6 +114,7 @@ export class TenMinuteVolumeFetcherService {
         await this.fetchAndStore(startTime, true);
 
         this.initialized = true;
+        this.lastRefreshTime = new Date();
         logger.info('[TenMinVolume] Initialization complete');
       } else if (!this.initialized) {
         logger.info('[TenMinVolume] No DUNE_TEN_MINUTE_VOLUME_QUERY_ID configured - cannot fetch new data');
@@ -189,6 +212,39 @@ export class TenMinuteVolumeFetcherService {
     this.lastRefreshTime = new Date();
   }
 
+  /**
+   * Re-fetch [startTime, endTime) and overwrite the stored buckets in it (gap repair).
+   * Every bucket in the range must be closed. Returns the number of buckets written.
+   */
+  async refetchRange(startTime: Date, endTime: Date): Promise<number> {
+    const queryId = config.dune.tenMinuteVolumeQueryId;
+    if (!queryId) return 0;
+
+    const allDaos = await this.futarchyService.getAllDaos();
+    const tokenAddresses = allDaos.map(dao => dao.baseMint.toString());
+
+    logger.info(`[TenMinVolume] Re-fetching ${startTime.toISOString()} to ${endTime.toISOString()} for ${tokenAddresses.length} tokens`);
+
+    const result = await (this.duneService as any).executeQueryManually(queryId, {
+      start_time: toDuneTimestamp(startTime),
+      end_time: toDuneTimestamp(endTime),
+      token_list: tokenAddresses.length > 0 ? tokenAddresses.map(token => `'${token}'`).join(', ') : "'__ALL__'",
+    });
+
+    if (!result || !result.rows) {
+      throw new Error('No results from Dune');
+    }
+
+    // Dune has every trade of a closed bucket, so its values replace stored ones
+    const records = result.rows.map((row: any) => this.toRecord(row));
+    const written = await this.databaseService.upsertTenMinuteVolumes(records, true, true);
+    this.assertStored(written, records.length);
+    await this.recordCoverage(startTime, endTime);
+
+    logger.info(`[TenMinVolume] Re-fetched ${written} buckets`);
+    return written;
+  }
+
   /**
    * Get the start of the current 10-minute bucket
    */
@@ -239,7 +295,8 @@ export class TenMinuteVolumeFetcherService {
         WHERE bucket >= $1 AND bucket < $2
           AND (buy_volume IS NULL OR buy_volume = 0 OR
                sell_volume IS NULL OR sell_volume = 0 OR
-               average_price IS NULL OR average_price = 0)
+               average_price IS NULL OR average_price = 0 OR
+               open = 0 OR close = 0)
       `, [startDate.toISOString(), endDate.toISOString()]);
 
       const missingCount = parseInt(missingCheck.rows[0]?.missing_count || '0');
@@ -285,22 +342,7 @@ export class TenMinuteVolumeFetcherService {
       logger.info(`[TenMinVolume] Received ${rows.length} rows from Dune for backfill`);
 
       // Transform to records with extended fields
-      const records: TenMinuteVolumeRecord[] = rows.map((row: any) => ({
-        token: row.token,
-        bucket: this.parseDuneBucket(row.bucket),
-        base_volume: row.base_volume || '0',
-        target_volume: row.target_volume || '0',
-        buy_volume: row.buy_volume || '0',
-        sell_volume: row.sell_volume || '0',
-        high: row.high || '0',
-        low: row.low || '0',
-        average_price: row.average_price || '0',
-        trade_count: parseInt(row.trade_count || '0'),
-        usdc_fees: row.usdc_fees || '0',
-        token_fees: row.token_fees || '0',
-        token_fees_usdc: row.token_fees_usdc || '0',
-        sell_volume_usdc: row.sell_volume_usdc || '0',
-      }));
+      const records: TenMinuteVolumeRecord[] = rows.map((row: any) => this.toRecord(row));
 
       // Filter to only records that need updating (have missing fields)
       const recordsToUpdate = records.filter(record => {
@@ -355,8 +397,9 @@ export class TenMinuteVolumeFetcherService {
 
       logger.info(`[TenMinVolume] Fetching from Dune query ${queryId} with start_time: ${startTime.toISOString()} for ${tokenAddresses.length} tokens`);
 
+      const fetchedAt = new Date();
       const parameters: Record<string, any> = {
-        start_time: startTime.toISOString().replace('T', ' ').replace('Z', ''),
+        start_time: toDuneTimestamp(startTime),
       };
 
       // Format token list
@@ -376,25 +419,15 @@ export class TenMinuteVolumeFetcherService {
       const rows = result.rows;
       logger.info(`[TenMinVolume] Received ${rows.length} rows from Dune`);
 
-      if (rows.length === 0) return;
+      if (rows.length === 0) {
+        await this.recordCoverage(startTime, fetchedAt);
+        return;
+      }
 
       // Transform to records with extended fields
-      const records: TenMinuteVolumeRecord[] = rows.map((row: any) => ({
-        token: row.token,
-        bucket: this.parseDuneBucket(row.bucket),
-        base_volume: row.base_volume || '0',
-        target_volume: row.target_volume || '0',
-        buy_volume: row.buy_volume || '0',
-        sell_volume: row.sell_volume || '0',
-        high: row.high || '0',
-        low: row.low || '0',
-        average_price: row.average_price || '0',
-        trade_count: parseInt(row.trade_count || '0'),
-        usdc_fees: row.usdc_fees || '0',
-        token_fees: row.token_fees || '0',
-        token_fees_usdc: row.token_fees_usdc || '0',
-        sell_volume_usdc: row.sell_volume_usdc || '0',
-      }));
+      const records: TenMinuteVolumeRecord[] = rows.map((row: any) => this.toRecord(row));
+
+      let written = 0;
 
       // For historical backfill, mark all as complete except current bucket
       if (markHistoricalComplete) {
@@ -403,10 +436,10 @@ export class TenMinuteVolumeFetcherService {
         const incompleteRecords = records.filter(r => new Date(r.bucket) >= currentBucket);
 
         if (completeRecords.length > 0) {
-          await this.databaseService.upsertTenMinuteVolumes(completeRecords, true);
+          written += await this.databaseService.upsertTenMinuteVolumes(completeRecords, true);
         }
         if (incompleteRecords.length > 0) {
-          await this.databaseService.upsertTenMinuteVolumes(incompleteRecords, false);
+          written += await this.databaseService.upsertTenMinuteVolumes(incompleteRecords, false);
         }
       } else {
         // Regular refresh - batch upserts like historical mode
@@ -415,19 +448,68 @@ export class TenMinuteVolumeFetcherService {
         const incompleteRecords = records.filter(r => new Date(r.bucket) >= currentBucket);
 
         if (completeRecords.length > 0) {
-          await this.databaseService.upsertTenMinuteVolumes(completeRecords, true);
+          written += await this.databaseService.upsertTenMinuteVolumes(completeRecords, true);
         }
         if (incompleteRecords.length > 0) {
-          await this.databaseService.upsertTenMinuteVolumes(incompleteRecords, false);
+          written += await this.databaseService.upsertTenMinuteVolumes(incompleteRecords, false);
         }
       }
 
+      this.assertStored(written, records.length);
+      await this.recordCoverage(startTime, fetchedAt);
     } catch (error: any) {
       logger.error('[TenMinVolume] Error fetching from Dune', error);
       throw error;
     }
   }
 
+  /**
+   * Move the coverage watermark to `coveredThrough` after a successful fetch
+   * from `startTime`, unless the fetch started after it and so left a hole
+   */
+  private async recordCoverage(startTime: Date, coveredThrough: Date): Promise<void> {
+    const stored = await this.databaseService.getSyncMetadata(COVERAGE_KEY);
+    if (stored) {
+      const coveredUntil = new Date(stored).getTime();
+      if (startTime.getTime() > coveredUntil || coveredThrough.getTime() <= coveredUntil) return;
+    }
+    await this.databaseService.setSyncMetadata(COVERAGE_KEY, coveredThrough.toISOString());
+  }
+
+  /**
+   * Coverage may only move past buckets that were written; an unavailable
+   * database writes nothing without throwing
+   */
+  private assertStored(written: number, expected: number): void {
+    if (written < expected) {
+      throw new Error(`Stored ${written} of ${expected} 10-minute buckets`);
+    }
+  }
+
+  /**
+   * Dune result row to a stored 10-minute record
+   */
+  private toRecord(row: any): TenMinuteVolumeRecord {
+    return {
+      token: row.token,
+      bucket: this.parseDuneBucket(row.bucket),
+      base_volume: row.base_volume || '0',
+      target_volume: row.target_volume || '0',
+      buy_volume: row.buy_volume || '0',
+      sell_volume: row.sell_volume || '0',
+      high: row.high || '0',
+      low: row.low || '0',
+      open: row.open || '0',
+      close: row.close || '0',
+      average_price: row.average_price || '0',
+      trade_count: parseInt(row.trade_count || '0'),
+      usdc_fees: row.usdc_fees || '0',
+      token_fees: row.token_fees || '0',
+      token_fees_usdc: row.token_fees_usdc || '0',
+      sell_volume_usdc: row.sell_volume_usdc || '0',
+    };
+  }
+
   /**
    * Parse Dune's bucket timestamp format
    */
@@ -441,29 +523,31 @@ export class TenMinuteVolumeFetcherService {
   }
 
   /**
-   * Get rolling 24h metrics from the 10-minute data
+   * Get rolling 24h metrics from the 10-minute data, along with the 1h/7d/30d windows
    * This is the PRIMARY method for /api/tickers 24h volume
    */
-  async getRolling24hMetrics(baseMintAddresses?: string[]): Promise<Map<string, { base_volume_24h: number; target_volume_24h: number; high_24h: number; low_24h: number }>> {
+  async getRolling24hMetrics(baseMintAddresses?: string[]): Promise<Map<string, TenMinuteRollingMetrics>> {
     if (!this.initialized || !this.databaseService.isAvailable()) {
       logger.info('[TenMinVolume] Service not ready, returning empty metrics');
       return new Map();
     }
 
     try {
-      const dbMetrics = await this.databaseService.getRolling24hFromTenMinute(baseMintAddresses);
+      const dbStats = await this.databaseService.getRollingWindowMetrics(baseMintAddresses);
 
-      const result = new Map<string, { base_volume_24h: number; target_volume_24h: number; high_24h: number; low_24h: number }>();
-      for (const [token, metrics] of dbMetrics) {
+      const result = new Map<string, TenMinuteRollingMetrics>();
+      for (const [token, stats] of dbStats) {
+        const day = stats.windows['24h'];
         result.set(token, {
-          base_volume_24h: parseFloat(metrics.base_volume_24h) || 0,
-          target_volume_24h: parseFloat(metrics.target_volume_24h) || 0,
-          high_24h: parseFloat(metrics.high_24h) || 0,
-          low_24h: parseFloat(metrics.low_24h) || 0,
+          base_volume_24h: parseFloat(day.base_volume) || 0,
+          target_volume_24h: parseFloat(day.target_volume) || 0,
+          high_24h: parseFloat(day.high) || 0,
+          low_24h: parseFloat(day.low) || 0,
+          windows: stats.windows,
         });
       }
 
-      logger.info(`[TenMinVolume] Returning rolling 24h metrics for ${result.size} tokens`);
+      logger.info(`[TenMinVolume] Returning rolling metrics for ${result.size} tokens`);
       return result;
     } catch (error: any) {
       logger.error('[TenMinVolume] Error getting rolling 24h metrics', error);
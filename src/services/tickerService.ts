@@ -0,0 +1,383 @@
+/**
+ * TickerService
+ *
+ * Assembles tickers for every discovered DAO: on-chain price, bid/ask and liquidity
+ * merged with rolling 24h volume and first trade dates from the database.
+ * Shared by the CoinGecko, CoinMarketCap and per-DAO endpoints.
+ *
+ * Volume comes from a chain of VolumeSources (see volumeSources.ts). Each DAO
+ * falls back to the next source on its own, and every ticker records which
+ * source produced its volume and how old that data is.
+ *
+ * Sources that track rolling windows (10-minute data) also add 1h/7d/30d volume
+ * and price change to each ticker.
+ *
+ * USD figures use the quote mint's USD price from QuotePriceService. A quote
+ * mint that can't be priced fails the whole build rather than dropping its DAOs
+ * from the list, so the last good snapshot keeps being served (marked stale).
+ */
+
+import type { CoinGeckoTicker } from '../types/coingecko.js';
+import { FutarchyService, type DaoTickerData } from './futarchyService.js';
+import { PriceService } from './priceService.js';
+import { DatabaseService, type RollingWindow, type RollingWindowMetrics } from './databaseService.js';
+import { QuotePriceService } from './quotePriceService.js';
+import type { VolumeSource, VolumeSourceName, VolumeMetrics, VolumeLookup } from './volumeSources.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export interface VolumeProvenance {
+  source: VolumeSourceName | 'none';
+  // When the volume source last refreshed its data (null if unknown)
+  asOf: Date | null;
+  ageMs: number | null;
+}
+
+export interface TickerSnapshot {
+  tickers: CoinGeckoTicker[];
+  // Keyed by ticker_id
+  provenance: Record<string, VolumeProvenance>;
+  // Rolling 1h/24h/7d/30d stats keyed by ticker_id, for tickers whose volume source tracks them
+  windows: Record<string, Record<RollingWindow, RollingWindowMetrics>>;
+  generatedAt: Date;
+  // Set when served from the last good snapshot because rebuilding is failing
+  stale?: boolean;
+}
+
+/**
+ * Optional ticker filters. DAO-level filters narrow the discovered DAOs before
+ * volume and price lookups, so only those lookups are scoped to the matching
+ * DAOs; discovery always covers every DAO, and the liquidity and volume
+ * filters apply once tickers are built.
+ */
+export interface TickerQuery {
+  // `${baseMint}_${quoteMint}`
+  tickerId?: string;
+  base?: string;
+  dao?: string;
+  // Base symbol, case-insensitive
+  symbol?: string;
+  minLiquidityUsd?: number;
+  // Minimum 24h target (quote) volume
+  minVolume?: number;
+}
+
+/**
+ * Thrown when tickers can't be built because a quote mint has no USD price
+ */
+export class UnpricedQuoteMintError extends Error {
+  constructor(public readonly mints: string[]) {
+    super(`No USD price for quote mint ${mints.join(', ')}`);
+    this.name = 'UnpricedQuoteMintError';
+  }
+}
+
+interface ResolvedVolume {
+  metrics: VolumeMetrics;
+  provenance: VolumeProvenance;
+}
+
+function matchesDao(dao: DaoTickerData, query: TickerQuery): boolean {
+  const baseMint = dao.baseMint.toString();
+  if (query.tickerId && `${baseMint}_${dao.quoteMint.toString()}` !== query.tickerId) return false;
+  if (query.base && baseMint !== query.base) return false;
+  if (query.dao && dao.daoAddress.toString() !== query.dao) return false;
+  if (query.symbol && dao.baseSymbol?.toLowerCase() !== query.symbol.toLowerCase()) return false;
+  return true;
+}
+
+function matchesTicker(ticker: CoinGeckoTicker, query: TickerQuery): boolean {
+  if (query.tickerId && ticker.ticker_id !== query.tickerId) return false;
+  if (query.base && ticker.base_currency !== query.base) return false;
+  if (query.dao && ticker.pool_id !== query.dao) return false;
+  if (query.symbol && ticker.base_symbol?.toLowerCase() !== query.symbol.toLowerCase()) return false;
+  if (query.minLiquidityUsd !== undefined && parseFloat(ticker.liquidity_in_usd) < query.minLiquidityUsd) return false;
+  if (query.minVolume !== undefined && parseFloat(ticker.target_volume) < query.minVolume) return false;
+  return true;
+}
+
+/**
+ * Apply a query to an already-built snapshot, e.g. one built for all DAOs
+ */
+export function filterTickerSnapshot(snapshot: TickerSnapshot, query: TickerQuery): TickerSnapshot {
+  const tickers = snapshot.tickers.filter(ticker => matchesTicker(ticker, query));
+  const ids = new Set(tickers.map(ticker => ticker.ticker_id));
+
+  return {
+    tickers,
+    provenance: Object.fromEntries(Object.entries(snapshot.provenance).filter(([id]) => ids.has(id))),
+    windows: Object.fromEntries(Object.entries(snapshot.windows).filter(([id]) => ids.has(id))),
+    generatedAt: snapshot.generatedAt,
+    stale: snapshot.stale,
+  };
+}
+
+export interface TickerDelta {
+  // Tickers that are new or changed, in full
+  updated: CoinGeckoTicker[];
+  // ticker_ids that are no longer present
+  removed: string[];
+}
+
+/**
+ * Tickers added, changed or removed between two snapshots
+ */
+export function diffTickerSnapshots(previous: TickerSnapshot | null, next: TickerSnapshot): TickerDelta {
+  const before = new Map((previous?.tickers ?? []).map(ticker => [ticker.ticker_id, JSON.stringify(ticker)]));
+  const after = new Set(next.tickers.map(ticker => ticker.ticker_id));
+
+  return {
+    updated: next.tickers.filter(ticker => before.get(ticker.ticker_id) !== JSON.stringify(ticker)),
+    removed: [...before.keys()].filter(tickerId => !after.has(tickerId)),
+  };
+}
+
+function applyWindowStats(ticker: CoinGeckoTicker, windows: Record<RollingWindow, RollingWindowMetrics>): void {
+  const { '1h': hour, '24h': day, '7d': week, '30d': month } = windows;
+
+  if (hour.price_change_percentage !== null) ticker.price_change_percentage_1h = hour.price_change_percentage;
+  if (day.price_change_percentage !== null) ticker.price_change_percentage_24h = day.price_change_percentage;
+  if (week.price_change_percentage !== null) ticker.price_change_percentage_7d = week.price_change_percentage;
+  if (month.price_change_percentage !== null) ticker.price_change_percentage_30d = month.price_change_percentage;
+  ticker.base_volume_1h = hour.base_volume;
+  ticker.target_volume_1h = hour.target_volume;
+  ticker.base_volume_7d = week.base_volume;
+  ticker.target_volume_7d = week.target_volume;
+  ticker.base_volume_30d = month.base_volume;
+  ticker.target_volume_30d = month.target_volume;
+}
+
+const NO_VOLUME_PROVENANCE: VolumeProvenance = { source: 'none', asOf: null, ageMs: null };
+
+export class TickerService {
+  private futarchyService: FutarchyService;
+  private priceService: PriceService;
+  private databaseService: DatabaseService;
+  private volumeSources: VolumeSource[];
+  private quotePriceService: QuotePriceService;
+
+  constructor(
+    futarchyService: FutarchyService,
+    priceService: PriceService,
+    databaseService: DatabaseService,
+    volumeSources: VolumeSource[] = [],
+    quotePriceService: QuotePriceService = new QuotePriceService()
+  ) {
+    this.futarchyService = futarchyService;
+    this.priceService = priceService;
+    this.databaseService = databaseService;
+    this.volumeSources = volumeSources;
+    this.quotePriceService = quotePriceService;
+  }
+
+  /**
+   * Build tickers for every discovered DAO matching the query
+   */
+  async getTickers(requestId?: string, query: TickerQuery = {}): Promise<CoinGeckoTicker[]> {
+    const snapshot = await this.getTickerSnapshot(requestId, query);
+    return snapshot.tickers;
+  }
+
+  /**
+   * Build a single ticker by ticker id, or null if no DAO matches
+   */
+  async getTicker(tickerId: string, requestId?: string): Promise<CoinGeckoTicker | null> {
+    const tickers = await this.getTickers(requestId, { tickerId });
+    return tickers[0] ?? null;
+  }
+
+  /**
+   * Build tickers for every discovered DAO matching the query, along with per-ticker volume provenance
+   */
+  async getTickerSnapshot(requestId?: string, query: TickerQuery = {}): Promise<TickerSnapshot> {
+    const allDaos = (await this.futarchyService.getAllDaos()).filter(dao => matchesDao(dao, query));
+
+    const firstTradeDates = this.databaseService?.isAvailable()
+      ? await this.databaseService.getFirstTradeDates()
+      : new Map<string, string>();
+
+    const volumes = await this.resolveVolumes(
+      allDaos.map(dao => ({ daoAddress: dao.daoAddress.toString(), baseMint: dao.baseMint.toString() })),
+      requestId
+    );
+
+    const quoteUsdPrices = await this.quotePriceService.getUsdPrices(
+      allDaos.map(dao => dao.quoteMint.toString())
+    );
+    const unpricedMints = [...new Set(allDaos.map(dao => dao.quoteMint.toString()))].filter(mint => !quoteUsdPrices.get(mint));
+    if (unpricedMints.length > 0) {
+      throw new UnpricedQuoteMintError(unpricedMints);
+    }
+
+    const tickers: CoinGeckoTicker[] = [];
+    const provenance: Record<string, VolumeProvenance> = {};
+    const windows: Record<string, Record<RollingWindow, RollingWindowMetrics>> = {};
+
+    for (const daoData of allDaos) {
+      try {
+        const {
+          daoAddress,
+          baseMint,
+          quoteMint,
+          baseSymbol,
+          baseName,
+          quoteSymbol,
+          quoteName,
+        } = daoData;
+        const tickerId = `${baseMint.toString()}_${quoteMint.toString()}`;
+        const poolId = daoAddress.toString();
+
+        const quoteUsdPrice = quoteUsdPrices.get(quoteMint.toString())!;
+
+        const pricing = this.pricePool(daoData, quoteUsdPrice.usdPrice);
+        if (!pricing) continue;
+
+        const volume = volumes.get(poolId.toLowerCase());
+        let baseVolume: string;
+        let targetVolume: string;
+        let high24h: string | undefined;
+        let low24h: string | undefined;
+
+        if (volume) {
+          baseVolume = volume.metrics.base_volume_24h;
+          targetVolume = volume.metrics.target_volume_24h;
+          high24h = volume.metrics.high_24h !== '0' ? volume.metrics.high_24h : undefined;
+          low24h = volume.metrics.low_24h !== '0' ? volume.metrics.low_24h : undefined;
+        } else {
+          baseVolume = '0';
+          targetVolume = '0';
+        }
+
+        if (isNaN(parseFloat(baseVolume)) || isNaN(parseFloat(targetVolume))) {
+          continue;
+        }
+
+        const ticker: CoinGeckoTicker = {
+          ticker_id: tickerId,
+          base_currency: baseMint.toString(),
+          target_currency: quoteMint.toString(),
+          base_symbol: baseSymbol,
+          base_name: baseName,
+          target_symbol: quoteSymbol,
+          target_name: quoteName,
+          pool_id: poolId,
+          last_price: pricing.last_price,
+          base_volume: baseVolume,
+          target_volume: targetVolume,
+          liquidity_in_usd: pricing.liquidity_in_usd,
+          bid: pricing.bid,
+          ask: pricing.ask,
+        };
+
+        const targetVolumeUsd = this.priceService.convertQuoteToUSD(targetVolume, quoteUsdPrice.usdPrice);
+        if (targetVolumeUsd) ticker.target_volume_usd = targetVolumeUsd;
+        if (high24h) ticker.high_24h = high24h;
+        if (low24h) ticker.low_24h = low24h;
+        if (volume?.metrics.windows) applyWindowStats(ticker, volume.metrics.windows);
+        if (daoData.treasuryUsdcAum) ticker.treasury_usdc_aum = daoData.treasuryUsdcAum;
+        if (daoData.treasuryVaultAddress) ticker.treasury_vault_address = daoData.treasuryVaultAddress;
+
+        const startDate = firstTradeDates.get(baseMint.toString().toLowerCase());
+        if (startDate) ticker.startDate = startDate;
+
+        if (query.minLiquidityUsd !== undefined && parseFloat(pricing.liquidity_in_usd) < query.minLiquidityUsd) continue;
+        if (query.minVolume !== undefined && parseFloat(targetVolume) < query.minVolume) continue;
+
+        tickers.push(ticker);
+        provenance[tickerId] = volume?.provenance ?? NO_VOLUME_PROVENANCE;
+        if (volume?.metrics.windows) windows[tickerId] = volume.metrics.windows;
+      } catch (error) {
+        logger.error('Error generating ticker', error, { daoAddress: daoData.daoAddress.toString(), requestId });
+      }
+    }
+
+    return { tickers, provenance, windows, generatedAt: new Date() };
+  }
+
+  /**
+   * Reprice an existing ticker from new pool reserves (e.g. pushed by an account
+   * subscription). Volume and other database-backed fields are kept; returns
+   * null if the new reserves can't be priced.
+   */
+  async repriceTicker(ticker: CoinGeckoTicker, dao: DaoTickerData): Promise<CoinGeckoTicker | null> {
+    const quoteUsdPrice = await this.quotePriceService.getUsdPrice(dao.quoteMint.toString());
+    if (!quoteUsdPrice) return null;
+
+    const pricing = this.pricePool(dao, quoteUsdPrice.usdPrice);
+    return pricing ? { ...ticker, ...pricing } : null;
+  }
+
+  /**
+   * Last price, bid/ask and USD liquidity from a DAO's pool reserves, or null if any can't be computed
+   */
+  private pricePool(
+    dao: DaoTickerData,
+    quoteUsdPrice: string
+  ): Pick<CoinGeckoTicker, 'last_price' | 'bid' | 'ask' | 'liquidity_in_usd'> | null {
+    const { poolData, baseDecimals, quoteDecimals } = dao;
+
+    const lastPrice = this.priceService.calculatePrice(
+      poolData.baseReserves,
+      poolData.quoteReserves,
+      baseDecimals,
+      quoteDecimals
+    );
+    if (!lastPrice) return null;
+
+    const spread = this.priceService.calculateBidAsk(
+      poolData.baseReserves,
+      poolData.quoteReserves,
+      baseDecimals,
+      quoteDecimals,
+      config.fees.protocolFeeRate,
+      this.priceService.getReferenceTradeSize(dao.daoAddress.toString())
+    );
+    if (!spread) return null;
+
+    const liquidityUsd = this.priceService.calculateLiquidityUSD(poolData.quoteReserves, quoteDecimals, quoteUsdPrice);
+    if (!liquidityUsd) return null;
+
+    return { last_price: lastPrice, bid: spread.bid, ask: spread.ask, liquidity_in_usd: liquidityUsd };
+  }
+
+  /**
+   * Rolling 24h volume keyed by lowercase DAO address.
+   * Each source is only asked for the DAOs that earlier sources had no data for.
+   */
+  private async resolveVolumes(
+    lookups: VolumeLookup[],
+    requestId?: string
+  ): Promise<Map<string, ResolvedVolume>> {
+    const resolved = new Map<string, ResolvedVolume>();
+    let remaining = lookups;
+
+    for (const source of this.volumeSources) {
+      if (remaining.length === 0) break;
+      if (!source.isAvailable()) continue;
+
+      try {
+        const { metrics, asOf } = await source.getMetrics(remaining);
+        const provenance: VolumeProvenance = {
+          source: source.name,
+          asOf,
+          ageMs: asOf ? Date.now() - asOf.getTime() : null,
+        };
+
+        for (const [daoAddress, daoMetrics] of metrics) {
+          resolved.set(daoAddress, { metrics: daoMetrics, provenance });
+        }
+
+        remaining = remaining.filter(lookup => !resolved.has(lookup.daoAddress.toLowerCase()));
+        logger.debug('Volume source resolved DAOs', { volumeSource: source.name, daoCount: metrics.size, remaining: remaining.length, requestId });
+      } catch (error) {
+        logger.error('Error reading volume source', error, { volumeSource: source.name, requestId });
+      }
+    }
+
+    if (resolved.size === 0 && lookups.length > 0) {
+      logger.warn('No volume metrics available', { requestId });
+    }
+
+    return resolved;
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * TickerSnapshotService
+ *
+ * Keeps a precomputed snapshot of every ticker so ticker endpoints answer
+ * instantly instead of blocking on RPC rediscovery when caches expire.
+ *
+ * Stale-while-revalidate:
+ * - A background loop rebuilds the snapshot every TICKER_REFRESH_INTERVAL
+ * - Requests are served from the last good snapshot; if it is older than the
+ *   refresh interval (e.g. the loop isn't running), a rebuild starts in the
+ *   background and the request doesn't wait for it
+ * - A failed rebuild keeps the previous snapshot
+ * - Only a missing snapshot, or one older than TICKER_MAX_STALENESS, makes the
+ *   request wait for a rebuild
+ *
+ * Last known good:
+ * - Every successful rebuild is persisted to Postgres and loaded at boot, so a
+ *   restart while RPC is down still has tickers to serve
+ * - While rebuilds are failing, the last good snapshot is served with
+ *   `stale: true` (on the snapshot and each ticker) instead of an error;
+ *   requests only fail when there is no snapshot in memory or the database
+ *
+ * Filtered queries are answered from the full snapshot.
+ *
+ * Live updates:
+ * - applyPoolUpdate reprices one ticker from reserves pushed by PoolWatcherService
+ *   without waiting for the next rebuild
+ * - Subscribers are told about every new snapshot (rebuild or pool update) and
+ *   diff it against the previous one, e.g. for the ticker stream
+ */
+
+import { TickerService, filterTickerSnapshot, type TickerSnapshot, type TickerQuery } from './tickerService.js';
+import type { DaoTickerData } from './futarchyService.js';
+import type { CoinGeckoTicker } from '../types/coingecko.js';
+import type { DatabaseService } from './databaseService.js';
+import { scheduleWithoutPileup, type ScheduledTask } from '../utils/scheduling.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export interface TickerSnapshotOptions {
+  refreshIntervalMs: number;
+  maxStalenessMs: number;
+}
+
+export interface TickerSnapshotStatus {
+  generatedAt: Date | null;
+  ageMs: number | null;
+  refreshing: boolean;
+  // True while rebuilds are failing and the last good snapshot is being served
+  stale: boolean;
+  // Listeners for new snapshots, e.g. open ticker streams
+  subscribers: number;
+  lastRefreshError: string | null;
+  lastRefreshErrorAt: Date | null;
+}
+
+/**
+ * Called with the previous snapshot (null if there wasn't one) and the new one
+ */
+export type TickerSnapshotListener = (previous: TickerSnapshot | null, next: TickerSnapshot) => void;
+
+export class TickerSnapshotService {
+  private tickerService: TickerService;
+  private databaseService: DatabaseService | null;
+  private options: TickerSnapshotOptions;
+  private snapshot: TickerSnapshot | null = null;
+  private inFlight: Promise<TickerSnapshot> | null = null;
+  private refreshTask: ScheduledTask | null = null;
+  private lastRefreshError: string | null = null;
+  private lastRefreshErrorAt: Date | null = null;
+  private refreshFailing: boolean = false;
+  private listeners = new Set<TickerSnapshotListener>();
+
+  constructor(
+    tickerService: TickerService,
+    databaseService: DatabaseService | null = null,
+    options: TickerSnapshotOptions = {
+      refreshIntervalMs: config.tickers.refreshIntervalMs,
+      maxStalenessMs: config.tickers.maxStalenessMs,
+    }
+  ) {
+    this.tickerService = tickerService;
+    this.databaseService = databaseService;
+    this.options = options;
+  }
+
+  /**
+   * Start the background refresh loop (builds the first snapshot immediately)
+   */
+  start(): void {
+    if (this.refreshTask) return;
+
+    this.refreshTask = scheduleWithoutPileup(
+      async () => {
+        await this.refresh().catch(() => undefined);
+      },
+      {
+        name: 'TickerSnapshot',
+        intervalMs: this.options.refreshIntervalMs,
+        immediate: true,
+      }
+    );
+
+    logger.info(`[TickerSnapshot] Started with refresh every ${this.options.refreshIntervalMs / 1000}s`);
+  }
+
+  /**
+   * Stop the background refresh loop
+   */
+  stop(): void {
+    if (this.refreshTask) {
+      this.refreshTask.stop();
+      this.refreshTask = null;
+    }
+  }
+
+  /**
+   * Load the last persisted snapshot, unless a newer one is already in memory.
+   * Returns the snapshot now held in memory.
+   */
+  async loadLastKnownGood(): Promise<TickerSnapshot | null> {
+    if (!this.databaseService?.isAvailable()) return this.snapshot;
+
+    const stored = await this.databaseService.getLastKnownTickers();
+    if (stored && (!this.snapshot || stored.generatedAt > this.snapshot.generatedAt)) {
+      this.snapshot = stored;
+      logger.info('[TickerSnapshot] Loaded last known good snapshot', {
+        tickerCount: stored.tickers.length,
+        generatedAt: stored.generatedAt.toISOString(),
+      });
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Serve tickers matching the query from the current snapshot.
+   * generatedAt on the result tells callers how old the data is; stale is set
+   * while rebuilds are failing.
+   */
+  async getSnapshot(requestId?: string, query: TickerQuery = {}): Promise<TickerSnapshot> {
+    const current = this.snapshot;
+    const ageMs = current ? Date.now() - current.generatedAt.getTime() : null;
+
+    // Once rebuilds are known to be failing, don't make every request wait on one
+    if (!current || ageMs === null || (ageMs >= this.options.maxStalenessMs && !this.refreshFailing)) {
+      try {
+        return filterTickerSnapshot(await this.refresh(requestId), query);
+      } catch (error) {
+        const fallback = this.snapshot ?? await this.loadLastKnownGood();
+        if (!fallback) throw error;
+        return filterTickerSnapshot(markStale(fallback), query);
+      }
+    }
+
+    if (ageMs >= this.options.refreshIntervalMs && !this.inFlight) {
+      this.refresh(requestId).catch(() => undefined);
+    }
+
+    return filterTickerSnapshot(this.refreshFailing ? markStale(current) : current, query);
+  }
+
+  /**
+   * Rebuild the snapshot. Concurrent callers share one rebuild; on failure the
+   * previous snapshot is kept and the error is rethrown.
+   */
+  refresh(requestId?: string): Promise<TickerSnapshot> {
+    if (this.inFlight) return this.inFlight;
+
+    const startedAt = Date.now();
+    this.inFlight = this.tickerService.getTickerSnapshot(requestId)
+      .then(snapshot => {
+        this.publish(snapshot);
+        this.refreshFailing = false;
+        void this.databaseService?.saveLastKnownTickers(snapshot);
+        logger.debug('[TickerSnapshot] Refreshed', { tickerCount: snapshot.tickers.length, durationMs: Date.now() - startedAt, requestId });
+        return snapshot;
+      })
+      .catch(error => {
+        this.lastRefreshError = error instanceof Error ? error.message : String(error);
+        this.lastRefreshErrorAt = new Date();
+        this.refreshFailing = true;
+        logger.error('[TickerSnapshot] Refresh failed, keeping previous snapshot', error, { requestId });
+        throw error;
+      })
+      .finally(() => {
+        this.inFlight = null;
+      });
+
+    return this.inFlight;
+  }
+
+  /**
+   * Reprice the DAO's ticker from its new pool reserves and publish the result.
+   * Returns the updated ticker, or null if the DAO has no ticker in the
+   * snapshot or the reserves can't be priced. generatedAt still refers to the
+   * last full rebuild.
+   */
+  async applyPoolUpdate(dao: DaoTickerData): Promise<CoinGeckoTicker | null> {
+    const tickerId = `${dao.baseMint.toString()}_${dao.quoteMint.toString()}`;
+    const ticker = this.snapshot?.tickers.find(candidate => candidate.ticker_id === tickerId);
+    if (!ticker) return null;
+
+    const updated = await this.tickerService.repriceTicker(ticker, dao);
+
+    // Re-read the snapshot: a rebuild may have replaced it while pricing
+    const current = this.snapshot;
+    const index = current?.tickers.findIndex(candidate => candidate.ticker_id === tickerId) ?? -1;
+    if (!updated || !current || index === -1) return null;
+
+    const tickers = [...current.tickers];
+    tickers[index] = updated;
+    this.publish({ ...current, tickers });
+    return updated;
+  }
+
+  /**
+   * Be told about every new snapshot. Returns a function that unsubscribes.
+   */
+  subscribe(listener: TickerSnapshotListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): TickerSnapshotStatus {
+    return {
+      generatedAt: this.snapshot?.generatedAt ?? null,
+      ageMs: this.snapshot ? Date.now() - this.snapshot.generatedAt.getTime() : null,
+      refreshing: this.inFlight !== null,
+      stale: this.refreshFailing && this.snapshot !== null,
+      subscribers: this.listeners.size,
+      lastRefreshError: this.lastRefreshError,
+      lastRefreshErrorAt: this.lastRefreshErrorAt,
+    };
+  }
+
+  private publish(next: TickerSnapshot): void {
+    const previous = this.snapshot;
+    this.snapshot = next;
+    for (const listener of this.listeners) {
+      try {
+        listener(previous, next);
+      } catch (error) {
+        logger.error('[TickerSnapshot] Snapshot listener failed', error);
+      }
+    }
+  }
+}
+
+function markStale(snapshot: TickerSnapshot): TickerSnapshot {
+  return {
+    ...snapshot,
+    tickers: snapshot.tickers.map(ticker => ({ ...ticker, stale: true })),
+    stale: true,
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * TradeFetcherService
+ *
+ * Fetches individual swaps from Dune API and stores them in the trades table.
+ * Backs the CoinGecko /api/historical_trades endpoint.
+ *
+ * Schedule:
+ * - Every 10 minutes: fetch swaps since the latest stored trade (with overlap)
+ * - On startup: backfill the last 24 hours when the table is empty
+ *
+ * After downtime, catch-up runs from the latest stored trade however long ago
+ * it was, one Dune query per window of at most 24 hours, oldest first.
+ *
+ * Trades are keyed by (tx_id, outer_instruction_index, inner_instruction_index),
+ * so overlapping fetch windows never create duplicates.
+ */
+
+import { config } from '../config.js';
+import { DuneService } from './duneService.js';
+import { DatabaseService, type TradeRecord } from './databaseService.js';
+import { FutarchyService } from './futarchyService.js';
+import { scheduleAtBoundary, type ScheduledTask } from '../utils/scheduling.js';
+import { parseTimestampAsUTC } from '../utils/validation.js';
+import { logger } from '../utils/logger.js';
+
+function toDuneTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').replace('Z', '').slice(0, 19);
+}
+
+export class TradeFetcherService {
+  private duneService: DuneService;
+  private databaseService: DatabaseService;
+  private futarchyService: FutarchyService;
+  private refreshTask: ScheduledTask | null = null;
+  private isRunning: boolean = false;
+  private initialized: boolean = false;
+  private lastRefreshTime: Date | null = null;
+  private refreshInProgress: boolean = false;
+
+  // Re-fetch this far behind the latest stored trade to catch late-indexed swaps
+  private readonly OVERLAP_MS = 20 * 60 * 1000; // 20 minutes
+  private readonly INITIAL_BACKFILL_MS = 24 * 60 * 60 * 1000; // 24 hours
+  // Longest window fetched in one query; longer catch-ups are split
+  private readonly MAX_FETCH_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+  constructor(
+    duneService: DuneService,
+    databaseService: DatabaseService,
+    futarchyService: FutarchyService
+  ) {
+    this.duneService = duneService;
+    this.databaseService = databaseService;
+    this.futarchyService = futarchyService;
+  }
+
+  get isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  isDatabaseConnected(): boolean {
+    return this.databaseService.isAvailable();
+  }
+
+  /**
+   * Initialize the service - check database and backfill recent trades
+   */
+  async initialize(): Promise<void> {
+    if (!this.databaseService.isAvailable()) {
+      logger.info('[Trades] Database not connected - service disabled');
+      return;
+    }
+
+    logger.info('[Trades] Initializing trade fetcher service...');
+
+    try {
+      const tradeCount = await this.databaseService.getTradeCount();
+      logger.info(`[Trades] Current trade count in database: ${tradeCount}`);
+
+      if (tradeCount > 0) {
+        this.initialized = true;
+      }
+
+      if (config.dune.tradesQueryId) {
+        await this.fetchAndStore(await this.getFetchStartTime());
+        this.initialized = true;
+        logger.info('[Trades] Initialization complete');
+      } else if (!this.initialized) {
+        logger.info('[Trades] No DUNE_TRADES_QUERY_ID configured - cannot fetch new trades');
+      }
+    } catch (error: any) {
+      logger.error('[Trades] Error during initialization', error);
+      const tradeCount = await this.databaseService.getTradeCount();
+      if (tradeCount > 0) {
+        this.initialized = true;
+        logger.info('[Trades] Serving existing trades despite initialization error');
+      }
+    }
+  }
+
+  /**
+   * Start the background refresh loop
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.info('[Trades] Service already running');
+      return;
+    }
+
+    await this.initialize();
+
+    if (!config.dune.tradesQueryId) {
+      if (this.initialized) {
+        logger.info('[Trades] Serving existing DB trades (no refresh loop - set DUNE_TRADES_QUERY_ID to enable)');
+      }
+      return;
+    }
+
+    this.isRunning = true;
+
+    this.refreshTask = scheduleAtBoundary(
+      () => this.refresh(),
+      {
+        name: 'Trades',
+        boundaryMinutes: 10,
+        bufferSeconds: 15,
+        onError: (error) => logger.error('[Trades] Refresh error', error),
+      }
+    );
+
+    logger.info('[Trades] Started with non-pileup scheduling at 10-minute boundaries');
+  }
+
+  /**
+   * Stop the background refresh loop
+   */
+  stop(): void {
+    if (this.refreshTask) {
+      this.refreshTask.stop();
+      this.refreshTask = null;
+    }
+    this.isRunning = false;
+  }
+
+  /**
+   * Perform a refresh - fetch trades since the latest stored trade
+   */
+  async refresh(): Promise<void> {
+    if (this.refreshInProgress) {
+      logger.info('[Trades] Refresh already in progress, skipping');
+      return;
+    }
+
+    this.refreshInProgress = true;
+    logger.info('[Trades] Starting refresh...');
+
+    try {
+      await this.fetchAndStore(await this.getFetchStartTime());
+      this.lastRefreshTime = new Date();
+      logger.info('[Trades] Refresh complete');
+    } catch (error: any) {
+      logger.error('[Trades] Error during refresh', error);
+    } finally {
+      this.refreshInProgress = false;
+    }
+  }
+
+  /**
+   * Start from the latest stored trade minus the overlap window, or the
+   * initial backfill window when no trades are stored.
+   */
+  private async getFetchStartTime(): Promise<Date> {
+    const latestTrade = await this.databaseService.getLatestTradeTimestamp();
+
+    if (!latestTrade) {
+      logger.info('[Trades] No existing trades - will backfill last 24 hours');
+      return new Date(Date.now() - this.INITIAL_BACKFILL_MS);
+    }
+
+    return new Date(new Date(latestTrade).getTime() - this.OVERLAP_MS);
+  }
+
+  /**
+   * Fetch swaps since `startTime` from Dune, one bounded window at a time.
+   * Each window is stored before the next is fetched, so a failure part way
+   * through resumes from the last stored trade.
+   */
+  private async fetchAndStore(startTime: Date): Promise<void> {
+    const queryId = config.dune.tradesQueryId;
+    if (!queryId) return;
+
+    const allDaos = await this.futarchyService.getAllDaos();
+    const tokenAddresses = allDaos.map(dao => dao.baseMint.toString());
+
+    for (let windowStart = startTime.getTime(); windowStart < Date.now(); windowStart += this.MAX_FETCH_WINDOW_MS) {
+      const windowEnd = windowStart + this.MAX_FETCH_WINDOW_MS;
+      // The latest window is left open-ended
+      await this.fetchWindow(queryId, tokenAddresses, new Date(windowStart), windowEnd < Date.now() ? new Date(windowEnd) : null);
+    }
+  }
+
+  /**
+   * Fetch swaps in [startTime, endTime) from Dune and store them in the trades table
+   */
+  private async fetchWindow(queryId: number, tokenAddresses: string[], startTime: Date, endTime: Date | null): Promise<void> {
+    logger.info(`[Trades] Fetching from Dune query ${queryId} with start_time: ${startTime.toISOString()}, end_time: ${endTime?.toISOString() ?? 'none'} for ${tokenAddresses.length} tokens`);
+
+    const parameters: Record<string, any> = {
+      start_time: toDuneTimestamp(startTime),
+      // Far future end time when open-ended - the query template requires a value
+      end_time: endTime ? toDuneTimestamp(endTime) : '2099-12-31 23:59:59',
+      token_list: tokenAddresses.length > 0
+        ? tokenAddresses.map(token => `'${token}'`).join(', ')
+        : "'__ALL__'",
+    };
+
+    const result = await this.duneService.executeQueryManually(queryId, parameters);
+
+    if (!result || !result.rows || result.rows.length === 0) {
+      logger.info('[Trades] No new trades from Dune');
+      return;
+    }
+
+    logger.info(`[Trades] Received ${result.rows.length} trades from Dune`);
+
+    const records: TradeRecord[] = [];
+    for (const row of result.rows as any[]) {
+      const timestamp = parseTimestampAsUTC(row.block_time, 'block_time');
+      if (!timestamp.success || !timestamp.value) continue;
+      if (row.swap_type !== 'buy' && row.swap_type !== 'sell') continue;
+      if (!row.tx_id || !row.token || !row.quote_mint || !row.price) continue;
+
+      records.push({
+        tx_id: row.tx_id,
+        outer_instruction_index: parseInt(row.outer_instruction_index || '0'),
+        inner_instruction_index: parseInt(row.inner_instruction_index || '0'),
+        token: row.token,
+        quote_mint: row.quote_mint,
+        trade_timestamp: timestamp.value.toISOString(),
+        type: row.swap_type,
+        price: row.price,
+        base_volume: row.base_volume || '0',
+        target_volume: row.target_volume || '0',
+      });
+    }
+
+    await this.databaseService.upsertTrades(records);
+  }
+
+  /**
+   * Get service status for monitoring
+   */
+  getStatus(): {
+    initialized: boolean;
+    isRunning: boolean;
+    databaseConnected: boolean;
+    lastRefreshTime: string | null;
+    queryId: number | undefined;
+    refreshInProgress: boolean;
+  } {
+    return {
+      initialized: this.initialized,
+      isRunning: this.isRunning,
+      databaseConnected: this.databaseService.isAvailable(),
+      lastRefreshTime: this.lastRefreshTime?.toISOString() || null,
+      queryId: config.dune.tradesQueryId,
+      refreshInProgress: this.refreshInProgress,
+    };
+  }
+}
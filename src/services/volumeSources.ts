@@ -0,0 +1,250 @@
+/**
+ * Volume Sources
+ *
+ * Rolling 24h volume providers consumed by TickerService. Sources are tried in
+ * priority order (VOLUME_SOURCE_PRIORITY) and each DAO falls back independently:
+ * a DAO missing from the first source is looked up in the next one.
+ */
+
+import { TenMinuteVolumeFetcherService } from './tenMinuteVolumeFetcherService.js';
+import { HourlyAggregationService } from './hourlyAggregationService.js';
+import { DuneCacheService } from './duneCacheService.js';
+import type { SwapIndexerService } from './swapIndexerService.js';
+import type { FeeVolumeService } from './feeVolumeService.js';
+import type { RollingWindow, RollingWindowMetrics } from './databaseService.js';
+import { config } from '../config.js';
+
+export type VolumeSourceName = '10-minute' | 'indexer' | 'hourly' | 'dune-cache' | 'fee-delta';
+
+export interface VolumeMetrics {
+  base_volume_24h: string;
+  target_volume_24h: string;
+  high_24h: string;
+  low_24h: string;
+  // Rolling windows ending now, from sources that track them (10-minute data)
+  windows?: Record<RollingWindow, RollingWindowMetrics>;
+}
+
+export interface VolumeSourceResult {
+  // Keyed by lowercase DAO address
+  metrics: Map<string, VolumeMetrics>;
+  // When the source last refreshed its data (null if unknown)
+  asOf: Date | null;
+}
+
+/**
+ * A DAO to look up, identified by DAO address and base mint
+ */
+export interface VolumeLookup {
+  daoAddress: string;
+  baseMint: string;
+}
+
+export interface VolumeSource {
+  readonly name: VolumeSourceName;
+  isAvailable(): boolean;
+  getMetrics(lookups: VolumeLookup[]): Promise<VolumeSourceResult>;
+}
+
+/**
+ * Map token-keyed metrics back to lowercase DAO addresses
+ */
+function byDaoAddress(
+  tokenMetrics: Map<string, VolumeMetrics>,
+  lookups: VolumeLookup[]
+): Map<string, VolumeMetrics> {
+  const tokenToDao = new Map<string, string>();
+  for (const lookup of lookups) {
+    tokenToDao.set(lookup.baseMint.toLowerCase(), lookup.daoAddress.toLowerCase());
+  }
+
+  const result = new Map<string, VolumeMetrics>();
+  for (const [token, metrics] of tokenMetrics) {
+    const daoAddress = tokenToDao.get(token.toLowerCase());
+    if (daoAddress) result.set(daoAddress, metrics);
+  }
+  return result;
+}
+
+export class TenMinuteVolumeSource implements VolumeSource {
+  readonly name = '10-minute' as const;
+
+  private service: TenMinuteVolumeFetcherService;
+
+  constructor(service: TenMinuteVolumeFetcherService) {
+    this.service = service;
+  }
+
+  isAvailable(): boolean {
+    return this.service.isInitialized && this.service.isDatabaseConnected();
+  }
+
+  async getMetrics(lookups: VolumeLookup[]): Promise<VolumeSourceResult> {
+    const rolling = await this.service.getRolling24hMetrics(lookups.map(lookup => lookup.baseMint));
+
+    const tokenMetrics = new Map<string, VolumeMetrics>();
+    for (const [token, metrics] of rolling) {
+      tokenMetrics.set(token, {
+        base_volume_24h: String(metrics.base_volume_24h),
+        target_volume_24h: String(metrics.target_volume_24h),
+        high_24h: String(metrics.high_24h),
+        low_24h: String(metrics.low_24h),
+        windows: metrics.windows,
+      });
+    }
+
+    const lastRefreshTime = this.service.getStatus().lastRefreshTime;
+    return {
+      metrics: byDaoAddress(tokenMetrics, lookups),
+      asOf: lastRefreshTime ? new Date(lastRefreshTime) : null,
+    };
+  }
+}
+
+/**
+ * 10-minute buckets written by the on-chain swap indexer, for deployments without Dune
+ */
+export class IndexerVolumeSource implements VolumeSource {
+  readonly name = 'indexer' as const;
+
+  private service: SwapIndexerService;
+
+  constructor(service: SwapIndexerService) {
+    this.service = service;
+  }
+
+  isAvailable(): boolean {
+    return this.service.isInitialized && this.service.isDatabaseConnected();
+  }
+
+  async getMetrics(lookups: VolumeLookup[]): Promise<VolumeSourceResult> {
+    const stats = await this.service.getRollingWindowMetrics(lookups.map(lookup => lookup.baseMint));
+
+    const tokenMetrics = new Map<string, VolumeMetrics>();
+    for (const [token, { windows }] of stats) {
+      tokenMetrics.set(token, {
+        base_volume_24h: windows['24h'].base_volume,
+        target_volume_24h: windows['24h'].target_volume,
+        high_24h: windows['24h'].high,
+        low_24h: windows['24h'].low,
+        windows,
+      });
+    }
+
+    const lastRunTime = this.service.getStatus().lastRunTime;
+    return {
+      metrics: byDaoAddress(tokenMetrics, lookups),
+      asOf: lastRunTime ? new Date(lastRunTime) : null,
+    };
+  }
+}
+
+export class HourlyVolumeSource implements VolumeSource {
+  readonly name = 'hourly' as const;
+
+  private service: HourlyAggregationService;
+
+  constructor(service: HourlyAggregationService) {
+    this.service = service;
+  }
+
+  isAvailable(): boolean {
+    return this.service.isInitialized && this.service.isDatabaseConnected();
+  }
+
+  async getMetrics(lookups: VolumeLookup[]): Promise<VolumeSourceResult> {
+    const rolling = await this.service.getRolling24hMetrics(lookups.map(lookup => lookup.baseMint));
+    return {
+      metrics: byDaoAddress(rolling, lookups),
+      asOf: this.service.getLastRefreshTime(),
+    };
+  }
+}
+
+export class DuneCacheVolumeSource implements VolumeSource {
+  readonly name = 'dune-cache' as const;
+
+  private service: DuneCacheService;
+
+  constructor(service: DuneCacheService) {
+    this.service = service;
+  }
+
+  isAvailable(): boolean {
+    const metrics = this.service.getPoolMetrics();
+    return metrics !== null && metrics.size > 0;
+  }
+
+  async getMetrics(lookups: VolumeLookup[]): Promise<VolumeSourceResult> {
+    const cached = this.service.getPoolMetrics() ?? new Map<string, VolumeMetrics>();
+    const wanted = new Set(lookups.map(lookup => lookup.daoAddress.toLowerCase()));
+
+    const metrics = new Map<string, VolumeMetrics>();
+    for (const [daoAddress, poolMetrics] of cached) {
+      if (wanted.has(daoAddress.toLowerCase())) metrics.set(daoAddress.toLowerCase(), poolMetrics);
+    }
+
+    return { metrics, asOf: this.service.getCacheStatus().lastUpdated };
+  }
+}
+
+/**
+ * Volume estimated from protocol fee growth, for deployments without Dune
+ */
+export class FeeDeltaVolumeSource implements VolumeSource {
+  readonly name = 'fee-delta' as const;
+
+  private service: FeeVolumeService;
+
+  constructor(service: FeeVolumeService) {
+    this.service = service;
+  }
+
+  isAvailable(): boolean {
+    return this.service.isInitialized;
+  }
+
+  async getMetrics(lookups: VolumeLookup[]): Promise<VolumeSourceResult> {
+    const lastSampleTime = this.service.getStatus().lastSampleTime;
+    return {
+      metrics: this.service.getRolling24hMetrics(lookups.map(lookup => lookup.daoAddress)),
+      asOf: lastSampleTime ? new Date(lastSampleTime) : null,
+    };
+  }
+}
+
+/**
+ * Build the configured volume sources in priority order, skipping services that don't exist
+ */
+export function createVolumeSources(
+  services: {
+    tenMinuteVolumeFetcherService?: TenMinuteVolumeFetcherService | null;
+    swapIndexerService?: SwapIndexerService | null;
+    hourlyAggregationService?: HourlyAggregationService | null;
+    duneCacheService?: DuneCacheService | null;
+    feeVolumeService?: FeeVolumeService | null;
+  },
+  priority: readonly VolumeSourceName[] = config.volume.sourcePriority
+): VolumeSource[] {
+  const available: Record<VolumeSourceName, VolumeSource | null> = {
+    '10-minute': services.tenMinuteVolumeFetcherService
+      ? new TenMinuteVolumeSource(services.tenMinuteVolumeFetcherService)
+      : null,
+    'indexer': services.swapIndexerService
+      ? new IndexerVolumeSource(services.swapIndexerService)
+      : null,
+    'hourly': services.hourlyAggregationService
+      ? new HourlyVolumeSource(services.hourlyAggregationService)
+      : null,
+    'dune-cache': services.duneCacheService
+      ? new DuneCacheVolumeSource(services.duneCacheService)
+      : null,
+    'fee-delta': services.feeVolumeService
+      ? new FeeDeltaVolumeSource(services.feeVolumeService)
+      : null,
+  };
+
+  return priority
+    .map(name => available[name])
+    .filter((source): source is VolumeSource => source !== null);
+}
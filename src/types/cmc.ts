@@ -0,0 +1,52 @@
+// CoinMarketCap DEX API response shapes
+
+export interface CmcSummaryItem {
+  trading_pairs: string;
+  base_currency: string;
+  quote_currency: string;
+  pool_id: string;
+  last_price: string;
+  lowest_ask: string;
+  highest_bid: string;
+  base_volume: string;
+  quote_volume: string;
+  liquidity_in_usd: string;
+  highest_price_24h?: string;
+  lowest_price_24h?: string;
+  price_change_percent_24h?: string;
+}
+
+export interface CmcAsset {
+  name?: string;
+  symbol?: string;
+  contractAddress: string;
+  contractAddressUrl: string;
+}
+
+export interface CmcTicker {
+  base_id: string;
+  base_name?: string;
+  base_symbol?: string;
+  quote_id: string;
+  quote_name?: string;
+  quote_symbol?: string;
+  last_price: string;
+  base_volume: string;
+  quote_volume: string;
+  isFrozen: 0 | 1;
+}
+
+export interface CmcTrade {
+  trade_id: number;
+  price: string;
+  base_volume: string;
+  quote_volume: string;
+  timestamp: number;
+  type: 'buy' | 'sell';
+}
+
+export interface CmcOrderBook {
+  timestamp: number;
+  bids: [string, string][];
+  asks: [string, string][];
+}
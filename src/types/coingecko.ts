@@ -11,13 +11,71 @@ export interface CoinGeckoTicker {
   base_volume: string;
   target_volume: string;
   liquidity_in_usd: string;
+  // target_volume converted to USD with the quote mint's USD price
+  target_volume_usd?: string;
   bid: string;
   ask: string;
   high_24h?: string;
   low_24h?: string;
+  // Rolling windows from 10-minute data; percentages are (last - first traded price) / first * 100
+  price_change_percentage_1h?: string;
+  price_change_percentage_24h?: string;
+  price_change_percentage_7d?: string;
+  price_change_percentage_30d?: string;
+  base_volume_1h?: string;
+  target_volume_1h?: string;
+  base_volume_7d?: string;
+  target_volume_7d?: string;
+  base_volume_30d?: string;
+  target_volume_30d?: string;
   treasury_usdc_aum?: string;
   treasury_vault_address?: string;
   startDate?: string;
+  // Only present (as true) when the ticker comes from the last good snapshot because RPC is failing
+  stale?: boolean;
+  // Only present with ?debug=true
+  volume_provenance?: CoinGeckoVolumeProvenance;
+}
+
+export interface CoinGeckoVolumeProvenance {
+  source: string;
+  as_of: string | null;
+  age_seconds: number | null;
+}
+
+export interface CoinGeckoWindowStats {
+  base_volume: string;
+  target_volume: string;
+  high: string;
+  low: string;
+  open: string;
+  close: string;
+  price_change_percentage: string | null;
+  trade_count: number;
+}
+
+export interface CoinGeckoTickerStats {
+  ticker_id: string;
+  pool_id: string;
+  last_price: string;
+  volume_source: string;
+  as_of: string | null;
+  // null when there is no 10-minute data for the last 30 days
+  windows: Record<'1h' | '24h' | '7d' | '30d', CoinGeckoWindowStats> | null;
+}
+
+export interface CoinGeckoPair {
+  ticker_id: string;
+  base: string;
+  target: string;
+  pool_id: string;
+}
+
+export interface CoinGeckoOrderBook {
+  ticker_id: string;
+  timestamp: string;
+  bids: [string, string][];
+  asks: [string, string][];
 }
 
 export interface CoinGeckoHistoricalTrade {
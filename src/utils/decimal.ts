@@ -0,0 +1,133 @@
+/**
+ * Arbitrary-precision decimal helpers.
+ *
+ * On-chain amounts are integers in base units and can exceed 2^53
+ * (e.g. large-supply tokens with 9 decimals), so BN.toNumber() throws and
+ * Number() silently loses precision. These helpers keep the math in bigint
+ * and only format to a decimal string at the end, rounding half up.
+ */
+
+import BN from 'bn.js';
+
+// Fixed-point scale used for fractional inputs such as fee rates
+export const DECIMAL_SCALE = 18;
+
+export type IntegerLike = BN | bigint | string | number;
+
+/**
+ * Convert a BN, bigint, integer string or safe integer to bigint
+ */
+export function toBigInt(value: IntegerLike): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Expected a safe integer, got ${value}`);
+    }
+    return BigInt(value);
+  }
+  return BigInt(value.toString());
+}
+
+/**
+ * 10^exponent as bigint
+ */
+export function pow10(exponent: number): bigint {
+  if (!Number.isInteger(exponent) || exponent < 0) {
+    throw new Error(`Invalid decimal exponent: ${exponent}`);
+  }
+  return 10n ** BigInt(exponent);
+}
+
+/**
+ * Convert a finite decimal number (e.g. a fee rate of 0.0025) to a bigint scaled by 10^scale
+ */
+export function toScaled(value: number, scale: number = DECIMAL_SCALE): bigint {
+  if (!isFinite(value)) {
+    throw new Error(`Cannot scale non-finite value: ${value}`);
+  }
+  return parseDecimal(value.toFixed(Math.min(scale, 100)), scale);
+}
+
+/**
+ * Parse a decimal string ("123.456", "-0.5") into a bigint scaled by 10^scale, rounding half up
+ */
+export function parseDecimal(value: string, scale: number): bigint {
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal string: ${value}`);
+  }
+
+  const negative = match[1] === '-';
+  const whole = match[2] || '0';
+  const fraction = match[3] || '';
+
+  let scaled = BigInt(whole + fraction.slice(0, scale).padEnd(scale, '0'));
+  if (fraction.length > scale && fraction.charAt(scale) >= '5') {
+    scaled += 1n;
+  }
+
+  return negative ? -scaled : scaled;
+}
+
+/**
+ * numerator / denominator as a decimal string with exactly `fractionDigits` digits, rounding half up
+ * (away from zero for negative results).
+ */
+export function divToFixed(numerator: bigint, denominator: bigint, fractionDigits: number): string {
+  if (denominator === 0n) {
+    throw new Error('Division by zero');
+  }
+
+  const negative = (numerator < 0n) !== (denominator < 0n);
+  const num = numerator < 0n ? -numerator : numerator;
+  const den = denominator < 0n ? -denominator : denominator;
+
+  const scale = pow10(fractionDigits);
+  let scaled = (num * scale) / den;
+  const remainder = (num * scale) % den;
+  if (remainder * 2n >= den) {
+    scaled += 1n;
+  }
+
+  const digits = scaled.toString().padStart(fractionDigits + 1, '0');
+  const whole = digits.slice(0, digits.length - fractionDigits);
+  const fraction = digits.slice(digits.length - fractionDigits);
+  const sign = negative && scaled !== 0n ? '-' : '';
+
+  return fractionDigits > 0 ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
+
+/**
+ * Format a base-unit amount as a token amount.
+ *
+ * With `fractionDigits` the result has exactly that many digits (rounded half up);
+ * without it the exact value is returned with trailing zeros trimmed ("192187.5", "1000000").
+ */
+export function formatUnits(amount: IntegerLike, decimals: number, fractionDigits?: number): string {
+  const value = toBigInt(amount);
+
+  if (fractionDigits !== undefined) {
+    return divToFixed(value, pow10(decimals), fractionDigits);
+  }
+
+  const exact = divToFixed(value, pow10(decimals), decimals);
+  return exact.includes('.') ? exact.replace(/\.?0+$/, '') : exact;
+}
+
+/**
+ * Base-unit amount as a JS number in token units, for float-only math such as curve simulations.
+ * Never throws for large values (unlike BN.toNumber()), at the cost of float precision.
+ */
+export function toUnitsNumber(amount: IntegerLike, decimals: number): number {
+  return parseFloat(formatUnits(amount, decimals));
+}
+
+/**
+ * Percentage change from one decimal string to another, or null when `from` is not positive
+ */
+export function percentChange(from: string, to: string, fractionDigits: number = 2): string | null {
+  const start = parseDecimal(from, DECIMAL_SCALE);
+  if (start <= 0n) return null;
+  const end = parseDecimal(to, DECIMAL_SCALE);
+  return divToFixed((end - start) * 100n, start, fractionDigits);
+}
@@ -0,0 +1,169 @@
+/**
+ * Decoder for futarchy spot swaps in raw Solana transactions, so trades can be
+ * indexed straight from RPC instead of through Dune.
+ *
+ * Every spot swap emits a SpotSwapEvent through an Anchor self-CPI: an inner
+ * instruction to the futarchy program whose only account is the program's
+ * event authority, with data starting with the Anchor event-CPI tag. The event
+ * itself is decoded with the futarchy IDL's event coder (see
+ * FutarchyService.decodeEvent); its DAO gives the traded mints, which are the
+ * ones src/schema/dune-trades.sql reads, so trades indexed from RPC line up
+ * with (and dedupe against) trades fetched from Dune.
+ */
+
+import { utils } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import type { TradeRecord } from '../services/databaseService.js';
+import { divToFixed, formatUnits, pow10 } from './decimal.js';
+
+export const FUTARCHY_PROGRAM_ID = new PublicKey('FUTARELBfJfQ8RDGhg1wdhddq1odMAJUePHFuBYfUxKq');
+
+// PDA the futarchy program signs its event self-CPIs with
+export const FUTARCHY_EVENT_AUTHORITY = new PublicKey('DGEympSS4qLvdr9r3uGHTfACdN8snShk4iGdJtZPxuBC');
+
+// Anchor's emit_cpi! instruction tag, followed by the 8-byte event discriminator
+const EVENT_CPI_TAG = Buffer.from('e445a52e51cb9a1d', 'hex');
+
+const SPOT_SWAP_EVENT = 'SpotSwapEvent';
+
+// Price precision of the trades and ten_minute_volumes tables (NUMERIC(40, 12))
+const PRICE_DIGITS = 12;
+
+/**
+ * An event as the IDL's event coder returns it: fields camelCased, integers as
+ * BN, public keys as PublicKey and enums as `{ variant: {} }`
+ */
+export interface DecodedEvent {
+  name: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Decodes event data (discriminator first) with the futarchy IDL, or returns
+ * null if it isn't a futarchy event
+ */
+export type EventDecoder = (data: Buffer) => DecodedEvent | null;
+
+export interface SpotSwapEvent {
+  dao: string;
+  type: 'buy' | 'sell';
+  // Raw amounts: a buy swaps quote in for base out, a sell base in for quote out
+  inputAmount: bigint;
+  outputAmount: bigint;
+}
+
+/**
+ * Mints and decimals of each DAO's spot market, keyed by DAO address
+ */
+export type SwapMarkets = Map<string, { baseMint: string; quoteMint: string; baseDecimals: number; quoteDecimals: number }>;
+
+type AccountKey = { toString(): string };
+
+interface CompiledInstructionLike {
+  programIdIndex: number;
+  accounts: number[];
+  data: string; // base58
+}
+
+/**
+ * The parts of a getTransaction response the decoder reads. Matches both the
+ * web3.js response and its JSON form, which is what the test fixtures store.
+ */
+export interface SwapTransaction {
+  blockTime?: number | null;
+  transaction: {
+    signatures: string[];
+    message: {
+      // v0 messages expose staticAccountKeys, legacy messages accountKeys
+      staticAccountKeys?: AccountKey[];
+      accountKeys?: AccountKey[];
+    };
+  };
+  meta: {
+    err: unknown;
+    logMessages?: string[] | null;
+    innerInstructions?: { index: number; instructions: CompiledInstructionLike[] }[] | null;
+    loadedAddresses?: { writable: AccountKey[]; readonly: AccountKey[] } | null;
+  } | null;
+}
+
+/**
+ * Decode the data of an event self-CPI, or null if it isn't a SpotSwapEvent
+ */
+export function decodeSpotSwapEvent(data: Buffer, decodeEvent: EventDecoder): SpotSwapEvent | null {
+  if (!data.subarray(0, EVENT_CPI_TAG.length).equals(EVENT_CPI_TAG)) return null;
+
+  const event = decodeEvent(data.subarray(EVENT_CPI_TAG.length));
+  if (event?.name !== SPOT_SWAP_EVENT) return null;
+
+  const { dao, swapType, inputAmount, outputAmount } = event.data;
+  const type = swapType && 'buy' in swapType ? 'buy' : swapType && 'sell' in swapType ? 'sell' : null;
+  if (!type) return null;
+
+  return {
+    dao: dao.toString(),
+    type,
+    inputAmount: BigInt(inputAmount.toString()),
+    outputAmount: BigInt(outputAmount.toString()),
+  };
+}
+
+/**
+ * Every spot swap in a transaction as a trade. Failed transactions, swaps with
+ * a zero amount and swaps of DAOs missing from `markets` are skipped.
+ *
+ * Instruction indexes follow Dune's convention (outer 0-based, inner 1-based),
+ * so a trade indexed here has the same key as the same trade fetched from Dune.
+ */
+export function extractSwapTrades(tx: SwapTransaction, markets: SwapMarkets, decodeEvent: EventDecoder): TradeRecord[] {
+  const meta = tx.meta;
+  if (!meta || meta.err || !tx.blockTime) return [];
+  if (!meta.logMessages?.some(log => log.includes('SpotSwap'))) return [];
+
+  const message = tx.transaction.message;
+  const accountKeys = [
+    ...(message.staticAccountKeys ?? message.accountKeys ?? []),
+    ...(meta.loadedAddresses?.writable ?? []),
+    ...(meta.loadedAddresses?.readonly ?? []),
+  ].map(key => key.toString());
+
+  const programId = FUTARCHY_PROGRAM_ID.toString();
+  const eventAuthority = FUTARCHY_EVENT_AUTHORITY.toString();
+  const tradeTimestamp = new Date(tx.blockTime * 1000).toISOString();
+  const trades: TradeRecord[] = [];
+
+  for (const inner of meta.innerInstructions ?? []) {
+    inner.instructions.forEach((instruction, position) => {
+      if (accountKeys[instruction.programIdIndex] !== programId) return;
+      if (instruction.accounts.length !== 1 || accountKeys[instruction.accounts[0]!] !== eventAuthority) return;
+
+      const event = decodeSpotSwapEvent(Buffer.from(utils.bytes.bs58.decode(instruction.data)), decodeEvent);
+      const market = event ? markets.get(event.dao) : undefined;
+      if (!event || !market || event.inputAmount === 0n || event.outputAmount === 0n) return;
+
+      const [baseAmount, quoteAmount] = event.type === 'buy'
+        ? [event.outputAmount, event.inputAmount]
+        : [event.inputAmount, event.outputAmount];
+
+      trades.push({
+        tx_id: tx.transaction.signatures[0]!,
+        outer_instruction_index: inner.index,
+        inner_instruction_index: position + 1,
+        token: market.baseMint,
+        quote_mint: market.quoteMint,
+        trade_timestamp: tradeTimestamp,
+        type: event.type,
+        // quote per base in token units
+        price: divToFixed(
+          quoteAmount * pow10(market.baseDecimals),
+          baseAmount * pow10(market.quoteDecimals),
+          PRICE_DIGITS
+        ),
+        base_volume: formatUnits(baseAmount, market.baseDecimals),
+        target_volume: formatUnits(quoteAmount, market.quoteDecimals),
+      });
+    });
+  }
+
+  return trades;
+}
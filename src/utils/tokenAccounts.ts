@@ -0,0 +1,193 @@
+/**
+ * Decoders for raw token accounts, so accounts fetched in bulk with
+ * getMultipleAccountsInfo can be read without one RPC call per account.
+ *
+ * Mints and token accounts are decoded with whichever token program owns them
+ * (classic SPL Token or Token-2022).
+ */
+
+import { PublicKey, type AccountInfo } from '@solana/web3.js';
+import {
+  unpackAccount,
+  unpackMint,
+  getExtensionTypes,
+  getExtensionData,
+  getMetadataPointerState,
+  getTransferFeeConfig,
+  ExtensionType,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  type Mint,
+} from '@solana/spl-token';
+import { formatUnits } from './decimal.js';
+
+// getMultipleAccountsInfo accepts at most 100 keys per request
+export const MAX_MULTIPLE_ACCOUNTS = 100;
+
+// Metaplex Token Metadata program
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+export interface TokenMetadata {
+  symbol: string;
+  name: string;
+}
+
+export type TokenProgramName = 'spl-token' | 'token-2022';
+
+export interface TokenProgramInfo {
+  program: TokenProgramName;
+  // Token-2022 mint extensions by name (e.g. TransferFeeConfig, MetadataPointer); empty for SPL Token
+  extensions: string[];
+  // Transfer fee from the TransferFeeConfig extension, null without one
+  transferFee: {
+    basisPoints: number;
+    // Largest fee charged on one transfer, in token units
+    maximumFee: string;
+    // Epoch from which this fee applies (an older fee applies before it)
+    epoch: string;
+  } | null;
+}
+
+/**
+ * Token program that owns an account, or null if it isn't a token program account
+ */
+export function getTokenProgramId(info: AccountInfo<Buffer> | null): PublicKey | null {
+  if (!info) return null;
+  if (info.owner.equals(TOKEN_PROGRAM_ID)) return TOKEN_PROGRAM_ID;
+  if (info.owner.equals(TOKEN_2022_PROGRAM_ID)) return TOKEN_2022_PROGRAM_ID;
+  return null;
+}
+
+/**
+ * A mint account decoded with its owning token program, or null if it isn't one
+ */
+export function decodeMint(mint: PublicKey, info: AccountInfo<Buffer> | null): Mint | null {
+  const programId = getTokenProgramId(info);
+  if (!info || !programId) return null;
+  try {
+    return unpackMint(mint, info, programId);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Owning program, extensions and transfer fee of a decoded mint
+ */
+export function describeTokenProgram(mint: Mint, info: AccountInfo<Buffer>): TokenProgramInfo {
+  const isToken2022 = info.owner.equals(TOKEN_2022_PROGRAM_ID);
+  const transferFeeConfig = isToken2022 ? getTransferFeeConfig(mint) : null;
+  const fee = transferFeeConfig?.newerTransferFee;
+
+  return {
+    program: isToken2022 ? 'token-2022' : 'spl-token',
+    extensions: isToken2022 ? getExtensionTypes(mint.tlvData).map(type => ExtensionType[type] ?? `Unknown(${type})`) : [],
+    transferFee: fee ? {
+      basisPoints: fee.transferFeeBasisPoints,
+      maximumFee: formatUnits(fee.maximumFee, mint.decimals),
+      epoch: fee.epoch.toString(),
+    } : null,
+  };
+}
+
+/**
+ * Split keys into getMultipleAccountsInfo-sized batches
+ */
+export function chunkKeys(keys: PublicKey[], size: number = MAX_MULTIPLE_ACCOUNTS): PublicKey[][] {
+  const chunks: PublicKey[][] = [];
+  for (let i = 0; i < keys.length; i += size) {
+    chunks.push(keys.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Derive the Metaplex metadata PDA for a mint
+ */
+export function findMetadataAddress(mint: PublicKey): PublicKey {
+  const [metadataAddress] = PublicKey.findProgramAddressSync(
+    [
+      Buffer.from('metadata'),
+      TOKEN_METADATA_PROGRAM_ID.toBuffer(),
+      mint.toBuffer(),
+    ],
+    TOKEN_METADATA_PROGRAM_ID
+  );
+  return metadataAddress;
+}
+
+/**
+ * Decimals of an SPL token mint account, or null if the account isn't one
+ */
+export function decodeMintDecimals(mint: PublicKey, info: AccountInfo<Buffer> | null): number | null {
+  return decodeMint(mint, info)?.decimals ?? null;
+}
+
+/**
+ * Raw amount held by an SPL token account, or null if the account isn't one
+ */
+export function decodeTokenAmount(address: PublicKey, info: AccountInfo<Buffer> | null): bigint | null {
+  const programId = getTokenProgramId(info);
+  if (!info || !programId) return null;
+  try {
+    return unpackAccount(address, info, programId).amount;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Name and symbol from a Metaplex metadata account. Empty fields fall back to
+ * the first 8 characters of the mint address.
+ */
+export function decodeTokenMetadata(mint: PublicKey, data: Buffer | null | undefined): TokenMetadata | null {
+  if (!data) return null;
+
+  // Layout: key (1 byte), update authority (32), mint (32), then the data struct:
+  //   - name string (4 bytes length + string)
+  //   - symbol string (4 bytes length + string)
+  //   - uri string (4 bytes length + string)
+  return readNameAndSymbol(mint, data, 1 + 32 + 32);
+}
+
+/**
+ * Name and symbol from a Token-2022 mint's own TokenMetadata extension. Only
+ * used when the mint's metadata pointer points at the mint itself; null means
+ * the caller should fall back to the Metaplex metadata account.
+ */
+export function decodeMintMetadata(mint: PublicKey, info: AccountInfo<Buffer> | null): TokenMetadata | null {
+  const decoded = decodeMint(mint, info);
+  if (!decoded) return null;
+
+  const pointer = getMetadataPointerState(decoded);
+  if (!pointer?.metadataAddress?.equals(mint)) return null;
+
+  const data = getExtensionData(ExtensionType.TokenMetadata, decoded.tlvData);
+  if (!data) return null;
+
+  // Layout: update authority (32), mint (32), then name, symbol, uri and
+  // additional metadata (each string is 4 bytes length + string)
+  return readNameAndSymbol(mint, data, 32 + 32);
+}
+
+function readNameAndSymbol(mint: PublicKey, data: Buffer, start: number): TokenMetadata | null {
+  try {
+    let offset = start;
+
+    const nameLength = data.readUInt32LE(offset);
+    offset += 4;
+    const name = data.subarray(offset, offset + nameLength).toString('utf8').replace(/\0/g, '');
+    offset += nameLength;
+
+    const symbolLength = data.readUInt32LE(offset);
+    offset += 4;
+    const symbol = data.subarray(offset, offset + symbolLength).toString('utf8').replace(/\0/g, '');
+
+    return {
+      symbol: symbol || mint.toString().slice(0, 8),
+      name: name || mint.toString().slice(0, 8),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -97,6 +97,57 @@ export function parseIntParam(
   return { success: true, value: parsed };
 }
 
+/**
+ * Parse and validate an optional decimal number parameter.
+ * Returns undefined if input is empty.
+ */
+export function parseNumberParam(
+  value: string | undefined,
+  fieldName: string,
+  options?: { min?: number; max?: number }
+): ValidationResult<number | undefined> {
+  if (!value || value.trim() === '') {
+    return { success: true, value: undefined };
+  }
+
+  const parsed = Number(value.trim());
+
+  if (!isFinite(parsed)) {
+    return {
+      success: false,
+      error: {
+        error: 'Invalid number',
+        message: `The '${fieldName}' parameter must be a valid number`,
+        field: fieldName,
+      },
+    };
+  }
+
+  if (options?.min !== undefined && parsed < options.min) {
+    return {
+      success: false,
+      error: {
+        error: 'Value too small',
+        message: `The '${fieldName}' parameter must be at least ${options.min}`,
+        field: fieldName,
+      },
+    };
+  }
+
+  if (options?.max !== undefined && parsed > options.max) {
+    return {
+      success: false,
+      error: {
+        error: 'Value too large',
+        message: `The '${fieldName}' parameter must be at most ${options.max}`,
+        field: fieldName,
+      },
+    };
+  }
+
+  return { success: true, value: parsed };
+}
+
 /**
  * Validate a date string in YYYY-MM-DD format.
  */
@@ -417,3 +468,68 @@ export function parseTimestampAsUTC(
 
   return { success: true, value: date };
 }
+
+/**
+ * Validate a CoinGecko-style ticker id: `<base_mint>_<target_mint>`.
+ */
+export function parseTickerId(
+  value: string | undefined,
+  fieldName: string
+): ValidationResult<{ base: string; target: string }> {
+  if (!value || value.trim() === '') {
+    return {
+      success: false,
+      error: {
+        error: 'Missing required parameter',
+        message: `The '${fieldName}' parameter is required (format: BASE_TARGET)`,
+        field: fieldName,
+      },
+    };
+  }
+
+  const parts = value.trim().split('_');
+  const baseResult = parseSolanaAddress(parts[0], fieldName);
+  const targetResult = parseSolanaAddress(parts[1], fieldName);
+
+  if (parts.length !== 2 || !baseResult.success || !targetResult.success) {
+    return {
+      success: false,
+      error: {
+        error: 'Invalid ticker id',
+        message: `The '${fieldName}' parameter must be two Solana addresses joined by '_' (format: BASE_TARGET)`,
+        field: fieldName,
+      },
+    };
+  }
+
+  return { success: true, value: { base: baseResult.value, target: targetResult.value } };
+}
+
+/**
+ * Validate that a parameter is one of a fixed set of values.
+ * Returns the default value (or undefined) if input is empty.
+ */
+export function parseEnumParam<T extends string>(
+  value: string | undefined,
+  fieldName: string,
+  allowed: readonly T[],
+  options?: { defaultValue?: T }
+): ValidationResult<T | undefined> {
+  if (!value || value.trim() === '') {
+    return { success: true, value: options?.defaultValue };
+  }
+
+  const trimmed = value.trim();
+  if (!(allowed as readonly string[]).includes(trimmed)) {
+    return {
+      success: false,
+      error: {
+        error: 'Invalid value',
+        message: `The '${fieldName}' parameter must be one of: ${allowed.join(', ')}`,
+        field: fieldName,
+      },
+    };
+  }
+
+  return { success: true, value: trimmed as T };
+}
@@ -47,7 +47,13 @@ const mockPriceService = {
     bid: '0.04975',
     ask: '0.05025',
   })),
+  calculateBidAsk: jest.fn(() => ({
+    bid: '0.04975',
+    ask: '0.05025',
+  })),
+  getReferenceTradeSize: jest.fn(() => 100),
   calculateLiquidityUSD: jest.fn(() => '100000.00'),
+  convertQuoteToUSD: jest.fn(() => '2.00'),
   calculateVolumeFromFees: jest.fn(() => ({
     baseVolume: '40.00000000',
     targetVolume: '2.00000000',
@@ -111,7 +117,8 @@ describe('CoinGecko API', () => {
     });
 
     it('should call getAllDaos', async () => {
-      await request(app).get('/api/tickers');
+      // Fresh app: later requests are served from the ticker snapshot without rediscovery
+      await request(createApp({ services: createMockServices() })).get('/api/tickers');
       expect(mockFutarchyService.getAllDaos).toHaveBeenCalled();
     });
 
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'bun:test';
+import BN from 'bn.js';
+import {
+  toBigInt,
+  toScaled,
+  parseDecimal,
+  divToFixed,
+  formatUnits,
+  toUnitsNumber,
+  percentChange,
+} from '../src/utils/decimal.js';
+
+describe('Decimal Helpers', () => {
+  describe('toBigInt', () => {
+    it('should convert BN above 2^53 without losing precision', () => {
+      expect(toBigInt(new BN('18446744073709551615'))).toBe(18446744073709551615n);
+    });
+
+    it('should reject unsafe numbers', () => {
+      expect(() => toBigInt(2 ** 60)).toThrow();
+    });
+  });
+
+  describe('parseDecimal', () => {
+    it('should scale decimal strings', () => {
+      expect(parseDecimal('1.5', 6)).toBe(1500000n);
+      expect(parseDecimal('-0.25', 2)).toBe(-25n);
+      expect(parseDecimal('42', 0)).toBe(42n);
+    });
+
+    it('should round half up beyond the scale', () => {
+      expect(parseDecimal('0.125', 2)).toBe(13n);
+      expect(parseDecimal('0.124', 2)).toBe(12n);
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => parseDecimal('1e-7', 6)).toThrow();
+      expect(() => parseDecimal('.', 6)).toThrow();
+    });
+  });
+
+  describe('toScaled', () => {
+    it('should scale fee rates exactly', () => {
+      expect(toScaled(0.0025)).toBe(2500000000000000n);
+      expect(toScaled(100)).toBe(100000000000000000000n);
+    });
+  });
+
+  describe('divToFixed', () => {
+    it('should round half up', () => {
+      expect(divToFixed(1n, 8n, 2)).toBe('0.13');
+      expect(divToFixed(1n, 3n, 4)).toBe('0.3333');
+      expect(divToFixed(2n, 3n, 4)).toBe('0.6667');
+    });
+
+    it('should round away from zero for negative results', () => {
+      expect(divToFixed(-1n, 8n, 2)).toBe('-0.13');
+      expect(divToFixed(-1n, 1000n, 2)).toBe('0.00');
+    });
+
+    it('should support zero fraction digits', () => {
+      expect(divToFixed(5n, 2n, 0)).toBe('3');
+    });
+
+    it('should throw on division by zero', () => {
+      expect(() => divToFixed(1n, 0n, 2)).toThrow();
+    });
+  });
+
+  describe('formatUnits', () => {
+    it('should trim trailing zeros by default', () => {
+      expect(formatUnits(new BN('192187500000'), 6)).toBe('192187.5');
+      expect(formatUnits(new BN('1000000000000'), 6)).toBe('1000000');
+      expect(formatUnits(0n, 9)).toBe('0');
+    });
+
+    it('should format exact values above 2^53', () => {
+      expect(formatUnits(new BN('18446744073709551615'), 9)).toBe('18446744073.709551615');
+    });
+
+    it('should pad to fixed digits when requested', () => {
+      expect(formatUnits('1234567', 6, 6)).toBe('1.234567');
+      expect(formatUnits('1234567', 6, 2)).toBe('1.23');
+    });
+  });
+
+  describe('toUnitsNumber', () => {
+    it('should not throw for large amounts', () => {
+      expect(toUnitsNumber(new BN('18446744073709551615'), 9)).toBeCloseTo(18446744073.709553, 3);
+    });
+  });
+
+  describe('percentChange', () => {
+    it('should compute signed percentages', () => {
+      expect(percentChange('0.04', '0.05')).toBe('25.00');
+      expect(percentChange('0.05', '0.04')).toBe('-20.00');
+      expect(percentChange('1', '1')).toBe('0.00');
+    });
+
+    it('should stay exact for tiny prices', () => {
+      expect(percentChange('0.000000000003', '0.000000000004', 4)).toBe('33.3333');
+    });
+
+    it('should return null without a starting price', () => {
+      expect(percentChange('0', '0.05')).toBeNull();
+    });
+  });
+});
@@ -1,5 +1,8 @@
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
 import { createApp, type Services } from '../../src/app.js';
-import type { FutarchyService } from '../../src/services/futarchyService.js';
+import { config } from '../../src/config.js';
+import type { FutarchyService, DaoTickerData } from '../../src/services/futarchyService.js';
 import type { PriceService } from '../../src/services/priceService.js';
 import type { DatabaseService } from '../../src/services/databaseService.js';
 import type { SolanaService } from '../../src/services/solanaService.js';
@@ -14,6 +17,13 @@ export function createMockDatabaseService(): DatabaseService {
     getTenMinuteRecordCount: async () => 0,
     getDailyRecordCount: async () => 0,
     getBuySellRecordCount: async () => 0,
+    getCandleSourceRows: async () => [],
+    getLastKnownTickers: async () => null,
+    saveLastKnownTickers: async () => {},
+    insertTickerSnapshot: async () => 0,
+    getNearestTickerSnapshot: async () => null,
+    getSyncMetadata: async () => null,
+    setSyncMetadata: async () => {},
     insertServiceHealthSnapshot: async () => {},
     insertMetricsBatch: async () => {},
     pruneOldMetrics: async () => {},
@@ -21,6 +31,34 @@ export function createMockDatabaseService(): DatabaseService {
   } as unknown as DatabaseService;
 }
 
+export const MOCK_DAO_ADDRESS = '5FPGRzY9ArJFwY2Hp2y2eqMzVewyWCBox7esmpuZfCvE';
+export const MOCK_BASE_MINT = 'ZKFHiLAfAFMTcDAuCtjNW54VzpERvoe7PBF9mYgmeta';
+export const MOCK_QUOTE_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+/**
+ * A DAO with 1,000,000 base (6 decimals) against 50,000 USDC - spot price 0.05.
+ */
+export function createMockDao(overrides?: Partial<DaoTickerData>): DaoTickerData {
+  return {
+    daoAddress: new PublicKey(MOCK_DAO_ADDRESS),
+    baseMint: new PublicKey(MOCK_BASE_MINT),
+    quoteMint: new PublicKey(MOCK_QUOTE_MINT),
+    baseDecimals: 6,
+    quoteDecimals: 6,
+    baseSymbol: 'ZKFG',
+    baseName: 'ZKFG',
+    quoteSymbol: 'USDC',
+    quoteName: 'USD Coin',
+    poolData: {
+      baseReserves: new BN('1000000000000'),
+      quoteReserves: new BN('50000000000'),
+      baseProtocolFees: new BN(0),
+      quoteProtocolFees: new BN(0),
+    },
+    ...overrides,
+  };
+}
+
 export function createMockFutarchyService(): FutarchyService {
   return {
     getAllDaos: async () => [],
@@ -31,7 +69,10 @@ export function createMockPriceService(): PriceService {
   return {
     calculatePrice: () => '0.05',
     calculateSpread: () => ({ bid: '0.04975', ask: '0.05025' }),
+    calculateBidAsk: () => ({ bid: '0.04975', ask: '0.05025' }),
+    getReferenceTradeSize: () => 100,
     calculateLiquidityUSD: () => '100000.00',
+    convertQuoteToUSD: () => '0.00',
   } as unknown as PriceService;
 }
 
@@ -51,6 +92,7 @@ export function createMockLaunchpadService(): LaunchpadService {
       teamPerformancePackage: { amount: '0' },
       futarchyAmmLiquidity: { amount: '0' },
       meteoraLpLiquidity: { amount: '0' },
+      daoTreasuryTokens: { amount: '0' },
     }),
   } as unknown as LaunchpadService;
 }
@@ -68,10 +110,19 @@ export function createTestServices(overrides?: Partial<Services>): Services {
     tenMinuteVolumeFetcherService: null,
     dailyAggregationService: null,
     meteoraVolumeFetcherService: null,
+    tradeFetcherService: null,
+    swapIndexerService: null,
+    feeVolumeService: null,
+    reconciliationService: null,
+    tenMinuteGapService: null,
+    poolWatcherService: null,
     ...overrides,
   };
 }
 
+// Every test app shares the rate limiter and client IP; don't let the suites throttle each other
+config.server.rateLimit.maxRequests = Number.MAX_SAFE_INTEGER;
+
 export function createTestApp(overrides?: Partial<Services>) {
   return createApp({ services: createTestServices(overrides) });
 }
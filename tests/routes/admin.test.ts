@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'bun:test';
 import request from 'supertest';
-import { createTestApp } from '../helpers/testApp.js';
+import type { DatabaseService, VolumeReconciliationRecord } from '../../src/services/databaseService.js';
+import type { TenMinuteGapService, TenMinuteGapReport } from '../../src/services/tenMinuteGapService.js';
+import { createTestApp, createMockDatabaseService, MOCK_DAO_ADDRESS, MOCK_BASE_MINT } from '../helpers/testApp.js';
 
 const app = createTestApp();
 
@@ -47,5 +49,148 @@ describe('Admin Routes', () => {
     });
   });
 
+  describe('GET /api/ten-minute-volume/gaps', () => {
+    it('should return not configured without the gap service', async () => {
+      const response = await request(app).get('/api/ten-minute-volume/gaps');
 
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('10-Minute Gap service not configured');
+    });
+
+    it('should return the last scan and its repair', async () => {
+      const report: TenMinuteGapReport = {
+        scannedAt: new Date('2026-01-08T00:25:00Z'),
+        windowStart: new Date('2026-01-07T00:20:00Z'),
+        windowEnd: new Date('2026-01-08T00:00:00Z'),
+        coveredThrough: new Date('2026-01-07T23:40:00Z'),
+        gaps: [
+          { token: MOCK_BASE_MINT, reason: 'stale', start: new Date('2026-01-07T22:50:00Z'), end: new Date('2026-01-07T23:00:00Z'), buckets: 1 },
+          { token: MOCK_BASE_MINT, reason: 'missing', start: new Date('2026-01-07T23:40:00Z'), end: new Date('2026-01-08T00:00:00Z'), buckets: 2 },
+        ],
+        repair: {
+          start: new Date('2026-01-07T22:50:00Z'),
+          end: new Date('2026-01-08T00:00:00Z'),
+          bucketsWritten: 4,
+          hoursReaggregated: 2,
+          daysReaggregated: 1,
+          error: null,
+        },
+      };
+      const tenMinuteGapService = {
+        getStatus: () => ({ initialized: true, isRunning: true, databaseConnected: true, lastScanTime: report.scannedAt.toISOString(), gapCount: 2 }),
+        getLastReport: () => report,
+      } as unknown as TenMinuteGapService;
+
+      const response = await request(createTestApp({ tenMinuteGapService })).get('/api/ten-minute-volume/gaps');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        lastScanTime: '2026-01-08T00:25:00.000Z',
+        coveredThrough: '2026-01-07T23:40:00.000Z',
+        gapCount: 2,
+        missingBuckets: 2,
+        staleBuckets: 1,
+        repair: { bucketsWritten: 4, hoursReaggregated: 2, daysReaggregated: 1, error: null },
+      });
+      expect(response.body.gaps[1]).toEqual({
+        token: MOCK_BASE_MINT,
+        reason: 'missing',
+        start: '2026-01-07T23:40:00.000Z',
+        end: '2026-01-08T00:00:00.000Z',
+        buckets: 2,
+      });
+    });
+  });
+
+  describe('GET /api/trades/status', () => {
+    it('should return not configured without trade fetcher', async () => {
+      const response = await request(app).get('/api/trades/status');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Trade Fetcher service not configured');
+    });
+  });
+
+  describe('GET /api/admin/reconciliation', () => {
+    const record: VolumeReconciliationRecord = {
+      dao_address: MOCK_DAO_ADDRESS,
+      token: MOCK_BASE_MINT,
+      date: '2026-01-09',
+      window_start: new Date('2026-01-09T00:05:00Z'),
+      window_end: new Date('2026-01-10T00:05:00Z'),
+      recorded_buy_volume: '50',
+      implied_buy_volume: '100.000000000000',
+      recorded_sell_volume: '1000',
+      implied_sell_volume: '1000.000000000000',
+      discrepancy: '0.500000',
+      flagged: true,
+    };
+
+    function createReconciliationApp() {
+      const queries: Parameters<DatabaseService['getVolumeReconciliation']>[0][] = [];
+      const databaseService = {
+        ...createMockDatabaseService(),
+        getVolumeReconciliation: async (options: Parameters<DatabaseService['getVolumeReconciliation']>[0]) => {
+          queries.push(options);
+          return [record];
+        },
+      } as unknown as DatabaseService;
+      return { app: createTestApp({ databaseService }), queries };
+    }
+
+    it('should return stored results with recorded and implied volume', async () => {
+      const { app, queries } = createReconciliationApp();
+
+      const response = await request(app).get(`/api/admin/reconciliation?from=2026-01-01&to=2026-01-10&dao=${MOCK_DAO_ADDRESS}&flagged=true`);
+
+      expect(response.status).toBe(200);
+      expect(queries).toEqual([{ startDate: '2026-01-01', endDate: '2026-01-10', daoAddress: MOCK_DAO_ADDRESS, flaggedOnly: true }]);
+      expect(response.body).toMatchObject({ from: '2026-01-01', to: '2026-01-10', count: 1, flagged_count: 1 });
+      expect(response.body.results).toEqual([{
+        dao_address: MOCK_DAO_ADDRESS,
+        token: MOCK_BASE_MINT,
+        date: '2026-01-09',
+        window_start: '2026-01-09T00:05:00.000Z',
+        window_end: '2026-01-10T00:05:00.000Z',
+        recorded: { buy_volume: '50', sell_volume: '1000' },
+        implied: { buy_volume: '100.000000000000', sell_volume: '1000.000000000000' },
+        discrepancy: '0.500000',
+        flagged: true,
+      }]);
+    });
+
+    it('should default to the last seven days', async () => {
+      const { app, queries } = createReconciliationApp();
+
+      const response = await request(app).get('/api/admin/reconciliation?to=2026-01-10');
+
+      expect(response.status).toBe(200);
+      expect(queries[0]).toMatchObject({ startDate: '2026-01-04', endDate: '2026-01-10', flaggedOnly: false });
+    });
+
+    it('should reject invalid parameters', async () => {
+      const { app } = createReconciliationApp();
+
+      const invalidDao = await request(app).get('/api/admin/reconciliation?dao=not-an-address');
+      expect(invalidDao.status).toBe(400);
+      expect(invalidDao.body.code).toBe('INVALID_DAO');
+
+      const invalidFrom = await request(app).get('/api/admin/reconciliation?from=01-01-2026');
+      expect(invalidFrom.status).toBe(400);
+      expect(invalidFrom.body.code).toBe('INVALID_FROM');
+
+      const reversed = await request(app).get('/api/admin/reconciliation?from=2026-01-10&to=2026-01-01');
+      expect(reversed.status).toBe(400);
+      expect(reversed.body.code).toBe('INVALID_DATE_RANGE');
+    });
+
+    it('should return 503 without a database', async () => {
+      const databaseService = { ...createMockDatabaseService(), isAvailable: () => false } as unknown as DatabaseService;
+
+      const response = await request(createTestApp({ databaseService })).get('/api/admin/reconciliation');
+
+      expect(response.status).toBe(503);
+      expect(response.body.code).toBe('DATABASE_UNAVAILABLE');
+    });
+  });
 });
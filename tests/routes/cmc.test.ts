@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'bun:test';
+import request from 'supertest';
+import {
+  createTestApp,
+  createMockDatabaseService,
+  createMockDao,
+  MOCK_DAO_ADDRESS,
+  MOCK_BASE_MINT,
+  MOCK_QUOTE_MINT,
+} from '../helpers/testApp.js';
+import type { DatabaseService } from '../../src/services/databaseService.js';
+import type { FutarchyService } from '../../src/services/futarchyService.js';
+import { PriceService } from '../../src/services/priceService.js';
+
+const MARKET_PAIR = `${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`;
+
+const futarchyService = {
+  getAllDaos: async () => [createMockDao()],
+} as unknown as FutarchyService;
+
+const databaseService = {
+  ...createMockDatabaseService(),
+  getHistoricalTrades: async () => [
+    {
+      trade_id: 7,
+      price: '0.050000000000',
+      base_volume: '100.000000000000',
+      target_volume: '5.000000000000',
+      trade_timestamp: new Date('2026-01-07T12:00:00Z'),
+      type: 'buy',
+    },
+  ],
+} as unknown as DatabaseService;
+
+const app = createTestApp({ futarchyService, databaseService, priceService: new PriceService() });
+
+describe('CMC Routes', () => {
+  describe('GET /api/cmc/summary', () => {
+    it('should return CMC-shaped summary items', async () => {
+      const response = await request(app).get('/api/cmc/summary');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      const [item] = response.body;
+      expect(item.trading_pairs).toBe(MARKET_PAIR);
+      expect(item.base_currency).toBe(MOCK_BASE_MINT);
+      expect(item.quote_currency).toBe(MOCK_QUOTE_MINT);
+      expect(item.pool_id).toBe(MOCK_DAO_ADDRESS);
+      expect(item.last_price).toBe('0.050000000000');
+      expect(parseFloat(item.highest_bid)).toBeLessThan(parseFloat(item.lowest_ask));
+      expect(item).toHaveProperty('quote_volume');
+    });
+  });
+
+  describe('GET /api/cmc/assets', () => {
+    it('should key assets by mint address', async () => {
+      const response = await request(app).get('/api/cmc/assets');
+
+      expect(response.status).toBe(200);
+      expect(response.body[MOCK_BASE_MINT].symbol).toBe('ZKFG');
+      expect(response.body[MOCK_QUOTE_MINT].symbol).toBe('USDC');
+      expect(response.body[MOCK_BASE_MINT].contractAddressUrl).toContain(MOCK_BASE_MINT);
+    });
+  });
+
+  describe('GET /api/cmc/ticker', () => {
+    it('should key tickers by market pair', async () => {
+      const response = await request(app).get('/api/cmc/ticker');
+
+      expect(response.status).toBe(200);
+      const ticker = response.body[MARKET_PAIR];
+      expect(ticker.base_id).toBe(MOCK_BASE_MINT);
+      expect(ticker.quote_id).toBe(MOCK_QUOTE_MINT);
+      expect(ticker.isFrozen).toBe(0);
+    });
+  });
+
+  describe('GET /api/cmc/trades/:market_pair', () => {
+    it('should return trades with millisecond timestamps', async () => {
+      const response = await request(app).get(`/api/cmc/trades/${MARKET_PAIR}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          trade_id: 7,
+          price: '0.050000000000',
+          base_volume: '100.000000000000',
+          quote_volume: '5.000000000000',
+          timestamp: Date.parse('2026-01-07T12:00:00Z'),
+          type: 'buy',
+        },
+      ]);
+    });
+
+    it('should reject invalid market pair', async () => {
+      const response = await request(app).get('/api/cmc/trades/not-a-pair');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_MARKET_PAIR');
+    });
+  });
+
+  describe('GET /api/cmc/orderbook/:market_pair', () => {
+    it('should return full depth by default', async () => {
+      const response = await request(app).get(`/api/cmc/orderbook/${MARKET_PAIR}`);
+
+      expect(response.status).toBe(200);
+      expect(typeof response.body.timestamp).toBe('number');
+      expect(response.body.bids).toHaveLength(100);
+      expect(response.body.asks).toHaveLength(100);
+    });
+
+    it('should honour depth', async () => {
+      const response = await request(app).get(`/api/cmc/orderbook/${MARKET_PAIR}?depth=4`);
+
+      expect(response.body.bids).toHaveLength(2);
+      expect(response.body.asks).toHaveLength(2);
+    });
+
+    it('should return 404 for unknown pair', async () => {
+      const response = await request(app).get(`/api/cmc/orderbook/${MOCK_QUOTE_MINT}_${MOCK_BASE_MINT}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
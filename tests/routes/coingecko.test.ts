@@ -0,0 +1,635 @@
+import { describe, it, expect } from 'bun:test';
+import request from 'supertest';
+import BN from 'bn.js';
+import { PublicKey } from '@solana/web3.js';
+import {
+  createTestApp,
+  createMockDatabaseService,
+  createMockPriceService,
+  createMockDao,
+  MOCK_DAO_ADDRESS,
+  MOCK_BASE_MINT,
+  MOCK_QUOTE_MINT,
+} from '../helpers/testApp.js';
+import type { DatabaseService, RollingWindowMetrics, StoredTrade } from '../../src/services/databaseService.js';
+import type { VolumeSource } from '../../src/services/volumeSources.js';
+import { TickerService } from '../../src/services/tickerService.js';
+import type { FutarchyService } from '../../src/services/futarchyService.js';
+import { PriceService } from '../../src/services/priceService.js';
+import type { DaoRegistryService } from '../../src/services/daoRegistryService.js';
+
+const BASE_MINT = 'METAwkXcqyXKy1AtsSgJ8JiUHwGCafnZL38n3vYmeta';
+const QUOTE_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TICKER_ID = `${BASE_MINT}_${QUOTE_MINT}`;
+
+const storedTrades: StoredTrade[] = [
+  {
+    trade_id: 2,
+    price: '5.250000000000',
+    base_volume: '10.000000000000',
+    target_volume: '52.500000000000',
+    trade_timestamp: new Date('2026-01-07T12:05:00Z'),
+    type: 'sell',
+  },
+  {
+    trade_id: 1,
+    price: '5.000000000000',
+    base_volume: '20.000000000000',
+    target_volume: '100.000000000000',
+    trade_timestamp: new Date('2026-01-07T12:00:00Z'),
+    type: 'buy',
+  },
+];
+
+function createTradesApp(options?: { available?: boolean }) {
+  const calls: any[] = [];
+  const databaseService = {
+    ...createMockDatabaseService(),
+    isAvailable: () => options?.available ?? true,
+    getHistoricalTrades: async (query: any) => {
+      calls.push(query);
+      return storedTrades.filter(trade => !query.type || trade.type === query.type);
+    },
+  } as unknown as DatabaseService;
+
+  return { app: createTestApp({ databaseService }), calls };
+}
+
+describe('CoinGecko Routes', () => {
+  describe('GET /api/pairs', () => {
+    it('should list every discovered DAO without pricing', async () => {
+      const futarchyService = {
+        getAllDaos: async () => [createMockDao()],
+      } as unknown as FutarchyService;
+      const priceService = {
+        ...createMockPriceService(),
+        calculatePrice: () => {
+          throw new Error('pairs must not look up prices');
+        },
+      } as unknown as PriceService;
+
+      const app = createTestApp({ futarchyService, priceService });
+      const response = await request(app).get('/api/pairs');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          ticker_id: `${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`,
+          base: MOCK_BASE_MINT,
+          target: MOCK_QUOTE_MINT,
+          pool_id: MOCK_DAO_ADDRESS,
+        },
+      ]);
+    });
+
+    it('should return an empty list when no DAOs are discovered', async () => {
+      const app = createTestApp();
+      const response = await request(app).get('/api/pairs');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([]);
+    });
+
+    it('should serve pairs from the DAO registry when discovery fails', async () => {
+      const futarchyService = {
+        getAllDaos: async () => { throw new Error('429 Too Many Requests'); },
+      } as unknown as FutarchyService;
+      const daoRegistryService = {
+        getActiveDaos: async () => [{ dao_address: MOCK_DAO_ADDRESS, base_mint: MOCK_BASE_MINT, quote_mint: MOCK_QUOTE_MINT }],
+      } as unknown as DaoRegistryService;
+
+      const app = createTestApp({ futarchyService, daoRegistryService });
+      const response = await request(app).get('/api/pairs');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          ticker_id: `${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`,
+          base: MOCK_BASE_MINT,
+          target: MOCK_QUOTE_MINT,
+          pool_id: MOCK_DAO_ADDRESS,
+        },
+      ]);
+    });
+
+    it('should fail when discovery fails and the registry is empty', async () => {
+      const futarchyService = {
+        getAllDaos: async () => { throw new Error('429 Too Many Requests'); },
+      } as unknown as FutarchyService;
+      const daoRegistryService = { getActiveDaos: async () => [] } as unknown as DaoRegistryService;
+
+      const app = createTestApp({ futarchyService, daoRegistryService });
+      const response = await request(app).get('/api/pairs');
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('GET /api/tickers', () => {
+    it('should quote bid/ask from pool reserves', async () => {
+      const futarchyService = {
+        getAllDaos: async () => [createMockDao()],
+      } as unknown as FutarchyService;
+      const app = createTestApp({ futarchyService, priceService: new PriceService() });
+
+      const response = await request(app).get('/api/tickers');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      const [ticker] = response.body;
+      expect(ticker.ticker_id).toBe(`${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`);
+      expect(ticker.last_price).toBe('0.050000000000');
+      expect(parseFloat(ticker.bid)).toBeLessThan(0.05);
+      expect(parseFloat(ticker.ask)).toBeGreaterThan(0.05);
+      // Not the old fixed 50 bps spread
+      expect(ticker.bid).not.toBe('0.049750000000');
+    });
+
+    it('should report the snapshot age in X-Data-Age', async () => {
+      const response = await request(createTestApp()).get('/api/tickers');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['x-data-age']).toBe('0');
+    });
+
+    it('should serve the last known good tickers marked stale when RPC is down at startup', async () => {
+      const stored = {
+        tickers: [{
+          ticker_id: `${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`,
+          base_currency: MOCK_BASE_MINT,
+          target_currency: MOCK_QUOTE_MINT,
+          pool_id: MOCK_DAO_ADDRESS,
+          last_price: '0.05',
+          base_volume: '0',
+          target_volume: '0',
+          liquidity_in_usd: '100000',
+          bid: '0.0499',
+          ask: '0.0501',
+        }],
+        provenance: {},
+        windows: {},
+        generatedAt: new Date(Date.now() - 60 * 60 * 1000),
+      };
+      const futarchyService = {
+        getAllDaos: async () => {
+          throw new Error('RPC unavailable');
+        },
+      } as unknown as FutarchyService;
+      const databaseService = {
+        ...createMockDatabaseService(),
+        getLastKnownTickers: async () => stored,
+      } as unknown as DatabaseService;
+      const app = createTestApp({ futarchyService, databaseService });
+
+      const response = await request(app).get('/api/tickers');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['x-data-stale']).toBe('true');
+      expect(response.headers['x-data-age']).toBe('3600');
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].stale).toBe(true);
+      expect(response.body[0].last_price).toBe('0.05');
+    });
+
+    it('should only include volume provenance with debug=true', async () => {
+      const futarchyService = {
+        getAllDaos: async () => [createMockDao()],
+      } as unknown as FutarchyService;
+      const app = createTestApp({ futarchyService, priceService: new PriceService() });
+
+      const plain = await request(app).get('/api/tickers');
+      expect(plain.body[0].volume_provenance).toBeUndefined();
+
+      const debug = await request(app).get('/api/tickers?debug=true');
+      expect(debug.status).toBe(200);
+      expect(debug.body[0].volume_provenance).toEqual({ source: 'none', as_of: null, age_seconds: null });
+    });
+
+    describe('filters', () => {
+      const OTHER_DAO = 'DnZnF5fBwTkSRbP3dbrMzD5pHz5sZcbDYTF2Qj9gZWnG';
+      const OTHER_BASE = 'METAwkXcqyXKy1AtsSgJ8JiUHwGCafnZL38n3vYmeta';
+      const futarchyService = {
+        getAllDaos: async () => [
+          createMockDao(),
+          createMockDao({
+            daoAddress: new PublicKey(OTHER_DAO),
+            baseMint: new PublicKey(OTHER_BASE),
+            baseSymbol: 'META',
+            // 10x deeper pool
+            poolData: {
+              baseReserves: new BN('10000000000000'),
+              quoteReserves: new BN('500000000000'),
+              baseProtocolFees: new BN(0),
+              quoteProtocolFees: new BN(0),
+            },
+          }),
+        ],
+      } as unknown as FutarchyService;
+      const app = createTestApp({ futarchyService, priceService: new PriceService() });
+
+      it('should filter by base mint', async () => {
+        const response = await request(app).get(`/api/tickers?base=${OTHER_BASE}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.map((t: any) => t.pool_id)).toEqual([OTHER_DAO]);
+      });
+
+      it('should filter by DAO address', async () => {
+        const response = await request(app).get(`/api/tickers?dao=${MOCK_DAO_ADDRESS}`);
+
+        expect(response.body.map((t: any) => t.pool_id)).toEqual([MOCK_DAO_ADDRESS]);
+      });
+
+      it('should filter by symbol case-insensitively', async () => {
+        const response = await request(app).get('/api/tickers?symbol=meta');
+
+        expect(response.body.map((t: any) => t.base_symbol)).toEqual(['META']);
+      });
+
+      it('should filter by minimum liquidity', async () => {
+        const response = await request(app).get('/api/tickers?min_liquidity_usd=200000');
+
+        expect(response.body.map((t: any) => t.pool_id)).toEqual([OTHER_DAO]);
+      });
+
+      it('should filter by minimum volume', async () => {
+        const response = await request(app).get('/api/tickers?min_volume=1');
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual([]);
+      });
+
+      it('should reject invalid filters', async () => {
+        const cases: Array<[string, string]> = [
+          ['base=not-a-mint', 'INVALID_BASE'],
+          ['dao=not-a-dao', 'INVALID_DAO'],
+          ['symbol=', 'INVALID_SYMBOL'],
+          ['min_liquidity_usd=-1', 'INVALID_MIN_LIQUIDITY_USD'],
+          ['min_volume=lots', 'INVALID_MIN_VOLUME'],
+        ];
+
+        for (const [query, code] of cases) {
+          const response = await request(app).get(`/api/tickers?${query}`);
+          expect(response.status).toBe(400);
+          expect(response.body.code).toBe(code);
+        }
+      });
+    });
+
+    it('should reject invalid debug flag', async () => {
+      const app = createTestApp();
+      const response = await request(app).get('/api/tickers?debug=yes');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_DEBUG');
+    });
+  });
+
+  describe('GET /api/tickers?at=', () => {
+    const storedTicker = (poolId: string, baseSymbol: string) => ({
+      ticker_id: `${poolId}_${MOCK_QUOTE_MINT}`,
+      base_currency: poolId,
+      target_currency: MOCK_QUOTE_MINT,
+      base_symbol: baseSymbol,
+      pool_id: poolId,
+      last_price: '0.05',
+      base_volume: '10',
+      target_volume: '0.5',
+      liquidity_in_usd: '100000',
+      bid: '0.0499',
+      ask: '0.0501',
+    });
+
+    function createHistoryApp() {
+      const requested: Date[] = [];
+      const databaseService = {
+        ...createMockDatabaseService(),
+        getNearestTickerSnapshot: async (at: Date) => {
+          requested.push(at);
+          return {
+            snapshot_at: new Date('2025-01-15T10:05:00Z'),
+            generated_at: new Date('2025-01-15T10:04:50Z'),
+            stale: false,
+            tickers: [storedTicker(MOCK_DAO_ADDRESS, 'ZKFG'), storedTicker(MOCK_BASE_MINT, 'META')],
+          };
+        },
+      } as unknown as DatabaseService;
+      return { app: createTestApp({ databaseService }), requested };
+    }
+
+    it('should return the stored snapshot nearest to the requested time', async () => {
+      const { app, requested } = createHistoryApp();
+
+      const response = await request(app).get('/api/tickers?at=2025-01-15T10:07:00Z');
+
+      expect(response.status).toBe(200);
+      expect(requested[0]!.toISOString()).toBe('2025-01-15T10:07:00.000Z');
+      expect(response.headers['x-snapshot-time']).toBe('2025-01-15T10:05:00.000Z');
+      expect(response.headers['x-data-age']).toBe('10');
+      expect(response.body.map((t: { base_symbol: string }) => t.base_symbol)).toEqual(['ZKFG', 'META']);
+    });
+
+    it('should accept unix seconds and apply filters to the stored snapshot', async () => {
+      const { app, requested } = createHistoryApp();
+
+      const response = await request(app).get('/api/tickers?at=1736935620&symbol=meta');
+
+      expect(response.status).toBe(200);
+      expect(requested[0]!.toISOString()).toBe('2025-01-15T10:07:00.000Z');
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].base_symbol).toBe('META');
+    });
+
+    it('should return 400 for an invalid timestamp', async () => {
+      const response = await request(createTestApp()).get('/api/tickers?at=yesterday');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_AT');
+    });
+
+    it('should return 400 for unix timestamps outside the supported range', async () => {
+      for (const at of ['99999999999999999', '253402300800']) {
+        const response = await request(createTestApp()).get(`/api/tickers?at=${at}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body.code).toBe('INVALID_AT');
+      }
+    });
+
+    it('should return 404 when no snapshots have been stored', async () => {
+      const response = await request(createTestApp()).get('/api/tickers?at=2025-01-15');
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('TICKER_SNAPSHOT_NOT_FOUND');
+    });
+
+    it('should return 500 rather than 404 when the snapshot query fails', async () => {
+      const databaseService = {
+        ...createMockDatabaseService(),
+        getNearestTickerSnapshot: async () => {
+          throw new Error('connection terminated');
+        },
+      } as unknown as DatabaseService;
+
+      const response = await request(createTestApp({ databaseService })).get('/api/tickers?at=2025-01-15');
+
+      expect(response.status).toBe(500);
+    });
+
+    it('should return 503 without a database', async () => {
+      const databaseService = {
+        ...createMockDatabaseService(),
+        isAvailable: () => false,
+      } as unknown as DatabaseService;
+
+      const response = await request(createTestApp({ databaseService })).get('/api/tickers?at=2025-01-15');
+
+      expect(response.status).toBe(503);
+      expect(response.body.code).toBe('DATABASE_UNAVAILABLE');
+    });
+  });
+
+  describe('GET /api/tickers/:tickerId', () => {
+    const futarchyService = {
+      getAllDaos: async () => [createMockDao()],
+    } as unknown as FutarchyService;
+    const app = createTestApp({ futarchyService, priceService: new PriceService() });
+    const tickerId = `${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`;
+
+    it('should return a single ticker', async () => {
+      const response = await request(app).get(`/api/tickers/${tickerId}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.ticker_id).toBe(tickerId);
+      expect(response.body.last_price).toBe('0.050000000000');
+    });
+
+    it('should include volume provenance with debug=true', async () => {
+      const response = await request(app).get(`/api/tickers/${tickerId}?debug=true`);
+
+      expect(response.body.volume_provenance.source).toBe('none');
+    });
+
+    it('should return 404 for unknown ticker', async () => {
+      const response = await request(app).get(`/api/tickers/${MOCK_QUOTE_MINT}_${MOCK_BASE_MINT}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('TICKER_NOT_FOUND');
+    });
+
+    it('should reject malformed ticker id', async () => {
+      const response = await request(app).get('/api/tickers/not-a-ticker');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_TICKER_ID');
+    });
+  });
+
+  describe('GET /api/tickers/:tickerId/stats', () => {
+    const futarchyService = {
+      getAllDaos: async () => [createMockDao()],
+    } as unknown as FutarchyService;
+    const tickerId = `${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`;
+    const window: RollingWindowMetrics = {
+      base_volume: '100',
+      target_volume: '5',
+      high: '0.06',
+      low: '0.04',
+      open: '0.04',
+      close: '0.05',
+      price_change_percentage: '25.00',
+      trade_count: 3,
+    };
+    const asOf = new Date('2026-01-07T12:00:00Z');
+    const source: VolumeSource = {
+      name: '10-minute',
+      isAvailable: () => true,
+      getMetrics: async () => ({
+        metrics: new Map([[MOCK_DAO_ADDRESS.toLowerCase(), {
+          base_volume_24h: '100',
+          target_volume_24h: '5',
+          high_24h: '0.06',
+          low_24h: '0.04',
+          windows: { '1h': window, '24h': window, '7d': window, '30d': window },
+        }]]),
+        asOf,
+      }),
+    };
+
+    it('should return rolling window stats', async () => {
+      const tickerService = new TickerService(futarchyService, new PriceService(), createMockDatabaseService(), [source]);
+      const app = createTestApp({ futarchyService, priceService: new PriceService(), tickerService });
+
+      const response = await request(app).get(`/api/tickers/${tickerId}/stats`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.ticker_id).toBe(tickerId);
+      expect(response.body.pool_id).toBe(MOCK_DAO_ADDRESS);
+      expect(response.body.volume_source).toBe('10-minute');
+      expect(response.body.as_of).toBe(asOf.toISOString());
+      expect(response.body.windows['24h']).toEqual(window);
+    });
+
+    it('should return null windows without 10-minute data', async () => {
+      const app = createTestApp({ futarchyService, priceService: new PriceService() });
+
+      const response = await request(app).get(`/api/tickers/${tickerId}/stats`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.volume_source).toBe('none');
+      expect(response.body.windows).toBeNull();
+    });
+
+    it('should return 404 for unknown ticker', async () => {
+      const app = createTestApp({ futarchyService, priceService: new PriceService() });
+
+      const response = await request(app).get(`/api/tickers/${MOCK_QUOTE_MINT}_${MOCK_BASE_MINT}/stats`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('TICKER_NOT_FOUND');
+    });
+  });
+
+  describe('GET /api/orderbook', () => {
+    const futarchyService = {
+      getAllDaos: async () => [createMockDao()],
+    } as unknown as FutarchyService;
+    const app = createTestApp({ futarchyService, priceService: new PriceService() });
+    const tickerId = `${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`;
+
+    it('should split depth across both sides', async () => {
+      const response = await request(app).get(`/api/orderbook?ticker_id=${tickerId}&depth=10`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.ticker_id).toBe(tickerId);
+      expect(response.body.bids).toHaveLength(5);
+      expect(response.body.asks).toHaveLength(5);
+      expect(Number(response.body.timestamp)).toBeGreaterThan(0);
+    });
+
+    it('should return full depth for depth=0', async () => {
+      const response = await request(app).get(`/api/orderbook?ticker_id=${tickerId}&depth=0`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.bids).toHaveLength(100);
+      expect(response.body.asks).toHaveLength(100);
+    });
+
+    it('should return best bid below best ask', async () => {
+      const response = await request(app).get(`/api/orderbook?ticker_id=${tickerId}`);
+
+      const [bestBid] = response.body.bids[0];
+      const [bestAsk] = response.body.asks[0];
+      expect(parseFloat(bestBid)).toBeLessThan(0.05);
+      expect(parseFloat(bestAsk)).toBeGreaterThan(0.05);
+    });
+
+    it('should return 404 for unknown ticker', async () => {
+      const response = await request(app).get(`/api/orderbook?ticker_id=${MOCK_QUOTE_MINT}_${MOCK_BASE_MINT}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('TICKER_NOT_FOUND');
+    });
+
+    it('should reject invalid depth', async () => {
+      const response = await request(app).get(`/api/orderbook?ticker_id=${tickerId}&depth=-1`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_DEPTH');
+    });
+  });
+
+  describe('GET /api/historical_trades', () => {
+    it('should split trades into buy and sell', async () => {
+      const { app } = createTradesApp();
+      const response = await request(app).get(`/api/historical_trades?ticker_id=${TICKER_ID}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.buy).toHaveLength(1);
+      expect(response.body.sell).toHaveLength(1);
+      expect(response.body.buy[0]).toEqual({
+        trade_id: 1,
+        price: '5.000000000000',
+        base_volume: '20.000000000000',
+        target_volume: '100.000000000000',
+        trade_timestamp: String(Date.parse('2026-01-07T12:00:00Z')),
+        type: 'buy',
+      });
+    });
+
+    it('should pass filters through to the database', async () => {
+      const { app, calls } = createTradesApp();
+      const response = await request(app).get(
+        `/api/historical_trades?ticker_id=${TICKER_ID}&type=sell&limit=10&start_time=1767787200&end_time=1767790800`
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.buy).toHaveLength(0);
+      expect(response.body.sell).toHaveLength(1);
+      expect(calls[0].token).toBe(BASE_MINT);
+      expect(calls[0].quoteMint).toBe(QUOTE_MINT);
+      expect(calls[0].type).toBe('sell');
+      expect(calls[0].limit).toBe(10);
+      expect(calls[0].startTime.toISOString()).toBe('2026-01-07T12:00:00.000Z');
+      expect(calls[0].endTime.toISOString()).toBe('2026-01-07T13:00:00.000Z');
+    });
+
+    it('should default limit to 500', async () => {
+      const { app, calls } = createTradesApp();
+      await request(app).get(`/api/historical_trades?ticker_id=${TICKER_ID}`);
+
+      expect(calls[0].limit).toBe(500);
+      expect(calls[0].startTime).toBeUndefined();
+      expect(calls[0].endTime).toBeUndefined();
+    });
+
+    it('should reject missing ticker_id', async () => {
+      const { app } = createTradesApp();
+      const response = await request(app).get('/api/historical_trades');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_TICKER_ID');
+    });
+
+    it('should reject malformed ticker_id', async () => {
+      const { app } = createTradesApp();
+      const response = await request(app).get(`/api/historical_trades?ticker_id=${BASE_MINT}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_TICKER_ID');
+    });
+
+    it('should reject invalid type', async () => {
+      const { app } = createTradesApp();
+      const response = await request(app).get(`/api/historical_trades?ticker_id=${TICKER_ID}&type=hold`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_TRADE_TYPE');
+    });
+
+    it('should reject limit above maximum', async () => {
+      const { app } = createTradesApp();
+      const response = await request(app).get(`/api/historical_trades?ticker_id=${TICKER_ID}&limit=5000`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_LIMIT');
+    });
+
+    it('should reject start_time after end_time', async () => {
+      const { app } = createTradesApp();
+      const response = await request(app).get(
+        `/api/historical_trades?ticker_id=${TICKER_ID}&start_time=1767790800&end_time=1767787200`
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_TIME_RANGE');
+    });
+
+    it('should return 503 when database is unavailable', async () => {
+      const { app } = createTradesApp({ available: false });
+      const response = await request(app).get(`/api/historical_trades?ticker_id=${TICKER_ID}`);
+
+      expect(response.status).toBe(503);
+    });
+  });
+});
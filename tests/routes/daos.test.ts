@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'bun:test';
+import request from 'supertest';
+import { PublicKey } from '@solana/web3.js';
+import {
+  createTestApp,
+  createMockDatabaseService,
+  createMockPriceService,
+  createMockDao,
+  MOCK_DAO_ADDRESS,
+  MOCK_BASE_MINT,
+  MOCK_QUOTE_MINT,
+} from '../helpers/testApp.js';
+import type { DatabaseService } from '../../src/services/databaseService.js';
+import type { FutarchyService } from '../../src/services/futarchyService.js';
+import type { SolanaService } from '../../src/services/solanaService.js';
+import type { LaunchpadService } from '../../src/services/launchpadService.js';
+import type { TickerSnapshotService } from '../../src/services/tickerSnapshotService.js';
+import type { TickerQuery } from '../../src/services/tickerService.js';
+
+const OTHER_DAO_ADDRESS = 'So11111111111111111111111111111111111111112';
+const OTHER_BASE_MINT = 'METAwkXcqyXKy1AtsSgJ8JiUHwGCafnZL38n3vYmeta';
+const TOKEN_2022_PROGRAM = {
+  program: 'token-2022' as const,
+  extensions: ['TransferFeeConfig'],
+  transferFee: { basisPoints: 50, maximumFee: '2.5', epoch: '600' },
+};
+
+// A quote mint that is neither an allowlisted stablecoin nor has a price feed
+const UNPRICED_QUOTE_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function createDaosApp(overrides: { solanaService?: SolanaService; futarchyService?: FutarchyService } = {}) {
+  const futarchyService = {
+    getAllDaos: async () => [
+      createMockDao({
+        treasuryUsdcAum: '1234.560000',
+        treasuryVaultAddress: OTHER_DAO_ADDRESS,
+        baseTokenProgram: TOKEN_2022_PROGRAM,
+      }),
+      createMockDao({ daoAddress: new PublicKey(OTHER_DAO_ADDRESS), baseMint: new PublicKey(OTHER_BASE_MINT) }),
+    ],
+  } as unknown as FutarchyService;
+
+  const databaseService = {
+    ...createMockDatabaseService(),
+    getFirstTradeDates: async () => new Map([[MOCK_BASE_MINT.toLowerCase(), '2025-10-01']]),
+  } as unknown as DatabaseService;
+
+  return createTestApp({
+    futarchyService,
+    databaseService,
+    priceService: createMockPriceService(),
+    ...overrides,
+  });
+}
+
+describe('DAO Routes', () => {
+  describe('GET /api/daos', () => {
+    it('should list every discovered DAO', async () => {
+      const response = await request(createDaosApp()).get('/api/daos');
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(2);
+      expect(response.body.daos.map((dao: any) => dao.dao_address)).toEqual([MOCK_DAO_ADDRESS, OTHER_DAO_ADDRESS]);
+    });
+
+    it('should list DAOs without tickers when a quote mint has no USD price', async () => {
+      const futarchyService = {
+        getAllDaos: async () => [
+          createMockDao(),
+          createMockDao({ daoAddress: new PublicKey(OTHER_DAO_ADDRESS), quoteMint: new PublicKey(UNPRICED_QUOTE_MINT) }),
+        ],
+      } as unknown as FutarchyService;
+
+      const response = await request(createDaosApp({ futarchyService })).get('/api/daos');
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(2);
+      expect(response.body.daos.map((dao: any) => dao.ticker)).toEqual([null, null]);
+    });
+  });
+
+  describe('GET /api/daos/:daoAddress', () => {
+    it('should combine discovery, ticker, treasury and supply data', async () => {
+      const response = await request(createDaosApp()).get(`/api/daos/${MOCK_DAO_ADDRESS}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        dao_address: MOCK_DAO_ADDRESS,
+        ticker_id: `${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`,
+        base_symbol: 'ZKFG',
+        base_decimals: 6,
+        base_token_program: TOKEN_2022_PROGRAM,
+        quote_token_program: null,
+        reserves: { base: '1000000', quote: '50000' },
+        treasury: { vault_address: OTHER_DAO_ADDRESS, usdc_aum: '1234.560000' },
+        first_trade_date: '2025-10-01',
+        volume_source: 'none',
+        windows: null,
+        supply: { totalSupply: '1000000', circulatingSupply: '500000' },
+      });
+      expect(response.body.ticker.pool_id).toBe(MOCK_DAO_ADDRESS);
+    });
+
+    it('should read the ticker from the ticker snapshot', async () => {
+      const queries: TickerQuery[] = [];
+      const ticker = { ticker_id: `${MOCK_BASE_MINT}_${MOCK_QUOTE_MINT}`, pool_id: MOCK_DAO_ADDRESS, last_price: '0.07', stale: true };
+      const tickerSnapshotService = {
+        getSnapshot: async (_requestId: string, query: TickerQuery) => {
+          queries.push(query);
+          return { tickers: [ticker], provenance: {}, windows: {}, generatedAt: new Date(), stale: true };
+        },
+      } as unknown as TickerSnapshotService;
+
+      const response = await request(createTestApp({
+        futarchyService: { getAllDaos: async () => [createMockDao()] } as unknown as FutarchyService,
+        tickerSnapshotService,
+      })).get(`/api/daos/${MOCK_DAO_ADDRESS}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.ticker).toEqual(ticker);
+      expect(queries).toEqual([{ dao: MOCK_DAO_ADDRESS }]);
+    });
+
+    it('should return the DAO with null supply when the supply lookup fails', async () => {
+      const solanaService = {
+        getSupplyInfo: async () => { throw new Error('RPC down'); },
+      } as unknown as SolanaService;
+
+      const response = await request(createDaosApp({ solanaService })).get(`/api/daos/${MOCK_DAO_ADDRESS}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.supply).toBeNull();
+      expect(response.body.ticker).not.toBeNull();
+    });
+
+    it('should return null supply when the launchpad service is not configured', async () => {
+      const app = createTestApp({
+        futarchyService: { getAllDaos: async () => [createMockDao()] } as unknown as FutarchyService,
+        launchpadService: undefined as unknown as LaunchpadService,
+      });
+
+      const response = await request(app).get(`/api/daos/${MOCK_DAO_ADDRESS}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.supply).toBeNull();
+    });
+
+    it('should return the DAO with a null ticker when its quote mint has no USD price', async () => {
+      const futarchyService = {
+        getAllDaos: async () => [createMockDao({ quoteMint: new PublicKey(UNPRICED_QUOTE_MINT) })],
+      } as unknown as FutarchyService;
+
+      const response = await request(createDaosApp({ futarchyService })).get(`/api/daos/${MOCK_DAO_ADDRESS}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.ticker).toBeNull();
+      expect(response.body.volume_source).toBe('none');
+      expect(response.body.supply).not.toBeNull();
+    });
+
+    it('should return 404 for an undiscovered DAO', async () => {
+      const response = await request(createDaosApp()).get('/api/daos/11111111111111111111111111111111');
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('DAO_NOT_FOUND');
+    });
+
+    it('should reject an invalid DAO address', async () => {
+      const response = await request(createDaosApp()).get('/api/daos/not-an-address');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_DAO_ADDRESS');
+    });
+  });
+});
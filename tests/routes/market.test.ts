@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'bun:test';
 import request from 'supertest';
-import { createTestApp } from '../helpers/testApp.js';
+import { createTestApp, createMockDatabaseService, MOCK_BASE_MINT } from '../helpers/testApp.js';
+import type { DatabaseService } from '../../src/services/databaseService.js';
 
 const app = createTestApp();
 
@@ -86,4 +87,113 @@ describe('Market Routes', () => {
       }
     });
   });
+
+  describe('GET /api/candles/:token', () => {
+    const HOUR = 3600;
+    const from = 1767225600; // 2026-01-01T00:00:00Z
+    const row = (time: number, open: string, close: string) => ({
+      time,
+      open,
+      high: close,
+      low: open,
+      close,
+      base_volume: '10',
+      target_volume: '0.5',
+      trade_count: 2,
+    });
+
+    function createCandleApp(databaseOverrides: Partial<DatabaseService> = {}) {
+      const queries: unknown[][] = [];
+      const databaseService = {
+        ...createMockDatabaseService(),
+        getCandleSourceRows: async (...args: unknown[]) => {
+          queries.push(args);
+          return [row(from, '0.04', '0.05'), row(from + HOUR, '0.05', '0.06')];
+        },
+        ...databaseOverrides,
+      } as unknown as DatabaseService;
+      return { app: createTestApp({ databaseService }), queries };
+    }
+
+    it('should return hourly candles by default', async () => {
+      const { app, queries } = createCandleApp();
+
+      const response = await request(app)
+        .get(`/api/candles/${MOCK_BASE_MINT}`)
+        .query({ from, to: from + 2 * HOUR });
+
+      expect(response.status).toBe(200);
+      expect(response.body.interval).toBe('1h');
+      expect(response.body.source).toBe('hourly');
+      expect(response.body.count).toBe(2);
+      expect(response.body.candles[0]).toEqual({
+        time: from,
+        open: '0.04',
+        high: '0.05',
+        low: '0.04',
+        close: '0.05',
+        base_volume: '10.000000000000',
+        target_volume: '0.500000000000',
+        trade_count: 2,
+      });
+      expect(queries[0]!.slice(0, 2)).toEqual(['hourly', MOCK_BASE_MINT]);
+    });
+
+    it('should roll hourly buckets up into 4h candles', async () => {
+      const { app } = createCandleApp();
+
+      const response = await request(app)
+        .get(`/api/candles/${MOCK_BASE_MINT}`)
+        .query({ interval: '4h', from, to: from + 4 * HOUR });
+
+      expect(response.status).toBe(200);
+      expect(response.body.candles).toHaveLength(1);
+      expect(response.body.candles[0].open).toBe('0.04');
+      expect(response.body.candles[0].close).toBe('0.06');
+      expect(response.body.candles[0].trade_count).toBe(4);
+    });
+
+    it('should default to the last 500 candles', async () => {
+      const { app, queries } = createCandleApp();
+
+      const response = await request(app).get(`/api/candles/${MOCK_BASE_MINT}`).query({ interval: '10m' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.to - response.body.from).toBe(500 * 600);
+      expect(queries[0]![0]).toBe('ten_minute');
+    });
+
+    it.each([
+      [{ interval: '5m' }, 'INVALID_INTERVAL'],
+      [{ from: 'yesterday' }, 'INVALID_FROM'],
+      [{ to: '-1' }, 'INVALID_TO'],
+      [{ from: from + HOUR, to: from }, 'INVALID_TIME_RANGE'],
+      [{ interval: '10m', from, to: from + 30 * 24 * HOUR }, 'INVALID_TIME_RANGE'],
+    ])('should reject %p with %s', async (query, code) => {
+      const { app } = createCandleApp();
+
+      const response = await request(app).get(`/api/candles/${MOCK_BASE_MINT}`).query(query);
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe(code);
+    });
+
+    it('should reject invalid token addresses', async () => {
+      const { app } = createCandleApp();
+
+      const response = await request(app).get('/api/candles/not-a-mint');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_TOKEN');
+    });
+
+    it('should return 503 when the database is unavailable', async () => {
+      const { app } = createCandleApp({ isAvailable: () => false });
+
+      const response = await request(app).get(`/api/candles/${MOCK_BASE_MINT}`);
+
+      expect(response.status).toBe(503);
+      expect(response.body.code).toBe('DATABASE_UNAVAILABLE');
+    });
+  });
 });
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import request from 'supertest';
+import { once } from 'events';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { TickerSnapshotService } from '../../src/services/tickerSnapshotService.js';
+import type { TickerService, TickerSnapshot } from '../../src/services/tickerService.js';
+import type { CoinGeckoTicker } from '../../src/types/coingecko.js';
+import { createTestApp, MOCK_DAO_ADDRESS } from '../helpers/testApp.js';
+
+const OTHER_DAO_ADDRESS = 'DnZnF5fBwTkSRbP3dbrMzD5pHz5sZcbDYTF2Qj9gZWnG';
+
+function ticker(poolId: string, lastPrice = '1'): CoinGeckoTicker {
+  return {
+    ticker_id: `${poolId}_quote`,
+    base_currency: `${poolId}_base`,
+    target_currency: 'quote',
+    pool_id: poolId,
+    last_price: lastPrice,
+    base_volume: '0',
+    target_volume: '0',
+    liquidity_in_usd: '100',
+    bid: '0.99',
+    ask: '1.01',
+  };
+}
+
+/**
+ * Snapshot service whose next rebuild returns `tickers`
+ */
+function createSnapshotService() {
+  let tickers = [ticker(MOCK_DAO_ADDRESS), ticker(OTHER_DAO_ADDRESS)];
+  const tickerService = {
+    getTickerSnapshot: async (): Promise<TickerSnapshot> => ({ tickers, provenance: {}, windows: {}, generatedAt: new Date() }),
+  } as unknown as TickerService;
+  const service = new TickerSnapshotService(tickerService, null, { refreshIntervalMs: 60_000, maxStalenessMs: 600_000 });
+  return {
+    service,
+    setTickers: (next: CoinGeckoTicker[]) => {
+      tickers = next;
+    },
+  };
+}
+
+interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Open the stream and return a reader that yields parsed events
+ */
+async function openStream(server: Server, path: string) {
+  const { port } = server.address() as AddressInfo;
+  const controller = new AbortController();
+  const response = await fetch(`http://127.0.0.1:${port}${path}`, { signal: controller.signal });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const next = async (): Promise<StreamEvent> => {
+    while (!buffer.includes('\n\n')) {
+      const { value, done } = await reader.read();
+      if (done) throw new Error('Stream ended');
+      buffer += decoder.decode(value, { stream: true });
+    }
+    const end = buffer.indexOf('\n\n');
+    const block = buffer.slice(0, end);
+    buffer = buffer.slice(end + 2);
+
+    const fields = Object.fromEntries(block.split('\n').map(line => {
+      const separator = line.indexOf(': ');
+      return [line.slice(0, separator), line.slice(separator + 2)];
+    }));
+    return { event: fields.event, data: JSON.parse(fields.data) };
+  };
+
+  return { response, next, close: () => controller.abort() };
+}
+
+describe('Stream Routes', () => {
+  let server: Server | null = null;
+
+  afterEach(() => {
+    server?.closeAllConnections();
+    server?.close();
+    server = null;
+  });
+
+  async function listen(snapshotService: TickerSnapshotService): Promise<Server> {
+    server = createTestApp({ tickerSnapshotService: snapshotService }).listen(0);
+    await once(server, 'listening');
+    return server;
+  }
+
+  describe('GET /api/stream/tickers', () => {
+    it('should send a snapshot, then deltas of changed and removed tickers', async () => {
+      const { service, setTickers } = createSnapshotService();
+      const stream = await openStream(await listen(service), '/api/stream/tickers');
+
+      expect(stream.response.headers.get('content-type')).toContain('text/event-stream');
+      const snapshot = await stream.next();
+      expect(snapshot.event).toBe('snapshot');
+      expect(snapshot.data.tickers.map((t: CoinGeckoTicker) => t.pool_id)).toEqual([MOCK_DAO_ADDRESS, OTHER_DAO_ADDRESS]);
+
+      setTickers([ticker(MOCK_DAO_ADDRESS, '2')]);
+      await service.refresh();
+
+      const delta = await stream.next();
+      expect(delta.event).toBe('delta');
+      expect(delta.data.updated).toEqual([ticker(MOCK_DAO_ADDRESS, '2')]);
+      expect(delta.data.removed).toEqual([`${OTHER_DAO_ADDRESS}_quote`]);
+
+      stream.close();
+    });
+
+    it('should apply /api/tickers filters to the snapshot and deltas', async () => {
+      const { service, setTickers } = createSnapshotService();
+      const stream = await openStream(await listen(service), `/api/stream/tickers?dao=${OTHER_DAO_ADDRESS}`);
+
+      const snapshot = await stream.next();
+      expect(snapshot.data.tickers.map((t: CoinGeckoTicker) => t.pool_id)).toEqual([OTHER_DAO_ADDRESS]);
+
+      // A change to a filtered-out ticker sends nothing; the next event is the matching change
+      setTickers([ticker(MOCK_DAO_ADDRESS, '2'), ticker(OTHER_DAO_ADDRESS)]);
+      await service.refresh();
+      setTickers([ticker(MOCK_DAO_ADDRESS, '2'), ticker(OTHER_DAO_ADDRESS, '3')]);
+      await service.refresh();
+
+      const delta = await stream.next();
+      expect(delta.data.updated).toEqual([ticker(OTHER_DAO_ADDRESS, '3')]);
+
+      stream.close();
+    });
+
+    it('should unsubscribe when the client disconnects', async () => {
+      const { service } = createSnapshotService();
+      const stream = await openStream(await listen(service), '/api/stream/tickers');
+      await stream.next();
+      expect(service.getStatus().subscribers).toBe(1);
+
+      stream.close();
+      for (let i = 0; i < 50 && service.getStatus().subscribers > 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      expect(service.getStatus().subscribers).toBe(0);
+    });
+
+    it('should reject invalid filters before opening the stream', async () => {
+      const { service } = createSnapshotService();
+      const app = createTestApp({ tickerSnapshotService: service });
+
+      const response = await request(app).get('/api/stream/tickers?dao=not-an-address');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_DAO');
+      expect(service.getStatus().subscribers).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'bun:test';
+import { CandleService, alignToInterval, rollUpCandles } from '../../src/services/candleService.js';
+import type { CandleSourceRow, DatabaseService } from '../../src/services/databaseService.js';
+import { MOCK_BASE_MINT } from '../helpers/testApp.js';
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+// Thursday 2026-01-01T00:00:00Z
+const JAN_1 = 1767225600;
+// Monday 2025-12-29T00:00:00Z
+const WEEK_START = JAN_1 - 3 * DAY;
+
+function row(time: number, overrides: Partial<CandleSourceRow> = {}): CandleSourceRow {
+  return {
+    time,
+    open: '1',
+    high: '1',
+    low: '1',
+    close: '1',
+    base_volume: '1',
+    target_volume: '1',
+    trade_count: 1,
+    ...overrides,
+  };
+}
+
+describe('CandleService', () => {
+  describe('alignToInterval', () => {
+    it('should align to UTC bucket starts', () => {
+      expect(alignToInterval(JAN_1 + 5 * HOUR + 123, '4h')).toBe(JAN_1 + 4 * HOUR);
+      expect(alignToInterval(JAN_1 + 599, '10m')).toBe(JAN_1);
+      expect(alignToInterval(JAN_1 + 23 * HOUR, '1d')).toBe(JAN_1);
+    });
+
+    it('should start weekly candles on Monday', () => {
+      expect(alignToInterval(JAN_1, '1w')).toBe(WEEK_START);
+      expect(alignToInterval(WEEK_START + 7 * DAY - 1, '1w')).toBe(WEEK_START);
+      expect(alignToInterval(WEEK_START + 7 * DAY, '1w')).toBe(WEEK_START + 7 * DAY);
+    });
+  });
+
+  describe('rollUpCandles', () => {
+    it('should take open from the first bucket and close from the last', () => {
+      const [candle] = rollUpCandles([
+        row(JAN_1, { open: '0.10', high: '0.12', low: '0.09', close: '0.11' }),
+        row(JAN_1 + HOUR, { open: '0.11', high: '0.15', low: '0.10', close: '0.14' }),
+        row(JAN_1 + 2 * HOUR, { open: '0.14', high: '0.14', low: '0.08', close: '0.13' }),
+      ], '4h');
+
+      expect(candle).toMatchObject({ time: JAN_1, open: '0.10', high: '0.15', low: '0.08', close: '0.13' });
+    });
+
+    it('should sum volumes exactly and count trades', () => {
+      const [candle] = rollUpCandles([
+        row(JAN_1, { base_volume: '123456789012345678.1', target_volume: '0.000000000001', trade_count: 3 }),
+        row(JAN_1 + HOUR, { base_volume: '0.2', target_volume: '0.000000000002', trade_count: 4 }),
+      ], '4h');
+
+      expect(candle!.base_volume).toBe('123456789012345678.300000000000');
+      expect(candle!.target_volume).toBe('0.000000000003');
+      expect(candle!.trade_count).toBe(7);
+    });
+
+    it('should compare prices numerically rather than as strings', () => {
+      const [candle] = rollUpCandles([
+        row(JAN_1, { high: '9.5', low: '9.5' }),
+        row(JAN_1 + HOUR, { high: '10.25', low: '10.25' }),
+      ], '1d');
+
+      expect(candle!.high).toBe('10.25');
+      expect(candle!.low).toBe('9.5');
+    });
+
+    it('should split rows into one candle per interval and skip empty ones', () => {
+      const candles = rollUpCandles([
+        row(JAN_1 - DAY),
+        row(JAN_1),
+        row(JAN_1 + 8 * DAY),
+      ], '1w');
+
+      expect(candles.map(candle => candle.time)).toEqual([WEEK_START, WEEK_START + 7 * DAY]);
+      expect(candles[0]!.trade_count).toBe(2);
+    });
+  });
+
+  describe('getCandles', () => {
+    it('should read daily buckets for weekly candles from the start of the week', async () => {
+      const calls: unknown[][] = [];
+      const databaseService = {
+        getCandleSourceRows: async (...args: unknown[]) => {
+          calls.push(args);
+          return [row(JAN_1)];
+        },
+      } as unknown as DatabaseService;
+
+      const series = await new CandleService(databaseService).getCandles(MOCK_BASE_MINT, '1w', JAN_1, JAN_1 + DAY);
+
+      expect(series.source).toBe('daily');
+      expect(series.candles).toHaveLength(1);
+      expect(calls[0]).toEqual(['daily', MOCK_BASE_MINT, new Date(WEEK_START * 1000), new Date((JAN_1 + DAY) * 1000)]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'bun:test';
+import { PublicKey } from '@solana/web3.js';
+import { DaoRegistryService } from '../../src/services/daoRegistryService.js';
+import type { DatabaseService, DaoRegistryRecord, RegisteredDao } from '../../src/services/databaseService.js';
+import type { FutarchyService } from '../../src/services/futarchyService.js';
+import type { LaunchpadService } from '../../src/services/launchpadService.js';
+import { createMockDatabaseService, createMockDao, MOCK_DAO_ADDRESS, MOCK_BASE_MINT, MOCK_QUOTE_MINT } from '../helpers/testApp.js';
+
+const OTHER_DAO_ADDRESS = 'So11111111111111111111111111111111111111112';
+const LAUNCH_ADDRESS = '11111111111111111111111111111111';
+
+function registered(daoAddress: string, lastSeen: Date, overrides: Partial<RegisteredDao> = {}): RegisteredDao {
+  return {
+    dao_address: daoAddress,
+    base_mint: MOCK_BASE_MINT,
+    quote_mint: MOCK_QUOTE_MINT,
+    base_decimals: 6,
+    quote_decimals: 6,
+    base_symbol: 'ZKFG',
+    base_name: 'ZKFG',
+    quote_symbol: 'USDC',
+    quote_name: 'USD Coin',
+    treasury_vault_address: null,
+    launch_address: null,
+    version: null,
+    first_seen_at: new Date('2026-01-01T00:00:00Z'),
+    last_seen_at: lastSeen,
+    ...overrides,
+  };
+}
+
+function createRegistry(options: { registry?: RegisteredDao[]; daos?: ReturnType<typeof createMockDao>[] } = {}) {
+  const upserts: { records: DaoRegistryRecord[]; seenAt: Date }[] = [];
+  const launchLookups: string[] = [];
+
+  const databaseService = {
+    ...createMockDatabaseService(),
+    getRegisteredDaos: async () => options.registry ?? [],
+    upsertDaos: async (records: DaoRegistryRecord[], seenAt: Date) => {
+      upserts.push({ records, seenAt });
+      return records.length;
+    },
+  } as unknown as DatabaseService;
+
+  const futarchyService = {
+    getAllDaos: async () => options.daos ?? [createMockDao({ treasuryVaultAddress: OTHER_DAO_ADDRESS })],
+  } as unknown as FutarchyService;
+
+  const launchpadService = {
+    getLaunchByBaseMint: async (baseMint: PublicKey) => {
+      launchLookups.push(baseMint.toString());
+      return { launchAddress: new PublicKey(LAUNCH_ADDRESS), version: 'v0.7' };
+    },
+  } as unknown as LaunchpadService;
+
+  const service = new DaoRegistryService(futarchyService, databaseService, launchpadService);
+  return { service, upserts, launchLookups };
+}
+
+describe('DaoRegistryService', () => {
+  describe('sync', () => {
+    it('should record discovered DAOs with their launch', async () => {
+      const { service, upserts } = createRegistry();
+
+      await service.sync();
+
+      expect(upserts).toHaveLength(1);
+      expect(upserts[0]!.records).toEqual([{
+        dao_address: MOCK_DAO_ADDRESS,
+        base_mint: MOCK_BASE_MINT,
+        quote_mint: MOCK_QUOTE_MINT,
+        base_decimals: 6,
+        quote_decimals: 6,
+        base_symbol: 'ZKFG',
+        base_name: 'ZKFG',
+        quote_symbol: 'USDC',
+        quote_name: 'USD Coin',
+        treasury_vault_address: OTHER_DAO_ADDRESS,
+        launch_address: LAUNCH_ADDRESS,
+        version: 'v0.7',
+      }]);
+      expect(service.getLastSyncTime()).toEqual(upserts[0]!.seenAt);
+    });
+
+    it('should not look up launches already recorded', async () => {
+      const { service, upserts, launchLookups } = createRegistry({
+        registry: [registered(MOCK_DAO_ADDRESS, new Date(), { launch_address: LAUNCH_ADDRESS, version: 'v0.7' })],
+      });
+
+      await service.sync();
+
+      expect(launchLookups).toEqual([]);
+      // Stored launch fields are kept by the upsert's COALESCE
+      expect(upserts[0]!.records[0]!.launch_address).toBeNull();
+    });
+  });
+
+  describe('getActiveDaos', () => {
+    it('should only return DAOs seen by the latest sync', async () => {
+      const latest = new Date('2026-01-02T00:00:00Z');
+      const { service } = createRegistry({
+        registry: [
+          registered(MOCK_DAO_ADDRESS, latest),
+          registered(OTHER_DAO_ADDRESS, new Date('2026-01-01T12:00:00Z')),
+        ],
+      });
+
+      const active = await service.getActiveDaos();
+
+      expect(active.map(dao => dao.dao_address)).toEqual([MOCK_DAO_ADDRESS]);
+      expect(await service.getRegisteredDaos()).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'bun:test';
+import { buildRollingWindowStats, rollingWindowSources, type RollingWindowRow } from '../../src/services/databaseService.js';
+import { MOCK_BASE_MINT } from '../helpers/testApp.js';
+
+const NOW = new Date('2026-01-10T12:05:00Z');
+
+function row(periodStart: string, overrides: Partial<RollingWindowRow> = {}): RollingWindowRow {
+  return {
+    token: MOCK_BASE_MINT,
+    period_start: new Date(periodStart),
+    base_volume: '100',
+    target_volume: '5',
+    high: '0.05',
+    low: '0.05',
+    open: '0.05',
+    close: '0.05',
+    trade_count: 1,
+    ...overrides,
+  };
+}
+
+describe('DatabaseService', () => {
+  describe('rollingWindowSources', () => {
+    it('should read the last day from 10-minute buckets, the week before it from hours and the rest from days', () => {
+      expect(rollingWindowSources(NOW)).toEqual({
+        tenMinuteFrom: new Date('2026-01-09T12:00:00Z'),
+        hourlyFrom: new Date('2026-01-03T00:00:00Z'),
+        dailyFrom: new Date('2025-12-11T00:00:00Z'),
+      });
+    });
+  });
+
+  describe('buildRollingWindowStats', () => {
+    // A day and an hour older than the 25 hours of 10-minute buckets that are kept
+    const rows = [
+      row('2025-12-20T00:00:00Z', { base_volume: '1000', target_volume: '40', high: '0.05', low: '0.03', open: '0.035', close: '0.04', trade_count: 10 }),
+      row('2026-01-08T09:00:00Z', { base_volume: '200', target_volume: '10', high: '0.06', low: '0.045', open: '0.045', close: '0.05', trade_count: 4 }),
+      row('2026-01-10T11:30:00Z', { base_volume: '100', target_volume: '5.5', high: '0.056', low: '0.054', open: '0.054', close: '0.055', trade_count: 2 }),
+    ];
+
+    it('should include stored hours in the 7d window and stored days in the 30d window', () => {
+      const { windows } = buildRollingWindowStats(rows, NOW).get(MOCK_BASE_MINT.toLowerCase())!;
+
+      expect(windows['24h']).toMatchObject({ base_volume: '100.000000000000', trade_count: 2, open: '0.054' });
+      expect(windows['7d']).toEqual({
+        base_volume: '300.000000000000',
+        target_volume: '15.500000000000',
+        high: '0.06',
+        low: '0.045',
+        open: '0.045',
+        close: '0.055',
+        price_change_percentage: '22.22',
+        trade_count: 6,
+      });
+      expect(windows['30d']).toEqual({
+        base_volume: '1300.000000000000',
+        target_volume: '55.500000000000',
+        high: '0.06',
+        low: '0.03',
+        open: '0.035',
+        close: '0.055',
+        price_change_percentage: '57.14',
+        trade_count: 16,
+      });
+    });
+
+    it('should keep the last price for windows without trades', () => {
+      const { windows } = buildRollingWindowStats([rows[0]!, rows[1]!], NOW).get(MOCK_BASE_MINT.toLowerCase())!;
+
+      expect(windows['24h']).toEqual({
+        base_volume: '0.000000000000',
+        target_volume: '0.000000000000',
+        high: '0',
+        low: '0',
+        open: '0.05',
+        close: '0.05',
+        price_change_percentage: '0.00',
+        trade_count: 0,
+      });
+      expect(windows['7d'].base_volume).toBe('200.000000000000');
+    });
+  });
+});
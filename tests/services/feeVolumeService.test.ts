@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'bun:test';
+import BN from 'bn.js';
+import { FeeVolumeService, accruedFees, type FeeSample } from '../../src/services/feeVolumeService.js';
+import { PriceService } from '../../src/services/priceService.js';
+import { createVolumeSources } from '../../src/services/volumeSources.js';
+import type { DaoTickerData, FutarchyService, PoolData } from '../../src/services/futarchyService.js';
+import { createMockDao, MOCK_DAO_ADDRESS, MOCK_BASE_MINT } from '../helpers/testApp.js';
+
+const OPTIONS = { intervalMs: 300_000, feeRate: 0.0025 };
+const HOUR_MS = 60 * 60 * 1000;
+const DAO_KEY = MOCK_DAO_ADDRESS.toLowerCase();
+
+function sample(baseProtocolFees: bigint, quoteProtocolFees: bigint): FeeSample {
+  return { at: new Date(), baseProtocolFees, quoteProtocolFees, price: '0.05' };
+}
+
+/**
+ * Service over one mock DAO (price 0.05, 6/6 decimals) whose pool the test changes between samples
+ */
+function createFeeVolume() {
+  let dao: DaoTickerData = createMockDao();
+  const futarchyService = {
+    getAllDaos: async () => [dao],
+  } as unknown as FutarchyService;
+
+  const service = new FeeVolumeService(futarchyService, new PriceService(), OPTIONS);
+  const setPool = (pool: Partial<Record<keyof PoolData, string>>) => {
+    const poolData = { ...dao.poolData };
+    for (const [key, value] of Object.entries(pool)) {
+      poolData[key as keyof PoolData] = new BN(value);
+    }
+    dao = { ...dao, poolData };
+  };
+  return { service, setPool };
+}
+
+describe('FeeVolumeService', () => {
+  describe('accruedFees', () => {
+    it('should sum fee growth between samples', () => {
+      expect(accruedFees([sample(0n, 0n), sample(10n, 100n), sample(15n, 250n)])).toEqual({ base: 15n, quote: 250n });
+    });
+
+    it('should count a counter that drops as fees accrued since collection', () => {
+      expect(accruedFees([sample(0n, 0n), sample(0n, 250n), sample(0n, 100n), sample(0n, 350n)])).toEqual({ base: 0n, quote: 600n });
+    });
+
+    it('should be zero for fewer than two samples', () => {
+      expect(accruedFees([sample(10n, 10n)])).toEqual({ base: 0n, quote: 0n });
+    });
+  });
+
+  it('should estimate both sides of volume from fee growth', async () => {
+    const { service, setPool } = createFeeVolume();
+    const start = new Date('2026-01-07T12:00:00Z');
+
+    await service.sample(start);
+    // 0.25 USDC of quote fees is 100 USDC of buys, 2.5 base of base fees is 1000 base of sells
+    setPool({ quoteProtocolFees: '250000', baseProtocolFees: '2500000' });
+    await service.sample(new Date(start.getTime() + HOUR_MS));
+
+    expect(service.getRolling24hMetrics([MOCK_DAO_ADDRESS]).get(DAO_KEY)).toEqual({
+      base_volume_24h: '3000.00000000',
+      target_volume_24h: '150.00000000',
+      high_24h: '0.050000000000',
+      low_24h: '0.050000000000',
+    });
+  });
+
+  it('should report zero volume when fees did not grow', async () => {
+    const { service } = createFeeVolume();
+
+    await service.sample(new Date('2026-01-07T12:00:00Z'));
+    await service.sample(new Date('2026-01-07T12:05:00Z'));
+
+    const metrics = service.getRolling24hMetrics([MOCK_DAO_ADDRESS]).get(DAO_KEY);
+    expect(metrics?.base_volume_24h).toBe('0.00000000');
+    expect(metrics?.target_volume_24h).toBe('0.00000000');
+  });
+
+  it('should track high and low from sampled prices', async () => {
+    const { service, setPool } = createFeeVolume();
+
+    await service.sample(new Date('2026-01-07T12:00:00Z'));
+    setPool({ quoteReserves: '60000000000' });
+    await service.sample(new Date('2026-01-07T12:05:00Z'));
+    setPool({ quoteReserves: '40000000000' });
+    await service.sample(new Date('2026-01-07T12:10:00Z'));
+
+    const metrics = service.getRolling24hMetrics([MOCK_DAO_ADDRESS]).get(DAO_KEY);
+    expect(metrics?.high_24h).toBe('0.060000000000');
+    expect(metrics?.low_24h).toBe('0.040000000000');
+  });
+
+  it('should only count fees accrued in the last 24 hours', async () => {
+    const { service, setPool } = createFeeVolume();
+    const start = new Date('2026-01-07T12:00:00Z');
+
+    await service.sample(start);
+    setPool({ quoteProtocolFees: '250000' });
+    await service.sample(new Date(start.getTime() + HOUR_MS));
+    setPool({ quoteProtocolFees: '500000' });
+    await service.sample(new Date(start.getTime() + 25 * HOUR_MS));
+
+    // The first sample fell out of the window, so only the second 0.25 USDC counts
+    expect(service.getRolling24hMetrics([MOCK_DAO_ADDRESS]).get(DAO_KEY)?.target_volume_24h).toBe('100.00000000');
+  });
+
+  it('should leave out DAOs with fewer than two samples', async () => {
+    const { service } = createFeeVolume();
+
+    await service.sample();
+
+    expect(service.isInitialized).toBe(false);
+    expect(service.getRolling24hMetrics([MOCK_DAO_ADDRESS]).size).toBe(0);
+  });
+
+  it('should serve as the fee-delta volume source once two samples exist', async () => {
+    const { service, setPool } = createFeeVolume();
+    const [source] = createVolumeSources({ feeVolumeService: service });
+
+    expect(source!.name).toBe('fee-delta');
+    expect(source!.isAvailable()).toBe(false);
+
+    await service.sample(new Date('2026-01-07T12:00:00Z'));
+    setPool({ quoteProtocolFees: '250000' });
+    await service.sample(new Date('2026-01-07T12:05:00Z'));
+
+    const result = await source!.getMetrics([{ daoAddress: MOCK_DAO_ADDRESS, baseMint: MOCK_BASE_MINT }]);
+    expect(source!.isAvailable()).toBe(true);
+    expect(result.metrics.get(DAO_KEY)?.target_volume_24h).toBe('100.00000000');
+    expect(result.asOf).toEqual(new Date('2026-01-07T12:05:00Z'));
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'bun:test';
+import { PublicKey, type AccountChangeCallback } from '@solana/web3.js';
+import BN from 'bn.js';
+import { PoolWatcherService, type PoolWatcherConnection } from '../../src/services/poolWatcherService.js';
+import type { DaoTickerData, FutarchyService, PoolData } from '../../src/services/futarchyService.js';
+import type { TickerSnapshotService } from '../../src/services/tickerSnapshotService.js';
+import { createMockDao, MOCK_DAO_ADDRESS } from '../helpers/testApp.js';
+
+const OTHER_DAO_ADDRESS = 'DnZnF5fBwTkSRbP3dbrMzD5pHz5sZcbDYTF2Qj9gZWnG';
+const OPTIONS = { resyncIntervalMs: 600_000 };
+
+/**
+ * Account data the stub decoder turns into pool data: the quote reserves as a string
+ */
+function accountData(quoteReserves: string): Buffer {
+  return Buffer.from(quoteReserves);
+}
+
+function createWatcher(initialDaos: DaoTickerData[] = [createMockDao()]) {
+  let daos = initialDaos;
+  const callbacks = new Map<number, { address: string; callback: AccountChangeCallback }>();
+  const removed: number[] = [];
+  const cached: { daoAddress: string; poolData: PoolData }[] = [];
+  const repriced: DaoTickerData[] = [];
+  let nextId = 0;
+
+  const futarchyService = {
+    getAllDaos: async () => daos,
+    decodePoolData: (data: Buffer): PoolData | null => {
+      const quoteReserves = data.toString();
+      if (quoteReserves === '0') return null;
+      return { ...createMockDao().poolData, quoteReserves: new BN(quoteReserves) };
+    },
+    updatePoolData: (daoAddress: PublicKey, poolData: PoolData) => {
+      cached.push({ daoAddress: daoAddress.toString(), poolData });
+    },
+  } as unknown as FutarchyService;
+
+  const tickerSnapshotService = {
+    applyPoolUpdate: async (dao: DaoTickerData) => {
+      repriced.push(dao);
+      return null;
+    },
+  } as unknown as TickerSnapshotService;
+
+  const connection = {
+    onAccountChange: (address: PublicKey, callback: AccountChangeCallback) => {
+      const id = nextId++;
+      callbacks.set(id, { address: address.toString(), callback });
+      return id;
+    },
+    removeAccountChangeListener: async (id: number) => {
+      removed.push(id);
+      callbacks.delete(id);
+    },
+  } as unknown as PoolWatcherConnection;
+
+  /**
+   * Deliver a notification to every subscription on the address
+   */
+  const notify = async (address: string, quoteReserves: string, slot: number) => {
+    for (const { address: subscribed, callback } of callbacks.values()) {
+      if (subscribed !== address) continue;
+      callback(
+        { data: accountData(quoteReserves), executable: false, lamports: 0, owner: PublicKey.default },
+        { slot }
+      );
+    }
+    // Let the async handler finish
+    await new Promise(resolve => setTimeout(resolve, 0));
+  };
+
+  const service = new PoolWatcherService(futarchyService, tickerSnapshotService, connection, OPTIONS);
+  return {
+    service,
+    callbacks,
+    removed,
+    cached,
+    repriced,
+    notify,
+    setDaos: (next: DaoTickerData[]) => {
+      daos = next;
+    },
+  };
+}
+
+describe('PoolWatcherService', () => {
+  it('should subscribe to each DAO once across syncs', async () => {
+    const { service, callbacks } = createWatcher();
+
+    await service.sync();
+    await service.sync();
+
+    expect([...callbacks.values()].map(entry => entry.address)).toEqual([MOCK_DAO_ADDRESS]);
+    expect(service.getStatus()).toMatchObject({ initialized: true, subscriptions: 1 });
+  });
+
+  it('should subscribe to new DAOs and drop ones that are gone', async () => {
+    const { service, callbacks, removed, setDaos } = createWatcher();
+    await service.sync();
+
+    setDaos([createMockDao({ daoAddress: new PublicKey(OTHER_DAO_ADDRESS) })]);
+    await service.sync();
+
+    expect(removed).toEqual([0]);
+    expect([...callbacks.values()].map(entry => entry.address)).toEqual([OTHER_DAO_ADDRESS]);
+  });
+
+  it('should update cached pool data and reprice the ticker on a notification', async () => {
+    const { service, cached, repriced, notify } = createWatcher();
+    await service.sync();
+
+    await notify(MOCK_DAO_ADDRESS, '100000000000', 10);
+
+    expect(cached).toHaveLength(1);
+    expect(cached[0]!.daoAddress).toBe(MOCK_DAO_ADDRESS);
+    expect(repriced).toHaveLength(1);
+    expect(repriced[0]!.poolData.quoteReserves.toString()).toBe('100000000000');
+    expect(repriced[0]!.baseSymbol).toBe('ZKFG');
+    expect(service.getStatus().updatesReceived).toBe(1);
+    expect(service.getStatus().lastUpdateAt).not.toBeNull();
+  });
+
+  it('should ignore notifications older than the last one applied', async () => {
+    const { service, repriced, notify } = createWatcher();
+    await service.sync();
+
+    await notify(MOCK_DAO_ADDRESS, '100000000000', 10);
+    await notify(MOCK_DAO_ADDRESS, '90000000000', 9);
+
+    expect(repriced.map(dao => dao.poolData.quoteReserves.toString())).toEqual(['100000000000']);
+  });
+
+  it('should ignore account data that does not decode to a priced pool', async () => {
+    const { service, cached, repriced, notify } = createWatcher();
+    await service.sync();
+
+    await notify(MOCK_DAO_ADDRESS, '0', 10);
+
+    expect(cached).toEqual([]);
+    expect(repriced).toEqual([]);
+    expect(service.getStatus().updatesReceived).toBe(0);
+  });
+
+  it('should remove every subscription on stop', async () => {
+    const { service, callbacks, removed } = createWatcher([
+      createMockDao(),
+      createMockDao({ daoAddress: new PublicKey(OTHER_DAO_ADDRESS) }),
+    ]);
+    await service.sync();
+
+    service.stop();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(removed).toEqual([0, 1]);
+    expect(callbacks.size).toBe(0);
+    expect(service.getStatus().subscriptions).toBe(0);
+  });
+});
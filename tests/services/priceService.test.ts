@@ -60,6 +60,16 @@ describe('PriceService', () => {
       expect(price).not.toBeNull();
       expect(parseFloat(price!)).toBeCloseTo(0.5, 2);
     });
+
+    it('should handle reserves above 2^53', () => {
+      // 10 billion tokens with 9 decimals against 25 million USDC
+      const baseReserves = new BN('10000000000000000000');
+      const quoteReserves = new BN('25000000000000');
+
+      const price = priceService.calculatePrice(baseReserves, quoteReserves, 9, 6);
+
+      expect(price).toBe('0.002500000000');
+    });
   });
 
   describe('calculateSpread', () => {
@@ -122,6 +132,12 @@ describe('PriceService', () => {
       expect(liquidity).not.toBeNull();
       expect(liquidity).toBe('0.00');
     });
+
+    it('should keep full precision above 2^53', () => {
+      const quoteReserves = new BN('123456789012345678'); // 123,456,789,012.345678 USDC
+
+      expect(priceService.calculateLiquidityUSD(quoteReserves, 6)).toBe('246913578024.69');
+    });
   });
 
   describe('calculateVolumeFromFees', () => {
@@ -175,4 +191,118 @@ describe('PriceService', () => {
       expect(volume!.targetVolume).toBe('0.00000000');
     });
   });
+  describe('calculateOrderBook', () => {
+    // 1,000,000 base against 50,000 quote (both 6 decimals) - mid price 0.05
+    const baseReserves = new BN('1000000000000');
+    const quoteReserves = new BN('50000000000');
+
+    it('should place bids below and asks above mid price', () => {
+      const book = priceService.calculateOrderBook(baseReserves, quoteReserves, 6, 6, 0.005, 10);
+
+      expect(book).not.toBeNull();
+      expect(book!.bids).toHaveLength(10);
+      expect(book!.asks).toHaveLength(10);
+      expect(parseFloat(book!.bids[0]![0])).toBeLessThan(0.05);
+      expect(parseFloat(book!.asks[0]![0])).toBeGreaterThan(0.05);
+    });
+
+    it('should apply the fee to the first level', () => {
+      const book = priceService.calculateOrderBook(baseReserves, quoteReserves, 6, 6, 0.005, 1);
+
+      // Selling 5,000 base: 50,000 * 0.995 * 5,000 / (1,000,000 + 0.995 * 5,000) / 5,000
+      expect(parseFloat(book!.bids[0]![0])).toBeCloseTo(0.0495037, 6);
+      // Buying 5,000 base: 50,000 * 5,000 / (995,000 * 0.995) / 5,000
+      expect(parseFloat(book!.asks[0]![0])).toBeCloseTo(0.0505038, 6);
+      expect(book!.bids[0]![1]).toBe('5000.000000');
+    });
+
+    it('should move prices away from mid as depth increases', () => {
+      const book = priceService.calculateOrderBook(baseReserves, quoteReserves, 6, 6, 0.005, 20);
+
+      for (let i = 1; i < book!.bids.length; i++) {
+        expect(parseFloat(book!.bids[i]![0])).toBeLessThan(parseFloat(book!.bids[i - 1]![0]));
+        expect(parseFloat(book!.asks[i]![0])).toBeGreaterThan(parseFloat(book!.asks[i - 1]![0]));
+      }
+    });
+
+    it('should cap levels at the maximum', () => {
+      const book = priceService.calculateOrderBook(baseReserves, quoteReserves, 6, 6, 0.005, 1000);
+
+      expect(book!.bids).toHaveLength(100);
+      expect(book!.asks).toHaveLength(100);
+    });
+
+    it('should return null for zero reserves', () => {
+      const book = priceService.calculateOrderBook(new BN(0), quoteReserves, 6, 6, 0.005, 10);
+      expect(book).toBeNull();
+    });
+  });
+  describe('calculateBidAsk', () => {
+    // 1,000,000 base against 50,000 quote (both 6 decimals) - mid price 0.05
+    const baseReserves = new BN('1000000000000');
+    const quoteReserves = new BN('50000000000');
+
+    it('should price a reference trade against the curve', () => {
+      const result = priceService.calculateBidAsk(baseReserves, quoteReserves, 6, 6, 0.005, 100);
+
+      expect(result).not.toBeNull();
+      // Sell 2,000 base: 50,000 * 0.995 / (1,000,000 + 0.995 * 2,000)
+      expect(parseFloat(result!.bid)).toBeCloseTo(0.0496512, 6);
+      // Buy with 100 quote: (50,000 + 0.995 * 100) / (1,000,000 * 0.995)
+      expect(parseFloat(result!.ask)).toBeCloseTo(0.0503513, 6);
+    });
+
+    it('should widen with larger reference trades', () => {
+      const small = priceService.calculateBidAsk(baseReserves, quoteReserves, 6, 6, 0.005, 100)!;
+      const large = priceService.calculateBidAsk(baseReserves, quoteReserves, 6, 6, 0.005, 10000)!;
+
+      expect(parseFloat(large.bid)).toBeLessThan(parseFloat(small.bid));
+      expect(parseFloat(large.ask)).toBeGreaterThan(parseFloat(small.ask));
+    });
+
+    it('should tighten for deeper pools', () => {
+      const shallow = priceService.calculateBidAsk(baseReserves, quoteReserves, 6, 6, 0.005, 1000)!;
+      const deep = priceService.calculateBidAsk(
+        baseReserves.muln(10),
+        quoteReserves.muln(10),
+        6,
+        6,
+        0.005,
+        1000
+      )!;
+
+      const shallowSpread = parseFloat(shallow.ask) - parseFloat(shallow.bid);
+      const deepSpread = parseFloat(deep.ask) - parseFloat(deep.bid);
+      expect(deepSpread).toBeLessThan(shallowSpread);
+    });
+
+    it('should return null for zero reserves', () => {
+      expect(priceService.calculateBidAsk(new BN(0), quoteReserves, 6, 6, 0.005, 100)).toBeNull();
+    });
+
+    it('should return null for non-positive reference size', () => {
+      expect(priceService.calculateBidAsk(baseReserves, quoteReserves, 6, 6, 0.005, 0)).toBeNull();
+    });
+
+    it('should quote pools with reserves above 2^53', () => {
+      const result = priceService.calculateBidAsk(
+        new BN('10000000000000000000'),
+        new BN('25000000000000'),
+        9,
+        6,
+        0.005,
+        100
+      );
+
+      expect(result).not.toBeNull();
+      expect(parseFloat(result!.bid)).toBeLessThan(0.0025);
+      expect(parseFloat(result!.ask)).toBeGreaterThan(0.0025);
+    });
+  });
+
+  describe('getReferenceTradeSize', () => {
+    it('should fall back to the default size', () => {
+      expect(priceService.getReferenceTradeSize('5FPGRzY9ArJFwY2Hp2y2eqMzVewyWCBox7esmpuZfCvE')).toBe(100);
+    });
+  });
 });
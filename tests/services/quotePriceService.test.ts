@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'bun:test';
+import BN from 'bn.js';
+import type { Connection } from '@solana/web3.js';
+import {
+  QuotePriceService,
+  PythPriceProvider,
+  decodePythPrice,
+  formatPythPrice,
+  type QuotePriceProvider,
+} from '../../src/services/quotePriceService.js';
+import { PriceService } from '../../src/services/priceService.js';
+import pythSolUsd from '../fixtures/pyth-sol-usd.json';
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const FIXTURE_PUBLISH_TIME = new Date('2026-01-07T12:00:00Z');
+
+function createConnection(data: Buffer | null) {
+  const calls: string[] = [];
+  const connection = {
+    getAccountInfo: async (address: any) => {
+      calls.push(address.toString());
+      return data ? { data } : null;
+    },
+  } as unknown as Pick<Connection, 'getAccountInfo'>;
+  return { connection, calls };
+}
+
+const fixtureData = Buffer.from(pythSolUsd.data, 'base64');
+const NO_MAX_AGE = Number.MAX_SAFE_INTEGER;
+
+describe('QuotePriceService', () => {
+  describe('decodePythPrice', () => {
+    it('should decode the aggregate price from a fixture account', () => {
+      const decoded = decodePythPrice(fixtureData);
+
+      expect(decoded).not.toBeNull();
+      expect(decoded!.price).toBe(15012345678n);
+      expect(decoded!.exponent).toBe(-8);
+      expect(decoded!.status).toBe(1);
+      expect(decoded!.publishTime).toEqual(FIXTURE_PUBLISH_TIME);
+    });
+
+    it('should reject accounts with the wrong magic', () => {
+      const corrupted = Buffer.from(fixtureData);
+      corrupted.writeUInt32LE(0, 0);
+
+      expect(decodePythPrice(corrupted)).toBeNull();
+    });
+
+    it('should reject truncated accounts', () => {
+      expect(decodePythPrice(fixtureData.subarray(0, 100))).toBeNull();
+    });
+  });
+
+  describe('formatPythPrice', () => {
+    it('should apply negative exponents exactly', () => {
+      expect(formatPythPrice(15012345678n, -8)).toBe('150.12345678');
+      expect(formatPythPrice(100000000n, -8)).toBe('1');
+      expect(formatPythPrice(5n, -3)).toBe('0.005');
+    });
+
+    it('should apply non-negative exponents', () => {
+      expect(formatPythPrice(15n, 2)).toBe('1500');
+    });
+  });
+
+  describe('PythPriceProvider', () => {
+    it('should price a configured mint from its price account', async () => {
+      const { connection, calls } = createConnection(fixtureData);
+      const provider = new PythPriceProvider(connection, { [SOL_MINT]: pythSolUsd.account }, NO_MAX_AGE);
+
+      const price = await provider.getUsdPrice(SOL_MINT);
+
+      expect(calls).toEqual([pythSolUsd.account]);
+      expect(price).toEqual({ usdPrice: '150.12345678', source: 'pyth', publishedAt: FIXTURE_PUBLISH_TIME });
+    });
+
+    it('should return null for mints without a feed', async () => {
+      const { connection, calls } = createConnection(fixtureData);
+      const provider = new PythPriceProvider(connection, {}, NO_MAX_AGE);
+
+      expect(await provider.getUsdPrice(SOL_MINT)).toBeNull();
+      expect(calls).toHaveLength(0);
+    });
+
+    it('should reject stale prices', async () => {
+      const { connection } = createConnection(fixtureData);
+      const provider = new PythPriceProvider(connection, { [SOL_MINT]: pythSolUsd.account }, 120);
+
+      expect(await provider.getUsdPrice(SOL_MINT)).toBeNull();
+    });
+
+    it('should reject prices that are not trading', async () => {
+      const halted = Buffer.from(fixtureData);
+      halted.writeUInt32LE(0, 224);
+      const { connection } = createConnection(halted);
+      const provider = new PythPriceProvider(connection, { [SOL_MINT]: pythSolUsd.account }, NO_MAX_AGE);
+
+      expect(await provider.getUsdPrice(SOL_MINT)).toBeNull();
+    });
+  });
+
+  describe('getUsdPrice', () => {
+    it('should price allowlisted stablecoins at $1 without providers', async () => {
+      const service = new QuotePriceService([USDC_MINT], []);
+
+      const price = await service.getUsdPrice(USDC_MINT);
+
+      expect(price).toEqual({ usdPrice: '1', source: 'stablecoin', publishedAt: null });
+    });
+
+    it('should fall through providers in order', async () => {
+      const failing: QuotePriceProvider = {
+        name: 'failing',
+        getUsdPrice: async () => {
+          throw new Error('rpc down');
+        },
+      };
+      const fixed: QuotePriceProvider = {
+        name: 'fixed',
+        getUsdPrice: async () => ({ usdPrice: '150', source: 'fixed', publishedAt: null }),
+      };
+      const service = new QuotePriceService([USDC_MINT], [failing, fixed]);
+
+      expect((await service.getUsdPrice(SOL_MINT))?.source).toBe('fixed');
+    });
+
+    it('should cache provider results', async () => {
+      let calls = 0;
+      const counting: QuotePriceProvider = {
+        name: 'counting',
+        getUsdPrice: async () => {
+          calls++;
+          return { usdPrice: '150', source: 'counting', publishedAt: null };
+        },
+      };
+      const service = new QuotePriceService([], [counting], 60_000);
+
+      await service.getUsdPrices([SOL_MINT, SOL_MINT]);
+      await service.getUsdPrice(SOL_MINT);
+
+      expect(calls).toBe(1);
+    });
+
+    it('should return null when no provider can price the mint', async () => {
+      const service = new QuotePriceService([USDC_MINT], []);
+
+      expect(await service.getUsdPrice(SOL_MINT)).toBeNull();
+    });
+  });
+
+  describe('USD liquidity for a SOL-quoted pool', () => {
+    it('should value quote reserves at the Pyth price', async () => {
+      const { connection } = createConnection(fixtureData);
+      const service = new QuotePriceService(
+        [USDC_MINT],
+        [new PythPriceProvider(connection, { [SOL_MINT]: pythSolUsd.account }, NO_MAX_AGE)]
+      );
+      const price = await service.getUsdPrice(SOL_MINT);
+
+      // 1,000 SOL (9 decimals) on the quote side -> 2 * 1,000 * 150.12345678
+      const liquidity = new PriceService().calculateLiquidityUSD(new BN('1000000000000'), 9, price!.usdPrice);
+
+      expect(liquidity).toBe('300246.91');
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'bun:test';
+import BN from 'bn.js';
+import { ReconciliationService, dayWindow, volumeDiscrepancy } from '../../src/services/reconciliationService.js';
+import { metricsService } from '../../src/services/metricsService.js';
+import type { DatabaseService, ProtocolFeeSnapshotRecord, VolumeReconciliationRecord } from '../../src/services/databaseService.js';
+import type { FutarchyService } from '../../src/services/futarchyService.js';
+import { createMockDatabaseService, createMockDao, MOCK_DAO_ADDRESS, MOCK_BASE_MINT } from '../helpers/testApp.js';
+
+const OPTIONS = { intervalMs: 3_600_000, threshold: 0.05, lookbackDays: 3, feeRate: 0.0025 };
+const NOW = new Date('2026-01-10T00:30:00Z');
+
+function snapshot(at: string, base: string, quote: string): ProtocolFeeSnapshotRecord {
+  return {
+    dao_address: MOCK_DAO_ADDRESS,
+    token: MOCK_BASE_MINT,
+    snapshot_at: new Date(at),
+    base_protocol_fees: base,
+    quote_protocol_fees: quote,
+  };
+}
+
+/**
+ * Service over the mock DAO, with 7.5 base and 0.75 USDC of protocol fees on chain now
+ */
+function createReconciliation(
+  stored: ProtocolFeeSnapshotRecord[],
+  totals: Record<string, { buy_volume: string; sell_volume: string }>,
+  totalsError?: Error
+) {
+  const snapshots = [...stored];
+  const totalsRequests: { token: string; start: string; end: string }[] = [];
+  const upserted: VolumeReconciliationRecord[] = [];
+
+  const databaseService = {
+    ...createMockDatabaseService(),
+    insertProtocolFeeSnapshots: async (records: ProtocolFeeSnapshotRecord[]) => {
+      snapshots.push(...records);
+      return records.length;
+    },
+    getProtocolFeeSnapshots: async (since: Date) => snapshots.filter(s => s.snapshot_at >= since),
+    pruneOldProtocolFeeSnapshots: async () => 0,
+    getTenMinuteBuySellTotals: async (token: string, start: Date, end: Date) => {
+      if (totalsError) throw totalsError;
+      totalsRequests.push({ token, start: start.toISOString(), end: end.toISOString() });
+      return totals[start.toISOString()] ?? { buy_volume: '0', sell_volume: '0' };
+    },
+    upsertVolumeReconciliation: async (records: VolumeReconciliationRecord[]) => {
+      upserted.push(...records);
+      return records.length;
+    },
+  } as unknown as DatabaseService;
+
+  const dao = createMockDao();
+  const futarchyService = {
+    getAllDaos: async () => [{
+      ...dao,
+      poolData: { ...dao.poolData, baseProtocolFees: new BN('7500000'), quoteProtocolFees: new BN('750000') },
+    }],
+  } as unknown as FutarchyService;
+
+  const service = new ReconciliationService(futarchyService, databaseService, OPTIONS);
+  return { service, snapshots, totalsRequests, upserted };
+}
+
+describe('ReconciliationService', () => {
+  describe('volumeDiscrepancy', () => {
+    it('should be the difference relative to the larger volume', () => {
+      expect(volumeDiscrepancy('95', '100')).toBe('0.050000');
+      expect(volumeDiscrepancy('100', '95')).toBe('0.050000');
+      expect(volumeDiscrepancy('0', '10')).toBe('1.000000');
+    });
+
+    it('should be zero when both volumes are zero', () => {
+      expect(volumeDiscrepancy('0', '0.000000000000')).toBe('0.000000');
+    });
+  });
+
+  describe('dayWindow', () => {
+    const snapshots = [
+      snapshot('2026-01-08T00:05:00Z', '0', '0'),
+      snapshot('2026-01-08T12:00:00Z', '1', '1'),
+      snapshot('2026-01-09T00:05:00Z', '2', '2'),
+    ];
+
+    it('should span the day\'s first snapshot through the next day\'s first', () => {
+      expect(dayWindow(snapshots, new Date('2026-01-08T00:00:00Z'))).toEqual(snapshots);
+    });
+
+    it('should be null for a day without snapshots or one that is not closed by a snapshot yet', () => {
+      expect(dayWindow(snapshots, new Date('2026-01-07T00:00:00Z'))).toBeNull();
+      expect(dayWindow(snapshots, new Date('2026-01-09T00:00:00Z'))).toBeNull();
+    });
+  });
+
+  describe('run', () => {
+    const stored = [
+      snapshot('2026-01-08T00:05:00Z', '0', '0'),
+      snapshot('2026-01-08T12:00:00Z', '2.5', '0.25'),
+      snapshot('2026-01-09T00:05:00Z', '5', '0.5'),
+    ];
+    const totals = {
+      // 200 USDC of buys matches, 1900 of 2000 base of sells is within the 5% threshold
+      '2026-01-08T00:00:00.000Z': { buy_volume: '200', sell_volume: '1900' },
+      // Only half the buys the fees imply
+      '2026-01-09T00:00:00.000Z': { buy_volume: '50', sell_volume: '1000' },
+    };
+
+    it('should snapshot the current fee counters in token units', async () => {
+      const { service, snapshots } = createReconciliation(stored, totals);
+
+      await service.run(NOW);
+
+      expect(snapshots[snapshots.length - 1]).toEqual(snapshot(NOW.toISOString(), '7.5', '0.75'));
+    });
+
+    it('should compare stored volume with fee-implied volume per completed day', async () => {
+      const { service, upserted, totalsRequests } = createReconciliation(stored, totals);
+
+      const results = await service.run(NOW);
+
+      expect(results).toEqual(upserted);
+      expect(results).toEqual([
+        {
+          dao_address: MOCK_DAO_ADDRESS,
+          token: MOCK_BASE_MINT,
+          date: '2026-01-08',
+          window_start: new Date('2026-01-08T00:05:00Z'),
+          window_end: new Date('2026-01-09T00:05:00Z'),
+          recorded_buy_volume: '200',
+          implied_buy_volume: '200.000000000000',
+          recorded_sell_volume: '1900',
+          implied_sell_volume: '2000.000000000000',
+          discrepancy: '0.050000',
+          flagged: false,
+        },
+        {
+          dao_address: MOCK_DAO_ADDRESS,
+          token: MOCK_BASE_MINT,
+          date: '2026-01-09',
+          window_start: new Date('2026-01-09T00:05:00Z'),
+          window_end: NOW,
+          recorded_buy_volume: '50',
+          implied_buy_volume: '100.000000000000',
+          recorded_sell_volume: '1000',
+          implied_sell_volume: '1000.000000000000',
+          discrepancy: '0.500000',
+          flagged: true,
+        },
+      ]);
+      // Buckets are aligned to 10 minutes
+      expect(totalsRequests[1]).toEqual({ token: MOCK_BASE_MINT, start: '2026-01-09T00:00:00.000Z', end: '2026-01-10T00:30:00.000Z' });
+    });
+
+    it('should count fees accrued after a collection', async () => {
+      const { service } = createReconciliation([
+        snapshot('2026-01-09T00:05:00Z', '0', '0.5'),
+        // Collected, then 0.1 USDC accrued
+        snapshot('2026-01-09T12:00:00Z', '0', '0.1'),
+      ], {});
+
+      const [result] = await service.run(NOW);
+
+      // 0.1 after the collection plus 0.65 up to now
+      expect(result!.implied_buy_volume).toBe('300.000000000000');
+    });
+
+    it('should fail the run instead of storing results when stored volume cannot be read', async () => {
+      const { service, upserted } = createReconciliation(stored, totals, new Error('connection terminated'));
+
+      await expect(service.run(NOW)).rejects.toThrow('connection terminated');
+
+      expect(upserted).toEqual([]);
+      expect(service.getStatus()).toMatchObject({ initialized: false, lastRunTime: null });
+    });
+
+    it('should export the latest discrepancy per DAO and the flagged count', async () => {
+      const { service } = createReconciliation(stored, totals);
+
+      await service.run(NOW);
+
+      const metrics = await metricsService.getMetrics();
+      expect(metrics).toContain(`futarchy_volume_discrepancy_ratio{dao="${MOCK_DAO_ADDRESS}"} 0.5`);
+      expect(metrics).toContain('futarchy_volume_reconciliation_flagged 1');
+      expect(service.getStatus()).toMatchObject({ initialized: true, lastRunFlaggedCount: 1 });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'bun:test';
+import type { ConfirmedSignatureInfo } from '@solana/web3.js';
+import {
+  SwapIndexerService,
+  aggregateTenMinuteBuckets,
+  type SwapIndexerConnection,
+} from '../../src/services/swapIndexerService.js';
+import type { DatabaseService, TenMinuteVolumeRecord, TradeRecord } from '../../src/services/databaseService.js';
+import type { FutarchyService } from '../../src/services/futarchyService.js';
+import { extractSwapTrades, type DecodedEvent, type EventDecoder, type SwapTransaction } from '../../src/utils/swapEvents.js';
+import { createMockDatabaseService, createMockDao, MOCK_BASE_MINT, MOCK_DAO_ADDRESS, MOCK_QUOTE_MINT } from '../helpers/testApp.js';
+import fixtures from '../fixtures/spot-swap-transactions.json';
+
+const { buyV0, sellLegacy, failed, otherInstruction } = fixtures.transactions as Record<string, SwapTransaction>;
+const FIXTURE_TRANSACTIONS = [buyV0, sellLegacy, failed, otherInstruction];
+
+const MARKETS = new Map([
+  [MOCK_DAO_ADDRESS, { baseMint: MOCK_BASE_MINT, quoteMint: MOCK_QUOTE_MINT, baseDecimals: 6, quoteDecimals: 6 }],
+]);
+// Stands in for the futarchy IDL's event coder, which isn't available without the SDK
+const decodeEvent: EventDecoder = data => (fixtures.events as Record<string, DecodedEvent>)[data.toString('base64')] ?? null;
+const OPTIONS = { intervalMs: 60_000, backfillHours: 24, feeRate: 0.005 };
+const CURSOR_KEY = `swap_indexer_cursor_${MOCK_DAO_ADDRESS}`;
+
+function signatureOf(tx: SwapTransaction): string {
+  return tx.transaction.signatures[0]!;
+}
+
+/**
+ * Signatures newest first, as getSignaturesForAddress returns them
+ */
+function signatureInfos(transactions: SwapTransaction[], blockTime = Math.floor(Date.now() / 1000)): ConfirmedSignatureInfo[] {
+  return transactions
+    .map(tx => ({
+      signature: signatureOf(tx),
+      slot: 0,
+      blockTime,
+      err: tx.meta!.err ? (tx.meta!.err as object) : null,
+      memo: null,
+    }))
+    .reverse();
+}
+
+function createIndexer(options: {
+  signatures?: ConfirmedSignatureInfo[];
+  cursor?: string | null;
+  stored?: TradeRecord[];
+  tradeWriteError?: Error;
+} = {}) {
+  const metadata = new Map<string, string>();
+  if (options.cursor) metadata.set(CURSOR_KEY, options.cursor);
+
+  const stored: TradeRecord[] = [...(options.stored ?? [])];
+  const bucketWrites: { records: TenMinuteVolumeRecord[]; markComplete: boolean; replace: boolean }[] = [];
+  const fetchedSignatures: string[] = [];
+  const signatureRequests: { before?: string; until?: string }[] = [];
+
+  const databaseService = {
+    ...createMockDatabaseService(),
+    getSyncMetadata: async (key: string) => metadata.get(key) ?? null,
+    setSyncMetadata: async (key: string, value: string) => {
+      metadata.set(key, value);
+    },
+    upsertTrades: async (records: TradeRecord[]) => {
+      if (options.tradeWriteError) throw options.tradeWriteError;
+      const known = new Set(stored.map(trade => trade.tx_id));
+      const inserted = records.filter(trade => !known.has(trade.tx_id));
+      stored.push(...inserted);
+      return inserted.length;
+    },
+    getTradesSince: async (since: Date) => stored.filter(trade => new Date(trade.trade_timestamp) >= since),
+    upsertTenMinuteVolumes: async (records: TenMinuteVolumeRecord[], markComplete: boolean, replace: boolean) => {
+      bucketWrites.push({ records, markComplete, replace });
+      return records.length;
+    },
+    getRollingWindowMetrics: async () => new Map(),
+  } as unknown as DatabaseService;
+
+  const futarchyService = {
+    getAllDaos: async () => [createMockDao()],
+    decodeEvent,
+  } as unknown as FutarchyService;
+
+  const bySignature = new Map(FIXTURE_TRANSACTIONS.map(tx => [signatureOf(tx), tx]));
+  const connection = {
+    getSignaturesForAddress: async (_address: unknown, config: { before?: string; until?: string }) => {
+      signatureRequests.push({ before: config.before, until: config.until });
+      const all = options.signatures ?? signatureInfos(FIXTURE_TRANSACTIONS);
+      const start = config.before ? all.findIndex(info => info.signature === config.before) + 1 : 0;
+      const end = config.until ? all.findIndex(info => info.signature === config.until) : all.length;
+      return all.slice(start, end === -1 ? all.length : end);
+    },
+    getTransactions: async (signatures: string[]) => {
+      fetchedSignatures.push(...signatures);
+      return signatures.map(signature => bySignature.get(signature) ?? null);
+    },
+  } as unknown as SwapIndexerConnection;
+
+  const service = new SwapIndexerService(futarchyService, databaseService, connection, OPTIONS);
+  return { service, metadata, stored, bucketWrites, fetchedSignatures, signatureRequests };
+}
+
+describe('SwapIndexerService', () => {
+  describe('aggregateTenMinuteBuckets', () => {
+    const trades = [...extractSwapTrades(buyV0, MARKETS, decodeEvent), ...extractSwapTrades(sellLegacy, MARKETS, decodeEvent)];
+
+    it('should aggregate trades the way the Dune 10-minute query does', () => {
+      expect(aggregateTenMinuteBuckets(trades, OPTIONS.feeRate)).toEqual([{
+        token: MOCK_BASE_MINT,
+        bucket: '2026-01-07T12:00:00.000Z',
+        base_volume: '3500.000000000000',
+        target_volume: '141.500000000000',
+        buy_volume: '100.000000000000',
+        sell_volume: '1000.000000000000',
+        high: '0.041500000000',
+        low: '0.040000000000',
+        open: '0.040000000000',
+        close: '0.041500000000',
+        average_price: '0.040750000000',
+        trade_count: 2,
+        usdc_fees: '0.500000000000',
+        token_fees: '5.000000000000',
+        token_fees_usdc: '0.203750000000',
+        sell_volume_usdc: '40.750000000000',
+      }]);
+    });
+
+    it('should split trades into buckets per token and 10 minutes', () => {
+      const later = { ...trades[1]!, trade_timestamp: '2026-01-07T12:10:00.000Z' };
+      const otherToken = { ...trades[1]!, token: MOCK_DAO_ADDRESS };
+
+      const records = aggregateTenMinuteBuckets([trades[0]!, later, otherToken], OPTIONS.feeRate);
+
+      expect(records.map(record => [record.token, record.bucket, record.trade_count])).toEqual([
+        [MOCK_BASE_MINT, '2026-01-07T12:00:00.000Z', 1],
+        [MOCK_BASE_MINT, '2026-01-07T12:10:00.000Z', 1],
+        [MOCK_DAO_ADDRESS, '2026-01-07T12:00:00.000Z', 1],
+      ]);
+    });
+
+    it('should charge fees at the configured rate', () => {
+      expect(aggregateTenMinuteBuckets(trades, 0.0025)[0]).toMatchObject({
+        usdc_fees: '0.250000000000',
+        token_fees: '2.500000000000',
+        token_fees_usdc: '0.101875000000',
+      });
+    });
+
+    it('should skip trades without a price', () => {
+      expect(aggregateTenMinuteBuckets([{ ...trades[0]!, price: '0.000000000000' }], OPTIONS.feeRate)).toEqual([]);
+    });
+  });
+
+  describe('run', () => {
+    it('should store swaps and rebuild their buckets', async () => {
+      const { service, stored, bucketWrites } = createIndexer();
+
+      expect(await service.run()).toBe(2);
+
+      expect(stored.map(trade => trade.type)).toEqual(['buy', 'sell']);
+      expect(bucketWrites).toHaveLength(1);
+      expect(bucketWrites[0]!.replace).toBe(true);
+      expect(bucketWrites[0]!.records[0]!.trade_count).toBe(2);
+      expect(service.isInitialized).toBe(true);
+      expect(service.getStatus().lastRunTradeCount).toBe(2);
+    });
+
+    it('should only mark the closed buckets it rebuilt complete', async () => {
+      const [buy] = extractSwapTrades(buyV0, MARKETS, decodeEvent);
+      const recent = { ...buy!, tx_id: 'recent', trade_timestamp: new Date().toISOString() };
+      const { service, bucketWrites } = createIndexer({ stored: [recent] });
+
+      await service.run();
+
+      expect(bucketWrites.map(write => [write.records.map(record => record.bucket), write.markComplete])).toEqual([
+        [['2026-01-07T12:00:00.000Z'], true],
+        [[new Date(Math.floor(Date.now() / 600_000) * 600_000).toISOString()], false],
+      ]);
+    });
+
+    it('should not fetch failed transactions', async () => {
+      const { service, fetchedSignatures } = createIndexer();
+
+      await service.run();
+
+      expect(fetchedSignatures).not.toContain(signatureOf(failed));
+      expect(fetchedSignatures).toContain(signatureOf(otherInstruction));
+    });
+
+    it('should save the newest signature and resume from it', async () => {
+      const { service, metadata, signatureRequests } = createIndexer({ cursor: signatureOf(buyV0) });
+
+      expect(await service.run()).toBe(1);
+
+      expect(signatureRequests[0]!.until).toBe(signatureOf(buyV0));
+      expect(metadata.get(CURSOR_KEY)).toBe(signatureOf(otherInstruction));
+    });
+
+    it('should rebuild buckets from every stored trade, not only new ones', async () => {
+      const { service, bucketWrites } = createIndexer({
+        cursor: signatureOf(buyV0),
+        stored: extractSwapTrades(buyV0, MARKETS, decodeEvent),
+      });
+
+      // Only the sell is new, but the bucket also holds the buy stored by an earlier run
+      expect(await service.run()).toBe(1);
+
+      expect(bucketWrites[0]!.records[0]!.trade_count).toBe(2);
+      expect(bucketWrites[0]!.records[0]!.open).toBe('0.040000000000');
+    });
+
+    it('should not index signatures older than the backfill window', async () => {
+      const old = Math.floor(Date.now() / 1000) - 25 * 60 * 60;
+      const { service, fetchedSignatures, stored } = createIndexer({
+        signatures: signatureInfos(FIXTURE_TRANSACTIONS, old),
+      });
+
+      expect(await service.run()).toBe(0);
+
+      expect(fetchedSignatures).toEqual([]);
+      expect(stored).toEqual([]);
+    });
+
+    it('should keep the cursor when the swaps could not be stored', async () => {
+      const { service, metadata, bucketWrites } = createIndexer({
+        cursor: signatureOf(buyV0),
+        tradeWriteError: new Error('connection terminated'),
+      });
+
+      await expect(service.run()).rejects.toThrow('connection terminated');
+
+      expect(metadata.get(CURSOR_KEY)).toBe(signatureOf(buyV0));
+      expect(bucketWrites).toEqual([]);
+      expect(service.getStatus().runInProgress).toBe(false);
+    });
+
+    it('should leave the cursor alone when nothing new was signed', async () => {
+      const { service, metadata } = createIndexer({ signatures: [], cursor: signatureOf(sellLegacy) });
+
+      expect(await service.run()).toBe(0);
+
+      expect(metadata.get(CURSOR_KEY)).toBe(signatureOf(sellLegacy));
+    });
+  });
+});
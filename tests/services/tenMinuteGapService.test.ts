@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { TenMinuteGapService, findGaps } from '../../src/services/tenMinuteGapService.js';
+import { TenMinuteVolumeFetcherService, COVERAGE_KEY } from '../../src/services/tenMinuteVolumeFetcherService.js';
+import type { DuneService } from '../../src/services/duneService.js';
+import type { DatabaseService, TenMinuteBucketState } from '../../src/services/databaseService.js';
+import type { FutarchyService } from '../../src/services/futarchyService.js';
+import { config } from '../../src/config.js';
+import { createMockDatabaseService, createMockDao, MOCK_BASE_MINT } from '../helpers/testApp.js';
+
+const OPTIONS = { intervalMs: 1_800_000, lookbackHours: 24 };
+const OTHER_MINT = 'So11111111111111111111111111111111111111112';
+
+function bucket(token: string, at: string, isComplete = true): TenMinuteBucketState {
+  return { token, bucket: new Date(at), is_complete: isComplete };
+}
+
+/**
+ * Gap service over the mock DAO's stored bucket states and a coverage watermark, recording repairs
+ */
+function createGapService(states: TenMinuteBucketState[], coveredThrough: string | null, refetchError?: Error) {
+  const refetches: { start: string; end: string }[] = [];
+  const hourly: { token: string; hour: string; replace: boolean }[] = [];
+  const daily: { token: string; date: string; replace: boolean }[] = [];
+
+  const fetcher = {
+    refetchRange: async (start: Date, end: Date) => {
+      if (refetchError) throw refetchError;
+      refetches.push({ start: start.toISOString(), end: end.toISOString() });
+      return 4;
+    },
+  } as unknown as TenMinuteVolumeFetcherService;
+  const databaseService = {
+    ...createMockDatabaseService(),
+    getTenMinuteBucketStates: async (start: Date, end: Date) =>
+      states.filter(state => state.bucket >= start && state.bucket < end),
+    getSyncMetadata: async () => coveredThrough,
+    aggregate10MinToHourly: async (token: string, hour: string, replace: boolean) => {
+      hourly.push({ token, hour, replace });
+      return 1;
+    },
+    aggregateHourlyToDaily: async (token: string, date: string, replace: boolean) => {
+      daily.push({ token, date, replace });
+      return 1;
+    },
+  } as unknown as DatabaseService;
+
+  const futarchyService = {
+    getAllDaos: async () => [createMockDao()],
+  } as unknown as FutarchyService;
+
+  const service = new TenMinuteGapService(fetcher, databaseService, futarchyService, OPTIONS);
+  return { service, refetches, hourly, daily };
+}
+
+describe('TenMinuteGapService', () => {
+  describe('findGaps', () => {
+    const windowStart = new Date('2026-01-07T10:00:00Z');
+    const windowEnd = new Date('2026-01-07T11:00:00Z');
+
+    it('should report absent buckets after the coverage watermark as missing, per token', () => {
+      const states = [bucket(MOCK_BASE_MINT, '2026-01-07T10:40:00Z')];
+
+      const gaps = findGaps([MOCK_BASE_MINT, OTHER_MINT], states, windowStart, windowEnd, new Date('2026-01-07T10:30:00Z'));
+
+      expect(gaps).toEqual([
+        { token: MOCK_BASE_MINT, reason: 'missing', start: new Date('2026-01-07T10:30:00Z'), end: new Date('2026-01-07T10:40:00Z'), buckets: 1 },
+        { token: MOCK_BASE_MINT, reason: 'missing', start: new Date('2026-01-07T10:50:00Z'), end: windowEnd, buckets: 1 },
+        { token: OTHER_MINT, reason: 'missing', start: new Date('2026-01-07T10:30:00Z'), end: windowEnd, buckets: 3 },
+      ]);
+    });
+
+    it('should not report absent buckets that were fetched after they closed', () => {
+      expect(findGaps([MOCK_BASE_MINT], [], windowStart, windowEnd, windowEnd)).toEqual([]);
+    });
+
+    it('should report stored buckets that were never completed as stale', () => {
+      const states = [
+        bucket(MOCK_BASE_MINT, '2026-01-07T10:10:00Z', false),
+        bucket(MOCK_BASE_MINT, '2026-01-07T10:20:00Z', false),
+        bucket(MOCK_BASE_MINT, '2026-01-07T10:30:00Z'),
+      ];
+
+      expect(findGaps([MOCK_BASE_MINT], states, windowStart, windowEnd, windowEnd)).toEqual([
+        { token: MOCK_BASE_MINT, reason: 'stale', start: new Date('2026-01-07T10:10:00Z'), end: new Date('2026-01-07T10:30:00Z'), buckets: 2 },
+      ]);
+    });
+
+    it('should treat the whole window as missing without a watermark', () => {
+      expect(findGaps([MOCK_BASE_MINT], [], windowStart, windowEnd, null)).toEqual([
+        { token: MOCK_BASE_MINT, reason: 'missing', start: windowStart, end: windowEnd, buckets: 6 },
+      ]);
+    });
+  });
+
+  describe('run', () => {
+    const NOW = new Date('2026-01-08T00:25:00Z');
+
+    it('should scan closed buckets of the lookback window and do nothing when there are no gaps', async () => {
+      const { service, refetches } = createGapService([], '2026-01-08T00:20:05.000Z');
+
+      const report = await service.run(NOW);
+
+      expect(report.windowStart).toEqual(new Date('2026-01-07T00:20:00Z'));
+      // The last two closed buckets are left to the regular refresh
+      expect(report.windowEnd).toEqual(new Date('2026-01-08T00:00:00Z'));
+      expect(report.gaps).toEqual([]);
+      expect(report.repair).toBeNull();
+      expect(refetches).toEqual([]);
+      expect(service.getStatus()).toMatchObject({ initialized: true, gapCount: 0 });
+    });
+
+    it('should re-fetch the range spanning all gaps and re-aggregate the closed hours and days', async () => {
+      const { service, refetches, hourly, daily } = createGapService(
+        [bucket(MOCK_BASE_MINT, '2026-01-07T22:50:00Z', false)],
+        '2026-01-07T23:40:00.000Z'
+      );
+
+      const report = await service.run(NOW);
+
+      expect(report.gaps.map(gap => gap.reason)).toEqual(['stale', 'missing']);
+      expect(refetches).toEqual([{ start: '2026-01-07T22:50:00.000Z', end: '2026-01-08T00:00:00.000Z' }]);
+      expect(hourly).toEqual([
+        { token: MOCK_BASE_MINT, hour: '2026-01-07T22:00:00.000Z', replace: true },
+        { token: MOCK_BASE_MINT, hour: '2026-01-07T23:00:00.000Z', replace: true },
+      ]);
+      expect(daily).toEqual([{ token: MOCK_BASE_MINT, date: '2026-01-07', replace: true }]);
+      expect(report.repair).toEqual({
+        start: new Date('2026-01-07T22:50:00Z'),
+        end: new Date('2026-01-08T00:00:00Z'),
+        bucketsWritten: 4,
+        hoursReaggregated: 2,
+        daysReaggregated: 1,
+        error: null,
+      });
+    });
+
+    it('should leave the current hour and day to their regular refresh', async () => {
+      const { service, hourly, daily } = createGapService([], '2026-01-08T00:50:00.000Z');
+
+      await service.run(new Date('2026-01-08T01:45:00Z'));
+
+      // Buckets 00:50 to 01:10 are missing; 01:00 is the current hour and 2026-01-08 the current day
+      expect(hourly.map(call => call.hour)).toEqual(['2026-01-08T00:00:00.000Z']);
+      expect(daily).toEqual([]);
+    });
+
+    it('should record a failed re-fetch in the report', async () => {
+      const { service, hourly } = createGapService([], null, new Error('Dune query timed out'));
+
+      const report = await service.run(NOW);
+
+      expect(report.repair?.error).toBe('Dune query timed out');
+      expect(hourly).toEqual([]);
+      expect(service.getLastReport()).toBe(report);
+    });
+
+    describe('with the fetcher', () => {
+      const originalQueryId = config.dune.tenMinuteVolumeQueryId;
+
+      beforeEach(() => {
+        config.dune.tenMinuteVolumeQueryId = 12345;
+      });
+
+      afterEach(() => {
+        config.dune.tenMinuteVolumeQueryId = originalQueryId;
+      });
+
+      it('should keep reporting a gap whose re-fetched buckets could not be stored', async () => {
+        const coveredThrough = '2026-01-07T23:40:00.000Z';
+        const metadata = new Map([[COVERAGE_KEY, coveredThrough]]);
+
+        const duneService = {
+          executeQueryManually: async () => ({
+            rows: [{ token: MOCK_BASE_MINT, bucket: '2026-01-07 23:40:00.000 UTC', base_volume: '1', target_volume: '1', high: '1', low: '1', trade_count: '1' }],
+          }),
+        } as unknown as DuneService;
+        const databaseService = {
+          ...createMockDatabaseService(),
+          getTenMinuteBucketStates: async () => [],
+          getSyncMetadata: async (key: string) => metadata.get(key) ?? null,
+          setSyncMetadata: async (key: string, value: string) => {
+            metadata.set(key, value);
+          },
+          upsertTenMinuteVolumes: async () => {
+            throw new Error('connection terminated');
+          },
+        } as unknown as DatabaseService;
+        const futarchyService = {
+          getAllDaos: async () => [createMockDao()],
+        } as unknown as FutarchyService;
+
+        const fetcher = new TenMinuteVolumeFetcherService(duneService, databaseService, futarchyService);
+        const service = new TenMinuteGapService(fetcher, databaseService, futarchyService, OPTIONS);
+
+        const report = await service.run(NOW);
+
+        expect(report.gaps).toHaveLength(1);
+        expect(report.repair?.error).toBe('connection terminated');
+        expect(metadata.get(COVERAGE_KEY)).toBe(coveredThrough);
+        expect((await service.scan(NOW)).gaps).toEqual(report.gaps);
+      });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { TenMinuteVolumeFetcherService, COVERAGE_KEY } from '../../src/services/tenMinuteVolumeFetcherService.js';
+import type { DuneService } from '../../src/services/duneService.js';
+import type { DatabaseService, TenMinuteVolumeRecord } from '../../src/services/databaseService.js';
+import { config } from '../../src/config.js';
+import { createMockDatabaseService, createMockFutarchyService, MOCK_BASE_MINT } from '../helpers/testApp.js';
+
+describe('TenMinuteVolumeFetcherService', () => {
+  const originalQueryId = config.dune.tenMinuteVolumeQueryId;
+
+  beforeEach(() => {
+    config.dune.tenMinuteVolumeQueryId = 12345;
+  });
+
+  afterEach(() => {
+    config.dune.tenMinuteVolumeQueryId = originalQueryId;
+  });
+
+  it('should store open and close prices from the Dune rows', async () => {
+    const duneService = {
+      executeQueryManually: async () => ({
+        rows: [{
+          token: MOCK_BASE_MINT,
+          bucket: '2026-01-01 00:00:00.000 UTC',
+          base_volume: '100',
+          target_volume: '5',
+          high: '0.06',
+          low: '0.04',
+          open: '0.045',
+          close: '0.055',
+          average_price: '0.05',
+          trade_count: '3',
+        }],
+      }),
+    } as unknown as DuneService;
+
+    const upserted: TenMinuteVolumeRecord[] = [];
+    const databaseService = {
+      ...createMockDatabaseService(),
+      upsertTenMinuteVolumes: async (records: TenMinuteVolumeRecord[]) => {
+        upserted.push(...records);
+        return records.length;
+      },
+      markTenMinuteBucketsComplete: async () => 0,
+    } as unknown as DatabaseService;
+
+    const service = new TenMinuteVolumeFetcherService(duneService, databaseService, createMockFutarchyService());
+    await service.refresh();
+
+    expect(upserted).toHaveLength(1);
+    expect(upserted[0]).toMatchObject({ open: '0.045', close: '0.055', high: '0.06', low: '0.04' });
+  });
+
+  it('should default open and close to 0 for rows from older queries', async () => {
+    const duneService = {
+      executeQueryManually: async () => ({
+        rows: [{ token: MOCK_BASE_MINT, bucket: '2026-01-01 00:00:00.000 UTC', base_volume: '1', target_volume: '1', high: '1', low: '1', trade_count: '1' }],
+      }),
+    } as unknown as DuneService;
+
+    const upserted: TenMinuteVolumeRecord[] = [];
+    const databaseService = {
+      ...createMockDatabaseService(),
+      upsertTenMinuteVolumes: async (records: TenMinuteVolumeRecord[]) => {
+        upserted.push(...records);
+        return records.length;
+      },
+      markTenMinuteBucketsComplete: async () => 0,
+    } as unknown as DatabaseService;
+
+    const service = new TenMinuteVolumeFetcherService(duneService, databaseService, createMockFutarchyService());
+    await service.refresh();
+
+    expect(upserted[0]).toMatchObject({ open: '0', close: '0' });
+  });
+
+  describe('coverage', () => {
+    function createCoverageFetcher(coveredThrough: string | null, stored = true) {
+      const metadata = new Map<string, string>();
+      if (coveredThrough) metadata.set(COVERAGE_KEY, coveredThrough);
+      const queries: Record<string, any>[] = [];
+      const upserts: { count: number; markComplete: boolean; replace: boolean }[] = [];
+
+      const duneService = {
+        executeQueryManually: async (_queryId: number, parameters: Record<string, any>) => {
+          queries.push(parameters);
+          return {
+            rows: [{ token: MOCK_BASE_MINT, bucket: '2026-01-07 10:10:00.000 UTC', base_volume: '1', target_volume: '1', high: '1', low: '1', trade_count: '1' }],
+          };
+        },
+      } as unknown as DuneService;
+      const databaseService = {
+        ...createMockDatabaseService(),
+        upsertTenMinuteVolumes: async (records: TenMinuteVolumeRecord[], markComplete = false, replace = false) => {
+          upserts.push({ count: records.length, markComplete, replace });
+          return stored ? records.length : 0;
+        },
+        markTenMinuteBucketsComplete: async () => 0,
+        getSyncMetadata: async (key: string) => metadata.get(key) ?? null,
+        setSyncMetadata: async (key: string, value: string) => {
+          metadata.set(key, value);
+        },
+      } as unknown as DatabaseService;
+
+      const service = new TenMinuteVolumeFetcherService(duneService, databaseService, createMockFutarchyService());
+      return { service, metadata, queries, upserts };
+    }
+
+    it('should advance the watermark when a refresh starts before it', async () => {
+      const before = Date.now();
+      const { service, metadata } = createCoverageFetcher(new Date(before - 15 * 60 * 1000).toISOString());
+
+      await service.refresh();
+
+      expect(new Date(metadata.get(COVERAGE_KEY)!).getTime()).toBeGreaterThanOrEqual(before);
+    });
+
+    it('should leave the watermark behind a hole from missed runs', async () => {
+      const coveredThrough = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const { service, metadata } = createCoverageFetcher(coveredThrough);
+
+      await service.refresh();
+
+      expect(metadata.get(COVERAGE_KEY)).toBe(coveredThrough);
+    });
+
+    it('should re-fetch a bounded range, replace its buckets and close the hole', async () => {
+      const { service, metadata, queries, upserts } = createCoverageFetcher('2026-01-07T11:00:00.000Z');
+
+      const written = await service.refetchRange(new Date('2026-01-07T10:00:00Z'), new Date('2026-01-07T12:00:00Z'));
+
+      expect(written).toBe(1);
+      expect(queries[0]).toMatchObject({ start_time: '2026-01-07 10:00:00', end_time: '2026-01-07 12:00:00' });
+      expect(upserts).toEqual([{ count: 1, markComplete: true, replace: true }]);
+      expect(metadata.get(COVERAGE_KEY)).toBe('2026-01-07T12:00:00.000Z');
+    });
+
+    it('should not move the watermark past buckets that were not stored', async () => {
+      const coveredThrough = new Date(Date.now() - 15 * 60 * 1000).toISOString();
+      const { service, metadata } = createCoverageFetcher(coveredThrough, false);
+
+      await service.refresh();
+      await expect(
+        service.refetchRange(new Date('2026-01-07T10:00:00Z'), new Date('2026-01-07T12:00:00Z'))
+      ).rejects.toThrow('Stored 0 of 1 10-minute buckets');
+
+      expect(metadata.get(COVERAGE_KEY)).toBe(coveredThrough);
+    });
+  });
+});
@@ -0,0 +1,367 @@
+import { describe, it, expect } from 'bun:test';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { TickerService, diffTickerSnapshots, type TickerSnapshot } from '../../src/services/tickerService.js';
+import { PriceService } from '../../src/services/priceService.js';
+import type { FutarchyService } from '../../src/services/futarchyService.js';
+import type { TenMinuteVolumeFetcherService } from '../../src/services/tenMinuteVolumeFetcherService.js';
+import type { HourlyAggregationService } from '../../src/services/hourlyAggregationService.js';
+import type { DuneCacheService } from '../../src/services/duneCacheService.js';
+import { createVolumeSources, type VolumeSource } from '../../src/services/volumeSources.js';
+import { QuotePriceService } from '../../src/services/quotePriceService.js';
+import type { RollingWindowMetrics } from '../../src/services/databaseService.js';
+import {
+  createMockDatabaseService,
+  createMockDao,
+  MOCK_DAO_ADDRESS,
+  MOCK_BASE_MINT,
+} from '../helpers/testApp.js';
+
+const OTHER_DAO_ADDRESS = 'DnZnF5fBwTkSRbP3dbrMzD5pHz5sZcbDYTF2Qj9gZWnG';
+const OTHER_BASE_MINT = 'METAwkXcqyXKy1AtsSgJ8JiUHwGCafnZL38n3vYmeta';
+
+const futarchyService = {
+  getAllDaos: async () => [createMockDao()],
+} as unknown as FutarchyService;
+
+function createTenMinuteService(lastRefreshTime: string | null, hasData = true) {
+  return {
+    isInitialized: true,
+    isDatabaseConnected: () => true,
+    getRolling24hMetrics: async () => hasData
+      ? new Map([[MOCK_BASE_MINT, { base_volume_24h: 1000, target_volume_24h: 50, high_24h: 0.06, low_24h: 0.04 }]])
+      : new Map(),
+    getStatus: () => ({ lastRefreshTime }),
+  } as unknown as TenMinuteVolumeFetcherService;
+}
+
+function createHourlyService(lastRefreshTime: Date | null) {
+  return {
+    isInitialized: true,
+    isDatabaseConnected: () => true,
+    getRolling24hMetrics: async () => new Map([
+      [MOCK_BASE_MINT, { base_volume_24h: '2000', target_volume_24h: '100', high_24h: '0', low_24h: '0' }],
+    ]),
+    getLastRefreshTime: () => lastRefreshTime,
+  } as unknown as HourlyAggregationService;
+}
+
+function provenanceOf(snapshot: TickerSnapshot) {
+  return snapshot.provenance[snapshot.tickers[0]!.ticker_id]!;
+}
+
+describe('TickerService', () => {
+  it('should build tickers without any volume source', async () => {
+    const service = new TickerService(futarchyService, new PriceService(), createMockDatabaseService());
+
+    const snapshot = await service.getTickerSnapshot();
+
+    expect(snapshot.tickers).toHaveLength(1);
+    expect(snapshot.tickers[0]!.pool_id).toBe(MOCK_DAO_ADDRESS);
+    expect(snapshot.tickers[0]!.base_volume).toBe('0');
+    expect(snapshot.provenance[snapshot.tickers[0]!.ticker_id]).toEqual({ source: 'none', asOf: null, ageMs: null });
+    expect(snapshot.generatedAt).toBeInstanceOf(Date);
+  });
+
+  it('should prefer 10-minute volume and report its age', async () => {
+    const refreshedAt = new Date(Date.now() - 60_000);
+    const service = new TickerService(
+      futarchyService,
+      new PriceService(),
+      createMockDatabaseService(),
+      createVolumeSources({
+        tenMinuteVolumeFetcherService: createTenMinuteService(refreshedAt.toISOString()),
+        hourlyAggregationService: createHourlyService(new Date()),
+      })
+    );
+
+    const snapshot = await service.getTickerSnapshot();
+
+    expect(snapshot.tickers[0]!.base_volume).toBe('1000');
+    expect(snapshot.tickers[0]!.high_24h).toBe('0.06');
+    expect(provenanceOf(snapshot).source).toBe('10-minute');
+    expect(provenanceOf(snapshot).asOf?.getTime()).toBe(refreshedAt.getTime());
+    expect(provenanceOf(snapshot).ageMs).toBeGreaterThanOrEqual(60_000);
+  });
+
+  it('should fall back to hourly volume when 10-minute has no data', async () => {
+    const refreshedAt = new Date(Date.now() - 5_000);
+    const service = new TickerService(
+      futarchyService,
+      new PriceService(),
+      createMockDatabaseService(),
+      createVolumeSources({
+        tenMinuteVolumeFetcherService: createTenMinuteService(null, false),
+        hourlyAggregationService: createHourlyService(refreshedAt),
+      })
+    );
+
+    const snapshot = await service.getTickerSnapshot();
+
+    expect(snapshot.tickers[0]!.base_volume).toBe('2000');
+    expect(snapshot.tickers[0]!.high_24h).toBeUndefined();
+    expect(provenanceOf(snapshot).source).toBe('hourly');
+    expect(provenanceOf(snapshot).asOf).toBe(refreshedAt);
+  });
+
+  it('should fall back to the Dune cache last', async () => {
+    const lastUpdated = new Date(Date.now() - 30_000);
+    const duneCacheService = {
+      getPoolMetrics: () => new Map([
+        [MOCK_DAO_ADDRESS.toLowerCase(), { base_volume_24h: '3000', target_volume_24h: '150', high_24h: '0', low_24h: '0' }],
+      ]),
+      getCacheStatus: () => ({ lastUpdated, cacheAgeMs: 30_000 }),
+    } as unknown as DuneCacheService;
+    const service = new TickerService(
+      futarchyService,
+      new PriceService(),
+      createMockDatabaseService(),
+      createVolumeSources({ duneCacheService })
+    );
+
+    const snapshot = await service.getTickerSnapshot();
+
+    expect(snapshot.tickers[0]!.base_volume).toBe('3000');
+    expect(provenanceOf(snapshot).source).toBe('dune-cache');
+    expect(provenanceOf(snapshot).asOf).toBe(lastUpdated);
+  });
+
+  it('should respect the configured source priority', async () => {
+    const service = new TickerService(
+      futarchyService,
+      new PriceService(),
+      createMockDatabaseService(),
+      createVolumeSources(
+        {
+          tenMinuteVolumeFetcherService: createTenMinuteService(new Date().toISOString()),
+          hourlyAggregationService: createHourlyService(new Date()),
+        },
+        ['hourly', '10-minute']
+      )
+    );
+
+    const snapshot = await service.getTickerSnapshot();
+
+    expect(snapshot.tickers[0]!.base_volume).toBe('2000');
+    expect(provenanceOf(snapshot).source).toBe('hourly');
+  });
+
+  it('should fall back per DAO instead of all-or-nothing', async () => {
+    const otherDao = createMockDao({
+      daoAddress: new PublicKey(OTHER_DAO_ADDRESS),
+      baseMint: new PublicKey(OTHER_BASE_MINT),
+    });
+    const twoDaos = {
+      getAllDaos: async () => [createMockDao(), otherDao],
+    } as unknown as FutarchyService;
+
+    const lookedUp: string[][] = [];
+    const primary: VolumeSource = {
+      name: '10-minute',
+      isAvailable: () => true,
+      getMetrics: async (lookups) => {
+        lookedUp.push(lookups.map(lookup => lookup.daoAddress));
+        return {
+          metrics: new Map([[MOCK_DAO_ADDRESS.toLowerCase(), { base_volume_24h: '1000', target_volume_24h: '50', high_24h: '0', low_24h: '0' }]]),
+          asOf: null,
+        };
+      },
+    };
+    const secondary: VolumeSource = {
+      name: 'dune-cache',
+      isAvailable: () => true,
+      getMetrics: async (lookups) => {
+        lookedUp.push(lookups.map(lookup => lookup.daoAddress));
+        return {
+          metrics: new Map([[OTHER_DAO_ADDRESS.toLowerCase(), { base_volume_24h: '7', target_volume_24h: '1', high_24h: '0', low_24h: '0' }]]),
+          asOf: null,
+        };
+      },
+    };
+
+    const service = new TickerService(twoDaos, new PriceService(), createMockDatabaseService(), [primary, secondary]);
+    const snapshot = await service.getTickerSnapshot();
+
+    expect(lookedUp[1]).toEqual([OTHER_DAO_ADDRESS]);
+    const [first, second] = snapshot.tickers;
+    expect(first!.base_volume).toBe('1000');
+    expect(second!.base_volume).toBe('7');
+    expect(snapshot.provenance[first!.ticker_id]!.source).toBe('10-minute');
+    expect(snapshot.provenance[second!.ticker_id]!.source).toBe('dune-cache');
+  });
+
+  it('should skip sources that throw', async () => {
+    const failing: VolumeSource = {
+      name: '10-minute',
+      isAvailable: () => true,
+      getMetrics: async () => {
+        throw new Error('database gone');
+      },
+    };
+
+    const service = new TickerService(futarchyService, new PriceService(), createMockDatabaseService(), [failing]);
+    const snapshot = await service.getTickerSnapshot();
+
+    expect(snapshot.tickers).toHaveLength(1);
+    expect(provenanceOf(snapshot).source).toBe('none');
+  });
+
+  it('should only look up volume for DAOs matching the query', async () => {
+    const twoDaos = {
+      getAllDaos: async () => [
+        createMockDao(),
+        createMockDao({ daoAddress: new PublicKey(OTHER_DAO_ADDRESS), baseMint: new PublicKey(OTHER_BASE_MINT) }),
+      ],
+    } as unknown as FutarchyService;
+    const lookedUp: string[] = [];
+    const source: VolumeSource = {
+      name: '10-minute',
+      isAvailable: () => true,
+      getMetrics: async (lookups) => {
+        lookedUp.push(...lookups.map(lookup => lookup.daoAddress));
+        return { metrics: new Map(), asOf: null };
+      },
+    };
+    const service = new TickerService(twoDaos, new PriceService(), createMockDatabaseService(), [source]);
+
+    const ticker = await service.getTicker(`${OTHER_BASE_MINT}_${createMockDao().quoteMint.toString()}`);
+
+    expect(ticker?.pool_id).toBe(OTHER_DAO_ADDRESS);
+    expect(lookedUp).toEqual([OTHER_DAO_ADDRESS]);
+  });
+
+  describe('quote pricing', () => {
+    const SOL_MINT = 'So11111111111111111111111111111111111111112';
+    const solQuoted = {
+      getAllDaos: async () => [createMockDao({ quoteMint: new PublicKey(SOL_MINT), quoteDecimals: 9 })],
+    } as unknown as FutarchyService;
+
+    it('should value liquidity and volume with the quote USD price', async () => {
+      const quotePriceService = new QuotePriceService([], [{
+        name: 'fixed',
+        getUsdPrice: async () => ({ usdPrice: '150', source: 'fixed', publishedAt: null }),
+      }]);
+      const volume: VolumeSource = {
+        name: '10-minute',
+        isAvailable: () => true,
+        getMetrics: async () => ({
+          metrics: new Map([[MOCK_DAO_ADDRESS.toLowerCase(), { base_volume_24h: '100', target_volume_24h: '2.5', high_24h: '0', low_24h: '0' }]]),
+          asOf: null,
+        }),
+      };
+      const service = new TickerService(solQuoted, new PriceService(), createMockDatabaseService(), [volume], quotePriceService);
+
+      const [ticker] = await service.getTickers();
+
+      // 50,000,000,000 lamports = 50 SOL on the quote side
+      expect(ticker!.liquidity_in_usd).toBe('15000.00');
+      expect(ticker!.target_volume_usd).toBe('375.00');
+    });
+
+    it('should fail the snapshot instead of dropping DAOs whose quote mint has no USD price', async () => {
+      const service = new TickerService(
+        solQuoted,
+        new PriceService(),
+        createMockDatabaseService(),
+        [],
+        new QuotePriceService([], [])
+      );
+
+      await expect(service.getTickerSnapshot()).rejects.toThrow(`No USD price for quote mint ${SOL_MINT}`);
+    });
+  });
+
+  describe('rolling windows', () => {
+    const window = (overrides: Partial<RollingWindowMetrics> = {}): RollingWindowMetrics => ({
+      base_volume: '100',
+      target_volume: '5',
+      high: '0.06',
+      low: '0.04',
+      open: '0.04',
+      close: '0.05',
+      price_change_percentage: '25.00',
+      trade_count: 3,
+      ...overrides,
+    });
+
+    it('should add 1h/7d/30d volume and price change from sources that track them', async () => {
+      const source: VolumeSource = {
+        name: '10-minute',
+        isAvailable: () => true,
+        getMetrics: async () => ({
+          metrics: new Map([[MOCK_DAO_ADDRESS.toLowerCase(), {
+            base_volume_24h: '100',
+            target_volume_24h: '5',
+            high_24h: '0.06',
+            low_24h: '0.04',
+            windows: {
+              '1h': window({ base_volume: '10', target_volume: '0.5', price_change_percentage: null }),
+              '24h': window(),
+              '7d': window({ base_volume: '700', target_volume: '35', price_change_percentage: '-10.00' }),
+              '30d': window({ base_volume: '3000', target_volume: '150' }),
+            },
+          }]]),
+          asOf: null,
+        }),
+      };
+      const service = new TickerService(futarchyService, new PriceService(), createMockDatabaseService(), [source]);
+
+      const snapshot = await service.getTickerSnapshot();
+      const [ticker] = snapshot.tickers;
+
+      expect(ticker!.price_change_percentage_24h).toBe('25.00');
+      expect(ticker!.price_change_percentage_7d).toBe('-10.00');
+      expect(ticker!.price_change_percentage_1h).toBeUndefined();
+      expect(ticker!.base_volume_1h).toBe('10');
+      expect(ticker!.target_volume_7d).toBe('35');
+      expect(ticker!.target_volume_30d).toBe('150');
+      expect(snapshot.windows[ticker!.ticker_id]!['24h'].close).toBe('0.05');
+    });
+
+    it('should omit window fields when the source has none', async () => {
+      const service = new TickerService(
+        futarchyService,
+        new PriceService(),
+        createMockDatabaseService(),
+        createVolumeSources({ hourlyAggregationService: createHourlyService(new Date()) })
+      );
+
+      const snapshot = await service.getTickerSnapshot();
+
+      expect(snapshot.tickers[0]!.price_change_percentage_24h).toBeUndefined();
+      expect(snapshot.windows).toEqual({});
+    });
+  });
+
+  describe('live updates', () => {
+    it('should reprice a ticker from new reserves and keep its volume', async () => {
+      const service = new TickerService(futarchyService, new PriceService(), createMockDatabaseService());
+      const [ticker] = await service.getTickers();
+
+      const repriced = await service.repriceTicker(
+        { ...ticker!, base_volume: '1234' },
+        createMockDao({ poolData: { ...createMockDao().poolData, quoteReserves: new BN('100000000000') } })
+      );
+
+      expect(parseFloat(ticker!.last_price)).toBeCloseTo(0.05);
+      expect(parseFloat(repriced!.last_price)).toBeCloseTo(0.1);
+      expect(parseFloat(repriced!.liquidity_in_usd)).toBeCloseTo(200_000);
+      expect(repriced!.base_volume).toBe('1234');
+    });
+
+    it('should diff snapshots into updated and removed tickers', async () => {
+      const service = new TickerService(futarchyService, new PriceService(), createMockDatabaseService());
+      const previous = await service.getTickerSnapshot();
+      const [ticker] = previous.tickers;
+      const removed = { ...ticker!, ticker_id: 'gone' };
+      const changed = { ...ticker!, last_price: '0.06' };
+
+      expect(diffTickerSnapshots({ ...previous, tickers: [ticker!, removed] }, { ...previous, tickers: [changed] })).toEqual({
+        updated: [changed],
+        removed: ['gone'],
+      });
+      expect(diffTickerSnapshots(previous, previous)).toEqual({ updated: [], removed: [] });
+      expect(diffTickerSnapshots(null, previous).updated).toEqual(previous.tickers);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import { describe, it, expect } from 'bun:test';
+import { TickerSnapshotService } from '../../src/services/tickerSnapshotService.js';
+import type { TickerService, TickerSnapshot } from '../../src/services/tickerService.js';
+import type { DatabaseService } from '../../src/services/databaseService.js';
+import type { DaoTickerData } from '../../src/services/futarchyService.js';
+import type { CoinGeckoTicker } from '../../src/types/coingecko.js';
+import { MOCK_DAO_ADDRESS } from '../helpers/testApp.js';
+
+const OTHER_DAO_ADDRESS = 'DnZnF5fBwTkSRbP3dbrMzD5pHz5sZcbDYTF2Qj9gZWnG';
+
+function ticker(poolId: string, overrides: Partial<CoinGeckoTicker> = {}): CoinGeckoTicker {
+  return {
+    ticker_id: `${poolId}_quote`,
+    base_currency: `${poolId}_base`,
+    target_currency: 'quote',
+    pool_id: poolId,
+    last_price: '1',
+    base_volume: '0',
+    target_volume: '0',
+    liquidity_in_usd: '100',
+    bid: '0.99',
+    ask: '1.01',
+    ...overrides,
+  };
+}
+
+function snapshotAt(generatedAt: Date, tickers = [ticker(MOCK_DAO_ADDRESS), ticker(OTHER_DAO_ADDRESS)]): TickerSnapshot {
+  return {
+    tickers,
+    provenance: Object.fromEntries(tickers.map(t => [t.ticker_id, { source: 'none' as const, asOf: null, ageMs: null }])),
+    windows: {},
+    generatedAt,
+  };
+}
+
+/**
+ * TickerService stub whose builds are controlled by the test
+ */
+function createTickerService(
+  build: () => Promise<TickerSnapshot>,
+  reprice: (ticker: CoinGeckoTicker) => Promise<CoinGeckoTicker | null> = async t => ({ ...t, last_price: '2' })
+) {
+  let builds = 0;
+  const tickerService = {
+    getTickerSnapshot: async () => {
+      builds++;
+      return build();
+    },
+    repriceTicker: reprice,
+  } as unknown as TickerService;
+  return { tickerService, builds: () => builds };
+}
+
+/**
+ * DatabaseService stub holding a stored snapshot and recording saves
+ */
+function createDatabase(stored: TickerSnapshot | null) {
+  const saved: TickerSnapshot[] = [];
+  const databaseService = {
+    isAvailable: () => true,
+    getLastKnownTickers: async () => stored,
+    saveLastKnownTickers: async (snapshot: TickerSnapshot) => {
+      saved.push(snapshot);
+    },
+  } as unknown as DatabaseService;
+  return { databaseService, saved: () => saved };
+}
+
+/**
+ * DAO whose ticker_id matches ticker(poolId)
+ */
+function daoFor(poolId: string): DaoTickerData {
+  return {
+    baseMint: { toString: () => poolId },
+    quoteMint: { toString: () => 'quote' },
+  } as unknown as DaoTickerData;
+}
+
+const OPTIONS = { refreshIntervalMs: 10_000, maxStalenessMs: 60_000 };
+
+describe('TickerSnapshotService', () => {
+  it('should build on first request and share one build between concurrent callers', async () => {
+    const { tickerService, builds } = createTickerService(async () => snapshotAt(new Date()));
+    const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+
+    const [a, b] = await Promise.all([service.getSnapshot(), service.getSnapshot()]);
+
+    expect(builds()).toBe(1);
+    expect(a.tickers).toHaveLength(2);
+    expect(b.tickers).toHaveLength(2);
+  });
+
+  it('should serve a fresh snapshot without rebuilding', async () => {
+    const { tickerService, builds } = createTickerService(async () => snapshotAt(new Date()));
+    const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+
+    await service.getSnapshot();
+    await service.getSnapshot();
+
+    expect(builds()).toBe(1);
+  });
+
+  it('should serve a stale snapshot immediately and revalidate in the background', async () => {
+    let generatedAt = new Date(Date.now() - 30_000);
+    const { tickerService, builds } = createTickerService(async () => snapshotAt(generatedAt));
+    const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+    await service.refresh();
+
+    generatedAt = new Date();
+    const served = await service.getSnapshot();
+
+    expect(Date.now() - served.generatedAt.getTime()).toBeGreaterThanOrEqual(30_000);
+    expect(builds()).toBe(2);
+    await service.refresh();
+    expect(service.getStatus().ageMs).toBeLessThan(10_000);
+  });
+
+  it('should keep serving the last good snapshot when a refresh fails', async () => {
+    let fail = false;
+    const { tickerService } = createTickerService(async () => {
+      if (fail) throw new Error('RPC down');
+      return snapshotAt(new Date(Date.now() - 30_000));
+    });
+    const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+    await service.refresh();
+
+    fail = true;
+    await expect(service.refresh()).rejects.toThrow('RPC down');
+    const served = await service.getSnapshot();
+
+    expect(served.tickers).toHaveLength(2);
+    expect(served.stale).toBe(true);
+    expect(served.tickers.every(t => t.stale === true)).toBe(true);
+    expect(service.getStatus().lastRefreshError).toBe('RPC down');
+    expect(service.getStatus().stale).toBe(true);
+  });
+
+  it('should wait for a rebuild beyond the maximum staleness', async () => {
+    let generatedAt = new Date(Date.now() - 120_000);
+    const { tickerService, builds } = createTickerService(async () => snapshotAt(generatedAt));
+    const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+    await service.refresh();
+
+    generatedAt = new Date();
+    const served = await service.getSnapshot();
+
+    expect(builds()).toBe(2);
+    expect(served.generatedAt).toBe(generatedAt);
+    expect(served.stale).toBeUndefined();
+  });
+
+  it('should serve the last good snapshot as stale when a rebuild beyond the maximum staleness fails', async () => {
+    let fail = false;
+    const { tickerService } = createTickerService(async () => {
+      if (fail) throw new Error('RPC down');
+      return snapshotAt(new Date(Date.now() - 120_000));
+    });
+    const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+    await service.refresh();
+
+    fail = true;
+    const served = await service.getSnapshot();
+
+    expect(served.stale).toBe(true);
+    expect(served.tickers).toHaveLength(2);
+  });
+
+  it('should clear the stale marker once a rebuild succeeds', async () => {
+    let fail = true;
+    const { tickerService } = createTickerService(async () => {
+      if (fail) throw new Error('RPC down');
+      return snapshotAt(new Date());
+    });
+    const database = createDatabase(snapshotAt(new Date(Date.now() - 120_000)));
+    const service = new TickerSnapshotService(tickerService, database.databaseService, OPTIONS);
+
+    expect((await service.getSnapshot()).stale).toBe(true);
+
+    fail = false;
+    await service.refresh();
+    const served = await service.getSnapshot();
+
+    expect(served.stale).toBeUndefined();
+    expect(served.tickers[0]!.stale).toBeUndefined();
+  });
+
+  it('should persist every successful rebuild', async () => {
+    const { tickerService } = createTickerService(async () => snapshotAt(new Date()));
+    const database = createDatabase(null);
+    const service = new TickerSnapshotService(tickerService, database.databaseService, OPTIONS);
+
+    const built = await service.refresh();
+
+    expect(database.saved()).toEqual([built]);
+  });
+
+  it('should load the last known good snapshot at boot and serve it while RPC is down', async () => {
+    const { tickerService } = createTickerService(async () => {
+      throw new Error('RPC down');
+    });
+    const stored = snapshotAt(new Date(Date.now() - 3_600_000));
+    const database = createDatabase(stored);
+    const service = new TickerSnapshotService(tickerService, database.databaseService, OPTIONS);
+
+    await service.loadLastKnownGood();
+    const served = await service.getSnapshot(undefined, { dao: OTHER_DAO_ADDRESS });
+
+    expect(served.stale).toBe(true);
+    expect(served.generatedAt).toBe(stored.generatedAt);
+    expect(served.tickers.map(t => t.pool_id)).toEqual([OTHER_DAO_ADDRESS]);
+  });
+
+  it('should not replace a newer in-memory snapshot with the stored one', async () => {
+    const { tickerService } = createTickerService(async () => snapshotAt(new Date()));
+    const database = createDatabase(snapshotAt(new Date(Date.now() - 3_600_000)));
+    const service = new TickerSnapshotService(tickerService, database.databaseService, OPTIONS);
+
+    const built = await service.refresh();
+    const loaded = await service.loadLastKnownGood();
+
+    expect(loaded).toBe(built);
+  });
+
+  it('should fail when rebuilding fails and there is no snapshot anywhere', async () => {
+    const { tickerService } = createTickerService(async () => {
+      throw new Error('RPC down');
+    });
+    const service = new TickerSnapshotService(tickerService, createDatabase(null).databaseService, OPTIONS);
+
+    await expect(service.getSnapshot()).rejects.toThrow('RPC down');
+  });
+
+  it('should answer filtered queries from the full snapshot', async () => {
+    const { tickerService, builds } = createTickerService(async () => snapshotAt(new Date(), [
+      ticker(MOCK_DAO_ADDRESS, { base_symbol: 'ZKFG' }),
+      ticker(OTHER_DAO_ADDRESS, { base_symbol: 'META', liquidity_in_usd: '500' }),
+    ]));
+    const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+
+    const byDao = await service.getSnapshot(undefined, { dao: OTHER_DAO_ADDRESS });
+    const bySymbol = await service.getSnapshot(undefined, { symbol: 'zkfg' });
+    const byLiquidity = await service.getSnapshot(undefined, { minLiquidityUsd: 200 });
+
+    expect(byDao.tickers.map(t => t.pool_id)).toEqual([OTHER_DAO_ADDRESS]);
+    expect(Object.keys(byDao.provenance)).toEqual([`${OTHER_DAO_ADDRESS}_quote`]);
+    expect(bySymbol.tickers.map(t => t.pool_id)).toEqual([MOCK_DAO_ADDRESS]);
+    expect(byLiquidity.tickers.map(t => t.pool_id)).toEqual([OTHER_DAO_ADDRESS]);
+    expect(builds()).toBe(1);
+  });
+
+  describe('applyPoolUpdate', () => {
+    it('should reprice only the DAO\'s ticker and keep generatedAt', async () => {
+      const generatedAt = new Date();
+      const { tickerService } = createTickerService(async () => snapshotAt(generatedAt));
+      const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+      await service.getSnapshot();
+
+      const updated = await service.applyPoolUpdate(daoFor(OTHER_DAO_ADDRESS));
+      const snapshot = await service.getSnapshot();
+
+      expect(updated?.last_price).toBe('2');
+      expect(snapshot.tickers.map(t => t.last_price)).toEqual(['1', '2']);
+      expect(snapshot.generatedAt).toBe(generatedAt);
+    });
+
+    it('should ignore DAOs without a ticker and reserves that can\'t be priced', async () => {
+      const { tickerService } = createTickerService(async () => snapshotAt(new Date()), async () => null);
+      const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+      await service.getSnapshot();
+      const published: TickerSnapshot[] = [];
+      service.subscribe((_previous, next) => published.push(next));
+
+      expect(await service.applyPoolUpdate(daoFor('unknown'))).toBeNull();
+      expect(await service.applyPoolUpdate(daoFor(MOCK_DAO_ADDRESS))).toBeNull();
+      expect(published).toEqual([]);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should pass subscribers the previous and next snapshot on rebuilds and pool updates', async () => {
+      const { tickerService } = createTickerService(async () => snapshotAt(new Date()));
+      const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+      const calls: [TickerSnapshot | null, TickerSnapshot][] = [];
+      const unsubscribe = service.subscribe((previous, next) => calls.push([previous, next]));
+
+      await service.getSnapshot();
+      await service.applyPoolUpdate(daoFor(MOCK_DAO_ADDRESS));
+
+      expect(calls).toHaveLength(2);
+      expect(calls[0]![0]).toBeNull();
+      expect(calls[1]![0]).toBe(calls[0]![1]);
+      expect(calls[1]![1].tickers[0]!.last_price).toBe('2');
+      expect(service.getStatus().subscribers).toBe(1);
+
+      unsubscribe();
+      await service.refresh();
+
+      expect(calls).toHaveLength(2);
+      expect(service.getStatus().subscribers).toBe(0);
+    });
+
+    it('should keep publishing when a subscriber throws', async () => {
+      const { tickerService } = createTickerService(async () => snapshotAt(new Date()));
+      const service = new TickerSnapshotService(tickerService, null, OPTIONS);
+      let received = 0;
+      service.subscribe(() => {
+        throw new Error('subscriber failed');
+      });
+      service.subscribe(() => received++);
+
+      const snapshot = await service.getSnapshot();
+
+      expect(snapshot.tickers).toHaveLength(2);
+      expect(received).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { TradeFetcherService } from '../../src/services/tradeFetcherService.js';
+import type { DuneService } from '../../src/services/duneService.js';
+import type { DatabaseService, TradeRecord } from '../../src/services/databaseService.js';
+import type { FutarchyService } from '../../src/services/futarchyService.js';
+import { config } from '../../src/config.js';
+import { createMockDatabaseService, createMockDao, MOCK_BASE_MINT } from '../helpers/testApp.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toDuneTimestamp(ms: number): string {
+  return new Date(ms).toISOString().replace('T', ' ').replace('Z', '').slice(0, 19);
+}
+
+/**
+ * Fetcher over the mock DAO whose latest stored trade is `latestTrade`, recording Dune queries and stored batches
+ */
+function createFetcher(latestTrade: string | null, queryError?: Error) {
+  const queries: Record<string, any>[] = [];
+  const stored: TradeRecord[][] = [];
+
+  const duneService = {
+    executeQueryManually: async (_queryId: number, parameters: Record<string, any>) => {
+      if (queryError && queries.length > 0) throw queryError;
+      queries.push(parameters);
+      return {
+        rows: [{
+          tx_id: `tx-${queries.length}`,
+          token: MOCK_BASE_MINT,
+          quote_mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+          block_time: parameters.start_time,
+          swap_type: 'buy',
+          price: '0.05',
+          base_volume: '100',
+          target_volume: '5',
+        }],
+      };
+    },
+  } as unknown as DuneService;
+  const databaseService = {
+    ...createMockDatabaseService(),
+    getLatestTradeTimestamp: async () => latestTrade,
+    upsertTrades: async (records: TradeRecord[]) => {
+      stored.push(records);
+      return records.length;
+    },
+  } as unknown as DatabaseService;
+  const futarchyService = {
+    getAllDaos: async () => [createMockDao()],
+  } as unknown as FutarchyService;
+
+  const fetcher = new TradeFetcherService(duneService, databaseService, futarchyService);
+  return { fetcher, queries, stored };
+}
+
+describe('TradeFetcherService', () => {
+  const originalQueryId = config.dune.tradesQueryId;
+
+  beforeEach(() => {
+    config.dune.tradesQueryId = 12345;
+  });
+
+  afterEach(() => {
+    config.dune.tradesQueryId = originalQueryId;
+  });
+
+  describe('refresh', () => {
+    it('should fetch since the latest stored trade with overlap', async () => {
+      const latest = Date.now() - HOUR_MS;
+      const { fetcher, queries } = createFetcher(new Date(latest).toISOString());
+
+      await fetcher.refresh();
+
+      expect(queries).toEqual([{
+        start_time: toDuneTimestamp(latest - 20 * 60 * 1000),
+        end_time: '2099-12-31 23:59:59',
+        token_list: `'${MOCK_BASE_MINT}'`,
+      }]);
+    });
+
+    it('should catch up on a long outage in bounded windows, oldest first', async () => {
+      const start = Date.now() - 70 * HOUR_MS;
+      const { fetcher, queries, stored } = createFetcher(new Date(start + 20 * 60 * 1000).toISOString());
+
+      await fetcher.refresh();
+
+      expect(queries.map(query => [query.start_time, query.end_time])).toEqual([
+        [toDuneTimestamp(start), toDuneTimestamp(start + 24 * HOUR_MS)],
+        [toDuneTimestamp(start + 24 * HOUR_MS), toDuneTimestamp(start + 48 * HOUR_MS)],
+        [toDuneTimestamp(start + 48 * HOUR_MS), '2099-12-31 23:59:59'],
+      ]);
+      expect(stored).toHaveLength(3);
+    });
+
+    it('should keep the windows stored before a failed query', async () => {
+      const start = Date.now() - 70 * HOUR_MS;
+      const { fetcher, queries, stored } = createFetcher(new Date(start + 20 * 60 * 1000).toISOString(), new Error('Dune query timed out'));
+
+      await fetcher.refresh();
+
+      expect(queries).toHaveLength(1);
+      expect(stored.map(records => records.map(record => record.tx_id))).toEqual([['tx-1']]);
+      expect(fetcher.getStatus().lastRefreshTime).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'bun:test';
+import { utils } from '@coral-xyz/anchor';
+import {
+  decodeSpotSwapEvent,
+  extractSwapTrades,
+  type DecodedEvent,
+  type EventDecoder,
+  type SwapMarkets,
+  type SwapTransaction,
+} from '../src/utils/swapEvents.js';
+import { MOCK_BASE_MINT, MOCK_DAO_ADDRESS, MOCK_QUOTE_MINT } from './helpers/testApp.js';
+import fixtures from './fixtures/spot-swap-transactions.json';
+
+const { buyV0, sellLegacy, failed, otherInstruction } = fixtures.transactions as Record<string, SwapTransaction>;
+
+const MARKETS: SwapMarkets = new Map([
+  [MOCK_DAO_ADDRESS, { baseMint: MOCK_BASE_MINT, quoteMint: MOCK_QUOTE_MINT, baseDecimals: 6, quoteDecimals: 6 }],
+]);
+
+// Stands in for the futarchy IDL's event coder, which isn't available without the SDK
+const decodeEvent: EventDecoder = data => (fixtures.events as Record<string, DecodedEvent>)[data.toString('base64')] ?? null;
+
+function eventData(tx: SwapTransaction): Buffer {
+  const instructions = tx.meta!.innerInstructions![0]!.instructions;
+  return Buffer.from(utils.bytes.bs58.decode(instructions[instructions.length - 1]!.data));
+}
+
+describe('swapEvents', () => {
+  describe('decodeSpotSwapEvent', () => {
+    it('should decode a buy event', () => {
+      expect(decodeSpotSwapEvent(eventData(buyV0), decodeEvent)).toEqual({
+        dao: MOCK_DAO_ADDRESS,
+        type: 'buy',
+        inputAmount: 100_000_000n,
+        outputAmount: 2_500_000_000n,
+      });
+    });
+
+    it('should decode a sell event', () => {
+      expect(decodeSpotSwapEvent(eventData(sellLegacy), decodeEvent)).toEqual({
+        dao: MOCK_DAO_ADDRESS,
+        type: 'sell',
+        inputAmount: 1_000_000_000n,
+        outputAmount: 41_500_000n,
+      });
+    });
+
+    it('should pass the IDL coder the event without the CPI tag', () => {
+      const decoded: Buffer[] = [];
+      decodeSpotSwapEvent(eventData(buyV0), data => {
+        decoded.push(data);
+        return null;
+      });
+
+      expect(decoded).toEqual([eventData(buyV0).subarray(8)]);
+    });
+
+    it('should reject data without the CPI tag, other events and unknown swap types', () => {
+      const wrongTag = Buffer.from(eventData(buyV0));
+      wrongTag[0] = 0;
+      expect(decodeSpotSwapEvent(wrongTag, decodeEvent)).toBeNull();
+
+      const event = decodeEvent(eventData(buyV0).subarray(8))!;
+      expect(decodeSpotSwapEvent(eventData(buyV0), () => ({ ...event, name: 'SpotAddLiquidityEvent' }))).toBeNull();
+      expect(decodeSpotSwapEvent(eventData(buyV0), () => ({ ...event, data: { ...event.data, swapType: { other: {} } } }))).toBeNull();
+      expect(decodeSpotSwapEvent(eventData(buyV0), () => null)).toBeNull();
+    });
+  });
+
+  describe('extractSwapTrades', () => {
+    it('should resolve the event authority through lookup table addresses', () => {
+      expect(extractSwapTrades(buyV0, MARKETS, decodeEvent)).toEqual([{
+        tx_id: buyV0.transaction.signatures[0]!,
+        outer_instruction_index: 1,
+        inner_instruction_index: 3,
+        token: MOCK_BASE_MINT,
+        quote_mint: MOCK_QUOTE_MINT,
+        trade_timestamp: '2026-01-07T12:00:30.000Z',
+        type: 'buy',
+        price: '0.040000000000',
+        base_volume: '2500',
+        target_volume: '100',
+      }]);
+    });
+
+    it('should read a sell from a legacy transaction', () => {
+      const [trade] = extractSwapTrades(sellLegacy, MARKETS, decodeEvent);
+
+      expect(trade).toMatchObject({
+        outer_instruction_index: 0,
+        inner_instruction_index: 3,
+        type: 'sell',
+        price: '0.041500000000',
+        base_volume: '1000',
+        target_volume: '41.5',
+      });
+    });
+
+    it('should scale amounts by each token\'s decimals', () => {
+      const markets: SwapMarkets = new Map([
+        [MOCK_DAO_ADDRESS, { baseMint: MOCK_BASE_MINT, quoteMint: MOCK_QUOTE_MINT, baseDecimals: 9, quoteDecimals: 6 }],
+      ]);
+      const [trade] = extractSwapTrades(buyV0, markets, decodeEvent);
+
+      expect(trade!.base_volume).toBe('2.5');
+      expect(trade!.price).toBe('40.000000000000');
+    });
+
+    it('should skip failed transactions', () => {
+      expect(extractSwapTrades(failed, MARKETS, decodeEvent)).toEqual([]);
+    });
+
+    it('should skip transactions without a SpotSwap instruction', () => {
+      expect(extractSwapTrades(otherInstruction, MARKETS, decodeEvent)).toEqual([]);
+    });
+
+    it('should skip swaps of untracked DAOs', () => {
+      expect(extractSwapTrades(buyV0, new Map(), decodeEvent)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'bun:test';
+import { PublicKey, type AccountInfo } from '@solana/web3.js';
+import {
+  AccountLayout,
+  AccountType,
+  ExtensionType,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ACCOUNT_SIZE,
+  MINT_SIZE,
+} from '@solana/spl-token';
+import {
+  chunkKeys,
+  decodeMint,
+  decodeMintDecimals,
+  decodeMintMetadata,
+  decodeTokenAmount,
+  decodeTokenMetadata,
+  describeTokenProgram,
+  findMetadataAddress,
+} from '../src/utils/tokenAccounts.js';
+
+const MINT = new PublicKey('ZKFHiLAfAFMTcDAuCtjNW54VzpERvoe7PBF9mYgmeta');
+const OWNER = new PublicKey('5FPGRzY9ArJFwY2Hp2y2eqMzVewyWCBox7esmpuZfCvE');
+
+function accountInfo(data: Buffer, owner: PublicKey = TOKEN_PROGRAM_ID): AccountInfo<Buffer> {
+  return { data, owner, executable: false, lamports: 1, rentEpoch: 0 };
+}
+
+function mintData(decimals: number): Buffer {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 0,
+    mintAuthority: PublicKey.default,
+    supply: 1_000_000n,
+    decimals,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default,
+  }, data);
+  return data;
+}
+
+function tokenAccountData(amount: bigint): Buffer {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint: MINT,
+    owner: OWNER,
+    amount,
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: 1,
+    isNativeOption: 0,
+    isNative: 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default,
+  }, data);
+  return data;
+}
+
+function stringField(value: string): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(value.length);
+  return Buffer.concat([length, Buffer.from(value, 'utf8')]);
+}
+
+function metadataData(name: string, symbol: string): Buffer {
+  const header = Buffer.alloc(1 + 32 + 32);
+  return Buffer.concat([header, stringField(name), stringField(symbol), stringField('https://example.com')]);
+}
+
+function extension(type: ExtensionType, value: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(value.length, 2);
+  return Buffer.concat([header, value]);
+}
+
+/**
+ * Token-2022 mint: the base mint padded to account size, the account type, then TLV extensions
+ */
+function token2022MintData(decimals: number, extensions: Buffer[]): Buffer {
+  const base = Buffer.alloc(ACCOUNT_SIZE);
+  mintData(decimals).copy(base);
+  return Buffer.concat([base, Buffer.from([AccountType.Mint]), ...extensions]);
+}
+
+function transferFeeExtension(basisPoints: number, maximumFee: bigint, epoch: bigint): Buffer {
+  const fee = (feeEpoch: bigint, feeMax: bigint, feeBps: number) => {
+    const data = Buffer.alloc(18);
+    data.writeBigUInt64LE(feeEpoch, 0);
+    data.writeBigUInt64LE(feeMax, 8);
+    data.writeUInt16LE(feeBps, 16);
+    return data;
+  };
+  return extension(ExtensionType.TransferFeeConfig, Buffer.concat([
+    Buffer.alloc(32 + 32 + 8), // authorities and withheld amount
+    fee(0n, 0n, 0),
+    fee(epoch, maximumFee, basisPoints),
+  ]));
+}
+
+function metadataPointerExtension(metadataAddress: PublicKey): Buffer {
+  return extension(ExtensionType.MetadataPointer, Buffer.concat([Buffer.alloc(32), metadataAddress.toBuffer()]));
+}
+
+function tokenMetadataExtension(name: string, symbol: string): Buffer {
+  return extension(ExtensionType.TokenMetadata, Buffer.concat([
+    Buffer.alloc(32), // update authority
+    MINT.toBuffer(),
+    stringField(name),
+    stringField(symbol),
+    stringField('https://example.com'),
+    Buffer.alloc(4), // no additional metadata
+  ]));
+}
+
+describe('tokenAccounts', () => {
+  describe('chunkKeys', () => {
+    it('should split keys into batches of at most 100', () => {
+      const keys = Array.from({ length: 250 }, () => MINT);
+      expect(chunkKeys(keys).map(chunk => chunk.length)).toEqual([100, 100, 50]);
+      expect(chunkKeys([])).toEqual([]);
+    });
+  });
+
+  describe('decodeMintDecimals', () => {
+    it('should read decimals from a mint account', () => {
+      expect(decodeMintDecimals(MINT, accountInfo(mintData(6)))).toBe(6);
+    });
+
+    it('should read decimals from a Token-2022 mint with extensions', () => {
+      const data = token2022MintData(9, [transferFeeExtension(50, 1_000_000_000n, 600n)]);
+      expect(decodeMintDecimals(MINT, accountInfo(data, TOKEN_2022_PROGRAM_ID))).toBe(9);
+    });
+
+    it('should return null for missing or foreign accounts', () => {
+      expect(decodeMintDecimals(MINT, null)).toBeNull();
+      expect(decodeMintDecimals(MINT, accountInfo(mintData(6), OWNER))).toBeNull();
+      expect(decodeMintDecimals(MINT, accountInfo(Buffer.alloc(10)))).toBeNull();
+    });
+  });
+
+  describe('decodeTokenAmount', () => {
+    it('should read the raw amount from a token account', () => {
+      expect(decodeTokenAmount(OWNER, accountInfo(tokenAccountData(123_456_789n)))).toBe(123_456_789n);
+    });
+
+    it('should read Token-2022 token accounts', () => {
+      expect(decodeTokenAmount(OWNER, accountInfo(tokenAccountData(42n), TOKEN_2022_PROGRAM_ID))).toBe(42n);
+    });
+
+    it('should return null for missing accounts', () => {
+      expect(decodeTokenAmount(OWNER, null)).toBeNull();
+    });
+  });
+
+  describe('describeTokenProgram', () => {
+    it('should report a classic SPL Token mint without extensions', () => {
+      const info = accountInfo(mintData(6));
+      expect(describeTokenProgram(decodeMint(MINT, info)!, info)).toEqual({
+        program: 'spl-token',
+        extensions: [],
+        transferFee: null,
+      });
+    });
+
+    it('should report Token-2022 extensions and the transfer fee in token units', () => {
+      const info = accountInfo(
+        token2022MintData(6, [transferFeeExtension(50, 2_500_000n, 600n), metadataPointerExtension(MINT)]),
+        TOKEN_2022_PROGRAM_ID
+      );
+      expect(describeTokenProgram(decodeMint(MINT, info)!, info)).toEqual({
+        program: 'token-2022',
+        extensions: ['TransferFeeConfig', 'MetadataPointer'],
+        transferFee: { basisPoints: 50, maximumFee: '2.5', epoch: '600' },
+      });
+    });
+  });
+
+  describe('decodeMintMetadata', () => {
+    it('should read name and symbol stored on a Token-2022 mint', () => {
+      const info = accountInfo(
+        token2022MintData(6, [metadataPointerExtension(MINT), tokenMetadataExtension('ZKFG Token', 'ZKFG')]),
+        TOKEN_2022_PROGRAM_ID
+      );
+      expect(decodeMintMetadata(MINT, info)).toEqual({ name: 'ZKFG Token', symbol: 'ZKFG' });
+    });
+
+    it('should return null when the metadata pointer points elsewhere', () => {
+      const info = accountInfo(
+        token2022MintData(6, [metadataPointerExtension(OWNER), tokenMetadataExtension('ZKFG Token', 'ZKFG')]),
+        TOKEN_2022_PROGRAM_ID
+      );
+      expect(decodeMintMetadata(MINT, info)).toBeNull();
+    });
+
+    it('should return null for classic SPL Token mints', () => {
+      expect(decodeMintMetadata(MINT, accountInfo(mintData(6)))).toBeNull();
+    });
+  });
+
+  describe('decodeTokenMetadata', () => {
+    it('should read name and symbol, stripping padding', () => {
+      expect(decodeTokenMetadata(MINT, metadataData('ZKFG Token\0\0\0', 'ZKFG\0\0'))).toEqual({
+        name: 'ZKFG Token',
+        symbol: 'ZKFG',
+      });
+    });
+
+    it('should fall back to the mint prefix for empty fields', () => {
+      expect(decodeTokenMetadata(MINT, metadataData('', ''))).toEqual({ name: 'ZKFHiLAf', symbol: 'ZKFHiLAf' });
+    });
+
+    it('should return null for missing or truncated data', () => {
+      expect(decodeTokenMetadata(MINT, undefined)).toBeNull();
+      expect(decodeTokenMetadata(MINT, Buffer.alloc(40))).toBeNull();
+    });
+  });
+
+  describe('findMetadataAddress', () => {
+    it('should derive the same address for the same mint', () => {
+      expect(findMetadataAddress(MINT).equals(findMetadataAddress(MINT))).toBe(true);
+      expect(findMetadataAddress(MINT).equals(MINT)).toBe(false);
+    });
+  });
+});
@@ -6,6 +6,9 @@ import {
   parseCommaSeparatedList,
   parseSolanaAddress,
   parseRequiredString,
+  parseTickerId,
+  parseEnumParam,
+  parseNumberParam,
 } from '../src/utils/validation.js';
 
 describe('Validation Helpers', () => {
@@ -159,4 +162,76 @@ describe('Validation Helpers', () => {
       if (result.success) expect(result.value).toBe('test');
     });
   });
+  describe('parseTickerId', () => {
+    const base = 'METAwkXcqyXKy1AtsSgJ8JiUHwGCafnZL38n3vYmeta';
+    const target = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+    it('should reject empty input', () => {
+      const result = parseTickerId(undefined, 'ticker_id');
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.error).toBe('Missing required parameter');
+    });
+
+    it('should split a valid ticker id', () => {
+      const result = parseTickerId(`${base}_${target}`, 'ticker_id');
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.value).toEqual({ base, target });
+    });
+
+    it('should reject a ticker id without a target', () => {
+      const result = parseTickerId(base, 'ticker_id');
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.error).toBe('Invalid ticker id');
+    });
+
+    it('should reject invalid addresses', () => {
+      const result = parseTickerId(`${base}_abc123`, 'ticker_id');
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('parseEnumParam', () => {
+    it('should return default for empty input', () => {
+      const result = parseEnumParam(undefined, 'type', ['buy', 'sell'] as const);
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.value).toBeUndefined();
+    });
+
+    it('should accept an allowed value', () => {
+      const result = parseEnumParam('sell', 'type', ['buy', 'sell'] as const);
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.value).toBe('sell');
+    });
+
+    it('should reject other values', () => {
+      const result = parseEnumParam('hold', 'type', ['buy', 'sell'] as const);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.error).toBe('Invalid value');
+    });
+  });
+
+  describe('parseNumberParam', () => {
+    it('should return undefined for empty input', () => {
+      const result = parseNumberParam(undefined, 'test');
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.value).toBeUndefined();
+    });
+
+    it('should parse decimals', () => {
+      const result = parseNumberParam('1500.25', 'test');
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.value).toBe(1500.25);
+    });
+
+    it('should reject non-numeric input', () => {
+      expect(parseNumberParam('abc', 'test').success).toBe(false);
+      expect(parseNumberParam('Infinity', 'test').success).toBe(false);
+    });
+
+    it('should enforce bounds', () => {
+      expect(parseNumberParam('-1', 'test', { min: 0 }).success).toBe(false);
+      expect(parseNumberParam('11', 'test', { max: 10 }).success).toBe(false);
+      expect(parseNumberParam('0', 'test', { min: 0 }).success).toBe(true);
+    });
+  });
 });